@@ -2,6 +2,8 @@
 pragma solidity ^0.8.21;
 
 import "./MerkleTree.sol";
+import {Field} from "./lib/Field.sol";
+import {Poseidon2Raw} from "./lib/Poseidon2Raw.sol";
 
 /**
  * @title IVerifier
@@ -14,6 +16,16 @@ interface IVerifier {
     ) external returns (bool);
 }
 
+/**
+ * @title IERC20
+ * @notice Minimal ERC-20 surface used by the shielded pool
+ */
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
 /**
  * @title BLSGun
  * @notice Privacy-preserving B2B treasury with 2-of-3 FROST threshold signing in ZK.
@@ -24,6 +36,27 @@ interface IVerifier {
  *      2. Check nullifiers (prevent double-spend)
  *      3. Manage the commitment Merkle tree
  *
+ *      Every spend is a 2-in/2-out JoinSplit (transact). privateTransfer and
+ *      unshield are its single-input special cases with the unused slots zeroed.
+ *
+ *      Multi-asset: every note commits to an asset ID (address(0) = native CFX,
+ *      otherwise the ERC-20 token address). A spend names its token, which is a
+ *      circuit public input, and all fees and payouts are made in that token.
+ *      Shields take the note opening and compute the commitment themselves, so
+ *      a deposit always commits to the amount and asset actually received.
+ *
+ *      Note ciphertexts: the stealth metadata published with each spend output
+ *      is a circuit public input, proved to open the output commitment for
+ *      the recipient's viewing key, so a sender cannot make a payment its
+ *      recipient cannot recover. (Shield metadata is the depositor's own
+ *      responsibility and is not checked.) encryptedNote carries the full
+ *      opening and a memo under an authenticated cipher; it is emitted as-is
+ *      and wallets check it against the commitment.
+ *
+ *      Relaying: the fee is paid to msg.sender. Signers can pin the submitter
+ *      by committing a relayer address into the proof, so a third-party
+ *      relayer pays the gas and the treasury's own EOAs never touch the pool.
+ *
  *      No signature parsing, no pairing checks, no public key exposure on-chain.
  */
 contract BLSGun is MerkleTree {
@@ -33,29 +66,82 @@ contract BLSGun is MerkleTree {
     // Nullifier set (spent notes)
     mapping(bytes32 => bool) public nullifiers;
 
+    // JoinSplit arity (must match circuit N_INS / N_OUTS)
+    uint256 internal constant N_INS = 2;
+    uint256 internal constant N_OUTS = 2;
+
+    // Stealth metadata published with a new note (EIP-5564 style)
+    struct StealthMetadata {
+        bytes32 ephPubKeyX;
+        bytes32 ephPubKeyY;
+        uint8   viewTag;
+        uint128 encryptedAmount;
+        bytes   encryptedNote; // Note opening + memo, AEAD-encrypted for the recipient (not checked)
+    }
+
+    // Fee terms approved by the signers (relayer = address(0) lets anyone submit)
+    struct RelayFee {
+        uint256 fee;
+        address relayer;
+    }
+
+    // Public inputs of a JoinSplit spend (zero entries mark unused slots)
+    struct Spend {
+        bytes32[2] nullifiers;
+        bytes32[2] inputCommitments;
+        bytes32 merkleRoot;
+        bytes32[2] outputCommitments;
+        uint256 fee;
+        address relayer;
+        uint256 deadline;
+        address payable recipient;
+        uint256 publicAmount;
+        address token;
+    }
+
     // Events
     event Shield(
         address indexed sender,
         bytes32 indexed commitment,
+        address indexed token,
         bytes32 ephPubKeyX,
         bytes32 ephPubKeyY,
         uint8   viewTag,
-        uint128 encryptedAmount
+        uint128 encryptedAmount,
+        bytes   encryptedNote
     );
 
     event PrivateTransfer(
         bytes32 indexed nullifier,
         bytes32 indexed outputCommitment,
+        address indexed token,
         bytes32 ephPubKeyX,
         bytes32 ephPubKeyY,
         uint8   viewTag,
-        uint128 encryptedAmount
+        uint128 encryptedAmount,
+        bytes   encryptedNote
     );
 
     event Unshield(
         bytes32 indexed nullifier,
         address indexed recipient,
-        uint256 amount
+        address indexed token,
+        uint256 amount,
+        bytes32 changeCommitment,
+        bytes32 ephPubKeyX,
+        bytes32 ephPubKeyY,
+        uint8   viewTag,
+        uint128 encryptedAmount,
+        bytes   encryptedNote
+    );
+
+    event Transact(
+        bytes32[2] nullifiers,
+        bytes32[2] outputCommitments,
+        address indexed recipient,
+        address indexed token,
+        uint256 publicAmount,
+        StealthMetadata[2] outputs
     );
 
     constructor(address _verifier) {
@@ -64,120 +150,486 @@ contract BLSGun is MerkleTree {
 
     /**
      * @notice Shield: Deposit tokens into the privacy pool.
-     * @param commitment The Poseidon commitment hiding the note details.
+     * @param owner The note owner (stealth owner hash).
+     * @param blinding The note blinding factor.
      * @param ephPubKeyX Ephemeral public key X (for stealth ECDH).
      * @param ephPubKeyY Ephemeral public key Y (for stealth ECDH).
      * @param viewTag 1-byte view tag for fast scanning (EIP-5564).
      * @param encryptedAmount XOR-encrypted amount (one-time pad from ECDH).
-     * @dev Accepts native CFX. The commitment is inserted into the Merkle tree.
+     * @param encryptedNote Authenticated ciphertext of the note opening and memo.
+     * @dev Accepts native CFX. The note commits to msg.value and asset ID 0
+     *      (native); its commitment is inserted into the Merkle tree.
      */
     function shield(
-        bytes32 commitment,
+        bytes32 owner,
+        bytes32 blinding,
         bytes32 ephPubKeyX,
         bytes32 ephPubKeyY,
         uint8   viewTag,
-        uint128 encryptedAmount
+        uint128 encryptedAmount,
+        bytes calldata encryptedNote
     ) external payable {
         require(msg.value > 0, "Must deposit value");
-        require(commitment != bytes32(0), "Invalid commitment");
 
+        bytes32 commitment = _noteCommitment(owner, msg.value, blinding, address(0));
         _insertLeaf(commitment);
 
-        emit Shield(msg.sender, commitment, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount);
+        emit Shield(
+            msg.sender,
+            commitment,
+            address(0),
+            ephPubKeyX,
+            ephPubKeyY,
+            viewTag,
+            encryptedAmount,
+            encryptedNote
+        );
+    }
+
+    /**
+     * @notice Shield ERC-20: Deposit tokens into the privacy pool.
+     * @param token The ERC-20 token deposited (the note's asset ID).
+     * @param amount The amount of tokens pulled from msg.sender (needs approval).
+     * @param owner The note owner (stealth owner hash).
+     * @param blinding The note blinding factor.
+     * @param meta Stealth metadata so the owner can find the note.
+     * @dev The note commits to `amount` of `token`. Fee-on-transfer tokens are
+     *      rejected: the pool must receive exactly `amount`, or notes could
+     *      claim more than the pool holds.
+     */
+    function shieldERC20(
+        address token,
+        uint256 amount,
+        bytes32 owner,
+        bytes32 blinding,
+        StealthMetadata calldata meta
+    ) external {
+        require(token != address(0), "Invalid token");
+        require(amount > 0, "Must deposit value");
+
+        bytes32 commitment = _noteCommitment(owner, amount, blinding, token);
+
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        _safeTransferFrom(token, msg.sender, amount);
+        require(
+            IERC20(token).balanceOf(address(this)) - balanceBefore == amount,
+            "Fee-on-transfer token"
+        );
+
+        _insertLeaf(commitment);
+
+        emit Shield(
+            msg.sender,
+            commitment,
+            token,
+            meta.ephPubKeyX,
+            meta.ephPubKeyY,
+            meta.viewTag,
+            meta.encryptedAmount,
+            meta.encryptedNote
+        );
     }
 
     /**
      * @notice Private Transfer: Move funds within the privacy pool.
      * @param nullifier The nullifier of the spent note (prevents double-spend).
      * @param inputCommitment The commitment of the note being spent (proved in ZK).
+     * @param merkleRoot The tree root the proof was generated against (must be recent).
      * @param outputCommitment The new note commitment for the recipient.
+     * @param relay The approved fee, paid to msg.sender, and the only address
+     *        allowed to submit (address(0) = anyone).
+     * @param deadline Unix timestamp after which the proof is no longer accepted.
      * @param proof The ZK proof (proves FROST sig + tx validity inside ZK).
+     * @param output Stealth metadata so the recipient can find the new note.
+     * @param token The asset of the spent and created notes (address(0) = CFX).
      *
      * @dev The ZK proof verifies:
-     *      - The FROST 2-of-3 Schnorr signature is valid
+     *      - The FROST 2-of-3 Schnorr signature is valid over the transaction
+     *        message (nullifier, outputCommitment, fee, relayer, deadline, recipient, amount, asset)
      *      - The nullifier is correctly derived
      *      - The inputCommitment matches the note data
-     *      - The inputCommitment exists in the Merkle tree at the proven root
+     *      - The inputCommitment exists in the Merkle tree at merkleRoot
+     *      - Value is conserved: input amount = output amount + fee
+     *      - `output` is the ciphertext of the output note for its recipient
      */
     function privateTransfer(
         bytes32 nullifier,
         bytes32 inputCommitment,
+        bytes32 merkleRoot,
         bytes32 outputCommitment,
+        RelayFee calldata relay,
+        uint256 deadline,
         bytes calldata proof,
-        bytes32 ephPubKeyX,
-        bytes32 ephPubKeyY,
-        uint8   viewTag,
-        uint128 encryptedAmount
+        StealthMetadata calldata output,
+        address token
     ) external {
-        // 1. Check nullifier not already spent
-        require(!nullifiers[nullifier], "Note already spent");
-
-        // 2. Build public inputs array for verifier
-        // Circuit public inputs: [nullifier, commitment, merkle_root]
-        // where commitment = the INPUT note's commitment (proved to be in tree)
-        bytes32[] memory publicInputs = new bytes32[](3);
-        publicInputs[0] = nullifier;
-        publicInputs[1] = inputCommitment;
-        publicInputs[2] = root;
-
-        // 3. Verify ZK proof
-        require(verifier.verify(proof, publicInputs), "Invalid proof");
-
-        // 4. Mark nullifier as spent
-        nullifiers[nullifier] = true;
+        require(outputCommitment != bytes32(0), "Invalid commitment");
 
-        // 5. Insert new output commitment into Merkle tree
-        _insertLeaf(outputCommitment);
+        // No recipient, no public amount
+        _spend(
+            Spend({
+                nullifiers: [nullifier, bytes32(0)],
+                inputCommitments: [inputCommitment, bytes32(0)],
+                merkleRoot: merkleRoot,
+                outputCommitments: [outputCommitment, bytes32(0)],
+                fee: relay.fee,
+                relayer: relay.relayer,
+                deadline: deadline,
+                recipient: payable(address(0)),
+                publicAmount: 0,
+                token: token
+            }),
+            _firstOutput(output),
+            proof
+        );
 
-        emit PrivateTransfer(nullifier, outputCommitment, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount);
+        emit PrivateTransfer(
+            nullifier,
+            outputCommitment,
+            token,
+            output.ephPubKeyX,
+            output.ephPubKeyY,
+            output.viewTag,
+            output.encryptedAmount,
+            output.encryptedNote
+        );
     }
 
     /**
-     * @notice Unshield: Withdraw funds from the privacy pool.
+     * @notice Unshield: Withdraw CFX from the privacy pool.
      * @param nullifier The nullifier of the spent note.
      * @param inputCommitment The commitment of the note being spent (proved in ZK).
+     * @param merkleRoot The tree root the proof was generated against (must be recent).
      * @param recipient The address to receive the withdrawn funds.
      * @param amount The amount to withdraw.
+     * @param changeCommitment Commitment of the change note returned to the
+     *        treasury (0 when the whole note is withdrawn).
+     * @param relay The approved fee, paid to msg.sender, and the only address
+     *        allowed to submit (address(0) = anyone).
+     * @param deadline Unix timestamp after which the proof is no longer accepted.
      * @param proof The ZK proof proving note ownership via FROST signature.
+     * @param change Stealth metadata so the treasury can find its change note
+     *        (all zero when there is no change).
+     *
+     * @dev recipient and amount are public inputs of the signed message, so the
+     *      proof cannot be replayed towards a different address or amount.
+     *      The circuit proves input amount = amount + change amount + fee.
      */
     function unshield(
         bytes32 nullifier,
         bytes32 inputCommitment,
+        bytes32 merkleRoot,
         address payable recipient,
         uint256 amount,
-        bytes calldata proof
+        bytes32 changeCommitment,
+        RelayFee calldata relay,
+        uint256 deadline,
+        bytes calldata proof,
+        StealthMetadata calldata change
+    ) external {
+        _unshield(
+            Spend({
+                nullifiers: [nullifier, bytes32(0)],
+                inputCommitments: [inputCommitment, bytes32(0)],
+                merkleRoot: merkleRoot,
+                outputCommitments: [changeCommitment, bytes32(0)],
+                fee: relay.fee,
+                relayer: relay.relayer,
+                deadline: deadline,
+                recipient: recipient,
+                publicAmount: amount,
+                token: address(0)
+            }),
+            proof,
+            change
+        );
+    }
+
+    /**
+     * @notice Unshield ERC-20: Withdraw tokens from the privacy pool.
+     * @param token The ERC-20 token held by the spent note.
+     * @dev Same parameters and guarantees as unshield; amount, change and fee
+     *      are denominated in `token`.
+     */
+    function unshieldERC20(
+        address token,
+        bytes32 nullifier,
+        bytes32 inputCommitment,
+        bytes32 merkleRoot,
+        address payable recipient,
+        uint256 amount,
+        bytes32 changeCommitment,
+        RelayFee calldata relay,
+        uint256 deadline,
+        bytes calldata proof,
+        StealthMetadata calldata change
     ) external {
-        require(!nullifiers[nullifier], "Note already spent");
-        require(amount > 0, "Amount must be positive");
+        require(token != address(0), "Invalid token");
+
+        _unshield(
+            Spend({
+                nullifiers: [nullifier, bytes32(0)],
+                inputCommitments: [inputCommitment, bytes32(0)],
+                merkleRoot: merkleRoot,
+                outputCommitments: [changeCommitment, bytes32(0)],
+                fee: relay.fee,
+                relayer: relay.relayer,
+                deadline: deadline,
+                recipient: recipient,
+                publicAmount: amount,
+                token: token
+            }),
+            proof,
+            change
+        );
+    }
+
+    /**
+     * @notice Transact: 2-in/2-out JoinSplit within (and optionally out of) the pool.
+     * @param nullifierSlots Nullifiers of the spent notes (bytes32(0) = unused slot).
+     * @param inputCommitments Commitments of the spent notes (proved in ZK).
+     * @param merkleRoot The tree root the proof was generated against (must be recent).
+     * @param outputCommitments New note commitments (bytes32(0) = unused slot).
+     * @param recipient The address receiving publicAmount (address(0) if none).
+     * @param publicAmount The amount leaving the pool to recipient.
+     * @param relay The approved fee, paid to msg.sender, and the only address
+     *        allowed to submit (address(0) = anyone).
+     * @param deadline Unix timestamp after which the proof is no longer accepted.
+     * @param proof The ZK proof (proves FROST sig + JoinSplit validity inside ZK).
+     * @param outputs Stealth metadata for each output note (all zero for an
+     *        unused slot), proved to encrypt it.
+     * @param token The asset of every note in the JoinSplit (address(0) = CFX).
+     *
+     * @dev The circuit proves sum(inputs) = sum(outputs) + publicAmount + fee,
+     *      so several small notes can pay one vendor and keep the change.
+     */
+    function transact(
+        bytes32[2] calldata nullifierSlots,
+        bytes32[2] calldata inputCommitments,
+        bytes32 merkleRoot,
+        bytes32[2] calldata outputCommitments,
+        address payable recipient,
+        uint256 publicAmount,
+        RelayFee calldata relay,
+        uint256 deadline,
+        bytes calldata proof,
+        StealthMetadata[2] calldata outputs,
+        address token
+    ) external {
+        _spend(
+            Spend({
+                nullifiers: nullifierSlots,
+                inputCommitments: inputCommitments,
+                merkleRoot: merkleRoot,
+                outputCommitments: outputCommitments,
+                fee: relay.fee,
+                relayer: relay.relayer,
+                deadline: deadline,
+                recipient: recipient,
+                publicAmount: publicAmount,
+                token: token
+            }),
+            outputs,
+            proof
+        );
+
+        emit Transact(nullifierSlots, outputCommitments, recipient, token, publicAmount, outputs);
+    }
+
+    /**
+     * @dev Single-input withdrawal with an optional change note (unshield / unshieldERC20).
+     */
+    function _unshield(
+        Spend memory spend,
+        bytes calldata proof,
+        StealthMetadata calldata change
+    ) internal {
+        require(spend.publicAmount > 0, "Amount must be positive");
+
+        // Change note is the only output
+        _spend(spend, _firstOutput(change), proof);
+
+        emit Unshield(
+            spend.nullifiers[0],
+            spend.recipient,
+            spend.token,
+            spend.publicAmount,
+            spend.outputCommitments[0],
+            change.ephPubKeyX,
+            change.ephPubKeyY,
+            change.viewTag,
+            change.encryptedAmount,
+            change.encryptedNote
+        );
+    }
+
+    /**
+     * @dev Shared JoinSplit logic: checks, proof verification, nullifier and
+     *      tree updates, then payouts. Zero entries mark unused slots.
+     *      `outputs` are the ciphertexts emitted for the output notes.
+     */
+    function _spend(
+        Spend memory spend,
+        StealthMetadata[2] memory outputs,
+        bytes calldata proof
+    ) internal {
+        // 1. Check nullifiers not already spent, proof not expired, root recent
+        require(spend.nullifiers[0] != bytes32(0), "No input note");
+        require(spend.nullifiers[0] != spend.nullifiers[1], "Duplicate nullifier");
+        for (uint256 i = 0; i < N_INS; i++) {
+            require(!nullifiers[spend.nullifiers[i]], "Note already spent");
+        }
+        require(block.timestamp <= spend.deadline, "Transaction expired");
+        require(
+            spend.relayer == address(0) || msg.sender == spend.relayer,
+            "Wrong relayer"
+        );
+        require(isKnownRoot(spend.merkleRoot), "Unknown Merkle root");
         require(
-            address(this).balance >= amount,
+            spend.publicAmount == 0 || spend.recipient != address(0),
+            "Invalid recipient"
+        );
+        require(
+            _poolBalance(spend.token) >= spend.publicAmount + spend.fee,
             "Insufficient pool balance"
         );
 
-        // Build public inputs: same circuit [nullifier, commitment, merkle_root]
-        bytes32[] memory publicInputs = new bytes32[](3);
-        publicInputs[0] = nullifier;
-        publicInputs[1] = inputCommitment;
-        publicInputs[2] = root;
+        // 2. Verify ZK proof
+        _verifySpend(spend, outputs, proof);
 
-        // Verify ZK proof
-        require(verifier.verify(proof, publicInputs), "Invalid proof");
+        // 3. Mark nullifiers as spent
+        for (uint256 i = 0; i < N_INS; i++) {
+            if (spend.nullifiers[i] != bytes32(0)) {
+                nullifiers[spend.nullifiers[i]] = true;
+            }
+        }
 
-        // Mark nullifier as spent
-        nullifiers[nullifier] = true;
+        // 4. Insert new output commitments into Merkle tree
+        for (uint256 j = 0; j < N_OUTS; j++) {
+            if (spend.outputCommitments[j] != bytes32(0)) {
+                _insertLeaf(spend.outputCommitments[j]);
+            }
+        }
 
-        // Transfer funds
-        (bool success, ) = recipient.call{value: amount}("");
-        require(success, "Transfer failed");
+        // 5. Pay out the public amount and the approved fee
+        if (spend.publicAmount > 0) {
+            _transferOut(spend.token, spend.recipient, spend.publicAmount);
+        }
+        _payFee(spend.token, spend.fee);
+    }
+
+    /**
+     * @dev Pay the signer-approved fee to whoever submitted the transaction.
+     *      When the proof names a relayer, _spend has already checked that
+     *      msg.sender is that relayer.
+     */
+    function _payFee(address token, uint256 fee) internal {
+        if (fee == 0) return;
+        _transferOut(token, payable(msg.sender), fee);
+    }
 
-        emit Unshield(nullifier, recipient, amount);
+    /**
+     * @dev Send `amount` of `token` (address(0) = CFX) out of the pool.
+     */
+    function _transferOut(address token, address payable to, uint256 amount) internal {
+        if (token == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, "Transfer failed");
+        } else {
+            (bool success, bytes memory data) =
+                token.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+            require(
+                success && (data.length == 0 || abi.decode(data, (bool))),
+                "Token transfer failed"
+            );
+        }
     }
 
     /**
-     * @notice Check if a nullifier has been spent.
+     * @dev Pull `amount` of an ERC-20 token from `from` (tolerates tokens
+     *      that do not return a bool).
      */
-    function isNullifierSpent(bytes32 nullifier) external view returns (bool) {
-        return nullifiers[nullifier];
+    function _safeTransferFrom(address token, address from, uint256 amount) internal {
+        (bool success, bytes memory data) =
+            token.call(abi.encodeCall(IERC20.transferFrom, (from, address(this), amount)));
+        require(
+            success && (data.length == 0 || abi.decode(data, (bool))),
+            "Token transfer failed"
+        );
+    }
+
+    /**
+     * @dev Pool holdings of `token` (address(0) = CFX).
+     */
+    function _poolBalance(address token) internal view returns (uint256) {
+        if (token == address(0)) return address(this).balance;
+        return IERC20(token).balanceOf(address(this));
+    }
+
+    /**
+     * @dev Note commitment Poseidon2(owner, amount, blinding, asset), as in the
+     *      SDK's computeCommitment, with asset ID 0 for CFX and otherwise the
+     *      token address. Every input must be a field element.
+     */
+    function _noteCommitment(
+        bytes32 owner,
+        uint256 amount,
+        bytes32 blinding,
+        address token
+    ) internal pure returns (bytes32) {
+        Field.toField(owner);
+        Field.toField(amount);
+        Field.toField(blinding);
+        return Poseidon2Raw.hash4(owner, bytes32(amount), blinding, bytes32(uint256(uint160(token))));
+    }
+
+    /**
+     * @dev Stealth metadata for a single-output spend: the second slot is unused.
+     */
+    function _firstOutput(StealthMetadata calldata output)
+        internal
+        pure
+        returns (StealthMetadata[2] memory outputs)
+    {
+        outputs[0] = output;
+    }
+
+    /**
+     * @dev Build the circuit public inputs and verify the proof.
+     *      Circuit public inputs: [nullifier[2], commitment[2], merkle_root,
+     *      output_commitment[2], fee, relayer, deadline, recipient, public_amount, asset,
+     *      output_eph_pubkey_x[2], output_eph_pubkey_y[2], output_view_tag[2],
+     *      output_encrypted_amount[2]]
+     *      where commitment = the INPUT notes' commitments (proved to be in tree).
+     */
+    function _verifySpend(
+        Spend memory spend,
+        StealthMetadata[2] memory outputs,
+        bytes calldata proof
+    ) internal {
+        bytes32[] memory publicInputs = new bytes32[](13 + 4 * N_OUTS);
+        publicInputs[0] = spend.nullifiers[0];
+        publicInputs[1] = spend.nullifiers[1];
+        publicInputs[2] = spend.inputCommitments[0];
+        publicInputs[3] = spend.inputCommitments[1];
+        publicInputs[4] = spend.merkleRoot;
+        publicInputs[5] = spend.outputCommitments[0];
+        publicInputs[6] = spend.outputCommitments[1];
+        publicInputs[7] = bytes32(spend.fee);
+        publicInputs[8] = bytes32(uint256(uint160(spend.relayer)));
+        publicInputs[9] = bytes32(spend.deadline);
+        publicInputs[10] = bytes32(uint256(uint160(address(spend.recipient))));
+        publicInputs[11] = bytes32(spend.publicAmount);
+        publicInputs[12] = bytes32(uint256(uint160(spend.token)));
+        for (uint256 j = 0; j < N_OUTS; j++) {
+            StealthMetadata memory output = outputs[j];
+            publicInputs[13 + j] = output.ephPubKeyX;
+            publicInputs[13 + N_OUTS + j] = output.ephPubKeyY;
+            publicInputs[13 + 2 * N_OUTS + j] = bytes32(uint256(output.viewTag));
+            publicInputs[13 + 3 * N_OUTS + j] = bytes32(uint256(output.encryptedAmount));
+        }
+
+        require(verifier.verify(proof, publicInputs), "Invalid proof");
     }
 
     /**
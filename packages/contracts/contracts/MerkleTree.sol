@@ -8,10 +8,14 @@ import {Poseidon2Raw} from "./lib/Poseidon2Raw.sol";
  * @notice Depth-20 Merkle tree using Poseidon2 hash (raw permutation mode).
  * @dev Uses Poseidon2Raw which matches Noir's poseidon2_permutation([a,b,0,0],4)[0]
  *      and the SDK's poseidon2Hash2(a, b).
+ *
+ *      Keeps a ring buffer of the last ROOT_HISTORY_SIZE roots so a proof built
+ *      against a slightly stale root is still accepted after new insertions.
  */
 contract MerkleTree {
     uint256 public constant TREE_DEPTH = 20;
     uint256 public constant MAX_LEAVES = 2 ** TREE_DEPTH;
+    uint32 public constant ROOT_HISTORY_SIZE = 30;
 
     // Zero hashes for empty subtrees at each level
     bytes32[21] public zeroHashes;
@@ -25,6 +29,10 @@ contract MerkleTree {
     // Current root
     bytes32 public root;
 
+    // Recent roots (ring buffer, roots[currentRootIndex] == root)
+    bytes32[ROOT_HISTORY_SIZE] public roots;
+    uint32 public currentRootIndex;
+
     constructor() {
         // Initialize zero hashes
         zeroHashes[0] = bytes32(0);
@@ -38,6 +46,7 @@ contract MerkleTree {
         }
 
         root = zeroHashes[TREE_DEPTH];
+        roots[0] = root;
     }
 
     /**
@@ -66,6 +75,26 @@ contract MerkleTree {
 
         root = currentHash;
         nextLeafIndex = index + 1;
+
+        currentRootIndex = (currentRootIndex + 1) % ROOT_HISTORY_SIZE;
+        roots[currentRootIndex] = currentHash;
+    }
+
+    /**
+     * @notice Check whether a root is one of the last ROOT_HISTORY_SIZE roots
+     * @param _root The root a proof was generated against
+     * @return True if the root is in the history buffer
+     */
+    function isKnownRoot(bytes32 _root) public view returns (bool) {
+        if (_root == bytes32(0)) return false;
+
+        uint32 i = currentRootIndex;
+        do {
+            if (roots[i] == _root) return true;
+            i = i == 0 ? ROOT_HISTORY_SIZE - 1 : i - 1;
+        } while (i != currentRootIndex);
+
+        return false;
     }
 
     /**
@@ -10,6 +10,7 @@ import {Poseidon2Lib} from "./Poseidon2Lib.sol";
  * @dev Unlike the sponge-based hash_2 in Poseidon2Lib, this applies the permutation
  *      directly to state [a, b, 0, 0] and returns state[0].
  *      This matches the SDK's poseidon2Hash2() and the Noir circuit's hash_2().
+ *      hash4 does the same over the full state [a, b, c, d] (SDK poseidon2Hash4).
  */
 library Poseidon2Raw {
     using Field for *;
@@ -32,4 +33,23 @@ library Poseidon2Raw {
 
         return state[0].toBytes32();
     }
+
+    function hash4(bytes32 a, bytes32 b, bytes32 c, bytes32 d) internal pure returns (bytes32) {
+        Poseidon2Lib.Constants memory constants = Poseidon2Lib.load();
+
+        Field.Type[4] memory state = [
+            a.toFieldUnchecked(),
+            b.toFieldUnchecked(),
+            c.toFieldUnchecked(),
+            d.toFieldUnchecked()
+        ];
+
+        state = Poseidon2Lib.permutation(
+            state,
+            constants.internal_matrix_diagonal,
+            constants.round_constant
+        );
+
+        return state[0].toBytes32();
+    }
 }
@@ -47,8 +47,8 @@ async function main() {
   // Fund on local networks only
   if (isLocal) {
     console.log("\nFunding BLSGun with 10 ETH via shield()...");
-    const dummyCommitment = ethers.keccak256(ethers.toUtf8Bytes("demo-deposit"));
-    const tx = await blsgun.shield(dummyCommitment, ethers.ZeroHash, ethers.ZeroHash, 0, 0, {
+    // Owner 0 with blinding 0: a demo note nobody can spend
+    const tx = await blsgun.shield(ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash, 0, 0, "0x", {
       value: ethers.parseEther("10"),
     });
     await tx.wait();
@@ -12,6 +12,9 @@
  *   5. Wrong spending key → circuit rejects (commitment mismatch)
  *   6. Wrong nullifier → circuit rejects
  *   7. Wrong message (sign different M) → circuit rejects
+ *   8. Swapped output commitment (not what signers approved) → circuit rejects
+ *   9. Output worth more than the input note → circuit rejects
+ *  10. Output ciphertext that does not open the note → circuit rejects
  *
  * Usage:
  *   Terminal 1: cd packages/contracts && bun run node
@@ -21,8 +24,8 @@ import {
   createPublicClient,
   createWalletClient,
   http,
-  parseEther,
   formatEther,
+  zeroAddress,
   type Hex,
   type Address,
 } from "viem";
@@ -35,17 +38,27 @@ import { execSync } from "child_process";
 import {
   initHash,
   poseidon2Hash2,
+  poseidon2Hash3,
+  deriveNullifyingKey,
+  computeNullifierKeyCommitment,
   generateMasterKeyPackage,
   createSignerKeyMaterial,
   frostSign,
   frostVerify,
   computeCommitment,
   computeNullifier,
+  computeTransactionMessage,
+  createStealthMetaAddress,
+  createStealthNote,
+  encryptStealthNote,
   MerkleTree,
   buildCircuitInputs,
   Fr,
   type CircuitInputs,
   type MasterKeyPackage,
+  type Note,
+  type StealthNote,
+  type UnsignedTransaction,
 } from "../../sdk/src/index.ts";
 
 // -- Paths --
@@ -72,6 +85,7 @@ const walletClient = createWalletClient({
 });
 
 const ZERO_BYTES32: Hex = `0x${"0".repeat(64)}`;
+const DEADLINE = BigInt(Math.floor(Date.now() / 1000) + 3600);
 
 // -- Helpers --
 
@@ -82,19 +96,56 @@ function loadArtifact(path: string) {
 function toProverToml(inputs: CircuitInputs): string {
   const lines: string[] = [];
   for (const [key, value] of Object.entries(inputs)) {
-    if (Array.isArray(value)) {
-      lines.push(`${key} = [${value.map((v) => `"${v}"`).join(", ")}]`);
-    } else {
-      lines.push(`${key} = "${value}"`);
-    }
+    lines.push(`${key} = ${toTomlValue(value)}`);
   }
   return lines.join("\n");
 }
 
+function toTomlValue(value: string | string[] | string[][]): string {
+  if (Array.isArray(value)) {
+    return `[${(value as (string | string[])[]).map(toTomlValue).join(", ")}]`;
+  }
+  return `"${value}"`;
+}
+
 function toBytes32(n: bigint): Hex {
   return `0x${n.toString(16).padStart(64, "0")}`;
 }
 
+function noteCommitment(note: Note): bigint {
+  return computeCommitment(note.owner, note.amount, note.blinding);
+}
+
+/**
+ * On-chain stealth metadata: the ciphertext the circuit proves for the note,
+ * plus its encrypted opening and memo
+ */
+function outputMetadata(note: StealthNote, memo = "") {
+  return {
+    ephPubKeyX: toBytes32(note.ciphertext.ephemeralPublicKey.x),
+    ephPubKeyY: toBytes32(note.ciphertext.ephemeralPublicKey.y),
+    viewTag: Number(note.ciphertext.viewTag),
+    encryptedAmount: note.ciphertext.encryptedAmount,
+    encryptedNote: encryptStealthNote(note, memo) as Hex,
+  };
+}
+
+/** Unsigned private transfer spending one note into one output note (no fee) */
+function transferTx(nullifier: bigint, outputNote: Note): UnsignedTransaction {
+  const outputCommitment = noteCommitment(outputNote);
+  return {
+    inputNullifiers: [nullifier],
+    outputCommitments: [outputCommitment],
+    fee: 0n,
+    relayer: 0n,
+    deadline: DEADLINE,
+    recipient: 0n,
+    publicAmount: 0n,
+    asset: 0n,
+    message: computeTransactionMessage([nullifier], [outputCommitment], 0n, DEADLINE),
+  };
+}
+
 /** Try to generate witness — returns true if circuit accepts, false if it rejects */
 function tryWitness(inputs: CircuitInputs): boolean {
   const proverToml = toProverToml(inputs);
@@ -150,11 +201,13 @@ const blsGunAbi = [
     name: "shield" as const,
     stateMutability: "payable" as const,
     inputs: [
-      { name: "commitment", type: "bytes32" as const },
+      { name: "owner", type: "bytes32" as const },
+      { name: "blinding", type: "bytes32" as const },
       { name: "ephPubKeyX", type: "bytes32" as const },
       { name: "ephPubKeyY", type: "bytes32" as const },
       { name: "viewTag", type: "uint8" as const },
       { name: "encryptedAmount", type: "uint128" as const },
+      { name: "encryptedNote", type: "bytes" as const },
     ],
     outputs: [],
   },
@@ -165,12 +218,30 @@ const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" as const },
       { name: "inputCommitment", type: "bytes32" as const },
+      { name: "merkleRoot", type: "bytes32" as const },
       { name: "outputCommitment", type: "bytes32" as const },
+      {
+        name: "relay",
+        type: "tuple" as const,
+        components: [
+          { name: "fee", type: "uint256" as const },
+          { name: "relayer", type: "address" as const },
+        ],
+      },
+      { name: "deadline", type: "uint256" as const },
       { name: "proof", type: "bytes" as const },
-      { name: "ephPubKeyX", type: "bytes32" as const },
-      { name: "ephPubKeyY", type: "bytes32" as const },
-      { name: "viewTag", type: "uint8" as const },
-      { name: "encryptedAmount", type: "uint128" as const },
+      {
+        name: "output",
+        type: "tuple" as const,
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" as const },
+          { name: "ephPubKeyY", type: "bytes32" as const },
+          { name: "viewTag", type: "uint8" as const },
+          { name: "encryptedAmount", type: "uint128" as const },
+          { name: "encryptedNote", type: "bytes" as const },
+        ],
+      },
+      { name: "token", type: "address" as const },
     ],
     outputs: [],
   },
@@ -182,16 +253,18 @@ function buildInputsForSignerPair(
   signerIdxA: number,
   signerIdxB: number,
   nonceIdx: number,
-  spendKey: bigint,
+  nullifyingKey: bigint,
   amount: bigint,
   blinding: bigint,
   commitment: bigint,
   leafIdx: number,
   tree: InstanceType<typeof MerkleTree>,
+  outputNote: StealthNote,
 ): CircuitInputs {
   const merkleProof = tree.generateProof(leafIdx);
-  const nullifier = computeNullifier(spendKey, BigInt(leafIdx));
-  const message = poseidon2Hash2(nullifier, commitment);
+  const nullifier = computeNullifier(nullifyingKey, commitment, BigInt(leafIdx));
+  const tx = transferTx(nullifier, outputNote);
+  const message = tx.message;
 
   const sA = createSignerKeyMaterial(pkg, signerIdxA, nonceIdx + 1);
   const sB = createSignerKeyMaterial(pkg, signerIdxB, nonceIdx + 1);
@@ -210,8 +283,8 @@ function buildInputsForSignerPair(
   if (!valid) throw new Error("FROST verify failed off-chain");
 
   return buildCircuitInputs(
-    sig, pkg.groupPublicKey, spendKey, amount, blinding,
-    merkleProof, nullifier, commitment,
+    sig, pkg.groupPublicKey, nullifyingKey, 0n, amount, blinding,
+    merkleProof, tx, commitment, outputNote,
   );
 }
 
@@ -275,7 +348,14 @@ async function main() {
   // Generate FROST 2-of-3 keys
   console.log("[Setup] Generating FROST 2-of-3 keys...");
   const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3, nonceCount: 20 });
-  const spendKey = poseidon2Hash2(pkg.groupPublicKey.x, pkg.groupPublicKey.y);
+  // The note is owned by the group key itself (stealth scalar 0), bound to the
+  // nullifying key derived from the viewing key
+  const nullifyingKey = deriveNullifyingKey(pkg.viewingSecretKey);
+  const spendKey = poseidon2Hash3(
+    pkg.groupPublicKey.x,
+    pkg.groupPublicKey.y,
+    computeNullifierKeyCommitment(nullifyingKey),
+  );
   console.log("  Group PK:", toBytes32(pkg.groupPublicKey.x).slice(0, 22) + "...");
 
   // Create note
@@ -286,6 +366,16 @@ async function main() {
   const tree = new MerkleTree(20);
   tree.insert(commitment);
 
+  // Outputs are paid back to the treasury's own stealth meta-address
+  const treasuryMeta = createStealthMetaAddress(
+    pkg.groupPublicKey,
+    pkg.viewingPublicKey,
+    computeNullifierKeyCommitment(nullifyingKey),
+  );
+
+  // Output note for the circuit-only rejection tests
+  const TEST_OUTPUT = createStealthNote(treasuryMeta, "CFX", amount);
+
   console.log("\n--------------------------------------------");
   console.log("Test 1: FROST signers (1,2) -> ZK proof + on-chain verify");
   console.log("--------------------------------------------");
@@ -298,18 +388,19 @@ async function main() {
       address: gun,
       abi: blsGunAbi,
       functionName: "shield",
-      args: [toBytes32(commitment), ZERO_BYTES32, ZERO_BYTES32, 0, 0n],
-      value: parseEther("1"),
+      args: [toBytes32(spendKey), toBytes32(blinding), ZERO_BYTES32, ZERO_BYTES32, 0, 0n, "0x"],
+      value: amount,
     });
     await publicClient.waitForTransactionReceipt({ hash: shieldHash });
 
-    const inputs = buildInputsForSignerPair(pkg, 0, 1, 0, spendKey, amount, blinding, commitment, 0, tree);
+    const outputNote = createStealthNote(treasuryMeta, "CFX", amount);
+    const outputCommitment = noteCommitment(outputNote);
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 0, nullifyingKey, amount, blinding, commitment, 0, tree, outputNote);
 
     console.log("  Generating ZK proof...");
     const { proofBytes, publicInputs } = generateProofAndInputs(inputs);
     console.log("  Proof size:", (proofBytes.length - 2) / 2, "bytes");
 
-    const outputCommitment = computeCommitment(999n, amount, 0x42n);
     try {
       const txHash = await walletClient.writeContract({
         address: gun,
@@ -317,10 +408,14 @@ async function main() {
         functionName: "privateTransfer",
         args: [
           publicInputs[0],
-          publicInputs[1],
+          publicInputs[2],
+          publicInputs[4],
           toBytes32(outputCommitment),
+          { fee: 0n, relayer: zeroAddress },
+          DEADLINE,
           proofBytes,
-          ZERO_BYTES32, ZERO_BYTES32, 0, 0n,
+          outputMetadata(outputNote),
+          zeroAddress,
         ],
       });
       await publicClient.waitForTransactionReceipt({ hash: txHash });
@@ -339,17 +434,18 @@ async function main() {
       address: gun,
       abi: blsGunAbi,
       functionName: "shield",
-      args: [toBytes32(commitment), ZERO_BYTES32, ZERO_BYTES32, 0, 0n],
-      value: parseEther("1"),
+      args: [toBytes32(spendKey), toBytes32(blinding), ZERO_BYTES32, ZERO_BYTES32, 0, 0n, "0x"],
+      value: amount,
     });
     await publicClient.waitForTransactionReceipt({ hash: shieldHash });
 
-    const inputs = buildInputsForSignerPair(pkg, 0, 2, 1, spendKey, amount, blinding, commitment, 0, tree);
+    const outputNote = createStealthNote(treasuryMeta, "CFX", amount);
+    const outputCommitment = noteCommitment(outputNote);
+    const inputs = buildInputsForSignerPair(pkg, 0, 2, 1, nullifyingKey, amount, blinding, commitment, 0, tree, outputNote);
 
     console.log("  Generating ZK proof...");
     const { proofBytes, publicInputs } = generateProofAndInputs(inputs);
 
-    const outputCommitment = computeCommitment(888n, amount, 0x43n);
     try {
       const txHash = await walletClient.writeContract({
         address: gun,
@@ -357,10 +453,14 @@ async function main() {
         functionName: "privateTransfer",
         args: [
           publicInputs[0],
-          publicInputs[1],
+          publicInputs[2],
+          publicInputs[4],
           toBytes32(outputCommitment),
+          { fee: 0n, relayer: zeroAddress },
+          DEADLINE,
           proofBytes,
-          ZERO_BYTES32, ZERO_BYTES32, 0, 0n,
+          outputMetadata(outputNote),
+          zeroAddress,
         ],
       });
       await publicClient.waitForTransactionReceipt({ hash: txHash });
@@ -379,17 +479,18 @@ async function main() {
       address: gun,
       abi: blsGunAbi,
       functionName: "shield",
-      args: [toBytes32(commitment), ZERO_BYTES32, ZERO_BYTES32, 0, 0n],
-      value: parseEther("1"),
+      args: [toBytes32(spendKey), toBytes32(blinding), ZERO_BYTES32, ZERO_BYTES32, 0, 0n, "0x"],
+      value: amount,
     });
     await publicClient.waitForTransactionReceipt({ hash: shieldHash });
 
-    const inputs = buildInputsForSignerPair(pkg, 1, 2, 2, spendKey, amount, blinding, commitment, 0, tree);
+    const outputNote = createStealthNote(treasuryMeta, "CFX", amount);
+    const outputCommitment = noteCommitment(outputNote);
+    const inputs = buildInputsForSignerPair(pkg, 1, 2, 2, nullifyingKey, amount, blinding, commitment, 0, tree, outputNote);
 
     console.log("  Generating ZK proof...");
     const { proofBytes, publicInputs } = generateProofAndInputs(inputs);
 
-    const outputCommitment = computeCommitment(777n, amount, 0x44n);
     try {
       const txHash = await walletClient.writeContract({
         address: gun,
@@ -397,10 +498,14 @@ async function main() {
         functionName: "privateTransfer",
         args: [
           publicInputs[0],
-          publicInputs[1],
+          publicInputs[2],
+          publicInputs[4],
           toBytes32(outputCommitment),
+          { fee: 0n, relayer: zeroAddress },
+          DEADLINE,
           proofBytes,
-          ZERO_BYTES32, ZERO_BYTES32, 0, 0n,
+          outputMetadata(outputNote),
+          zeroAddress,
         ],
       });
       await publicClient.waitForTransactionReceipt({ hash: txHash });
@@ -414,7 +519,7 @@ async function main() {
   console.log("Test 4: Tampered signature -> circuit rejects");
   console.log("--------------------------------------------");
   {
-    const inputs = buildInputsForSignerPair(pkg, 0, 1, 3, spendKey, amount, blinding, commitment, 0, tree);
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 3, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
 
     // Tamper with signature_z_lo (flip a bit)
     const zLo = BigInt(inputs.signature_z_lo);
@@ -432,7 +537,7 @@ async function main() {
   console.log("Test 5: Wrong group public key -> circuit rejects");
   console.log("--------------------------------------------");
   {
-    const inputs = buildInputsForSignerPair(pkg, 0, 1, 4, spendKey, amount, blinding, commitment, 0, tree);
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 4, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
 
     // Use a different group's public key
     const wrongPkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3, nonceCount: 1 });
@@ -448,36 +553,42 @@ async function main() {
   }
 
   console.log("\n--------------------------------------------");
-  console.log("Test 6: Wrong spending key -> circuit rejects (commitment mismatch)");
+  console.log("Test 6: Signature by a throwaway key -> circuit rejects (owner bound to group key)");
   console.log("--------------------------------------------");
   {
-    const wrongSpendKey = poseidon2Hash2(42n, 43n);
-    const merkleProof = tree.generateProof(0);
-    const nullifier = computeNullifier(wrongSpendKey, 0n);
-    const message = poseidon2Hash2(nullifier, commitment);
-
-    const sA = createSignerKeyMaterial(pkg, 0, 6);
-    const sB = createSignerKeyMaterial(pkg, 1, 6);
+    // The sender of a note knows its spending key hash. Without the binding,
+    // they could sign the spend with any key of their own.
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 5, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
+    const tx = transferTx(BigInt(inputs.nullifier[0]), TEST_OUTPUT);
+
+    const attackerPkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3, nonceCount: 1 });
+    const aA = createSignerKeyMaterial(attackerPkg, 0, 1);
+    const aB = createSignerKeyMaterial(attackerPkg, 1, 1);
     const sig = frostSign(
-      message,
+      tx.message,
       [
-        { index: sA.share.index, secretShare: sA.share.secretShare, nonce: sA.nonces[5] },
-        { index: sB.share.index, secretShare: sB.share.secretShare, nonce: sB.nonces[5] },
+        { index: aA.share.index, secretShare: aA.share.secretShare, nonce: aA.nonces[0] },
+        { index: aB.share.index, secretShare: aB.share.secretShare, nonce: aB.nonces[0] },
       ],
-      pkg.groupPublicKey,
-      pkg.threshold,
+      attackerPkg.groupPublicKey,
+      attackerPkg.threshold,
     );
+    if (!frostVerify(sig, tx.message, attackerPkg.groupPublicKey)) {
+      throw new Error("Off-chain verify of the attacker's sig should pass");
+    }
 
-    const inputs = buildCircuitInputs(
-      sig, pkg.groupPublicKey, wrongSpendKey, amount, blinding,
-      merkleProof, nullifier, commitment,
-    );
+    inputs.signature_R_x = "0x" + sig.R.x.toString(16);
+    inputs.signature_R_y = "0x" + sig.R.y.toString(16);
+    inputs.signature_z_lo = "0x" + (sig.z & ((1n << 128n) - 1n)).toString(16);
+    inputs.signature_z_hi = "0x" + (sig.z >> 128n).toString(16);
+    inputs.group_pubkey_x = "0x" + attackerPkg.groupPublicKey.x.toString(16);
+    inputs.group_pubkey_y = "0x" + attackerPkg.groupPublicKey.y.toString(16);
 
     const accepted = tryWitness(inputs);
     if (!accepted) {
-      ok("Wrong spending key: circuit rejected (commitment mismatch)");
+      ok("Throwaway key: circuit rejected (nullifier derived from the signing key does not match)");
     } else {
-      fail("Wrong spending key", "Circuit should have rejected wrong spending key");
+      fail("Throwaway key", "Circuit should have rejected a signature by a key that does not own the note");
     }
   }
 
@@ -485,10 +596,10 @@ async function main() {
   console.log("Test 7: Wrong nullifier -> circuit rejects");
   console.log("--------------------------------------------");
   {
-    const inputs = buildInputsForSignerPair(pkg, 0, 1, 6, spendKey, amount, blinding, commitment, 0, tree);
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 6, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
 
     // Tamper with the nullifier public input
-    inputs.nullifier = "0x" + (BigInt(inputs.nullifier) ^ 1n).toString(16);
+    inputs.nullifier[0] = "0x" + (BigInt(inputs.nullifier[0]) ^ 1n).toString(16);
 
     const accepted = tryWitness(inputs);
     if (!accepted) {
@@ -503,7 +614,7 @@ async function main() {
   console.log("--------------------------------------------");
   {
     const merkleProof = tree.generateProof(0);
-    const nullifier = computeNullifier(spendKey, 0n);
+    const nullifier = computeNullifier(nullifyingKey, commitment, 0n);
     const wrongMessage = poseidon2Hash2(42n, 43n);
 
     const sA = createSignerKeyMaterial(pkg, 0, 8);
@@ -523,18 +634,67 @@ async function main() {
     }
 
     const inputs = buildCircuitInputs(
-      sig, pkg.groupPublicKey, spendKey, amount, blinding,
-      merkleProof, nullifier, commitment,
+      sig, pkg.groupPublicKey, nullifyingKey, 0n, amount, blinding,
+      merkleProof, transferTx(nullifier, TEST_OUTPUT), commitment, TEST_OUTPUT,
     );
 
     const accepted = tryWitness(inputs);
     if (!accepted) {
-      ok("Wrong message: circuit rejected (sig verified against hash_2(nullifier, commitment), not wrong M)");
+      ok("Wrong message: circuit rejected (sig verified against the transaction message, not wrong M)");
     } else {
       fail("Wrong message", "Circuit should have rejected signature over wrong message");
     }
   }
 
+  console.log("\n--------------------------------------------");
+  console.log("Test 9: Swapped output commitment -> circuit rejects");
+  console.log("--------------------------------------------");
+  {
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 9, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
+
+    // Redirect the output to a commitment the signers never approved
+    inputs.output_commitment[0] = "0x" + computeCommitment(666n, amount, 0x46n).toString(16);
+
+    const accepted = tryWitness(inputs);
+    if (!accepted) {
+      ok("Swapped output: circuit rejected (output commitment is bound into the signed message)");
+    } else {
+      fail("Swapped output", "Circuit should have rejected an output the signers did not approve");
+    }
+  }
+
+  console.log("\n--------------------------------------------");
+  console.log("Test 10: Output worth more than the input note -> circuit rejects");
+  console.log("--------------------------------------------");
+  {
+    const inflated = createStealthNote(treasuryMeta, "CFX", amount + 1n);
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 10, nullifyingKey, amount, blinding, commitment, 0, tree, inflated);
+
+    const accepted = tryWitness(inputs);
+    if (!accepted) {
+      ok("Inflated output: circuit rejected (value not conserved)");
+    } else {
+      fail("Inflated output", "Circuit should have rejected an output larger than the input");
+    }
+  }
+
+  console.log("\n--------------------------------------------");
+  console.log("Test 11: Output ciphertext that does not open the note -> circuit rejects");
+  console.log("--------------------------------------------");
+  {
+    const inputs = buildInputsForSignerPair(pkg, 0, 1, 11, nullifyingKey, amount, blinding, commitment, 0, tree, TEST_OUTPUT);
+
+    // Publish a different amount than the note holds: the recipient would mis-scan it
+    inputs.output_encrypted_amount[0] = "0x" + (BigInt(inputs.output_encrypted_amount[0]) ^ 1n).toString(16);
+
+    const accepted = tryWitness(inputs);
+    if (!accepted) {
+      ok("Bad ciphertext: circuit rejected (ciphertext re-derived from the recipient's keys)");
+    } else {
+      fail("Bad ciphertext", "Circuit should have rejected a ciphertext that does not open the output");
+    }
+  }
+
   // -- Summary --
 
   console.log("\n==================================================");
@@ -0,0 +1,175 @@
+/**
+ * BLSGun Relayer: submits signed spends on behalf of a treasury
+ *
+ * Signers commit this relayer's address and fee into the proof; the relayer
+ * pays the gas and BLSGun pays it the fee, so no treasury EOA ever appears
+ * as the sender of a private action.
+ *
+ *   GET  /info   -> { address, contract, chainId, fees }
+ *   POST /relay  -> { functionName, args } => { txHash }
+ *
+ * Payloads use the SDK's relay encoding (bigints as "123n").
+ *
+ * Usage:
+ *   RELAYER_PRIVATE_KEY=0x... BLSGUN_ADDRESS=0x... bun run relayer
+ *
+ * Env:
+ *   RPC_URL             JSON-RPC endpoint (default http://127.0.0.1:8545)
+ *   RELAYER_PORT        HTTP port (default 8546)
+ *   BLSGUN_ADDRESS      Pool address (default: deployments/localhost.json)
+ *   RELAYER_FEE         Minimum CFX fee in wei (default 0)
+ *   RELAYER_TOKEN_FEES  Accepted ERC-20s as "0xToken:minFee,..." (default none)
+ */
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  zeroAddress,
+  type Abi,
+  type Address,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { readFileSync } from "fs";
+import { join, resolve } from "path";
+
+import {
+  RELAYABLE_FUNCTIONS,
+  encodeRelayPayload,
+  decodeRelayPayload,
+  type RelayRequest,
+} from "../../sdk/src/relayer.ts";
+
+// -- Config --
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const PORT = Number(process.env.RELAYER_PORT || 8546);
+
+const CONTRACTS_DIR = resolve(import.meta.dir, "..");
+const ARTIFACTS_DIR = join(CONTRACTS_DIR, "artifacts/contracts");
+
+if (!process.env.RELAYER_PRIVATE_KEY) {
+  throw new Error("RELAYER_PRIVATE_KEY is not set");
+}
+const account = privateKeyToAccount(process.env.RELAYER_PRIVATE_KEY as Hex);
+
+const contract = (process.env.BLSGUN_ADDRESS ||
+  JSON.parse(readFileSync(join(CONTRACTS_DIR, "deployments/localhost.json"), "utf-8")).blsgun) as Address;
+
+const abi = JSON.parse(
+  readFileSync(join(ARTIFACTS_DIR, "BLSGun.sol/BLSGun.json"), "utf-8")
+).abi as Abi;
+
+/** Minimum fee per asset, keyed by lowercase token address (zero address = CFX) */
+const fees: Record<string, bigint> = { [zeroAddress]: BigInt(process.env.RELAYER_FEE || 0) };
+for (const entry of (process.env.RELAYER_TOKEN_FEES || "").split(",").filter(Boolean)) {
+  const [token, fee] = entry.split(":");
+  fees[token.toLowerCase()] = BigInt(fee);
+}
+
+// -- Clients --
+
+const publicClient = createPublicClient({ transport: http(RPC_URL) });
+const chainId = await publicClient.getChainId();
+const chain = defineChain({
+  id: chainId,
+  name: `chain-${chainId}`,
+  nativeCurrency: { name: "CFX", symbol: "CFX", decimals: 18 },
+  rpcUrls: { default: { http: [RPC_URL] } },
+});
+
+const walletClient = createWalletClient({ account, chain, transport: http(RPC_URL) });
+
+// -- Request validation --
+
+/** Position of a named parameter of a relayable function */
+function argIndex(functionName: string, name: string): number {
+  const fn = abi.find((item) => item.type === "function" && item.name === functionName);
+  if (!fn || fn.type !== "function") throw new Error(`Unknown function ${functionName}`);
+  return fn.inputs.findIndex((input) => input.name === name);
+}
+
+/**
+ * Reject requests this relayer would not be paid for. The contract enforces
+ * the relayer address too; checking here avoids paying gas for a revert.
+ */
+function checkRequest(request: RelayRequest): void {
+  if (!RELAYABLE_FUNCTIONS.includes(request.functionName)) {
+    throw new Error(`${request.functionName} cannot be relayed`);
+  }
+
+  const relay = request.args[argIndex(request.functionName, "relay")] as {
+    fee: bigint;
+    relayer: string;
+  };
+  if (relay.relayer.toLowerCase() !== account.address.toLowerCase()) {
+    throw new Error("Proof does not name this relayer");
+  }
+
+  // unshield has no token argument: it always pays out CFX
+  const tokenIdx = argIndex(request.functionName, "token");
+  const token = tokenIdx < 0 ? zeroAddress : (request.args[tokenIdx] as string).toLowerCase();
+  const minFee = fees[token];
+  if (minFee === undefined) throw new Error(`Token ${token} not accepted`);
+  if (relay.fee < minFee) throw new Error(`Fee below minimum (${minFee})`);
+}
+
+async function relay(request: RelayRequest): Promise<Hex> {
+  checkRequest(request);
+
+  // Simulate first so a bad proof or spent note costs nothing
+  const { request: tx } = await publicClient.simulateContract({
+    address: contract,
+    abi,
+    functionName: request.functionName,
+    args: request.args,
+    account,
+  });
+  return walletClient.writeContract(tx);
+}
+
+// -- HTTP --
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+function reply(body: unknown, status = 200): Response {
+  return new Response(encodeRelayPayload(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS },
+  });
+}
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const { pathname } = new URL(req.url);
+    if (req.method === "OPTIONS") return new Response(null, { headers: CORS_HEADERS });
+
+    if (req.method === "GET" && pathname === "/info") {
+      return reply({ address: account.address, contract, chainId, fees });
+    }
+
+    if (req.method === "POST" && pathname === "/relay") {
+      try {
+        const request = decodeRelayPayload<RelayRequest>(await req.text());
+        const txHash = await relay(request);
+        console.log(`Relayed ${request.functionName}: ${txHash}`);
+        return reply({ txHash });
+      } catch (e: any) {
+        const error = e.shortMessage ?? e.message ?? String(e);
+        console.log(`Rejected: ${error}`);
+        return reply({ error }, 400);
+      }
+    }
+
+    return reply({ error: "Not found" }, 404);
+  },
+});
+
+console.log(`Relayer ${account.address} for BLSGun ${contract} (chain ${chainId})`);
+console.log(`Listening on http://127.0.0.1:${PORT}`);
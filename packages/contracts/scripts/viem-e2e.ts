@@ -21,6 +21,7 @@ import {
   http,
   parseEther,
   formatEther,
+  zeroAddress,
   getContractAddress as getCreateAddress,
   type Hex,
   type Address,
@@ -33,13 +34,13 @@ import { execSync } from "child_process";
 
 import {
   initHash,
-  poseidon2Hash2,
   generateMasterKeyPackage,
   createSignerKeyMaterial,
   frostSign,
   frostVerify,
   computeCommitment,
   computeNullifier,
+  computeTransactionMessage,
   MerkleTree,
   buildCircuitInputs,
   Fr,
@@ -47,13 +48,19 @@ import {
   type CircuitInputs,
   type MasterKeyPackage,
   type GrumpkinPoint,
+  type StealthNote,
 } from "../../sdk/src/index.ts";
 
 import {
   generateStealthAddress,
   checkStealthAddress,
   createStealthMetaAddress,
+  deriveNullifyingKey,
+  computeNullifierKeyCommitment,
+  computeStealthPublicKey,
+  createStealthNote,
 } from "../../sdk/src/stealth.ts";
+import { encryptNote, encryptStealthNote, decryptNote } from "../../sdk/src/note-encryption.ts";
 
 // -- Config --
 
@@ -103,19 +110,36 @@ function loadArtifact(path: string) {
 function toProverToml(inputs: CircuitInputs): string {
   const lines: string[] = [];
   for (const [key, value] of Object.entries(inputs)) {
-    if (Array.isArray(value)) {
-      lines.push(`${key} = [${value.map((v) => `"${v}"`).join(", ")}]`);
-    } else {
-      lines.push(`${key} = "${value}"`);
-    }
+    lines.push(`${key} = ${toTomlValue(value)}`);
   }
   return lines.join("\n");
 }
 
+function toTomlValue(value: string | string[] | string[][]): string {
+  if (Array.isArray(value)) {
+    return `[${(value as (string | string[])[]).map(toTomlValue).join(", ")}]`;
+  }
+  return `"${value}"`;
+}
+
 function toBytes32(n: bigint): Hex {
   return `0x${n.toString(16).padStart(64, "0")}`;
 }
 
+/**
+ * On-chain stealth metadata: the ciphertext the circuit proves for the note,
+ * plus its encrypted opening and memo
+ */
+function outputMetadata(note: StealthNote, memo = "") {
+  return {
+    ephPubKeyX: toBytes32(note.ciphertext.ephemeralPublicKey.x),
+    ephPubKeyY: toBytes32(note.ciphertext.ephemeralPublicKey.y),
+    viewTag: Number(note.ciphertext.viewTag),
+    encryptedAmount: note.ciphertext.encryptedAmount,
+    encryptedNote: encryptStealthNote(note, memo) as Hex,
+  };
+}
+
 function generateProofAndInputs(
   inputs: CircuitInputs,
 ): { proofBytes: Hex; publicInputs: Hex[] } {
@@ -163,10 +187,12 @@ const blsGunAbi = [
     inputs: [
       { name: "sender", type: "address" as const, indexed: true },
       { name: "commitment", type: "bytes32" as const, indexed: true },
+      { name: "token", type: "address" as const, indexed: true },
       { name: "ephPubKeyX", type: "bytes32" as const, indexed: false },
       { name: "ephPubKeyY", type: "bytes32" as const, indexed: false },
       { name: "viewTag", type: "uint8" as const, indexed: false },
       { name: "encryptedAmount", type: "uint128" as const, indexed: false },
+      { name: "encryptedNote", type: "bytes" as const, indexed: false },
     ],
   },
   {
@@ -175,10 +201,12 @@ const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" as const, indexed: true },
       { name: "outputCommitment", type: "bytes32" as const, indexed: true },
+      { name: "token", type: "address" as const, indexed: true },
       { name: "ephPubKeyX", type: "bytes32" as const, indexed: false },
       { name: "ephPubKeyY", type: "bytes32" as const, indexed: false },
       { name: "viewTag", type: "uint8" as const, indexed: false },
       { name: "encryptedAmount", type: "uint128" as const, indexed: false },
+      { name: "encryptedNote", type: "bytes" as const, indexed: false },
     ],
   },
   {
@@ -187,7 +215,14 @@ const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" as const, indexed: true },
       { name: "recipient", type: "address" as const, indexed: true },
+      { name: "token", type: "address" as const, indexed: true },
       { name: "amount", type: "uint256" as const, indexed: false },
+      { name: "changeCommitment", type: "bytes32" as const, indexed: false },
+      { name: "ephPubKeyX", type: "bytes32" as const, indexed: false },
+      { name: "ephPubKeyY", type: "bytes32" as const, indexed: false },
+      { name: "viewTag", type: "uint8" as const, indexed: false },
+      { name: "encryptedAmount", type: "uint128" as const, indexed: false },
+      { name: "encryptedNote", type: "bytes" as const, indexed: false },
     ],
   },
   {
@@ -195,11 +230,13 @@ const blsGunAbi = [
     name: "shield" as const,
     stateMutability: "payable" as const,
     inputs: [
-      { name: "commitment", type: "bytes32" as const },
+      { name: "owner", type: "bytes32" as const },
+      { name: "blinding", type: "bytes32" as const },
       { name: "ephPubKeyX", type: "bytes32" as const },
       { name: "ephPubKeyY", type: "bytes32" as const },
       { name: "viewTag", type: "uint8" as const },
       { name: "encryptedAmount", type: "uint128" as const },
+      { name: "encryptedNote", type: "bytes" as const },
     ],
     outputs: [],
   },
@@ -210,12 +247,30 @@ const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" as const },
       { name: "inputCommitment", type: "bytes32" as const },
+      { name: "merkleRoot", type: "bytes32" as const },
       { name: "outputCommitment", type: "bytes32" as const },
+      {
+        name: "relay",
+        type: "tuple" as const,
+        components: [
+          { name: "fee", type: "uint256" as const },
+          { name: "relayer", type: "address" as const },
+        ],
+      },
+      { name: "deadline", type: "uint256" as const },
       { name: "proof", type: "bytes" as const },
-      { name: "ephPubKeyX", type: "bytes32" as const },
-      { name: "ephPubKeyY", type: "bytes32" as const },
-      { name: "viewTag", type: "uint8" as const },
-      { name: "encryptedAmount", type: "uint128" as const },
+      {
+        name: "output",
+        type: "tuple" as const,
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" as const },
+          { name: "ephPubKeyY", type: "bytes32" as const },
+          { name: "viewTag", type: "uint8" as const },
+          { name: "encryptedAmount", type: "uint128" as const },
+          { name: "encryptedNote", type: "bytes" as const },
+        ],
+      },
+      { name: "token", type: "address" as const },
     ],
     outputs: [],
   },
@@ -226,9 +281,31 @@ const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" as const },
       { name: "inputCommitment", type: "bytes32" as const },
+      { name: "merkleRoot", type: "bytes32" as const },
       { name: "recipient", type: "address" as const },
       { name: "amount", type: "uint256" as const },
+      { name: "changeCommitment", type: "bytes32" as const },
+      {
+        name: "relay",
+        type: "tuple" as const,
+        components: [
+          { name: "fee", type: "uint256" as const },
+          { name: "relayer", type: "address" as const },
+        ],
+      },
+      { name: "deadline", type: "uint256" as const },
       { name: "proof", type: "bytes" as const },
+      {
+        name: "change",
+        type: "tuple" as const,
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" as const },
+          { name: "ephPubKeyY", type: "bytes32" as const },
+          { name: "viewTag", type: "uint8" as const },
+          { name: "encryptedAmount", type: "uint128" as const },
+          { name: "encryptedNote", type: "bytes" as const },
+        ],
+      },
     ],
     outputs: [],
   },
@@ -305,16 +382,26 @@ function buildStealthSpendProof(
   nonceIdx: number,
   stealthScalar: bigint,
   stealthPubKey: GrumpkinPoint,
+  nullifyingKey: bigint,
   noteAmount: bigint,
   noteBlinding: bigint,
   commitment: bigint,
   leafIndex: number,
   tree: InstanceType<typeof MerkleTree>,
+  outputNote: StealthNote | null,
+  recipient = 0n,
+  publicAmount = 0n,
 ) {
-  const spendingKeyHash = poseidon2Hash2(stealthPubKey.x, stealthPubKey.y);
   const merkleProof = tree.generateProof(leafIndex);
-  const nullifier = computeNullifier(spendingKeyHash, BigInt(leafIndex));
-  const message = poseidon2Hash2(nullifier, commitment);
+  const nullifier = computeNullifier(nullifyingKey, commitment, BigInt(leafIndex));
+  const outputCommitment = outputNote
+    ? computeCommitment(outputNote.owner, outputNote.amount, outputNote.blinding)
+    : 0n;
+  const fee = 0n;
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+  const message = computeTransactionMessage(
+    [nullifier], [outputCommitment], fee, deadline, recipient, publicAmount,
+  );
 
   const sA = createSignerKeyMaterial(pkg, signerIdxA, nonceIdx + 1);
   const sB = createSignerKeyMaterial(pkg, signerIdxB, nonceIdx + 1);
@@ -339,18 +426,34 @@ function buildStealthSpendProof(
   console.log("    FROST signature valid for stealth key!");
 
   const circuitInputs = buildCircuitInputs(
-    sig, stealthPubKey, spendingKeyHash, noteAmount, noteBlinding,
-    merkleProof, nullifier, commitment,
+    sig, pkg.groupPublicKey, nullifyingKey, stealthScalar, noteAmount, noteBlinding,
+    merkleProof,
+    {
+      inputNullifiers: [nullifier],
+      outputCommitments: [outputCommitment],
+      fee,
+      relayer: 0n,
+      deadline,
+      recipient,
+      publicAmount,
+      asset: 0n,
+      message,
+    },
+    commitment,
+    outputNote,
   );
 
   const { proofBytes, publicInputs } = generateProofAndInputs(circuitInputs);
 
   // Sanity checks
   if (BigInt(publicInputs[0]) !== nullifier) throw new Error("PI nullifier mismatch");
-  if (BigInt(publicInputs[1]) !== commitment) throw new Error("PI commitment mismatch");
-  if (BigInt(publicInputs[2]) !== merkleProof.root) throw new Error("PI root mismatch");
+  if (BigInt(publicInputs[2]) !== commitment) throw new Error("PI commitment mismatch");
+  if (BigInt(publicInputs[4]) !== merkleProof.root) throw new Error("PI root mismatch");
+  if (BigInt(publicInputs[5]) !== outputCommitment) throw new Error("PI output commitment mismatch");
+  if (BigInt(publicInputs[10]) !== recipient) throw new Error("PI recipient mismatch");
+  if (BigInt(publicInputs[11]) !== publicAmount) throw new Error("PI amount mismatch");
 
-  return { nullifier, proofBytes, publicInputs, spendingKeyHash };
+  return { nullifier, merkleRoot: merkleProof.root, fee, deadline, proofBytes, publicInputs };
 }
 
 // -- Main --
@@ -382,7 +485,13 @@ async function main() {
   console.log("  Alice group PK:", toBytes32(alicePkg.groupPublicKey.x).slice(0, 22) + "...");
   console.log("  Alice viewing PK:", toBytes32(aliceViewingPk.x).slice(0, 22) + "...");
 
-  const aliceMeta = createStealthMetaAddress(alicePkg.groupPublicKey, aliceViewingPk);
+  // Nullifying keys are derived from the viewing keys; their commitments go in the meta-addresses
+  const aliceNullifyingKey = deriveNullifyingKey(aliceViewingSk);
+  const aliceMeta = createStealthMetaAddress(
+    alicePkg.groupPublicKey,
+    aliceViewingPk,
+    computeNullifierKeyCommitment(aliceNullifyingKey),
+  );
 
   const bobPkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3, nonceCount: 10 });
   const bobViewingSk = bobPkg.viewingSecretKey;
@@ -390,7 +499,12 @@ async function main() {
   console.log("  Bob group PK:", toBytes32(bobPkg.groupPublicKey.x).slice(0, 22) + "...");
   console.log("  Bob viewing PK:", toBytes32(bobViewingPk.x).slice(0, 22) + "...");
 
-  const bobMeta = createStealthMetaAddress(bobPkg.groupPublicKey, bobViewingPk);
+  const bobNullifyingKey = deriveNullifyingKey(bobViewingSk);
+  const bobMeta = createStealthMetaAddress(
+    bobPkg.groupPublicKey,
+    bobViewingPk,
+    computeNullifierKeyCommitment(bobNullifyingKey),
+  );
 
   // -- Step 3: Shield -- sender deposits CFX to Alice's stealth address --
   console.log("\n[Step 3] Shield: sender deposits 1 CFX to Alice's stealth address");
@@ -400,8 +514,8 @@ async function main() {
   console.log("  Ephemeral PK:", toBytes32(aliceStealth.ephemeralPublicKey.x).slice(0, 22) + "...");
   console.log("  View tag:", "0x" + aliceStealth.viewTag.toString(16));
 
-  const aliceStealthKeyHash = poseidon2Hash2(aliceStealth.address.x, aliceStealth.address.y);
-  const shieldAmount = 1000000n;
+  const aliceStealthKeyHash = aliceStealth.owner;
+  const shieldAmount = parseEther("1");
   const shieldBlinding = randomScalar();
   const aliceCommitment = computeCommitment(aliceStealthKeyHash, shieldAmount, shieldBlinding);
   console.log("  Commitment:", toBytes32(aliceCommitment).slice(0, 22) + "...");
@@ -414,13 +528,19 @@ async function main() {
     abi: blsGunAbi,
     functionName: "shield",
     args: [
-      toBytes32(aliceCommitment),
+      toBytes32(aliceStealthKeyHash),
+      toBytes32(shieldBlinding),
       toBytes32(aliceStealth.ephemeralPublicKey.x),
       toBytes32(aliceStealth.ephemeralPublicKey.y),
       Number(aliceStealth.viewTag),
       aliceEncryptedAmount,
+      encryptNote(
+        { owner: aliceStealthKeyHash, asset: "CFX", amount: shieldAmount, blinding: shieldBlinding },
+        aliceStealth.stealthScalar,
+        "Initial deposit",
+      ) as Hex,
     ],
-    value: parseEther("1"),
+    value: shieldAmount,
   });
   const shieldReceipt = await publicClient.waitForTransactionReceipt({ hash: shieldHash });
   console.log("  Tx:", shieldReceipt.transactionHash);
@@ -491,24 +611,21 @@ async function main() {
   // -- Step 5: Private Transfer -- Alice -> Bob --
   console.log("\n[Step 5] Private Transfer: Alice -> Bob (stealth + ZK proof)");
 
-  const bobStealth = generateStealthAddress(bobMeta);
-  console.log("  Bob stealth PK:", toBytes32(bobStealth.address.x).slice(0, 22) + "...");
-
-  const bobStealthKeyHash = poseidon2Hash2(bobStealth.address.x, bobStealth.address.y);
   const transferAmount = shieldAmount;
-  const bobBlinding = randomScalar();
-  const bobCommitment = computeCommitment(bobStealthKeyHash, transferAmount, bobBlinding);
+  const bobNote = createStealthNote(bobMeta, "CFX", transferAmount);
+  const bobBlinding = bobNote.blinding;
+  const bobCommitment = computeCommitment(bobNote.owner, transferAmount, bobBlinding);
   console.log("  Bob output commitment:", toBytes32(bobCommitment).slice(0, 22) + "...");
 
-  const bobEncryptedAmount = transferAmount ^ (bobStealth.stealthScalar & MASK_128);
-
   console.log("  Generating ZK proof for Alice's stealth note...");
   const aliceSpend = buildStealthSpendProof(
     alicePkg, 0, 1, 0,
     recoveredStealthScalar,
     aliceStealth.address,
+    aliceNullifyingKey,
     shieldAmount, shieldBlinding,
     aliceCommitment, aliceLeafIdx, tree,
+    bobNote,
   );
   console.log("  Proof generated!");
 
@@ -520,12 +637,13 @@ async function main() {
     args: [
       toBytes32(aliceSpend.nullifier),
       toBytes32(aliceCommitment),
+      toBytes32(aliceSpend.merkleRoot),
       toBytes32(bobCommitment),
+      { fee: aliceSpend.fee, relayer: zeroAddress },
+      aliceSpend.deadline,
       aliceSpend.proofBytes,
-      toBytes32(bobStealth.ephemeralPublicKey.x),
-      toBytes32(bobStealth.ephemeralPublicKey.y),
-      Number(bobStealth.viewTag),
-      bobEncryptedAmount,
+      outputMetadata(bobNote, "Invoice #42"),
+      zeroAddress,
     ],
   });
   const transferReceipt = await publicClient.waitForTransactionReceipt({ hash: transferHash });
@@ -579,9 +697,10 @@ async function main() {
   let foundBobNote = false;
   let bobRecoveredScalar = 0n;
   let bobRecoveredAmount = 0n;
+  let bobMemo = "";
 
   for (const log of allTransferLogs) {
-    const { ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount } = log.args;
+    const { ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount, encryptedNote } = log.args;
     const ephX = BigInt(ephPubKeyX!);
     const ephY = BigInt(ephPubKeyY!);
 
@@ -597,8 +716,15 @@ async function main() {
     bobRecoveredAmount = BigInt(encryptedAmount!) ^ (scalar & MASK_128);
     foundBobNote = true;
 
+    const plaintext = decryptNote(encryptedNote!, scalar);
+    if (!plaintext || plaintext.amount !== bobRecoveredAmount || plaintext.blinding !== bobBlinding) {
+      throw new Error("Bob's encrypted note does not decrypt to the note opening");
+    }
+    bobMemo = plaintext.memo;
+
     console.log("  MATCH! Bob's note found on-chain!");
     console.log("  Decrypted amount:", bobRecoveredAmount.toString());
+    console.log("  Memo:", bobMemo);
   }
 
   if (!foundBobNote) throw new Error("Bob's note not found on chain!");
@@ -606,9 +732,15 @@ async function main() {
     throw new Error(`Bob amount mismatch: expected ${transferAmount}, got ${bobRecoveredAmount}`);
   }
   console.log("  Amount verified: matches transfer amount", transferAmount.toString());
+  if (bobMemo !== "Invoice #42") throw new Error(`Bob memo mismatch: got "${bobMemo}"`);
+
+  // -- Step 7: Unshield -- Bob withdraws part of his note to a public address --
+  console.log("\n[Step 7] Unshield: Bob withdraws 0.6 CFX to recipient address, 0.4 CFX change");
 
-  // -- Step 7: Unshield -- Bob withdraws to public address --
-  console.log("\n[Step 7] Unshield: Bob withdraws 1 CFX to recipient address");
+  const withdrawAmount = parseEther("0.6");
+  const changeAmount = transferAmount - withdrawAmount;
+  const bobChangeNote = createStealthNote(bobMeta, "CFX", changeAmount);
+  const bobChangeCommitment = computeCommitment(bobChangeNote.owner, changeAmount, bobChangeNote.blinding);
 
   const recipientAddress = recipientAccount.address;
   const recipientBalanceBefore = await publicClient.getBalance({ address: recipientAddress });
@@ -619,9 +751,11 @@ async function main() {
   const bobSpend = buildStealthSpendProof(
     bobPkg, 0, 1, 0,
     bobRecoveredScalar,
-    bobStealth.address,
+    computeStealthPublicKey(bobMeta.spendingPublicKey, bobRecoveredScalar),
+    bobNullifyingKey,
     transferAmount, bobBlinding,
     bobCommitment, bobLeafIdx, tree,
+    bobChangeNote, BigInt(recipientAddress), withdrawAmount,
   );
   console.log("  Proof generated!");
 
@@ -633,9 +767,14 @@ async function main() {
     args: [
       toBytes32(bobSpend.nullifier),
       toBytes32(bobCommitment),
+      toBytes32(bobSpend.merkleRoot),
       recipientAddress,
-      parseEther("1"),
+      withdrawAmount,
+      toBytes32(bobChangeCommitment),
+      { fee: bobSpend.fee, relayer: zeroAddress },
+      bobSpend.deadline,
       bobSpend.proofBytes,
+      outputMetadata(bobChangeNote),
     ],
   });
   const unshieldReceipt = await publicClient.waitForTransactionReceipt({ hash: unshieldHash });
@@ -657,9 +796,10 @@ async function main() {
   const gained = recipientBalanceAfter - recipientBalanceBefore;
   console.log("  Recipient balance after:", formatEther(recipientBalanceAfter));
   console.log("  Recipient gained:", formatEther(gained), "CFX");
-  if (gained !== parseEther("1")) {
-    throw new Error(`Recipient should gain exactly 1 CFX, got ${formatEther(gained)}`);
+  if (gained !== withdrawAmount) {
+    throw new Error(`Recipient should gain exactly 0.6 CFX, got ${formatEther(gained)}`);
   }
+  tree.insert(bobChangeCommitment);
 
   // Verify Unshield event
   const unshieldLogs = await publicClient.getLogs({
@@ -671,6 +811,19 @@ async function main() {
   if (unshieldLogs.length !== 1) throw new Error(`Expected 1 Unshield event, got ${unshieldLogs.length}`);
   console.log("  Unshield event emitted!");
 
+  // Bob finds his change note with his viewing key
+  const { changeCommitment, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount } = unshieldLogs[0].args;
+  if (BigInt(changeCommitment!) !== bobChangeCommitment) throw new Error("Change commitment mismatch");
+  const changeScalar = checkStealthAddress(
+    { x: BigInt(ephPubKeyX!), y: BigInt(ephPubKeyY!) }, BigInt(viewTag!), bobViewingSk,
+  );
+  if (changeScalar === null) throw new Error("Bob could not find his change note");
+  const recoveredChange = BigInt(encryptedAmount!) ^ (changeScalar & MASK_128);
+  if (recoveredChange !== changeAmount) {
+    throw new Error(`Change amount mismatch: expected ${changeAmount}, got ${recoveredChange}`);
+  }
+  console.log("  Change note found and decrypted:", formatEther(recoveredChange), "CFX");
+
   // -- Step 8: Final assertions --
   console.log("\n[Step 8] Final assertions");
 
@@ -680,11 +833,13 @@ async function main() {
     functionName: "getCommitmentCount",
   });
   console.log("  Commitments in tree:", finalCount.toString());
-  if (finalCount !== 2n) throw new Error(`Expected 2 commitments, got ${finalCount}`);
+  if (finalCount !== 3n) throw new Error(`Expected 3 commitments, got ${finalCount}`);
 
   const contractBalance = await publicClient.getBalance({ address: blsgunAddr });
   console.log("  Contract balance:", formatEther(contractBalance), "CFX");
-  if (contractBalance !== 0n) throw new Error(`Contract should be drained, balance: ${formatEther(contractBalance)}`);
+  if (contractBalance !== changeAmount) {
+    throw new Error(`Contract should hold only the change, balance: ${formatEther(contractBalance)}`);
+  }
 
   // Both nullifiers spent
   const nullifier1Spent = await publicClient.readContract({
@@ -713,8 +868,8 @@ async function main() {
   console.log("  4. Scanned chain with Alice's viewing key (viem getLogs) -> found & decrypted note");
   console.log("  5. Private transfer: Alice -> Bob's stealth address (ZK proof via viem)");
   console.log("  6. Scanned chain with Bob's viewing key (viem getLogs) -> found & decrypted note");
-  console.log("  7. Bob unshielded 1 CFX to recipient address (viem writeContract)");
-  console.log("  8. All assertions passed: 2 commitments, contract drained, both nullifiers spent");
+  console.log("  7. Bob unshielded 0.6 CFX to recipient address, 0.4 CFX change note back to Bob");
+  console.log("  8. All assertions passed: 3 commitments, pool holds the change, both nullifiers spent");
 }
 
 main().catch((err) => {
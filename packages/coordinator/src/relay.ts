@@ -0,0 +1,159 @@
+/**
+ * Room state of the coordination server, independent of the socket layer.
+ *
+ * A room is a group's channel (its id is a hash of the group's coordination
+ * key). Each publish replaces the topic's retained envelope and is forwarded
+ * to every other subscriber; a new subscriber first gets a snapshot of the
+ * retained envelopes. Envelopes are opaque: the relay checks their shape and
+ * size, never their contents.
+ */
+
+import type {
+  CoordinationClientMessage,
+  CoordinationEnvelope,
+  CoordinationServerMessage,
+} from "@blsgun/sdk/coordination";
+
+/** A connected client (Bun's ServerWebSocket in the server) */
+export interface RelayPeer {
+  send(data: string): unknown;
+}
+
+export interface CoordinationRelayOptions {
+  maxTopicsPerRoom?: number; // Default 256
+  maxEnvelopeBytes?: number; // Hex ciphertext length limit (default 64 KiB)
+  topicTtlMs?: number; // Drop topics not updated for this long (default 8 days)
+  now?: () => number;
+}
+
+interface RetainedTopic {
+  envelope: CoordinationEnvelope;
+  updatedAt: number;
+}
+
+const ROOM_ID = /^[0-9a-f]{64}$/;
+const IV = /^[0-9a-f]{24}$/;
+const HEX = /^[0-9a-f]*$/;
+const MAX_TOPIC_LENGTH = 128;
+
+export class CoordinationRelay {
+  private _rooms = new Map<string, Map<string, RetainedTopic>>();
+  private _subscribers = new Map<string, Set<RelayPeer>>();
+  private _peerRoom = new Map<RelayPeer, string>();
+  private _maxTopics: number;
+  private _maxEnvelopeBytes: number;
+  private _ttlMs: number;
+  private _now: () => number;
+
+  constructor(options: CoordinationRelayOptions = {}) {
+    this._maxTopics = options.maxTopicsPerRoom ?? 256;
+    this._maxEnvelopeBytes = options.maxEnvelopeBytes ?? 64 * 1024;
+    this._ttlMs = options.topicTtlMs ?? 8 * 24 * 60 * 60 * 1000;
+    this._now = options.now ?? Date.now;
+  }
+
+  /** Number of rooms with retained topics */
+  get roomCount(): number {
+    return this._rooms.size;
+  }
+
+  /** Handle one message from a peer; malformed messages get an error reply */
+  handle(peer: RelayPeer, data: string): void {
+    let message: CoordinationClientMessage;
+    try {
+      message = JSON.parse(data) as CoordinationClientMessage;
+    } catch {
+      this._reply(peer, { type: "error", error: "Invalid JSON" });
+      return;
+    }
+
+    if (typeof message?.room !== "string" || !ROOM_ID.test(message.room)) {
+      this._reply(peer, { type: "error", error: "Invalid room" });
+      return;
+    }
+
+    if (message.type === "subscribe") {
+      this._subscribe(peer, message.room);
+    } else if (message.type === "publish") {
+      this._publish(peer, message);
+    } else {
+      this._reply(peer, { type: "error", error: "Unknown message type" });
+    }
+  }
+
+  /** Forget a peer whose socket closed */
+  disconnect(peer: RelayPeer): void {
+    const room = this._peerRoom.get(peer);
+    if (room === undefined) return;
+    this._peerRoom.delete(peer);
+    const subscribers = this._subscribers.get(room)!;
+    subscribers.delete(peer);
+    if (subscribers.size === 0) this._subscribers.delete(room);
+  }
+
+  private _subscribe(peer: RelayPeer, room: string): void {
+    this.disconnect(peer);
+    this._peerRoom.set(peer, room);
+    if (!this._subscribers.has(room)) this._subscribers.set(room, new Set());
+    this._subscribers.get(room)!.add(peer);
+
+    this._prune(room);
+    const topics = this._rooms.get(room) ?? new Map<string, RetainedTopic>();
+    this._reply(peer, {
+      type: "snapshot",
+      room,
+      messages: [...topics].map(([topic, { envelope }]) => ({ topic, envelope })),
+    });
+  }
+
+  private _publish(peer: RelayPeer, message: Extract<CoordinationClientMessage, { type: "publish" }>): void {
+    const { room, topic, envelope } = message;
+    if (this._peerRoom.get(peer) !== room) {
+      this._reply(peer, { type: "error", error: "Subscribe to the room before publishing" });
+      return;
+    }
+    if (typeof topic !== "string" || topic.length === 0 || topic.length > MAX_TOPIC_LENGTH) {
+      this._reply(peer, { type: "error", error: "Invalid topic" });
+      return;
+    }
+    if (
+      typeof envelope?.iv !== "string" ||
+      typeof envelope.ciphertext !== "string" ||
+      !IV.test(envelope.iv) ||
+      !HEX.test(envelope.ciphertext) ||
+      envelope.ciphertext.length > this._maxEnvelopeBytes
+    ) {
+      this._reply(peer, { type: "error", error: "Invalid envelope" });
+      return;
+    }
+
+    this._prune(room);
+    if (!this._rooms.has(room)) this._rooms.set(room, new Map());
+    const topics = this._rooms.get(room)!;
+    if (!topics.has(topic) && topics.size >= this._maxTopics) {
+      this._reply(peer, { type: "error", error: "Room is full" });
+      return;
+    }
+    topics.set(topic, { envelope: { iv: envelope.iv, ciphertext: envelope.ciphertext }, updatedAt: this._now() });
+
+    const forward = JSON.stringify({ type: "message", room, topic, envelope } satisfies CoordinationServerMessage);
+    for (const subscriber of this._subscribers.get(room)!) {
+      if (subscriber !== peer) subscriber.send(forward);
+    }
+  }
+
+  /** Drop expired topics, and the room once it has none */
+  private _prune(room: string): void {
+    const topics = this._rooms.get(room);
+    if (!topics) return;
+    const cutoff = this._now() - this._ttlMs;
+    for (const [topic, { updatedAt }] of topics) {
+      if (updatedAt < cutoff) topics.delete(topic);
+    }
+    if (topics.size === 0) this._rooms.delete(room);
+  }
+
+  private _reply(peer: RelayPeer, message: CoordinationServerMessage): void {
+    peer.send(JSON.stringify(message));
+  }
+}
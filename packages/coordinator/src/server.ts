@@ -0,0 +1,63 @@
+/**
+ * BLSGun Coordination Server: relays end-to-end encrypted signing state
+ * between signers' browsers
+ *
+ * Signers publish pending payments, nonce commitments and partial
+ * signatures, sealed with their group's coordination key, to a room derived
+ * from that key. The server keeps the latest envelope per topic and pushes
+ * every update to the room's other subscribers. It never holds a key and
+ * sees only ciphertext (see @blsgun/sdk/coordination).
+ *
+ *   GET /health  -> { ok, rooms }
+ *   WS  /        -> subscribe / publish (CoordinationClientMessage)
+ *
+ * Usage:
+ *   bun run start
+ *
+ * Env:
+ *   COORDINATOR_PORT        HTTP/WebSocket port (default 8547)
+ *   COORDINATOR_MAX_TOPICS  Retained topics per room (default 256)
+ *   COORDINATOR_TTL_DAYS    Days a topic is kept after its last update (default 8)
+ */
+import { CoordinationRelay, type RelayPeer } from "./relay.js";
+
+// -- Config --
+
+const PORT = Number(process.env.COORDINATOR_PORT || 8547);
+
+const relay = new CoordinationRelay({
+  maxTopicsPerRoom: Number(process.env.COORDINATOR_MAX_TOPICS || 256),
+  topicTtlMs: Number(process.env.COORDINATOR_TTL_DAYS || 8) * 24 * 60 * 60 * 1000,
+});
+
+// -- HTTP + WebSocket --
+
+function reply(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+  });
+}
+
+Bun.serve({
+  port: PORT,
+  fetch(req, server) {
+    const { pathname } = new URL(req.url);
+    if (req.method === "GET" && pathname === "/health") {
+      return reply({ ok: true, rooms: relay.roomCount });
+    }
+    if (server.upgrade(req)) return;
+    return reply({ error: "Not found" }, 404);
+  },
+  websocket: {
+    maxPayloadLength: 128 * 1024,
+    message(ws, data) {
+      relay.handle(ws as RelayPeer, typeof data === "string" ? data : new TextDecoder().decode(data));
+    },
+    close(ws) {
+      relay.disconnect(ws as RelayPeer);
+    },
+  },
+});
+
+console.log(`Coordination server listening on ws://127.0.0.1:${PORT}`);
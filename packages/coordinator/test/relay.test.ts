@@ -0,0 +1,121 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { CoordinationRelay, type RelayPeer } from "../src/relay.js";
+import { CoordinationClient, generateCoordinationKey } from "../../sdk/src/coordination.js";
+import type { CoordinationServerMessage } from "../../sdk/src/coordination.js";
+
+class FakePeer implements RelayPeer {
+  received: CoordinationServerMessage[] = [];
+  send(data: string): void {
+    this.received.push(JSON.parse(data));
+  }
+}
+
+const ROOM = "ab".repeat(32);
+const envelope = { iv: "00".repeat(12), ciphertext: "deadbeef" };
+
+describe("Coordination Relay", () => {
+  test("forwards publishes to the other subscribers and snapshots late joiners", () => {
+    const relay = new CoordinationRelay();
+    const alice = new FakePeer();
+    const bob = new FakePeer();
+
+    relay.handle(alice, JSON.stringify({ type: "subscribe", room: ROOM }));
+    relay.handle(bob, JSON.stringify({ type: "subscribe", room: ROOM }));
+    relay.handle(alice, JSON.stringify({ type: "publish", room: ROOM, topic: "p1", envelope }));
+
+    expect(alice.received).toEqual([{ type: "snapshot", room: ROOM, messages: [] }]);
+    expect(bob.received[1]).toEqual({ type: "message", room: ROOM, topic: "p1", envelope });
+
+    const carol = new FakePeer();
+    relay.handle(carol, JSON.stringify({ type: "subscribe", room: ROOM }));
+    expect(carol.received).toEqual([{ type: "snapshot", room: ROOM, messages: [{ topic: "p1", envelope }] }]);
+  });
+
+  test("rejects malformed messages and publishes outside the peer's room", () => {
+    const relay = new CoordinationRelay();
+    const peer = new FakePeer();
+    const errors = () => peer.received.filter((m) => m.type === "error").map((m) => (m as { error: string }).error);
+
+    relay.handle(peer, "not json");
+    relay.handle(peer, JSON.stringify({ type: "subscribe", room: "lobby" }));
+    relay.handle(peer, JSON.stringify({ type: "publish", room: ROOM, topic: "p1", envelope }));
+    relay.handle(peer, JSON.stringify({ type: "subscribe", room: ROOM }));
+    relay.handle(peer, JSON.stringify({ type: "publish", room: ROOM, topic: "p1", envelope: { iv: "00", ciphertext: "" } }));
+
+    expect(errors()).toEqual([
+      "Invalid JSON",
+      "Invalid room",
+      "Subscribe to the room before publishing",
+      "Invalid envelope",
+    ]);
+    expect(relay.roomCount).toBe(0);
+  });
+
+  test("caps topics per room and expires stale ones", () => {
+    let now = 0;
+    const relay = new CoordinationRelay({ maxTopicsPerRoom: 1, topicTtlMs: 1000, now: () => now });
+    const peer = new FakePeer();
+    relay.handle(peer, JSON.stringify({ type: "subscribe", room: ROOM }));
+    relay.handle(peer, JSON.stringify({ type: "publish", room: ROOM, topic: "p1", envelope }));
+    relay.handle(peer, JSON.stringify({ type: "publish", room: ROOM, topic: "p2", envelope }));
+    expect(peer.received.at(-1)).toEqual({ type: "error", error: "Room is full" });
+
+    now = 2000;
+    relay.handle(peer, JSON.stringify({ type: "publish", room: ROOM, topic: "p2", envelope }));
+    const late = new FakePeer();
+    relay.handle(late, JSON.stringify({ type: "subscribe", room: ROOM }));
+    expect(late.received).toEqual([{ type: "snapshot", room: ROOM, messages: [{ topic: "p2", envelope }] }]);
+  });
+});
+
+describe("Coordination Client over WebSocket", () => {
+  const relay = new CoordinationRelay();
+  const server = Bun.serve({
+    port: 0,
+    fetch(req, srv) {
+      if (srv.upgrade(req)) return;
+      return new Response("Not found", { status: 404 });
+    },
+    websocket: {
+      message(ws, data) {
+        relay.handle(ws as RelayPeer, String(data));
+      },
+      close(ws) {
+        relay.disconnect(ws as RelayPeer);
+      },
+    },
+  });
+  afterAll(() => server.stop(true));
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await Bun.sleep(10);
+    expect(check()).toBe(true);
+  };
+
+  test("group members exchange payloads the server cannot read", async () => {
+    const key = generateCoordinationKey();
+    const url = `ws://127.0.0.1:${server.port}`;
+    const seenByBob: [string, unknown][] = [];
+    const seenByOutsider: unknown[] = [];
+
+    const alice = new CoordinationClient(url, key, () => undefined, { reconnectMs: 0 });
+    const bob = new CoordinationClient(url, key, (topic, value) => seenByBob.push([topic, value]), { reconnectMs: 0 });
+    const outsider = new CoordinationClient(url, generateCoordinationKey(), (_t, v) => seenByOutsider.push(v), {
+      reconnectMs: 0,
+    });
+    await Promise.all([alice.connect(), bob.connect(), outsider.connect()]);
+
+    await alice.publish("p1", { status: "pending", z_i: "5" });
+    await waitFor(() => seenByBob.length === 1);
+    expect(seenByBob[0]).toEqual(["p1", { status: "pending", z_i: "5" }]);
+
+    // A member connecting later gets the retained state
+    const seenByCarol: unknown[] = [];
+    const carol = new CoordinationClient(url, key, (_t, v) => seenByCarol.push(v), { reconnectMs: 0 });
+    await carol.connect();
+    await waitFor(() => seenByCarol.length === 1);
+    expect(seenByOutsider).toEqual([]);
+
+    for (const client of [alice, bob, carol, outsider]) client.close();
+  });
+});
@@ -2,11 +2,30 @@
  * BLSGun Compliance Audit Export
  *
  * Decrypt transaction history using viewing key for regulatory compliance.
- * Supports scoped access by block range and JSON export.
+ * Reports cover a block range and export to JSON.
+ *
+ * Block ranges only filter the report: whoever holds a viewing key can scan
+ * everything it decrypts. Access is scoped with epoch viewing keys instead
+ * (see deriveEpochViewingKey): an auditor credential carries the keys of a
+ * chosen range of epochs only, so it finds nothing sent outside that range
+ * and stops working once the range has passed, without rotating any key.
+ *
+ * Notes received are found with the viewing key. Payments sent are found
+ * with the outgoing viewing key, which recovers each output's recipient,
+ * amount and memo from the ciphertext the sender appended. Change returned
+ * to the treasury itself is reported as internal, not as an outflow.
  */
 
-import type { AuditReport, AuditTransaction, GrumpkinPoint } from "./types.js";
-import { checkStealthAddress } from "./stealth.js";
+import type { AuditReport, AuditTransaction, GrumpkinPoint, StealthMetaAddress } from "./types.js";
+import {
+  checkStealthAddress,
+  deriveEpochViewingKey,
+  deriveOutgoingViewingKey,
+  encryptNoteAmount,
+} from "./stealth.js";
+import { decryptNote, decryptOutgoingNote } from "./note-encryption.js";
+import { assetId, computeCommitment } from "./transaction.js";
+import { G, scalarMul, toAffine } from "./grumpkin.js";
 
 // ─── On-chain Event Types ─────────────────────────────────────────────────────
 
@@ -16,6 +35,7 @@ export interface ShieldEvent {
   ephemeralPubKey: GrumpkinPoint;
   viewTag: bigint;
   encryptedAmount: bigint; // XOR encrypted with shared secret
+  encryptedNote?: string; // Authenticated note ciphertext (encryptStealthNote)
   blockNumber: number;
   timestamp: number;
   txHash: string;
@@ -28,13 +48,145 @@ export interface TransferEvent {
   ephemeralPubKey: GrumpkinPoint;
   viewTag: bigint;
   encryptedAmount: bigint;
+  encryptedNote?: string;
   blockNumber: number;
   timestamp: number;
   txHash: string;
 }
 
+/**
+ * Keys an auditor holds. The viewing key alone also derives the outgoing
+ * viewing key; an outgoing viewing key alone reveals only sent payments.
+ */
+export interface AuditKeys {
+  viewingSecretKey?: bigint;
+  outgoingViewingKey?: bigint;
+  viewingPublicKey?: GrumpkinPoint; // Tells change to the treasury apart from outflows
+}
+
+/** Epoch viewing keys for an inclusive range of epochs, issued to an auditor */
+export interface AuditorCredential {
+  fromEpoch: number;
+  toEpoch: number;
+  epochKeys: { epoch: number; viewingSecretKey: bigint }[];
+}
+
+/** Longest range a credential may cover (25 years of quarters) */
+const MAX_CREDENTIAL_EPOCHS = 100;
+
+// ─── Auditor Credentials ──────────────────────────────────────────────────────
+
+/**
+ * Issue a credential covering epochs [fromEpoch, toEpoch].
+ *
+ * @param masterViewingSecretKey - The treasury's master viewing key (never
+ *   part of the credential)
+ * @throws If the range is empty, negative or longer than 100 epochs
+ */
+export function issueAuditorCredential(
+  masterViewingSecretKey: bigint,
+  fromEpoch: number,
+  toEpoch: number
+): AuditorCredential {
+  if (!Number.isInteger(fromEpoch) || !Number.isInteger(toEpoch) || fromEpoch < 0 || toEpoch < fromEpoch) {
+    throw new Error(`Invalid epoch range: ${fromEpoch}..${toEpoch}`);
+  }
+  if (toEpoch - fromEpoch + 1 > MAX_CREDENTIAL_EPOCHS) {
+    throw new Error(`Credential may cover at most ${MAX_CREDENTIAL_EPOCHS} epochs`);
+  }
+
+  const epochKeys = [];
+  for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+    epochKeys.push({ epoch, viewingSecretKey: deriveEpochViewingKey(masterViewingSecretKey, epoch) });
+  }
+  return { fromEpoch, toEpoch, epochKeys };
+}
+
+/** Serialize a credential to JSON (keys as 0x-prefixed hex) */
+export function encodeAuditorCredential(credential: AuditorCredential): string {
+  return JSON.stringify({
+    fromEpoch: credential.fromEpoch,
+    toEpoch: credential.toEpoch,
+    epochKeys: credential.epochKeys.map(({ epoch, viewingSecretKey }) => ({
+      epoch,
+      viewingSecretKey: "0x" + viewingSecretKey.toString(16).padStart(64, "0"),
+    })),
+  });
+}
+
+/**
+ * Parse a credential produced by encodeAuditorCredential.
+ *
+ * @throws If the JSON is malformed or its keys do not cover exactly its range
+ */
+export function decodeAuditorCredential(json: string): AuditorCredential {
+  const parsed = JSON.parse(json);
+  const { fromEpoch, toEpoch } = parsed;
+  if (!Number.isInteger(fromEpoch) || !Number.isInteger(toEpoch) || !Array.isArray(parsed.epochKeys)) {
+    throw new Error("Malformed auditor credential");
+  }
+
+  const epochKeys = parsed.epochKeys.map((entry: { epoch: unknown; viewingSecretKey: unknown }) => {
+    if (!Number.isInteger(entry?.epoch) || typeof entry.viewingSecretKey !== "string") {
+      throw new Error("Malformed auditor credential");
+    }
+    return { epoch: entry.epoch as number, viewingSecretKey: BigInt(entry.viewingSecretKey) };
+  });
+  const covers = epochKeys.length === toEpoch - fromEpoch + 1 &&
+    epochKeys.every((k: { epoch: number }, i: number) => k.epoch === fromEpoch + i);
+  if (!covers) throw new Error("Auditor credential keys do not match its epoch range");
+
+  return { fromEpoch, toEpoch, epochKeys };
+}
+
 // ─── Decryption ───────────────────────────────────────────────────────────────
 
+/** Uncompressed meta-address: 0x + spendX + spendY + viewX + viewY + NK */
+function formatMetaAddress(meta: StealthMetaAddress): string {
+  return (
+    "0x" +
+    [
+      meta.spendingPublicKey.x,
+      meta.spendingPublicKey.y,
+      meta.viewingPublicKey.x,
+      meta.viewingPublicKey.y,
+      meta.nullifierKeyCommitment,
+    ]
+      .map((w) => w.toString(16).padStart(64, "0"))
+      .join("")
+  );
+}
+
+/** A payment this treasury sent, if its outgoing ciphertext opens the commitment */
+function tryDecryptOutgoing(
+  event: ShieldEvent | TransferEvent,
+  outgoingViewingKey: bigint,
+  ownViewingKeys: GrumpkinPoint[]
+): AuditTransaction | null {
+  if (!event.encryptedNote) return null;
+  const sent = decryptOutgoingNote(event.encryptedNote, event.ephemeralPubKey, outgoingViewingKey);
+  if (!sent) return null;
+  if (computeCommitment(sent.owner, sent.amount, sent.blinding, assetId(sent.asset)) !== event.commitment) {
+    return null;
+  }
+
+  const toSelf = ownViewingKeys.some(
+    (own) => sent.recipient.viewingPublicKey.x === own.x && sent.recipient.viewingPublicKey.y === own.y
+  );
+
+  return {
+    nullifier: "nullifier" in event ? event.nullifier : 0n,
+    commitment: event.commitment,
+    amount: sent.amount,
+    asset: sent.asset,
+    recipient: formatMetaAddress(sent.recipient),
+    memo: sent.memo,
+    direction: toSelf ? "internal" : "outflow",
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+  };
+}
+
 /**
  * Attempt to decrypt an event using the viewing key.
  * Returns the decrypted transaction details if the event belongs to this viewer.
@@ -52,14 +204,20 @@ function tryDecryptEvent(
 
   if (stealthScalar === null) return null;
 
-  // Decrypt amount using XOR with stealth scalar
-  const amount = event.encryptedAmount ^ (stealthScalar & ((1n << 128n) - 1n));
+  // Decrypt amount using XOR with stealth scalar (proven by the circuit for spend outputs)
+  const amount = encryptNoteAmount(event.encryptedAmount, stealthScalar);
+
+  // The memo is only trusted if the authenticated ciphertext agrees with that amount
+  const note = event.encryptedNote ? decryptNote(event.encryptedNote, stealthScalar) : null;
 
   return {
     nullifier: "nullifier" in event ? event.nullifier : 0n,
     commitment: event.commitment,
     amount,
-    recipient: "", // Would be derived from stealth address in full impl
+    asset: note?.asset ?? "",
+    recipient: "", // Ourselves
+    memo: note && note.amount === amount ? note.memo : "",
+    direction: "inflow",
     timestamp: event.timestamp,
     blockNumber: event.blockNumber,
   };
@@ -67,24 +225,65 @@ function tryDecryptEvent(
 
 // ─── Audit Report Generation ──────────────────────────────────────────────────
 
+/** Viewing and outgoing viewing keys tried together on each event */
+interface AuditKeySet {
+  viewingSecretKey?: bigint;
+  outgoingViewingKey?: bigint;
+}
+
+/** Key sets to scan with, and the treasury's own viewing public keys */
+function resolveKeys(keys: bigint | AuditKeys | AuditorCredential): {
+  keySets: AuditKeySet[];
+  ownViewingKeys: GrumpkinPoint[];
+} {
+  const fromViewingKeys = (viewingSecretKeys: bigint[]) => ({
+    keySets: viewingSecretKeys.map((viewingSecretKey) => ({
+      viewingSecretKey,
+      outgoingViewingKey: deriveOutgoingViewingKey(viewingSecretKey),
+    })),
+    ownViewingKeys: viewingSecretKeys.map((vsk) => toAffine(scalarMul(G, vsk))),
+  });
+
+  if (typeof keys === "bigint") return fromViewingKeys([keys]);
+  if ("epochKeys" in keys) return fromViewingKeys(keys.epochKeys.map((k) => k.viewingSecretKey));
+
+  const { viewingSecretKey, outgoingViewingKey, viewingPublicKey } = keys;
+  return {
+    keySets: [{
+      viewingSecretKey,
+      outgoingViewingKey:
+        outgoingViewingKey ??
+        (viewingSecretKey !== undefined ? deriveOutgoingViewingKey(viewingSecretKey) : undefined),
+    }],
+    ownViewingKeys:
+      viewingSecretKey !== undefined
+        ? [toAffine(scalarMul(G, viewingSecretKey))]
+        : viewingPublicKey ? [viewingPublicKey] : [],
+  };
+}
+
 /**
  * Generate an audit report for a block range.
  *
- * Scans events and attempts decryption with the viewing key.
- * Only events that match the viewing key are included.
+ * Scans events and attempts decryption with the viewing key (notes
+ * received) and the outgoing viewing key (payments sent).
+ * Only events that match one of the keys are included.
  *
- * @param viewingSecretKey - The viewing secret key (scoped by block range)
+ * @param keys - The viewing secret key, the auditor's keys, or an auditor
+ *   credential (which only decrypts events of its epochs)
  * @param events - On-chain events to scan
  * @param fromBlock - Start block (inclusive)
  * @param toBlock - End block (inclusive)
  * @returns Structured audit report
  */
 export function generateAuditReport(
-  viewingSecretKey: bigint,
+  keys: bigint | AuditKeys | AuditorCredential,
   events: (ShieldEvent | TransferEvent)[],
   fromBlock: number,
   toBlock: number
 ): AuditReport {
+  const { keySets, ownViewingKeys } = resolveKeys(keys);
+
   const transactions: AuditTransaction[] = [];
   let totalInflow = 0n;
   let totalOutflow = 0n;
@@ -93,15 +292,24 @@ export function generateAuditReport(
     // Filter by block range
     if (event.blockNumber < fromBlock || event.blockNumber > toBlock) continue;
 
-    const tx = tryDecryptEvent(event, viewingSecretKey);
+    // Sent by us (to a counterparty, or change to ourselves), else received
+    let tx: AuditTransaction | null = null;
+    for (const { viewingSecretKey, outgoingViewingKey } of keySets) {
+      if (outgoingViewingKey !== undefined) {
+        tx = tryDecryptOutgoing(event, outgoingViewingKey, ownViewingKeys);
+      }
+      if (tx === null && viewingSecretKey !== undefined) {
+        tx = tryDecryptEvent(event, viewingSecretKey);
+      }
+      if (tx !== null) break;
+    }
     if (tx === null) continue;
 
     transactions.push(tx);
 
-    // Classify as inflow or outflow based on event type
-    if ("nullifier" in event && event.nullifier !== 0n) {
+    if (tx.direction === "outflow") {
       totalOutflow += tx.amount;
-    } else {
+    } else if (tx.direction === "inflow") {
       totalInflow += tx.amount;
     }
   }
@@ -5,6 +5,22 @@
  * Master secret is zeroed immediately after splitting.
  * Each share is zeroed after the caller advances the generator.
  * Feldman VSS commitments allow offline share verification.
+ *
+ * The master secret is generated in one process (trusted dealer); see
+ * dkg.ts for a dealerless multi-party ceremony.
+ *
+ * Shares can be refreshed proactively: every signer deals a random
+ * polynomial with a zero constant term and adds the evaluations it receives
+ * to its share. All shares change, the group key (and so every note) stays
+ * the same, and old shares no longer combine with new ones.
+ *
+ * Resharing moves the same key to a new membership and threshold: a quorum
+ * of old signers each deal their weighted share w_i * s_i to the new signers,
+ * who add up what they receive.
+ *
+ * A lost share can be repaired (Laing–Stinson): t helpers each split their
+ * weighted share into random pieces, swap pieces, and send the sums to the
+ * signer, who alone learns the repaired share.
  */
 
 import type { GrumpkinPoint } from "./types.js";
@@ -20,6 +36,12 @@ import {
   pointEqual,
 } from "./grumpkin.js";
 import { evaluateDerivative } from "./keygen.js";
+import {
+  birkhoffCoeff,
+  buildBirkhoffMatrix,
+  fallingFactorial,
+  gaussianEliminate,
+} from "./birkhoff.js";
 
 // ── Types ──
 
@@ -310,3 +332,518 @@ export function* hierarchicalCeremony(
     polynomialCommitments,
   };
 }
+
+// ── Proactive Share Refresh ──
+
+/** A signer taking part in a refresh or reshare (rank > 0 for hierarchical shares) */
+export interface ShareParticipant {
+  index: bigint;
+  rank?: number;
+}
+
+/** One signer's refresh polynomial delta_i, with delta_i(0) = 0 */
+export interface RefreshContribution {
+  from: bigint;
+  commitments: GrumpkinPoint[]; // Feldman VSS: [d_k]G for k = 0..t-1, [d_0]G the identity
+  shares: { to: bigint; share: bigint }[]; // delta_i^(rank)(to), sent privately to each signer
+}
+
+/**
+ * [f^(rank)(x)]G from Feldman commitments C_k = [a_k]G:
+ * sum over k >= rank of (k)_rank * x^(k-rank) * C_k.
+ */
+function commitmentAt(commitments: GrumpkinPoint[], x: bigint, rank: number) {
+  let result = ZERO;
+  for (let k = rank; k < commitments.length; k++) {
+    let xPow = 1n;
+    for (let e = 0; e < k - rank; e++) xPow = Fr.mul(xPow, x);
+    const coeff = Fr.mul(fallingFactorial(k, rank), xPow);
+    result = pointAdd(result, scalarMul(fromAffine(commitments[k]), coeff));
+  }
+  return result;
+}
+
+/**
+ * Deal this signer's refresh contribution for all participants.
+ *
+ * @param from - This signer's index
+ * @param threshold - The group's threshold t (degree of the polynomial + 1)
+ * @param participants - Every signer holding a share: all of them must be
+ *   refreshed, or their old shares stop combining with the new ones
+ */
+export function createRefreshContribution(
+  from: bigint,
+  threshold: number,
+  participants: ShareParticipant[]
+): RefreshContribution {
+  const coeffs: bigint[] = [0n];
+  for (let i = 1; i < threshold; i++) {
+    coeffs.push(randomScalar());
+  }
+
+  const contribution = {
+    from,
+    commitments: coeffs.map((c) => toAffine(scalarMul(G, c))),
+    shares: participants.map((p) => ({ to: p.index, share: evaluateDerivative(coeffs, p.index, p.rank ?? 0) })),
+  };
+
+  for (let i = 0; i < coeffs.length; i++) {
+    coeffs[i] = 0n;
+  }
+  return contribution;
+}
+
+/**
+ * Check a contribution's share for `participant` against its commitments,
+ * that the contribution cannot move the group key ([d_0]G is the identity),
+ * and that its polynomial has the group's degree (t commitments). A higher
+ * degree passes the share check but leaves t refreshed shares unable to
+ * rebuild the key.
+ */
+export function verifyRefreshShare(
+  participant: ShareParticipant,
+  share: bigint,
+  commitments: GrumpkinPoint[],
+  threshold: number
+): boolean {
+  if (commitments.length !== threshold || !pointEqual(fromAffine(commitments[0]), ZERO)) return false;
+  return pointEqual(scalarMul(G, share), commitmentAt(commitments, participant.index, participant.rank ?? 0));
+}
+
+/**
+ * Add every contribution's share for this signer to its secret share.
+ *
+ * @param threshold - The group's threshold t
+ * @returns The refreshed share (the input is left unchanged)
+ * @throws If a contribution has no share for this signer or an invalid one
+ */
+export function applyRefresh<T extends CeremonyShare & { rank?: number }>(
+  share: T,
+  contributions: RefreshContribution[],
+  threshold: number
+): T {
+  let secretShare = share.secretShare;
+  for (const contribution of contributions) {
+    const received = contribution.shares.find((s) => s.to === share.index);
+    if (!received || !verifyRefreshShare(share, received.share, contribution.commitments, threshold)) {
+      throw new Error(`Invalid refresh share from signer ${contribution.from}`);
+    }
+    secretShare = Fr.add(secretShare, received.share);
+  }
+  return { ...share, secretShare, publicShare: toAffine(scalarMul(G, secretShare)) };
+}
+
+/**
+ * Feldman commitments of the refreshed polynomial: C_k + sum of each
+ * contribution's D_k. C_0 (the group key) is unchanged.
+ *
+ * @throws If the commitments or a contribution do not have t entries
+ */
+export function refreshPolynomialCommitments(
+  polynomialCommitments: GrumpkinPoint[],
+  contributions: RefreshContribution[],
+  threshold: number
+): GrumpkinPoint[] {
+  if (polynomialCommitments.length !== threshold) {
+    throw new Error(`Expected ${threshold} polynomial commitments, got ${polynomialCommitments.length}`);
+  }
+  for (const contribution of contributions) {
+    if (contribution.commitments.length !== threshold) {
+      throw new Error(`Invalid refresh commitments from signer ${contribution.from}`);
+    }
+  }
+  return polynomialCommitments.map((commitment, k) =>
+    toAffine(
+      contributions.reduce(
+        (sum, contribution) => pointAdd(sum, fromAffine(contribution.commitments[k])),
+        fromAffine(commitment)
+      )
+    )
+  );
+}
+
+/**
+ * Refresh every share of a group at once, for a ceremony where all signers
+ * are present on one device. Each signer's contribution is dealt and applied
+ * in turn; contribution shares are zeroed afterwards.
+ *
+ * @param shares - Every signer's current share
+ * @param threshold - The group's threshold t
+ * @param polynomialCommitments - Current Feldman commitments, if kept
+ * @returns The refreshed shares (same order) and commitments
+ */
+export function refreshShares<T extends CeremonyShare & { rank?: number }>(
+  shares: T[],
+  threshold: number,
+  polynomialCommitments?: GrumpkinPoint[]
+): { shares: T[]; polynomialCommitments?: GrumpkinPoint[] } {
+  const contributions = shares.map((s) => createRefreshContribution(s.index, threshold, shares));
+  const refreshed = shares.map((s) => applyRefresh(s, contributions, threshold));
+  const commitments =
+    polynomialCommitments && refreshPolynomialCommitments(polynomialCommitments, contributions, threshold);
+
+  for (const contribution of contributions) {
+    for (const s of contribution.shares) clearSecret(s, "share");
+  }
+  return commitments ? { shares: refreshed, polynomialCommitments: commitments } : { shares: refreshed };
+}
+
+// ── Resharing ──
+
+/** The membership and threshold shares are moved to */
+export interface ReshareConfig {
+  threshold: number;
+  signers: ShareParticipant[];
+}
+
+/** One old signer's resharing polynomial g_i, with g_i(0) = w_i * s_i */
+export interface ReshareContribution {
+  from: bigint;
+  commitments: GrumpkinPoint[]; // Feldman VSS: [g_k]G for k = 0..t'-1, [g_0]G = [w_i]PK_i
+  shares: { to: bigint; share: bigint }[]; // g_i^(rank)(to), sent privately to each new signer
+}
+
+/** w_i: the weight of an old signer's share in the quorum's reconstruction of the key */
+function quorumWeight(signer: ShareParticipant, quorum: ShareParticipant[]): bigint {
+  return birkhoffCoeff(
+    signer.index,
+    signer.rank ?? 0,
+    quorum.map((p) => ({ index: p.index, rank: p.rank ?? 0 }))
+  );
+}
+
+/**
+ * Deal this old signer's share to the new membership.
+ *
+ * @param share - This signer's current share
+ * @param quorum - The old signers taking part; they must be able to
+ *   reconstruct the key (t signers, Birkhoff-poised for hierarchical shares)
+ * @param config - The new threshold and signers (with ranks for HTSS)
+ * @throws If the new configuration is invalid or the quorum is not poised
+ */
+export function createReshareContribution(
+  share: CeremonyShare & { rank?: number },
+  quorum: ShareParticipant[],
+  config: ReshareConfig
+): ReshareContribution {
+  const { threshold, signers } = config;
+  if (threshold < 1 || threshold > signers.length) {
+    throw new Error(`Invalid threshold: need 1 <= t(${threshold}) <= n(${signers.length})`);
+  }
+  if (new Set(signers.map((s) => s.index)).size !== signers.length) {
+    throw new Error("Duplicate signer index in new membership");
+  }
+  for (const s of signers) {
+    if ((s.rank ?? 0) >= threshold) {
+      throw new Error(`Signer ${s.index} has rank ${s.rank} >= threshold ${threshold}`);
+    }
+  }
+
+  const coeffs: bigint[] = [Fr.mul(quorumWeight(share, quorum), share.secretShare)];
+  for (let i = 1; i < threshold; i++) {
+    coeffs.push(randomScalar());
+  }
+
+  const contribution = {
+    from: share.index,
+    commitments: coeffs.map((c) => toAffine(scalarMul(G, c))),
+    shares: signers.map((s) => ({ to: s.index, share: evaluateDerivative(coeffs, s.index, s.rank ?? 0) })),
+  };
+
+  for (let i = 0; i < coeffs.length; i++) {
+    coeffs[i] = 0n;
+  }
+  return contribution;
+}
+
+/**
+ * Add up a new signer's sub-shares from every quorum member.
+ *
+ * Each sub-share is checked against its dealer's commitments, each dealer's
+ * constant term against its old public share ([g_0]G = [w_i]PK_i), and each
+ * dealer's polynomial against the new threshold (t' commitments), so the
+ * sub-shares sum to a share of the same group key that any t' new shares
+ * can rebuild.
+ *
+ * @param participant - The new signer (index + rank)
+ * @param contributions - One contribution from every quorum member
+ * @param quorum - The old signers that dealt
+ * @param oldPublicShares - The old signers' public shares [s_i]G
+ * @param threshold - The new threshold t'
+ * @throws If a contribution is missing or invalid (naming the signer)
+ */
+export function applyReshare(
+  participant: ShareParticipant,
+  contributions: ReshareContribution[],
+  quorum: ShareParticipant[],
+  oldPublicShares: { index: bigint; publicShare: GrumpkinPoint }[],
+  threshold: number
+): CeremonyShare & { rank?: number } {
+  let secretShare = 0n;
+  for (const dealer of quorum) {
+    const contribution = contributions.find((c) => c.from === dealer.index);
+    if (!contribution) {
+      throw new Error(`Missing reshare contribution from signer ${dealer.index}`);
+    }
+    const oldPublicShare = oldPublicShares.find((s) => s.index === dealer.index)?.publicShare;
+    const received = contribution.shares.find((s) => s.to === participant.index);
+    if (
+      !oldPublicShare ||
+      !received ||
+      contribution.commitments.length !== threshold ||
+      !pointEqual(
+        fromAffine(contribution.commitments[0]),
+        scalarMul(fromAffine(oldPublicShare), quorumWeight(dealer, quorum))
+      ) ||
+      !pointEqual(
+        scalarMul(G, received.share),
+        commitmentAt(contribution.commitments, participant.index, participant.rank ?? 0)
+      )
+    ) {
+      throw new Error(`Invalid reshare share from signer ${dealer.index}`);
+    }
+    secretShare = Fr.add(secretShare, received.share);
+  }
+
+  return {
+    index: participant.index,
+    ...(participant.rank !== undefined ? { rank: participant.rank } : {}),
+    secretShare,
+    publicShare: toAffine(scalarMul(G, secretShare)),
+  };
+}
+
+/**
+ * Feldman commitments of the new polynomial; C_0 is the group key.
+ *
+ * @param threshold - The new threshold t'
+ * @throws If a contribution does not have t' commitments
+ */
+export function resharePolynomialCommitments(
+  contributions: ReshareContribution[],
+  threshold: number
+): GrumpkinPoint[] {
+  for (const contribution of contributions) {
+    if (contribution.commitments.length !== threshold) {
+      throw new Error(`Invalid reshare commitments from signer ${contribution.from}`);
+    }
+  }
+  return Array.from({ length: threshold }, (_, k) =>
+    toAffine(contributions.reduce((sum, contribution) => pointAdd(sum, fromAffine(contribution.commitments[k])), ZERO))
+  );
+}
+
+/**
+ * Reshare a key on one device: the quorum's shares are dealt to the new
+ * membership and combined. Old shares must be deleted afterwards; the
+ * contributions' sub-shares are zeroed here.
+ *
+ * @param quorumShares - Current shares of old signers able to reconstruct the key
+ * @param config - The new threshold and signers
+ * @returns The new shares (in `config.signers` order) and commitments
+ */
+export function reshareShares(
+  quorumShares: (CeremonyShare & { rank?: number })[],
+  config: ReshareConfig
+): { shares: (CeremonyShare & { rank?: number })[]; polynomialCommitments: GrumpkinPoint[] } {
+  const contributions = quorumShares.map((s) => createReshareContribution(s, quorumShares, config));
+  const shares = config.signers.map((p) =>
+    applyReshare(p, contributions, quorumShares, quorumShares, config.threshold)
+  );
+  const polynomialCommitments = resharePolynomialCommitments(contributions, config.threshold);
+
+  for (const contribution of contributions) {
+    for (const s of contribution.shares) clearSecret(s, "share");
+  }
+  return { shares, polynomialCommitments };
+}
+
+// ── Share Repair ──
+
+/**
+ * Round 1 of a repair, from one helper: its weighted share w_j * s_j split
+ * into random pieces, one per helper. The piece commitments are public; each
+ * piece is sent privately to its helper.
+ */
+export interface RepairContribution {
+  from: bigint;
+  commitments: { to: bigint; commitment: GrumpkinPoint }[]; // [piece]G, summing to [w_j]PK_j
+  pieces: { to: bigint; piece: bigint }[];
+}
+
+/** Round 2 of a repair: a helper's sum of the pieces it received, sent to the signer */
+export interface RepairSum {
+  from: bigint;
+  sum: bigint;
+}
+
+/**
+ * Weights w_j with f^(rank)(index) = sum(w_j * s_j) over the helpers' shares:
+ * the solution of B^T w = v, where B is the helpers' Birkhoff matrix and
+ * v_k = (k)_rank * index^(k-rank).
+ */
+function repairWeights(helpers: ShareParticipant[], target: ShareParticipant): bigint[] {
+  const matrix = buildBirkhoffMatrix(helpers.map((h) => ({ index: h.index, rank: h.rank ?? 0 })));
+  const transposed = matrix.map((_, i) => matrix.map((row) => row[i]));
+  const rank = target.rank ?? 0;
+  const v = helpers.map((_, k) => {
+    let xPow = 1n;
+    for (let e = 0; e < k - rank; e++) xPow = Fr.mul(xPow, target.index);
+    return Fr.mul(fallingFactorial(k, rank), xPow);
+  });
+
+  const weights = gaussianEliminate(transposed, v);
+  if (!weights) {
+    throw new Error("Helpers cannot reconstruct the key (not a poised quorum)");
+  }
+  return weights;
+}
+
+/**
+ * A signer's public share [f^(rank)(index)]G from the Feldman commitments,
+ * for checking a repaired share when the public share itself was lost.
+ */
+export function publicShareFromCommitments(
+  commitments: GrumpkinPoint[],
+  participant: ShareParticipant
+): GrumpkinPoint {
+  return toAffine(commitmentAt(commitments, participant.index, participant.rank ?? 0));
+}
+
+/**
+ * Helper round 1: split this helper's contribution to the lost share.
+ *
+ * @param share - This helper's share
+ * @param helpers - The t helpers taking part (not including the target)
+ * @param target - The signer whose share is being repaired
+ * @throws If the target is among the helpers or the helpers are not poised
+ */
+export function createRepairContribution(
+  share: CeremonyShare & { rank?: number },
+  helpers: ShareParticipant[],
+  target: ShareParticipant
+): RepairContribution {
+  if (helpers.some((h) => h.index === target.index)) {
+    throw new Error(`Signer ${target.index} cannot help repair its own share`);
+  }
+  const weights = repairWeights(helpers, target);
+  let delta = Fr.mul(weights[helpers.findIndex((h) => h.index === share.index)], share.secretShare);
+
+  const pieces = helpers.map((h, k) => {
+    const piece = k === helpers.length - 1 ? delta : randomScalar();
+    delta = Fr.sub(delta, piece);
+    return { to: h.index, piece };
+  });
+
+  return {
+    from: share.index,
+    commitments: pieces.map((p) => ({ to: p.to, commitment: toAffine(scalarMul(G, p.piece)) })),
+    pieces,
+  };
+}
+
+/**
+ * Check that a helper's pieces add up to its weighted public share, so it
+ * contributed its real share: sum of commitments == [w_j]PK_j.
+ */
+export function verifyRepairContribution(
+  contribution: Pick<RepairContribution, "from" | "commitments">,
+  helpers: ShareParticipant[],
+  target: ShareParticipant,
+  helperPublicShare: GrumpkinPoint
+): boolean {
+  const position = helpers.findIndex((h) => h.index === contribution.from);
+  if (position === -1 || contribution.commitments.length !== helpers.length) return false;
+  const total = contribution.commitments.reduce((sum, c) => pointAdd(sum, fromAffine(c.commitment)), ZERO);
+  return pointEqual(total, scalarMul(fromAffine(helperPublicShare), repairWeights(helpers, target)[position]));
+}
+
+/**
+ * Helper round 2: add up the pieces this helper received.
+ *
+ * @throws If a piece is missing or does not match its commitment (naming the sender)
+ */
+export function sumRepairPieces(helper: bigint, contributions: RepairContribution[]): RepairSum {
+  let sum = 0n;
+  for (const contribution of contributions) {
+    const received = contribution.pieces.find((p) => p.to === helper);
+    const commitment = contribution.commitments.find((c) => c.to === helper)?.commitment;
+    if (!received || !commitment || !pointEqual(scalarMul(G, received.piece), fromAffine(commitment))) {
+      throw new Error(`Invalid repair piece from signer ${contribution.from}`);
+    }
+    sum = Fr.add(sum, received.piece);
+  }
+  return { from: helper, sum };
+}
+
+/**
+ * Signer side: combine the helpers' sums into the repaired share and check it
+ * against the signer's public share.
+ *
+ * @param target - The signer being repaired, with its stored public share
+ *   (or one computed by publicShareFromCommitments)
+ * @param sums - One sum from every helper
+ * @param contributions - Every helper's round 1 contribution (pieces are not read)
+ * @param helpers - The helpers with their public shares
+ * @throws If a contribution or sum is invalid (naming the signer), or the
+ *   result does not match `target.publicShare`
+ */
+export function completeRepair(
+  target: ShareParticipant & { publicShare: GrumpkinPoint },
+  sums: RepairSum[],
+  contributions: Pick<RepairContribution, "from" | "commitments">[],
+  helpers: (ShareParticipant & { publicShare: GrumpkinPoint })[]
+): CeremonyShare & { rank?: number } {
+  for (const helper of helpers) {
+    const contribution = contributions.find((c) => c.from === helper.index);
+    if (!contribution || !verifyRepairContribution(contribution, helpers, target, helper.publicShare)) {
+      throw new Error(`Invalid repair contribution from signer ${helper.index}`);
+    }
+  }
+
+  let secretShare = 0n;
+  for (const helper of helpers) {
+    const received = sums.find((s) => s.from === helper.index);
+    const expected = contributions.reduce((sum, c) => {
+      const commitment = c.commitments.find((x) => x.to === helper.index)?.commitment;
+      return commitment ? pointAdd(sum, fromAffine(commitment)) : sum;
+    }, ZERO);
+    if (!received || !pointEqual(scalarMul(G, received.sum), expected)) {
+      throw new Error(`Invalid repair sum from signer ${helper.index}`);
+    }
+    secretShare = Fr.add(secretShare, received.sum);
+  }
+
+  const publicShare = toAffine(scalarMul(G, secretShare));
+  if (!pointEqual(fromAffine(publicShare), fromAffine(target.publicShare))) {
+    throw new Error(`Repaired share does not match signer ${target.index}'s public share`);
+  }
+  return {
+    index: target.index,
+    ...(target.rank !== undefined ? { rank: target.rank } : {}),
+    secretShare,
+    publicShare,
+  };
+}
+
+/**
+ * Repair a share on one device: both helper rounds and the signer's check.
+ * The helpers' pieces are zeroed afterwards.
+ *
+ * @param helperShares - Shares of t helpers able to reconstruct the key
+ * @param target - The signer to repair, with its stored public share
+ */
+export function repairShare(
+  helperShares: (CeremonyShare & { rank?: number })[],
+  target: ShareParticipant & { publicShare: GrumpkinPoint }
+): CeremonyShare & { rank?: number } {
+  const contributions = helperShares.map((s) => createRepairContribution(s, helperShares, target));
+  const sums = helperShares.map((s) => sumRepairPieces(s.index, contributions));
+  const repaired = completeRepair(target, sums, contributions, helperShares);
+
+  for (const contribution of contributions) {
+    for (const p of contribution.pieces) clearSecret(p, "piece");
+  }
+  for (const s of sums) s.sum = 0n;
+  return repaired;
+}
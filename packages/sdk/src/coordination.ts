@@ -0,0 +1,266 @@
+/**
+ * BLSGun Signing Coordination
+ *
+ * Lets signers on different devices share pending payments, nonce
+ * commitments and partial signatures through a coordination server
+ * (packages/coordinator) that only ever sees ciphertext.
+ *
+ * Every group member holds the same 32-byte coordination key, created with
+ * the group and stored next to the signer's share. From it:
+ *
+ *   room     = SHA-256(domain || key)   the channel the server relays on
+ *   envelope = AES-256-GCM(key, payload), with room and topic as associated
+ *              data, so the server cannot move a payload to another topic
+ *
+ * The server keeps the latest envelope per topic (e.g. one per payment) and
+ * sends them to each new subscriber, so a signer who connects later catches
+ * up. It learns how many topics a room has and when they change, nothing
+ * about their contents.
+ *
+ * Payloads are plain JSON: serialize bigints before publishing.
+ */
+
+const ROOM_DOMAIN = "blsgun-coordination-room";
+
+// ── Wire protocol ──
+
+/** AES-256-GCM ciphertext, hex encoded */
+export interface CoordinationEnvelope {
+  iv: string; // 12 bytes
+  ciphertext: string;
+}
+
+export interface CoordinationTopicMessage {
+  topic: string;
+  envelope: CoordinationEnvelope;
+}
+
+/** Client → server */
+export type CoordinationClientMessage =
+  | { type: "subscribe"; room: string }
+  | ({ type: "publish"; room: string } & CoordinationTopicMessage);
+
+/** Server → client */
+export type CoordinationServerMessage =
+  | { type: "snapshot"; room: string; messages: CoordinationTopicMessage[] }
+  | ({ type: "message"; room: string } & CoordinationTopicMessage)
+  | { type: "error"; error: string };
+
+// ── Keys and encryption ──
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error("Coordination: invalid hex");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function keyBytes(key: string): Uint8Array<ArrayBuffer> {
+  const bytes = fromHex(key.replace(/^0x/, ""));
+  if (bytes.length !== 32) {
+    throw new Error("Coordination: key must be 32 bytes");
+  }
+  return bytes;
+}
+
+async function importKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", keyBytes(key), "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+function associatedData(room: string, topic: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(new TextEncoder().encode(`${room}:${topic}`));
+}
+
+/** A fresh random coordination key for a new group (hex, 32 bytes) */
+export function generateCoordinationKey(): string {
+  return "0x" + toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** The server-side room for a group: a hash of its key, so the key never leaves the group */
+export async function coordinationRoomId(key: string): Promise<string> {
+  const domain = new TextEncoder().encode(ROOM_DOMAIN);
+  const data = new Uint8Array(domain.length + 32);
+  data.set(domain);
+  data.set(keyBytes(key), domain.length);
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+/**
+ * Encrypt a payload for the group.
+ * @param key - The group's coordination key
+ * @param room - Room the envelope is published to (coordinationRoomId)
+ * @param topic - Topic the envelope is published under
+ */
+export async function sealCoordinationPayload(
+  key: string,
+  room: string,
+  topic: string,
+  value: unknown
+): Promise<CoordinationEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: associatedData(room, topic) },
+    await importKey(key),
+    plaintext
+  );
+  return { iv: toHex(iv), ciphertext: toHex(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt a payload sealed with sealCoordinationPayload.
+ * @returns The payload, or null if the envelope is malformed, tampered with,
+ *   moved from another room or topic, or sealed under another key
+ */
+export async function openCoordinationPayload<T = unknown>(
+  key: string,
+  room: string,
+  topic: string,
+  envelope: CoordinationEnvelope
+): Promise<T | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromHex(envelope.iv), additionalData: associatedData(room, topic) },
+      await importKey(key),
+      fromHex(envelope.ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// ── Client ──
+
+export interface CoordinationClientOptions {
+  /** Delay before reconnecting after the socket drops (default 2000 ms; 0 disables) */
+  reconnectMs?: number;
+}
+
+/**
+ * WebSocket client for a coordination server. Decrypts everything the room
+ * receives and hands it to `onMessage`; envelopes that fail to decrypt are
+ * dropped. Publishes made while disconnected are queued (latest per topic)
+ * and sent on reconnect.
+ *
+ *   const client = new CoordinationClient(url, key, (topic, value) => merge(topic, value));
+ *   await client.connect();
+ *   await client.publish(payment.id, payment);
+ */
+export class CoordinationClient<T = unknown> {
+  private _url: string;
+  private _key: string;
+  private _onMessage: (topic: string, value: T) => void;
+  private _reconnectMs: number;
+  private _room: string | null = null;
+  private _socket: WebSocket | null = null;
+  private _closed = false;
+  private _queued = new Map<string, CoordinationEnvelope>();
+  private _inbox: Promise<void> = Promise.resolve(); // Decrypts in arrival order
+
+  /**
+   * @param url - WebSocket URL of the coordination server (e.g. ws://127.0.0.1:8547)
+   * @param key - The group's coordination key
+   * @param onMessage - Called with every payload published to the room, including the snapshot on connect
+   */
+  constructor(
+    url: string,
+    key: string,
+    onMessage: (topic: string, value: T) => void,
+    options: CoordinationClientOptions = {}
+  ) {
+    keyBytes(key);
+    this._url = url;
+    this._key = key;
+    this._onMessage = onMessage;
+    this._reconnectMs = options.reconnectMs ?? 2000;
+  }
+
+  /** Whether the socket is open and subscribed */
+  get connected(): boolean {
+    return this._socket?.readyState === WebSocket.OPEN;
+  }
+
+  /** Open the socket and subscribe to the group's room; resolves once subscribed */
+  async connect(): Promise<void> {
+    this._closed = false;
+    this._room ??= await coordinationRoomId(this._key);
+    const room = this._room;
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(this._url);
+      this._socket = socket;
+
+      socket.onopen = () => {
+        this._send({ type: "subscribe", room });
+        for (const [topic, envelope] of this._queued) {
+          this._send({ type: "publish", room, topic, envelope });
+        }
+        this._queued.clear();
+        resolve();
+      };
+      socket.onerror = () => reject(new Error(`Coordination: cannot connect to ${this._url}`));
+      socket.onmessage = (event) => {
+        this._inbox = this._inbox.then(() => this._handle(String(event.data)));
+      };
+      socket.onclose = () => {
+        if (this._socket === socket) this._socket = null;
+        if (!this._closed && this._reconnectMs > 0) {
+          setTimeout(() => {
+            if (!this._closed) this.connect().catch(() => undefined);
+          }, this._reconnectMs);
+        }
+      };
+    });
+  }
+
+  /** Encrypt `value` and publish it under `topic`, replacing the topic's previous payload */
+  async publish(topic: string, value: T): Promise<void> {
+    this._room ??= await coordinationRoomId(this._key);
+    const envelope = await sealCoordinationPayload(this._key, this._room, topic, value);
+    if (this.connected) {
+      this._send({ type: "publish", room: this._room, topic, envelope });
+    } else {
+      this._queued.set(topic, envelope);
+    }
+  }
+
+  /** Close the socket and stop reconnecting */
+  close(): void {
+    this._closed = true;
+    this._socket?.close();
+    this._socket = null;
+  }
+
+  private _send(message: CoordinationClientMessage): void {
+    this._socket?.send(JSON.stringify(message));
+  }
+
+  private async _handle(data: string): Promise<void> {
+    let message: CoordinationServerMessage;
+    try {
+      message = JSON.parse(data) as CoordinationServerMessage;
+    } catch {
+      return;
+    }
+    if (message.type === "error") {
+      console.warn(`[BLSGun] Coordination server error: ${message.error}`);
+      return;
+    }
+    if (message.room !== this._room) return;
+
+    const messages = message.type === "snapshot" ? message.messages : [message];
+    for (const { topic, envelope } of messages) {
+      const value = await openCoordinationPayload<T>(this._key, message.room, topic, envelope);
+      if (value !== null) this._onMessage(topic, value);
+    }
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * BLSGun Distributed Key Generation (Pedersen DKG, as in FROST / RFC 9591)
+ *
+ * Unlike distributedCeremony, no single process ever holds the group secret.
+ * Each board member runs a DkgParticipant on their own machine and exchanges
+ * messages with the others through any transport:
+ *
+ *   Round 1 (broadcast):  Feldman commitments to a random polynomial, a
+ *                         Schnorr proof of knowledge of its constant term,
+ *                         and an ephemeral encryption key.
+ *   Round 2 (per peer):   f_i(j) for each peer j, encrypted to j's key.
+ *   Complaints:           a participant whose share fails the Feldman check
+ *                         (or never arrives) broadcasts a complaint; the
+ *                         accused must reveal that share publicly. An accused
+ *                         participant that does not, or reveals an invalid
+ *                         share, is disqualified.
+ *
+ * The final secret share is the sum of the shares from every qualified
+ * participant; the group key is the sum of their constant-term commitments.
+ * Broadcast messages must reach every participant unchanged, so all honest
+ * participants agree on the qualified set.
+ *
+ * The viewing key is not part of the DKG. Call initHash() before use.
+ */
+
+import type { GrumpkinPoint } from "./types.js";
+import {
+  Fr,
+  G,
+  ZERO,
+  scalarMul,
+  pointAdd,
+  toAffine,
+  fromAffine,
+  randomScalar,
+  pointEqual,
+} from "./grumpkin.js";
+import { poseidon2Hash3, poseidon2Hash4 } from "./hash.js";
+import { verifyShareAgainstCommitments } from "./ceremony.js";
+import type { CeremonyShare } from "./ceremony.js";
+
+const DKG_POK_DOMAIN = 0x446b67506f4bn; // "DkgPoK" in hex
+const DKG_SHARE_DOMAIN = 0x446b675368617265n; // "DkgShare" in hex
+
+// ── Types ──
+
+export interface DkgConfig {
+  threshold: number;
+  totalSigners: number;
+  context?: bigint; // Ceremony identifier, binds proofs to this run (default 0)
+}
+
+/** Schnorr proof of knowledge of a polynomial's constant term */
+export interface DkgProof {
+  R: GrumpkinPoint;
+  mu: bigint;
+}
+
+/** Round 1 broadcast */
+export interface DkgRound1Package {
+  index: bigint;
+  commitments: GrumpkinPoint[]; // Feldman VSS: [a_k]G for k = 0..t-1
+  proof: DkgProof;
+  encryptionKey: GrumpkinPoint; // Ephemeral key that round 2 shares are encrypted to
+}
+
+/** Round 2 message from one participant to another */
+export interface DkgRound2Package {
+  from: bigint;
+  to: bigint;
+  encryptedShare: bigint;
+}
+
+/** Broadcast by `accuser` when `accused`'s share is missing or invalid */
+export interface DkgComplaint {
+  accuser: bigint;
+  accused: bigint;
+}
+
+/** Broadcast by an accused participant: the disputed share in the clear */
+export interface DkgComplaintResponse {
+  from: bigint;
+  to: bigint;
+  share: bigint;
+}
+
+export interface DkgResult extends CeremonyShare {
+  groupPublicKey: GrumpkinPoint;
+  polynomialCommitments: GrumpkinPoint[]; // Summed over the qualified set
+  publicShares: { index: bigint; publicShare: GrumpkinPoint }[]; // Every signer's [s_j]G
+  qualified: bigint[]; // Participants whose polynomials make up the key
+}
+
+type DkgPhase = "round1" | "round2" | "shares" | "complaints" | "resolve" | "done";
+
+// ── Proof of knowledge ──
+
+function proofChallenge(
+  index: bigint,
+  context: bigint,
+  C0: GrumpkinPoint,
+  R: GrumpkinPoint
+): bigint {
+  const c = poseidon2Hash4(DKG_POK_DOMAIN, index, context, C0.x);
+  return Fr.create(poseidon2Hash4(c, C0.y, R.x, R.y));
+}
+
+/**
+ * Verify a round 1 proof of knowledge: [mu]G == R + [c]C_0.
+ * Stops a participant from choosing its commitment as a function of the
+ * others' (rogue-key attack).
+ */
+export function verifyDkgProof(pkg: DkgRound1Package, context = 0n): boolean {
+  if (pkg.commitments.length === 0) return false;
+  const C0 = pkg.commitments[0];
+  const c = proofChallenge(pkg.index, context, C0, pkg.proof.R);
+  const lhs = scalarMul(G, pkg.proof.mu);
+  const rhs = pointAdd(fromAffine(pkg.proof.R), scalarMul(fromAffine(C0), c));
+  return pointEqual(lhs, rhs);
+}
+
+// ── Share encryption ──
+
+/** One-time pad for the share sent from → to, from the ECDH secret */
+function sharePad(shared: GrumpkinPoint, from: bigint, to: bigint): bigint {
+  return Fr.create(poseidon2Hash4(DKG_SHARE_DOMAIN, shared.x, shared.y, poseidon2Hash3(from, to, 0n)));
+}
+
+function evaluatePolynomial(coeffs: bigint[], x: bigint): bigint {
+  let result = 0n;
+  let xPow = 1n;
+  for (const coeff of coeffs) {
+    result = Fr.add(result, Fr.mul(coeff, xPow));
+    xPow = Fr.mul(xPow, x);
+  }
+  return result;
+}
+
+// ── Participant state machine ──
+
+/**
+ * One participant's side of the DKG. Methods must be called in order:
+ *
+ *   const me = new DkgParticipant(1, { threshold: 2, totalSigners: 3 });
+ *   broadcast(me.round1());
+ *   sendEach(me.round2(allRound1Packages));
+ *   broadcast(me.receiveShares(round2PackagesForMe));     // complaints
+ *   broadcast(me.respondToComplaints(allComplaints));     // responses
+ *   me.resolveComplaints(allComplaints, allResponses);
+ *   const share = me.finalize();
+ *
+ * Polynomial coefficients, the encryption secret and received shares are
+ * zeroed by finalize().
+ */
+export class DkgParticipant {
+  readonly index: bigint;
+  readonly threshold: number;
+  readonly totalSigners: number;
+  readonly context: bigint;
+
+  private _phase: DkgPhase = "round1";
+  private _coeffs: bigint[] = [];
+  private _encryptionSecret = 0n;
+  private _peers = new Map<bigint, DkgRound1Package>(); // Round 1 packages, including our own
+  private _received = new Map<bigint, bigint>(); // f_j(index) by sender
+  private _disqualified = new Set<bigint>();
+
+  constructor(index: number, config: DkgConfig) {
+    const { threshold, totalSigners } = config;
+    if (threshold < 1 || threshold > totalSigners) {
+      throw new Error("DKG: threshold must be between 1 and totalSigners");
+    }
+    if (!Number.isInteger(index) || index < 1 || index > totalSigners) {
+      throw new Error(`DKG: index must be between 1 and ${totalSigners}`);
+    }
+    this.index = BigInt(index);
+    this.threshold = threshold;
+    this.totalSigners = totalSigners;
+    this.context = config.context ?? 0n;
+  }
+
+  /** Participants excluded so far (bad proof, missing package, failed complaint) */
+  get disqualified(): bigint[] {
+    return [...this._disqualified].sort((a, b) => (a < b ? -1 : 1));
+  }
+
+  /**
+   * Round 1: sample a random degree t-1 polynomial, commit to its
+   * coefficients and prove knowledge of the constant term.
+   */
+  round1(): DkgRound1Package {
+    this._expect("round1");
+
+    for (let k = 0; k < this.threshold; k++) {
+      this._coeffs.push(randomScalar());
+    }
+    const commitments = this._coeffs.map((a) => toAffine(scalarMul(G, a)));
+
+    let nonce = randomScalar();
+    const R = toAffine(scalarMul(G, nonce));
+    const c = proofChallenge(this.index, this.context, commitments[0], R);
+    const mu = Fr.add(nonce, Fr.mul(this._coeffs[0], c));
+    nonce = 0n;
+
+    this._encryptionSecret = randomScalar();
+    const pkg: DkgRound1Package = {
+      index: this.index,
+      commitments,
+      proof: { R, mu },
+      encryptionKey: toAffine(scalarMul(G, this._encryptionSecret)),
+    };
+    this._peers.set(this.index, pkg);
+    this._phase = "round2";
+    return pkg;
+  }
+
+  /**
+   * Round 2: check every peer's round 1 package and send each valid peer its
+   * share of our polynomial. Peers with a missing, malformed or unproven
+   * package are disqualified and get nothing.
+   *
+   * @param packages - Round 1 broadcasts from all participants (ours may be included)
+   * @returns One encrypted share per qualified peer
+   */
+  round2(packages: DkgRound1Package[]): DkgRound2Package[] {
+    this._expect("round2");
+
+    for (const pkg of packages) {
+      if (pkg.index === this.index) continue;
+      if (!this._isParticipant(pkg.index) || this._peers.has(pkg.index)) {
+        throw new Error(`DKG: unexpected or duplicate round 1 package from ${pkg.index}`);
+      }
+      const valid =
+        pkg.commitments.length === this.threshold && verifyDkgProof(pkg, this.context);
+      if (valid) this._peers.set(pkg.index, pkg);
+      else this._disqualified.add(pkg.index);
+    }
+    for (let j = 1n; j <= BigInt(this.totalSigners); j++) {
+      if (!this._peers.has(j)) this._disqualified.add(j);
+    }
+
+    // Our own share never leaves this machine
+    this._received.set(this.index, evaluatePolynomial(this._coeffs, this.index));
+
+    const out: DkgRound2Package[] = [];
+    for (const [j, pkg] of this._peers) {
+      if (j === this.index) continue;
+      const shared = toAffine(scalarMul(fromAffine(pkg.encryptionKey), this._encryptionSecret));
+      const share = evaluatePolynomial(this._coeffs, j);
+      out.push({
+        from: this.index,
+        to: j,
+        encryptedShare: Fr.add(share, sharePad(shared, this.index, j)),
+      });
+    }
+    this._phase = "shares";
+    return out;
+  }
+
+  /**
+   * Decrypt the shares addressed to us and verify each against its sender's
+   * Feldman commitments.
+   *
+   * @param packages - Round 2 messages (those addressed to others are ignored)
+   * @returns Complaints against senders whose share is missing or invalid
+   */
+  receiveShares(packages: DkgRound2Package[]): DkgComplaint[] {
+    this._expect("shares");
+
+    for (const msg of packages) {
+      if (msg.to !== this.index || msg.from === this.index) continue;
+      const sender = this._peers.get(msg.from);
+      if (!sender || this._disqualified.has(msg.from) || this._received.has(msg.from)) continue;
+
+      const shared = toAffine(scalarMul(fromAffine(sender.encryptionKey), this._encryptionSecret));
+      const share = Fr.sub(Fr.create(msg.encryptedShare), sharePad(shared, msg.from, this.index));
+      if (this._verifyShare(msg.from, this.index, share)) {
+        this._received.set(msg.from, share);
+      }
+    }
+
+    const complaints: DkgComplaint[] = [];
+    for (const j of this._qualified()) {
+      if (!this._received.has(j)) complaints.push({ accuser: this.index, accused: j });
+    }
+    this._phase = "complaints";
+    return complaints;
+  }
+
+  /**
+   * Answer complaints against us by revealing the disputed shares. Revealing
+   * is safe: the accuser is either honest (and should have the share) or
+   * dishonest (and learns nothing beyond the single share it was owed).
+   */
+  respondToComplaints(complaints: DkgComplaint[]): DkgComplaintResponse[] {
+    this._expect("complaints");
+
+    const responses: DkgComplaintResponse[] = [];
+    for (const { accuser, accused } of complaints) {
+      if (accused !== this.index || !this._isParticipant(accuser)) continue;
+      responses.push({
+        from: this.index,
+        to: accuser,
+        share: evaluatePolynomial(this._coeffs, accuser),
+      });
+    }
+    this._phase = "resolve";
+    return responses;
+  }
+
+  /**
+   * Settle every complaint: an accused participant that revealed a share
+   * passing the Feldman check stays qualified (and the accuser takes the
+   * revealed share); otherwise the accused is disqualified.
+   */
+  resolveComplaints(
+    complaints: DkgComplaint[],
+    responses: DkgComplaintResponse[]
+  ): void {
+    this._expect("resolve");
+
+    for (const { accuser, accused } of complaints) {
+      if (!this._isParticipant(accuser) || this._disqualified.has(accused)) continue;
+      if (!this._peers.has(accused)) continue;
+
+      const response = responses.find((r) => r.from === accused && r.to === accuser);
+      const share = response ? Fr.create(response.share) : null;
+      if (share === null || !this._verifyShare(accused, accuser, share)) {
+        this._disqualified.add(accused);
+        this._received.delete(accused);
+        continue;
+      }
+      if (accuser === this.index) this._received.set(accused, share);
+    }
+    this._phase = "done";
+  }
+
+  /**
+   * Combine the qualified participants' shares into our signing share and
+   * derive the group key and every signer's public share.
+   */
+  finalize(): DkgResult {
+    this._expect("done");
+
+    const qualified = this._qualified();
+    if (!qualified.includes(this.index)) {
+      throw new Error("DKG: this participant was disqualified");
+    }
+    if (qualified.length < this.threshold) {
+      throw new Error(`DKG: only ${qualified.length} qualified participants, need ${this.threshold}`);
+    }
+
+    // 1. s_i = sum of f_j(i) over the qualified set
+    let secretShare = 0n;
+    for (const j of qualified) {
+      const share = this._received.get(j);
+      if (share === undefined) throw new Error(`DKG: missing share from ${j}`);
+      secretShare = Fr.add(secretShare, share);
+    }
+
+    // 2. Group polynomial commitments: C_k = sum of C_{j,k}
+    const summed = Array.from({ length: this.threshold }, (_, k) => {
+      let acc = ZERO;
+      for (const j of qualified) {
+        acc = pointAdd(acc, fromAffine(this._peers.get(j)!.commitments[k]));
+      }
+      return acc;
+    });
+    const polynomialCommitments = summed.map(toAffine);
+
+    // 3. Public shares: [s_j]G = sum of [j^k]C_k
+    const publicShares = Array.from({ length: this.totalSigners }, (_, idx) => {
+      const j = BigInt(idx + 1);
+      let acc = ZERO;
+      let jPow = 1n;
+      for (const C of summed) {
+        acc = pointAdd(acc, scalarMul(C, jPow));
+        jPow = Fr.mul(jPow, j);
+      }
+      return { index: j, publicShare: toAffine(acc) };
+    });
+
+    const result: DkgResult = {
+      index: this.index,
+      secretShare,
+      publicShare: publicShares[Number(this.index) - 1].publicShare,
+      groupPublicKey: polynomialCommitments[0],
+      polynomialCommitments,
+      publicShares,
+      qualified,
+    };
+
+    // 4. Sanity check, then zero everything but the combined share
+    if (!verifyShareAgainstCommitments(result, polynomialCommitments)) {
+      result.secretShare = 0n;
+      throw new Error("DKG: combined share does not match the group commitments");
+    }
+    this._zero();
+    return result;
+  }
+
+  private _expect(phase: DkgPhase): void {
+    if (this._phase !== phase) {
+      throw new Error(`DKG: expected phase ${phase}, in ${this._phase}`);
+    }
+  }
+
+  private _isParticipant(j: bigint): boolean {
+    return j >= 1n && j <= BigInt(this.totalSigners);
+  }
+
+  private _qualified(): bigint[] {
+    return [...this._peers.keys()]
+      .filter((j) => !this._disqualified.has(j))
+      .sort((a, b) => (a < b ? -1 : 1));
+  }
+
+  /** Feldman check of f_from(to) against `from`'s round 1 commitments */
+  private _verifyShare(from: bigint, to: bigint, share: bigint): boolean {
+    const commitments = this._peers.get(from)!.commitments;
+    return verifyShareAgainstCommitments(
+      { index: to, secretShare: share, publicShare: { x: 0n, y: 0n } },
+      commitments
+    );
+  }
+
+  private _zero(): void {
+    for (let k = 0; k < this._coeffs.length; k++) this._coeffs[k] = 0n;
+    for (const j of this._received.keys()) this._received.set(j, 0n);
+    this._encryptionSecret = 0n;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * BLSGun Signer Identity Keys
+ *
+ * Nonce commitments and partial signatures travel through storage and
+ * coordinators that signers do not trust. If anyone can add a commitment
+ * under another signer's index, a malicious coordinator can choose
+ * commitments after seeing the honest ones and run many sessions at once,
+ * which is what the ROS / Drijvers attacks on multi-party Schnorr need.
+ *
+ * Each signer therefore signs what it publishes with an identity key:
+ * a Schnorr key over Grumpkin derived from its secret share, whose public
+ * half the group registers at key generation. Receivers drop any commitment
+ * or partial whose signature does not verify against the registered key of
+ * the signer index it claims. Digests bind the FROST message and the signer
+ * index, so a signed commitment cannot be replayed for another payment or
+ * another signer.
+ *
+ * A group created without identity keys registers them afterwards: each
+ * signer signs its identity public key with its secret share, which anyone
+ * holding the group's public shares [s_i]G can check.
+ *
+ * Call initHash() before use.
+ */
+
+import type { GrumpkinPoint } from "./types.js";
+import {
+  Fr,
+  G,
+  scalarMul,
+  pointAdd,
+  pointEqual,
+  toAffine,
+  fromAffine,
+  randomScalar,
+} from "./grumpkin.js";
+import { poseidon2Hash2, poseidon2Hash3, poseidon2Hash4 } from "./hash.js";
+
+const IDENTITY_KEY_DOMAIN = 0x49644b6579n; // "IdKey" in hex
+const IDENTITY_NONCE_DOMAIN = 0x49644e6f6e6365n; // "IdNonce" in hex
+const IDENTITY_SIG_DOMAIN = 0x4964536967n; // "IdSig" in hex
+const COMMITMENT_DOMAIN = 0x436f6d6d6974n; // "Commit" in hex
+const PARTIAL_DOMAIN = 0x5061727469616cn; // "Partial" in hex
+const REGISTRATION_DOMAIN = 0x4964526567n; // "IdReg" in hex
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface IdentityKeyPair {
+  secretKey: bigint;
+  publicKey: GrumpkinPoint;
+}
+
+/** Schnorr signature (R, s) with [s]G == R + [c]PK */
+export interface IdentitySignature {
+  R: GrumpkinPoint;
+  s: bigint;
+}
+
+/** A signer's identity public key, signed with its secret share */
+export interface IdentityRegistration {
+  signerIndex: bigint;
+  identityPublicKey: GrumpkinPoint;
+  signature: IdentitySignature; // Under the signer's public share [s_i]G
+}
+
+// ─── Keys and Signatures ──────────────────────────────────────────────────────
+
+/**
+ * A signer's identity key, derived from its secret share so nothing extra
+ * has to be stored. A refreshed or reshared share gives a new identity key,
+ * which the group registers along with the new public shares.
+ */
+export function deriveIdentityKey(secretShare: bigint): IdentityKeyPair {
+  const secretKey = Fr.create(poseidon2Hash2(IDENTITY_KEY_DOMAIN, secretShare));
+  return { secretKey, publicKey: toAffine(scalarMul(G, secretKey)) };
+}
+
+function identityChallenge(R: GrumpkinPoint, publicKey: GrumpkinPoint, digest: bigint): bigint {
+  return Fr.create(
+    poseidon2Hash4(IDENTITY_SIG_DOMAIN, R.x, R.y, poseidon2Hash3(publicKey.x, publicKey.y, digest))
+  );
+}
+
+/**
+ * Sign a digest with an identity key. The nonce is hedged: derived from the
+ * key, the digest and fresh randomness.
+ */
+export function signIdentityMessage(
+  secretKey: bigint,
+  digest: bigint,
+  randomness: bigint = randomScalar()
+): IdentitySignature {
+  const publicKey = toAffine(scalarMul(G, secretKey));
+  const k = Fr.create(poseidon2Hash4(IDENTITY_NONCE_DOMAIN, secretKey, digest, randomness));
+  const R = toAffine(scalarMul(G, k));
+  const c = identityChallenge(R, publicKey, digest);
+  return { R, s: Fr.add(k, Fr.mul(c, secretKey)) };
+}
+
+/**
+ * Verify an identity signature.
+ * @returns false for a wrong key or digest, an out-of-range s, or an R off the curve
+ */
+export function verifyIdentityMessage(
+  publicKey: GrumpkinPoint,
+  digest: bigint,
+  signature: IdentitySignature
+): boolean {
+  if (signature.s < 0n || signature.s >= Fr.ORDER) return false;
+  let R;
+  try {
+    R = fromAffine(signature.R);
+    R.assertValidity();
+  } catch {
+    return false; // Not a curve point
+  }
+  const c = identityChallenge(signature.R, publicKey, digest);
+  const lhs = scalarMul(G, signature.s);
+  const rhs = pointAdd(R, scalarMul(fromAffine(publicKey), c));
+  return pointEqual(lhs, rhs);
+}
+
+// ─── Signer Message Digests ───────────────────────────────────────────────────
+
+/** Digest a signer signs when publishing its nonce commitment (D, E) for a message */
+export function nonceCommitmentDigest(
+  message: bigint,
+  signerIndex: bigint,
+  D: GrumpkinPoint,
+  E: GrumpkinPoint
+): bigint {
+  return poseidon2Hash4(COMMITMENT_DOMAIN, message, signerIndex, poseidon2Hash4(D.x, D.y, E.x, E.y));
+}
+
+/** Digest a signer signs when publishing its partial signature (z_i, R) for a message */
+export function partialSignatureDigest(
+  message: bigint,
+  signerIndex: bigint,
+  z_i: bigint,
+  R: GrumpkinPoint
+): bigint {
+  return poseidon2Hash4(PARTIAL_DOMAIN, message, signerIndex, poseidon2Hash3(z_i, R.x, R.y));
+}
+
+// ─── Registration ─────────────────────────────────────────────────────────────
+
+/** Digest a signer signs with its secret share to register its identity key */
+export function identityRegistrationDigest(signerIndex: bigint, identityPublicKey: GrumpkinPoint): bigint {
+  return poseidon2Hash4(REGISTRATION_DOMAIN, signerIndex, identityPublicKey.x, identityPublicKey.y);
+}
+
+/** Register the identity key derived from `secretShare` for a group created without one */
+export function registerIdentityKey(secretShare: bigint, signerIndex: bigint): IdentityRegistration {
+  const { publicKey } = deriveIdentityKey(secretShare);
+  return {
+    signerIndex,
+    identityPublicKey: publicKey,
+    signature: signIdentityMessage(secretShare, identityRegistrationDigest(signerIndex, publicKey)),
+  };
+}
+
+/**
+ * Check a registration against the public share [s_i]G of the signer it
+ * names, so no one else can register a key in that signer's name.
+ */
+export function verifyIdentityRegistration(registration: IdentityRegistration, publicShare: GrumpkinPoint): boolean {
+  const { signerIndex, identityPublicKey, signature } = registration;
+  try {
+    fromAffine(identityPublicKey).assertValidity();
+  } catch {
+    return false; // Not a curve point
+  }
+  return verifyIdentityMessage(publicShare, identityRegistrationDigest(signerIndex, identityPublicKey), signature);
+}
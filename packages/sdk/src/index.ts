@@ -13,15 +13,23 @@ export type {
   SignerKeyMaterial,
   MasterKeyPackage,
   HierarchicalKeyPackage,
+  ViewingKeyShare,
   Note,
   CommitmentLeaf,
   MerkleProof,
+  SerializedMerkleTree,
   UnsignedTransaction,
+  SpendInput,
+  SpendWitness,
   FrostSignature,
   PartialSignature,
   SignedTransaction,
   StealthMetaAddress,
   StealthAddress,
+  NoteCiphertext,
+  StealthNote,
+  NotePlaintext,
+  OutgoingNotePlaintext,
   SigningSession,
   AuditTransaction,
   AuditReport,
@@ -72,12 +80,15 @@ export {
 // FROST signing
 export {
   hashChallenge,
+  generateHedgedNonces,
   lagrangeCoeff,
   createSigningSession,
   registerNonceCommitment,
   frostPartialSign,
   frostAggregate,
   frostVerify,
+  computeGroupCommitment,
+  verifyPartialSignature,
   frostSign,
   frostHierarchicalPartialSign,
   frostHierarchicalSign,
@@ -97,6 +108,11 @@ export type { BirkhoffParticipant } from "./birkhoff.js";
 // Transaction construction
 export {
   TREE_DEPTH,
+  MAX_INPUTS,
+  MAX_OUTPUTS,
+  NATIVE_ASSET,
+  NATIVE_ASSET_ID,
+  assetId,
   computeCommitment,
   computeNullifier,
   computeTransactionMessage,
@@ -104,7 +120,9 @@ export {
   MerkleTree,
   verifyMerkleProof,
   buildTransaction,
+  buildJoinSplitTransaction,
   buildCircuitInputs,
+  buildJoinSplitCircuitInputs,
 } from "./transaction.js";
 
 // Stealth addresses
@@ -112,14 +130,60 @@ export {
   createStealthMetaAddress,
   generateStealthAddress,
   checkStealthAddress,
+  checkSharedSecret,
+  computeScanTag,
+  checkScanTag,
   computeStealthSpendingKey,
+  computeStealthPublicKey,
+  computeStealthSpendingKeyHash,
+  deriveNullifyingKey,
+  computeNullifierKeyCommitment,
+  deriveOutgoingViewingKey,
+  deriveEpochViewingKey,
+  viewingKeyEpoch,
+  formatViewingKeyEpoch,
+  deriveNoteBlinding,
+  encryptNoteAmount,
+  createStealthNote,
+  openStealthNote,
+  openStealthNoteWithSharedSecret,
 } from "./stealth.js";
 
+// Note encryption
+export {
+  NOTE_MEMO_BYTES,
+  ENCRYPTED_NOTE_BYTES,
+  OUTGOING_NOTE_BYTES,
+  encryptNote,
+  encryptStealthNote,
+  decryptNote,
+  decryptOutgoingNote,
+  readScanTag,
+} from "./note-encryption.js";
+
+// Threshold viewing key
+export {
+  generateThresholdViewingKey,
+  thresholdMetaAddress,
+  computePartialSharedSecret,
+  verifyPartialSharedSecret,
+  combinePartialSharedSecrets,
+} from "./threshold-viewing.js";
+export type {
+  ThresholdViewingKeyPackage,
+  DleqProof,
+  PartialSharedSecret,
+} from "./threshold-viewing.js";
+
 // Audit
 export {
   generateAuditReport,
   exportAuditJSON,
+  issueAuditorCredential,
+  encodeAuditorCredential,
+  decodeAuditorCredential,
 } from "./audit.js";
+export type { ShieldEvent, TransferEvent, AuditKeys, AuditorCredential } from "./audit.js";
 
 // Distributed key ceremony
 export {
@@ -127,6 +191,21 @@ export {
   hierarchicalCeremony,
   verifyShareAgainstCommitments,
   clearSecret,
+  createRefreshContribution,
+  verifyRefreshShare,
+  applyRefresh,
+  refreshPolynomialCommitments,
+  refreshShares,
+  createReshareContribution,
+  applyReshare,
+  resharePolynomialCommitments,
+  reshareShares,
+  publicShareFromCommitments,
+  createRepairContribution,
+  verifyRepairContribution,
+  sumRepairPieces,
+  completeRepair,
+  repairShare,
 } from "./ceremony.js";
 export type {
   CeremonyConfig,
@@ -134,15 +213,106 @@ export type {
   CeremonyShare,
   HierarchicalCeremonyShare,
   CeremonyResult,
+  ShareParticipant,
+  RefreshContribution,
+  ReshareConfig,
+  ReshareContribution,
+  RepairContribution,
+  RepairSum,
 } from "./ceremony.js";
 
+// Distributed key generation (no trusted dealer)
+export { DkgParticipant, verifyDkgProof } from "./dkg.js";
+export type {
+  DkgConfig,
+  DkgProof,
+  DkgRound1Package,
+  DkgRound2Package,
+  DkgComplaint,
+  DkgComplaintResponse,
+  DkgResult,
+} from "./dkg.js";
+
 // Nonce tracker
-export { NonceTracker } from "./nonce-tracker.js";
+export {
+  NonceTracker,
+  UsedNonceRegistry,
+  MemoryUsedNonceStore,
+  LocalStorageUsedNonceStore,
+} from "./nonce-tracker.js";
+export type { UsedNonceStore } from "./nonce-tracker.js";
+
+// Signer identity keys (authenticated commitments and partial signatures)
+export {
+  deriveIdentityKey,
+  signIdentityMessage,
+  verifyIdentityMessage,
+  nonceCommitmentDigest,
+  partialSignatureDigest,
+  identityRegistrationDigest,
+  registerIdentityKey,
+  verifyIdentityRegistration,
+} from "./identity.js";
+export type { IdentityKeyPair, IdentitySignature, IdentityRegistration } from "./identity.js";
+
+// ROAST coordinator (robust asynchronous signing)
+export { RoastCoordinator, RoastSigner } from "./roast.js";
+export type {
+  RoastSignerInfo,
+  RoastConfig,
+  RoastCommitment,
+  RoastSignerIdentity,
+  RoastSessionRequest,
+  RoastResponse,
+  RoastStatus,
+} from "./roast.js";
+
+// Pool indexer
+export {
+  PoolIndexer,
+  MemoryCheckpointStore,
+  IndexedDBCheckpointStore,
+} from "./indexer.js";
+export type {
+  PoolLeaf,
+  PoolEvent,
+  PoolEventSource,
+  IndexerCheckpoint,
+  CheckpointStore,
+  IndexerOptions,
+  SyncResult,
+} from "./indexer.js";
+
+// Relayer
+export {
+  RELAYABLE_FUNCTIONS,
+  RelayerClient,
+  encodeRelayPayload,
+  decodeRelayPayload,
+} from "./relayer.js";
+export type { RelayableFunction, RelayerInfo, RelayRequest } from "./relayer.js";
+
+// Signing coordination (end-to-end encrypted sync between signers)
+export {
+  generateCoordinationKey,
+  coordinationRoomId,
+  sealCoordinationPayload,
+  openCoordinationPayload,
+  CoordinationClient,
+} from "./coordination.js";
+export type {
+  CoordinationEnvelope,
+  CoordinationTopicMessage,
+  CoordinationClientMessage,
+  CoordinationServerMessage,
+  CoordinationClientOptions,
+} from "./coordination.js";
 
 // Prover (optional — requires nargo/bb CLI)
 export {
   compileCircuit,
   generateProof,
+  publicInputCount,
   readPublicInputs,
   generateVerificationKey,
   generateSolidityVerifier,
@@ -0,0 +1,303 @@
+/// <reference lib="dom" />
+/**
+ * BLSGun Pool Indexer
+ *
+ * Incrementally indexes pool events from the deployment block, in chunked
+ * log queries, and persists a checkpoint so a refresh only fetches blocks
+ * added since the last sync. The hashes of the last few indexed blocks are
+ * kept to detect reorgs: events from orphaned blocks are dropped and those
+ * blocks are re-indexed.
+ *
+ * The commitment Merkle tree is maintained alongside the events and
+ * persisted with them, so proofs can be generated without rebuilding it.
+ * Call initHash() before syncing.
+ *
+ * The indexer is transport-agnostic: callers provide a PoolEventSource that
+ * decodes contract logs (e.g. with viem) and a CheckpointStore.
+ */
+
+import type { SerializedMerkleTree } from "./types.js";
+import { MerkleTree, TREE_DEPTH } from "./transaction.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** A note commitment inserted into the Merkle tree, with its stealth metadata */
+export interface PoolLeaf {
+  commitment: bigint;
+  asset: string; // "CFX" or ERC-20 token address
+  ephPubKeyX: bigint;
+  ephPubKeyY: bigint;
+  viewTag: bigint;
+  encryptedAmount: bigint;
+  encryptedNote?: string; // encryptNote ciphertext ("0x" if none was published)
+  type: "shield" | "transfer" | "change";
+}
+
+/** One decoded pool log (Shield, PrivateTransfer, Unshield or Transact) */
+export interface PoolEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  leaves: PoolLeaf[]; // In tree insertion order
+  nullifiers: bigint[]; // Nullifiers revealed by the spend (empty for shields)
+}
+
+/** Chain access needed by the indexer */
+export interface PoolEventSource {
+  getBlockNumber(): Promise<number>;
+  getBlockHash(blockNumber: number): Promise<string>;
+  /** All pool events in [fromBlock, toBlock] (inclusive), in any order */
+  getEvents(fromBlock: number, toBlock: number): Promise<PoolEvent[]>;
+}
+
+/** Persisted indexer state */
+export interface IndexerCheckpoint {
+  lastBlock: number; // Last fully indexed block (deploymentBlock - 1 before the first sync)
+  recentBlocks: { number: number; hash: string }[]; // Ascending, at most reorgDepth entries
+  events: PoolEvent[]; // Sorted by (blockNumber, logIndex)
+  tree: SerializedMerkleTree; // Tree over every leaf in `events`
+}
+
+export interface CheckpointStore {
+  load(): Promise<IndexerCheckpoint | null>;
+  save(checkpoint: IndexerCheckpoint): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface IndexerOptions {
+  deploymentBlock?: number; // First block to index (default 0)
+  chunkSize?: number; // Max blocks per getEvents call (default 5000)
+  reorgDepth?: number; // Block hashes kept for reorg detection (default 64)
+  treeDepth?: number; // Commitment tree depth (default TREE_DEPTH)
+}
+
+export interface SyncResult {
+  fromBlock: number; // First block fetched this sync
+  toBlock: number; // Chain head at sync time
+  newEvents: number;
+  reorged: boolean; // Whether orphaned blocks were rolled back
+}
+
+// ─── Checkpoint Stores ────────────────────────────────────────────────────────
+
+/** In-memory checkpoint store (tests, scripts) */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private _checkpoint: IndexerCheckpoint | null = null;
+
+  async load(): Promise<IndexerCheckpoint | null> {
+    return this._checkpoint ? structuredClone(this._checkpoint) : null;
+  }
+
+  async save(checkpoint: IndexerCheckpoint): Promise<void> {
+    this._checkpoint = structuredClone(checkpoint);
+  }
+
+  async clear(): Promise<void> {
+    this._checkpoint = null;
+  }
+}
+
+const IDB_STORE = "checkpoints";
+
+/** Wrap an IDBRequest in a promise */
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Browser checkpoint store. One database holds a checkpoint per key, so use
+ * a key per chain and contract (e.g. `${chainId}:${address}`).
+ */
+export class IndexedDBCheckpointStore implements CheckpointStore {
+  private _key: string;
+  private _dbName: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  constructor(key: string, dbName = "blsgun-indexer") {
+    this._key = key;
+    this._dbName = dbName;
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      const request = indexedDB.open(this._dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      this._db = idbRequest(request);
+    }
+    return this._db;
+  }
+
+  private async _store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this._open();
+    return db.transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+  }
+
+  async load(): Promise<IndexerCheckpoint | null> {
+    const checkpoint = await idbRequest((await this._store("readonly")).get(this._key));
+    return (checkpoint as IndexerCheckpoint | undefined) ?? null;
+  }
+
+  async save(checkpoint: IndexerCheckpoint): Promise<void> {
+    await idbRequest((await this._store("readwrite")).put(checkpoint, this._key));
+  }
+
+  async clear(): Promise<void> {
+    await idbRequest((await this._store("readwrite")).delete(this._key));
+  }
+}
+
+// ─── Indexer ──────────────────────────────────────────────────────────────────
+
+export class PoolIndexer {
+  private _source: PoolEventSource;
+  private _store: CheckpointStore;
+  private _deploymentBlock: number;
+  private _chunkSize: number;
+  private _reorgDepth: number;
+  private _treeDepth: number;
+  private _checkpoint: IndexerCheckpoint | null = null;
+  private _tree: MerkleTree | null = null;
+
+  constructor(source: PoolEventSource, store: CheckpointStore, options: IndexerOptions = {}) {
+    this._source = source;
+    this._store = store;
+    this._deploymentBlock = options.deploymentBlock ?? 0;
+    this._chunkSize = options.chunkSize ?? 5000;
+    this._reorgDepth = options.reorgDepth ?? 64;
+    this._treeDepth = options.treeDepth ?? TREE_DEPTH;
+    if (this._chunkSize < 1 || this._reorgDepth < 1) {
+      throw new Error("PoolIndexer: chunkSize and reorgDepth must be positive");
+    }
+  }
+
+  /**
+   * Bring the index up to the chain head: roll back orphaned blocks, fetch
+   * new blocks in chunks, then persist the checkpoint.
+   */
+  async sync(): Promise<SyncResult> {
+    const checkpoint = await this._load();
+    const reorged = await this._rollbackReorg(checkpoint);
+    // Rolled-back leaves cannot be removed from an incremental tree: rebuild it
+    const tree = reorged ? this._rebuildTree(checkpoint.events) : this.tree;
+
+    const head = await this._source.getBlockNumber();
+    const fromBlock = checkpoint.lastBlock + 1;
+    let newEvents = 0;
+
+    for (let start = fromBlock; start <= head; start += this._chunkSize) {
+      const end = Math.min(start + this._chunkSize - 1, head);
+      const events = await this._source.getEvents(start, end);
+      events.sort(compareEvents);
+      checkpoint.events.push(...events);
+      for (const event of events) {
+        for (const leaf of event.leaves) tree.insert(leaf.commitment);
+      }
+      checkpoint.lastBlock = end;
+      newEvents += events.length;
+    }
+
+    // Remember the newest block hashes for the next reorg check
+    const firstRecent = Math.max(fromBlock, head - this._reorgDepth + 1);
+    for (let n = firstRecent; n <= head; n++) {
+      checkpoint.recentBlocks.push({ number: n, hash: await this._source.getBlockHash(n) });
+    }
+    checkpoint.recentBlocks = checkpoint.recentBlocks.slice(-this._reorgDepth);
+
+    if (reorged || fromBlock <= head) {
+      checkpoint.tree = tree.serialize();
+      await this._store.save(checkpoint);
+    }
+    return { fromBlock, toBlock: head, newEvents, reorged };
+  }
+
+  /** All indexed events in chain order */
+  get events(): readonly PoolEvent[] {
+    return this._checkpoint?.events ?? [];
+  }
+
+  /** Last fully indexed block */
+  get lastBlock(): number {
+    return this._checkpoint?.lastBlock ?? this._deploymentBlock - 1;
+  }
+
+  /** Commitment tree over every indexed leaf, in insertion order */
+  get tree(): MerkleTree {
+    if (!this._tree) this._tree = new MerkleTree(this._treeDepth);
+    return this._tree;
+  }
+
+  /** Commitments in tree insertion order */
+  leaves(): bigint[] {
+    return this.events.flatMap((e) => e.leaves.map((leaf) => leaf.commitment));
+  }
+
+  /** Every nullifier revealed by an indexed spend */
+  spentNullifiers(): Set<bigint> {
+    return new Set(this.events.flatMap((e) => e.nullifiers));
+  }
+
+  /** Drop the checkpoint; the next sync re-indexes from the deployment block */
+  async reset(): Promise<void> {
+    await this._store.clear();
+    this._checkpoint = this._emptyCheckpoint();
+    this._tree = null;
+  }
+
+  private async _load(): Promise<IndexerCheckpoint> {
+    if (!this._checkpoint) {
+      const stored = await this._store.load();
+      this._checkpoint = stored ?? this._emptyCheckpoint();
+      if (stored) this._tree = MerkleTree.deserialize(stored.tree);
+    }
+    return this._checkpoint;
+  }
+
+  private _emptyCheckpoint(): IndexerCheckpoint {
+    return {
+      lastBlock: this._deploymentBlock - 1,
+      recentBlocks: [],
+      events: [],
+      tree: new MerkleTree(this._treeDepth).serialize(),
+    };
+  }
+
+  private _rebuildTree(events: PoolEvent[]): MerkleTree {
+    this._tree = new MerkleTree(this._treeDepth);
+    for (const event of events) {
+      for (const leaf of event.leaves) this._tree.insert(leaf.commitment);
+    }
+    return this._tree;
+  }
+
+  /**
+   * Find the newest remembered block still on the canonical chain and drop
+   * everything indexed after it. If none survives, re-index from scratch.
+   * @returns Whether anything was rolled back
+   */
+  private async _rollbackReorg(checkpoint: IndexerCheckpoint): Promise<boolean> {
+    const recent = checkpoint.recentBlocks;
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const canonical = await this._source.getBlockHash(recent[i].number).catch(() => null);
+      if (canonical !== recent[i].hash) continue;
+      if (i === recent.length - 1) return false;
+
+      const lastGood = recent[i].number;
+      checkpoint.events = checkpoint.events.filter((e) => e.blockNumber <= lastGood);
+      checkpoint.recentBlocks = recent.slice(0, i + 1);
+      checkpoint.lastBlock = lastGood;
+      return true;
+    }
+    if (recent.length === 0) return false;
+
+    // Reorg deeper than reorgDepth: nothing we indexed can be trusted
+    Object.assign(checkpoint, this._emptyCheckpoint());
+    return true;
+  }
+}
+
+function compareEvents(a: PoolEvent, b: PoolEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
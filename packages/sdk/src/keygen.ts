@@ -13,6 +13,7 @@ import type {
   NoncePair,
   SignerKeyMaterial,
 } from "./types.js";
+import type { ThresholdViewingKeyPackage } from "./threshold-viewing.js";
 import {
   GRUMPKIN_ORDER,
   Fr,
@@ -117,8 +118,8 @@ const DEFAULT_NONCE_COUNT = 100;
 /**
  * Generate a complete FROST t-of-n key package on Grumpkin.
  *
- * This is a trusted dealer ceremony (suitable for hackathon).
- * In production, this would use FROST DKG (Distributed Key Generation).
+ * This is a trusted dealer ceremony: the master secret exists in one process.
+ * For production keys, run DkgParticipant (dkg.ts) on each signer's machine.
  *
  * @param options - Configuration: threshold (t), totalSigners (n), nonceCount
  * @returns MasterKeyPackage with group public key, shares, and viewing key
@@ -173,23 +174,31 @@ export function generateMasterKeyPackage(
 
 /**
  * Create SignerKeyMaterial for a specific signer from the master package.
- * All signers receive the full viewing key for balance scanning.
+ * All signers receive the full viewing key for balance scanning, unless a
+ * threshold viewing key is given: then each gets only its share of it (and
+ * the nullifying key), and scanning needs t of them.
  *
  * @param pkg - The master key package
  * @param signerIndex - Which signer (0-based index into shares array)
  * @param nonceCount - Number of nonces to pre-compute
- * @returns Key material for the signer (includes viewing key)
+ * @param thresholdViewing - Threshold viewing key (generateThresholdViewingKey)
+ * @returns Key material for the signer (includes viewing key or its share)
  */
 export function createSignerKeyMaterial(
   pkg: MasterKeyPackage,
   signerIndex: number,
-  nonceCount: number = DEFAULT_NONCE_COUNT
+  nonceCount: number = DEFAULT_NONCE_COUNT,
+  thresholdViewing?: ThresholdViewingKeyPackage
 ): SignerKeyMaterial {
-  return {
-    share: pkg.shares[signerIndex],
-    nonces: precomputeNonces(nonceCount),
-    viewingKey: pkg.viewingSecretKey,
-  };
+  const share = pkg.shares[signerIndex];
+  const nonces = precomputeNonces(nonceCount);
+  if (!thresholdViewing) {
+    return { share, nonces, viewingKey: pkg.viewingSecretKey };
+  }
+
+  const viewingKeyShare = thresholdViewing.shares.find((s) => s.index === share.index);
+  if (!viewingKeyShare) throw new Error(`No viewing key share for signer ${share.index}`);
+  return { share, nonces, viewingKeyShare, nullifyingKey: thresholdViewing.nullifyingKey };
 }
 
 // ─── Hierarchical Key Generation (Birkhoff) ──────────────────────────────────
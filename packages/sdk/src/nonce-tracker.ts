@@ -3,6 +3,12 @@
  *
  * Sequential nonce consumption with zeroing of consumed nonces.
  * Prevents nonce reuse (which could lead to key recovery in Schnorr).
+ *
+ * UsedNonceRegistry guards nonces that are re-derived rather than consumed
+ * (generateHedgedNonces): it persists every commitment that has signed and
+ * refuses to sign with it again. A commitment only needs guarding while its
+ * nonce can be re-derived, so stores group keys by payment and drop them
+ * once the payment's nonce seed is deleted.
  */
 
 import type { NoncePair } from "./types.js";
@@ -54,3 +60,114 @@ export class NonceTracker {
     return this._nextIndex < this._nonces.length;
   }
 }
+
+// ─── Used-Nonce Registry ──────────────────────────────────────────────────────
+
+/** Persistent set of nonce commitments that have signed */
+export interface UsedNonceStore {
+  has(key: string): boolean;
+  add(key: string): void;
+}
+
+/** In-memory store (tests, scripts) */
+export class MemoryUsedNonceStore implements UsedNonceStore {
+  private _keys = new Set<string>();
+
+  has(key: string): boolean {
+    return this._keys.has(key);
+  }
+
+  add(key: string): void {
+    this._keys.add(key);
+  }
+}
+
+/** Scope of keys stored before stores were grouped by payment */
+const LEGACY_SCOPE = "";
+
+/**
+ * Browser store: keys grouped by the payment (scope) they signed for, as
+ * JSON under one localStorage key.
+ *
+ * `add` files a key under this store's scope; `has` checks every scope.
+ * Call `forget` for a payment once its nonces can no longer be derived
+ * (its nonce seed is deleted when it finalizes or is re-signed), so the
+ * store only holds the payments in flight instead of growing until
+ * localStorage is full.
+ */
+export class LocalStorageUsedNonceStore implements UsedNonceStore {
+  private _storageKey: string;
+  private _scope: string;
+
+  constructor(storageKey = "blsgun:used-nonces", scope = LEGACY_SCOPE) {
+    this._storageKey = storageKey;
+    this._scope = scope;
+  }
+
+  /** The same store, filing new keys under `scope` (e.g. a payment ID) */
+  forScope(scope: string): LocalStorageUsedNonceStore {
+    return new LocalStorageUsedNonceStore(this._storageKey, scope);
+  }
+
+  private _load(): Record<string, string[]> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this._storageKey) ?? "{}");
+      // Older stores were one flat array
+      return Array.isArray(stored) ? { [LEGACY_SCOPE]: stored } : stored;
+    } catch {
+      return {};
+    }
+  }
+
+  has(key: string): boolean {
+    return Object.values(this._load()).some((keys) => keys.includes(key));
+  }
+
+  add(key: string): void {
+    const scopes = this._load();
+    (scopes[this._scope] ??= []).push(key);
+    localStorage.setItem(this._storageKey, JSON.stringify(scopes));
+  }
+
+  /** Drop the keys of a payment whose nonces can no longer be derived */
+  forget(scope: string): void {
+    const scopes = this._load();
+    if (!(scope in scopes)) return;
+    delete scopes[scope];
+    localStorage.setItem(this._storageKey, JSON.stringify(scopes));
+  }
+}
+
+/**
+ * Refuses to sign twice with the same nonce commitment (D, E): two partial
+ * signatures with one nonce on different messages reveal the secret share.
+ */
+export class UsedNonceRegistry {
+  private _store: UsedNonceStore;
+
+  constructor(store: UsedNonceStore = new MemoryUsedNonceStore()) {
+    this._store = store;
+  }
+
+  /** Registry key of a nonce commitment (D, E) */
+  static key(nonce: Pick<NoncePair, "D" | "E">): string {
+    return [nonce.D.x, nonce.D.y, nonce.E.x, nonce.E.y].map((v) => v.toString(16)).join(":");
+  }
+
+  /** Whether this nonce commitment has already signed */
+  isUsed(nonce: Pick<NoncePair, "D" | "E">): boolean {
+    return this._store.has(UsedNonceRegistry.key(nonce));
+  }
+
+  /**
+   * Record that this nonce commitment is about to sign.
+   * @throws Error if it has signed before (a second signature would reveal the share)
+   */
+  markUsed(nonce: Pick<NoncePair, "D" | "E">): void {
+    const key = UsedNonceRegistry.key(nonce);
+    if (this._store.has(key)) {
+      throw new Error("UsedNonceRegistry: nonce commitment already used to sign");
+    }
+    this._store.add(key);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * BLSGun Note Encryption
+ *
+ * Authenticated encryption of a note's opening (amount, asset, blinding) and
+ * a 64-byte memo for its recipient, keyed from the stealth ECDH secret.
+ *
+ * The cipher is Poseidon2 in counter mode over field elements with an
+ * encrypt-then-MAC tag. Encryption and MAC keys are derived from the stealth
+ * scalar H(S) under their own domains, so neither reuses the blinding
+ * derivation. Any change to the ciphertext makes decryption fail instead of
+ * yielding a wrong amount.
+ *
+ * Layout (8 x 32 bytes): amount, asset ID, blinding, memo[4] (16 bytes
+ * each), tag.
+ *
+ * The sender can append an outgoing ciphertext (7 x 32 bytes) under its
+ * outgoing viewing key: the recipient's meta-address and the ephemeral
+ * secret r. From r the sender re-derives H(S) and opens the note ciphertext
+ * too, so its own auditors see who was paid, how much and why.
+ *
+ * If the recipient's meta-address has a scan key, a one-byte scan tag ends
+ * the ciphertext (see computeScanTag).
+ *
+ * Call initHash() before use.
+ */
+
+import { poseidon2Hash2, poseidon2Hash3 } from "./hash.js";
+import { Fp, Fr, G, scalarMul, toAffine } from "./grumpkin.js";
+import { NATIVE_ASSET, NATIVE_ASSET_ID, assetId } from "./transaction.js";
+import { computeScanTag, generateStealthAddress } from "./stealth.js";
+import type {
+  GrumpkinPoint,
+  Note,
+  NotePlaintext,
+  OutgoingNotePlaintext,
+  StealthMetaAddress,
+  StealthNote,
+} from "./types.js";
+
+/** Maximum memo length in bytes (UTF-8) */
+export const NOTE_MEMO_BYTES = 64;
+
+/** Domain separator for the encryption key ("NoteKey" in hex) */
+const NOTE_KEY_DOMAIN = 0x4e6f74654b6579n;
+
+/** Domain separator for the MAC key ("NoteMac" in hex) */
+const NOTE_MAC_DOMAIN = 0x4e6f74654d6163n;
+
+/** Domain separator for the per-output outgoing key ("OutKey" in hex) */
+const OUTGOING_KEY_DOMAIN = 0x4f75744b6579n;
+
+const MASK_128 = (1n << 128n) - 1n;
+const MAX_ADDRESS = (1n << 160n) - 1n;
+const MEMO_CHUNK_BYTES = 16;
+const MEMO_CHUNKS = NOTE_MEMO_BYTES / MEMO_CHUNK_BYTES;
+const NOTE_ELEMENTS = 3 + MEMO_CHUNKS;
+const OUTGOING_ELEMENTS = 6;
+
+/** Byte length of an encrypted note (without an outgoing ciphertext) */
+export const ENCRYPTED_NOTE_BYTES = (NOTE_ELEMENTS + 1) * 32;
+
+/** Byte length of the outgoing ciphertext appended by the sender */
+export const OUTGOING_NOTE_BYTES = (OUTGOING_ELEMENTS + 1) * 32;
+
+// ─── Cipher ───────────────────────────────────────────────────────────────────
+
+/** Encrypt field elements under `key` and append the tag, as 32-byte words */
+function seal(key: bigint, plaintext: bigint[]): string {
+  const encKey = poseidon2Hash2(key, NOTE_KEY_DOMAIN);
+  const ciphertext = plaintext.map((m, i) => Fp.add(m, poseidon2Hash2(encKey, BigInt(i))));
+  let tag = poseidon2Hash2(key, NOTE_MAC_DOMAIN);
+  for (const c of ciphertext) tag = poseidon2Hash2(tag, c);
+  return [...ciphertext, tag].map((w) => w.toString(16).padStart(64, "0")).join("");
+}
+
+/** Inverse of seal over `hex` (no 0x); null if the tag does not verify */
+function open(key: bigint, hex: string, elements: number): bigint[] | null {
+  if (hex.length !== (elements + 1) * 64 || !/^[0-9a-fA-F]*$/.test(hex)) return null;
+  const words = Array.from({ length: elements + 1 }, (_, i) =>
+    BigInt("0x" + hex.slice(i * 64, (i + 1) * 64))
+  );
+  const ciphertext = words.slice(0, elements);
+  if (ciphertext.some((c) => c >= Fp.ORDER)) return null;
+
+  let tag = poseidon2Hash2(key, NOTE_MAC_DOMAIN);
+  for (const c of ciphertext) tag = poseidon2Hash2(tag, c);
+  if (tag !== words[elements]) return null;
+
+  const encKey = poseidon2Hash2(key, NOTE_KEY_DOMAIN);
+  return ciphertext.map((c, i) => Fp.sub(c, poseidon2Hash2(encKey, BigInt(i))));
+}
+
+/** Split a ciphertext into its note part, outgoing part and scan tag */
+function splitEncryptedNote(
+  encryptedNote: string
+): { note: string; outgoing?: string; scanTag?: bigint } | null {
+  const hex = encryptedNote.startsWith("0x") ? encryptedNote.slice(2) : encryptedNote;
+  const tagged = hex.length % 64 === 2;
+  const body = tagged ? hex.slice(0, -2) : hex;
+  if (body.length !== ENCRYPTED_NOTE_BYTES * 2 && body.length !== (ENCRYPTED_NOTE_BYTES + OUTGOING_NOTE_BYTES) * 2) {
+    return null;
+  }
+  return {
+    note: body.slice(0, ENCRYPTED_NOTE_BYTES * 2),
+    ...(body.length > ENCRYPTED_NOTE_BYTES * 2 && { outgoing: body.slice(ENCRYPTED_NOTE_BYTES * 2) }),
+    ...(tagged && { scanTag: BigInt("0x" + hex.slice(-2)) }),
+  };
+}
+
+/** Outgoing key for one output: bound to its ephemeral public key */
+function outgoingKey(outgoingViewingKey: bigint, ephemeralPublicKey: GrumpkinPoint): bigint {
+  return poseidon2Hash3(
+    poseidon2Hash2(outgoingViewingKey, OUTGOING_KEY_DOMAIN),
+    ephemeralPublicKey.x,
+    ephemeralPublicKey.y
+  );
+}
+
+// ─── Memo Encoding ────────────────────────────────────────────────────────────
+
+function encodeMemo(memo: string): bigint[] {
+  const bytes = new TextEncoder().encode(memo);
+  if (bytes.length > NOTE_MEMO_BYTES) {
+    throw new Error(`Memo exceeds ${NOTE_MEMO_BYTES} bytes`);
+  }
+  const padded = new Uint8Array(NOTE_MEMO_BYTES);
+  padded.set(bytes);
+  return Array.from({ length: MEMO_CHUNKS }, (_, i) => {
+    const chunk = padded.subarray(i * MEMO_CHUNK_BYTES, (i + 1) * MEMO_CHUNK_BYTES);
+    return chunk.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+  });
+}
+
+function decodeMemo(chunks: bigint[]): string {
+  const bytes = new Uint8Array(NOTE_MEMO_BYTES);
+  chunks.forEach((chunk, i) => {
+    for (let j = MEMO_CHUNK_BYTES - 1; j >= 0; j--) {
+      bytes[i * MEMO_CHUNK_BYTES + j] = Number(chunk & 0xFFn);
+      chunk >>= 8n;
+    }
+  });
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) end--;
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
+
+// ─── Recipient Ciphertext ─────────────────────────────────────────────────────
+
+/**
+ * Encrypt a note's opening and memo for its recipient.
+ *
+ * @param note - The note (its owner is not encrypted: the recipient derives it)
+ * @param stealthScalar - H(S) of the note's stealth address
+ * @param memo - Up to 64 bytes of UTF-8 text, e.g. an invoice number
+ * @returns Hex-encoded ciphertext (ENCRYPTED_NOTE_BYTES bytes)
+ * @throws If the amount does not fit in 128 bits or the memo is too long
+ */
+export function encryptNote(note: Note, stealthScalar: bigint, memo = ""): string {
+  if (note.amount < 0n || note.amount > MASK_128) {
+    throw new Error("Note amount must fit in 128 bits");
+  }
+  return "0x" + seal(stealthScalar, [note.amount, assetId(note.asset), note.blinding, ...encodeMemo(memo)]);
+}
+
+/**
+ * Encrypt a stealth note for its recipient (sender side: the ECDH secret is
+ * re-derived from the note's ephemeral secret).
+ *
+ * @param outgoingViewingKey - If given, also encrypt the recipient and
+ *   ephemeral secret back to the sender (see decryptOutgoingNote)
+ */
+export function encryptStealthNote(note: StealthNote, memo = "", outgoingViewingKey?: bigint): string {
+  const { stealthScalar } = generateStealthAddress(note.recipient, note.ephemeralSecretKey);
+  let encrypted = encryptNote(note, stealthScalar, memo);
+
+  const { spendingPublicKey, viewingPublicKey, nullifierKeyCommitment, scanPublicKey } = note.recipient;
+  if (outgoingViewingKey !== undefined) {
+    const key = outgoingKey(outgoingViewingKey, note.ciphertext.ephemeralPublicKey);
+    encrypted += seal(key, [
+      spendingPublicKey.x,
+      spendingPublicKey.y,
+      viewingPublicKey.x,
+      viewingPublicKey.y,
+      nullifierKeyCommitment,
+      note.ephemeralSecretKey,
+    ]);
+  }
+  if (scanPublicKey) {
+    encrypted += computeScanTag(scanPublicKey, note.ephemeralSecretKey).toString(16).padStart(2, "0");
+  }
+  return encrypted;
+}
+
+/**
+ * The scan tag at the end of a ciphertext, for filtering with the scan key
+ * (checkScanTag). Null if the recipient has no scan key.
+ */
+export function readScanTag(encryptedNote: string): bigint | null {
+  return splitEncryptedNote(encryptedNote)?.scanTag ?? null;
+}
+
+/**
+ * Decrypt a note encrypted with encryptNote.
+ *
+ * @param encryptedNote - Hex-encoded ciphertext (an appended outgoing
+ *   ciphertext or scan tag is ignored)
+ * @param stealthScalar - H(S) recovered with the viewing key (checkStealthAddress)
+ * @returns The note's amount, asset, blinding and memo, or null if the
+ *   ciphertext is malformed, tampered with or not encrypted under this key
+ */
+export function decryptNote(encryptedNote: string, stealthScalar: bigint): NotePlaintext | null {
+  const parts = splitEncryptedNote(encryptedNote);
+  if (!parts) return null;
+  const plaintext = open(stealthScalar, parts.note, NOTE_ELEMENTS);
+  if (!plaintext) return null;
+
+  const [amount, id, blinding, ...memo] = plaintext;
+  if (amount > MASK_128 || id > MAX_ADDRESS || memo.some((chunk) => chunk > MASK_128)) return null;
+
+  return {
+    amount,
+    asset: id === NATIVE_ASSET_ID ? NATIVE_ASSET : "0x" + id.toString(16).padStart(40, "0"),
+    blinding,
+    memo: decodeMemo(memo),
+  };
+}
+
+// ─── Outgoing Ciphertext ──────────────────────────────────────────────────────
+
+/**
+ * Recover a note the holder of `outgoingViewingKey` sent: its recipient,
+ * then (via the ephemeral secret) its opening and memo.
+ *
+ * @param encryptedNote - Hex-encoded ciphertext with an outgoing part
+ * @param ephemeralPublicKey - The output's published ephemeral public key
+ * @returns The recipient, ephemeral secret and note plaintext, or null if
+ *   the output was not sent under this key or its ciphertexts are inconsistent
+ */
+export function decryptOutgoingNote(
+  encryptedNote: string,
+  ephemeralPublicKey: GrumpkinPoint,
+  outgoingViewingKey: bigint
+): OutgoingNotePlaintext | null {
+  const outgoingPart = splitEncryptedNote(encryptedNote)?.outgoing;
+  if (!outgoingPart) return null;
+
+  const outgoing = open(outgoingKey(outgoingViewingKey, ephemeralPublicKey), outgoingPart, OUTGOING_ELEMENTS);
+  if (!outgoing) return null;
+
+  const [spendX, spendY, viewX, viewY, nullifierKeyCommitment, ephemeralSecretKey] = outgoing;
+  if (ephemeralSecretKey === 0n || ephemeralSecretKey >= Fr.ORDER) return null;
+  const ephemeral = toAffine(scalarMul(G, ephemeralSecretKey));
+  if (ephemeral.x !== ephemeralPublicKey.x || ephemeral.y !== ephemeralPublicKey.y) return null;
+
+  const recipient: StealthMetaAddress = {
+    spendingPublicKey: { x: spendX, y: spendY },
+    viewingPublicKey: { x: viewX, y: viewY },
+    nullifierKeyCommitment,
+  };
+  const stealth = generateStealthAddress(recipient, ephemeralSecretKey);
+  const note = decryptNote(encryptedNote, stealth.stealthScalar);
+  if (!note) return null;
+
+  return { ...note, recipient, ephemeralSecretKey, owner: stealth.owner };
+}
@@ -17,6 +17,16 @@ const TARGET_DIR = join(CIRCUITS_DIR, "target");
 
 // ─── TOML Serialization ──────────────────────────────────────────────────────
 
+/**
+ * Format a witness value as a TOML string or (nested) array.
+ */
+function toTomlValue(value: string | string[] | string[][]): string {
+  if (Array.isArray(value)) {
+    return `[${(value as (string | string[])[]).map(toTomlValue).join(", ")}]`;
+  }
+  return `"${value}"`;
+}
+
 /**
  * Convert CircuitInputs to Noir's Prover.toml format.
  */
@@ -24,11 +34,7 @@ function toProverToml(inputs: CircuitInputs): string {
   const lines: string[] = [];
 
   for (const [key, value] of Object.entries(inputs)) {
-    if (Array.isArray(value)) {
-      lines.push(`${key} = [${value.map((v) => `"${v}"`).join(", ")}]`);
-    } else {
-      lines.push(`${key} = "${value}"`);
-    }
+    lines.push(`${key} = ${toTomlValue(value)}`);
   }
 
   return lines.join("\n");
@@ -97,7 +103,7 @@ export function generateProof(inputs: CircuitInputs): Uint8Array {
 export function generateVerificationKey(): void {
   console.log("[BLSGun] Generating verification key...");
   execSync(
-    `bb write_vk -b ${join(TARGET_DIR, "blsgun.json")} -t evm`,
+    `bb write_vk -b ${join(TARGET_DIR, "blsgun.json")} -o ${TARGET_DIR} -t evm`,
     { cwd: CIRCUITS_DIR, stdio: "inherit" }
   );
   console.log("[BLSGun] Verification key generated.");
@@ -115,12 +121,46 @@ export function generateSolidityVerifier(outputPath: string): void {
   console.log(`[BLSGun] Solidity verifier written to ${outputPath}`);
 }
 
+/** A type in the compiled circuit's ABI */
+interface AbiType {
+  kind: string;
+  length?: number;
+  type?: AbiType;
+  fields?: (AbiType | { name: string; type: AbiType })[]; // Tuple members / struct fields
+}
+
+/** Number of field elements a value of an ABI type occupies */
+function abiFieldCount(type: AbiType): number {
+  switch (type.kind) {
+    case "array":
+      return type.length! * abiFieldCount(type.type!);
+    case "string":
+      return type.length!;
+    case "struct":
+    case "tuple":
+      return type.fields!.reduce((n, f) => n + abiFieldCount("kind" in f ? f : f.type), 0);
+    default:
+      return 1; // field, integer, boolean
+  }
+}
+
+/**
+ * Number of public inputs of the compiled circuit, from its ABI
+ * (target/blsgun.json).
+ */
+export function publicInputCount(): number {
+  const { abi } = JSON.parse(readFileSync(join(TARGET_DIR, "blsgun.json"), "utf-8"));
+  return abi.parameters
+    .filter((p: { visibility: string }) => p.visibility === "public")
+    .reduce((n: number, p: { type: AbiType }) => n + abiFieldCount(p.type), 0);
+}
+
 /**
  * Read public inputs from the bb output file.
- * @param numInputs Number of public inputs in the circuit
+ * @param numInputs Number of public inputs in the circuit (default: from the compiled circuit's ABI)
  * @returns Array of public input hex strings (bytes32)
  */
-export function readPublicInputs(numInputs: number = 3): string[] {
+export function readPublicInputs(numInputs: number = publicInputCount()): string[] {
   const piPath = join(TARGET_DIR, "public_inputs");
   if (!existsSync(piPath)) {
     throw new Error("Public inputs file not found");
@@ -0,0 +1,103 @@
+/**
+ * BLSGun Relayer Client
+ *
+ * Submits signed spends through a third-party relayer so the treasury's own
+ * EOAs never pay gas for (and so never appear next to) a private action.
+ * The proof commits to the relayer address and fee; the contract pays the
+ * fee to msg.sender and rejects submissions from any other address.
+ *
+ * Wire format: JSON, with bigints encoded as decimal strings suffixed by "n"
+ * (see encodeRelayPayload / decodeRelayPayload).
+ */
+
+/** Contract functions a relayer will submit */
+export const RELAYABLE_FUNCTIONS = [
+  "privateTransfer",
+  "unshield",
+  "unshieldERC20",
+  "transact",
+] as const;
+
+export type RelayableFunction = (typeof RELAYABLE_FUNCTIONS)[number];
+
+/** What a relayer advertises on GET /info */
+export interface RelayerInfo {
+  address: string; // Relayer EOA; commit this into the proof as `relayer`
+  contract: string; // BLSGun address the relayer submits to
+  chainId: number;
+  fees: Record<string, bigint>; // Minimum fee per asset (lowercase token address, zero address = CFX)
+}
+
+/** A contract call for the relayer to submit (args in ABI order) */
+export interface RelayRequest {
+  functionName: RelayableFunction;
+  args: readonly unknown[];
+}
+
+/** Serialize a relayer message, tagging bigints so they survive JSON */
+export function encodeRelayPayload(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? `${v}n` : v));
+}
+
+/** Parse a relayer message produced by encodeRelayPayload */
+export function decodeRelayPayload<T = unknown>(text: string): T {
+  return JSON.parse(text, (_key, v) =>
+    typeof v === "string" && /^-?\d+n$/.test(v) ? BigInt(v.slice(0, -1)) : v
+  ) as T;
+}
+
+export class RelayerClient {
+  private _url: string;
+
+  /**
+   * @param url - Base URL of the relayer service (e.g. http://127.0.0.1:8546)
+   */
+  constructor(url: string) {
+    this._url = url.replace(/\/+$/, "");
+  }
+
+  /** Fetch the relayer's address, target contract, chain and fee schedule */
+  async getInfo(): Promise<RelayerInfo> {
+    return this._request<RelayerInfo>("/info", { method: "GET" });
+  }
+
+  /**
+   * Minimum fee the relayer charges for spends of `token`.
+   * @param token - Token address (zero address = CFX)
+   * @throws If the relayer does not accept the token
+   */
+  async quoteFee(token: string): Promise<bigint> {
+    const info = await this.getInfo();
+    const fee = info.fees[token.toLowerCase()];
+    if (fee === undefined) {
+      throw new Error(`Relayer: token ${token} not accepted`);
+    }
+    return fee;
+  }
+
+  /**
+   * Ask the relayer to submit a spend.
+   * @returns The transaction hash of the relayed transaction
+   * @throws If the relayer rejects the request (wrong relayer, fee too low, reverts)
+   */
+  async submit(request: RelayRequest): Promise<string> {
+    if (!RELAYABLE_FUNCTIONS.includes(request.functionName)) {
+      throw new Error(`Relayer: ${request.functionName} cannot be relayed`);
+    }
+    const { txHash } = await this._request<{ txHash: string }>("/relay", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: encodeRelayPayload(request),
+    });
+    return txHash;
+  }
+
+  private async _request<T>(path: string, init: RequestInit): Promise<T> {
+    const res = await fetch(`${this._url}${path}`, init);
+    const body = decodeRelayPayload<T & { error?: string }>(await res.text());
+    if (!res.ok) {
+      throw new Error(`Relayer: ${body.error ?? `HTTP ${res.status}`}`);
+    }
+    return body;
+  }
+}
@@ -0,0 +1,435 @@
+/**
+ * BLSGun ROAST coordinator (Ruffing et al., "ROAST: Robust Asynchronous
+ * Schnorr Threshold Signatures", CCS 2022)
+ *
+ * A FROST session is fixed to its participant list, so one signer going
+ * offline after committing stalls it. ROAST wraps FROST so that signing
+ * finishes as long as t honest signers respond:
+ *
+ *   1. Every signer sends the coordinator a nonce commitment.
+ *   2. Whenever t signers are ready (have an unused commitment and no
+ *      outstanding session), the coordinator opens a FROST session with
+ *      exactly those t and sends it to them.
+ *   3. A signer answers a session with its partial signature and a fresh
+ *      nonce commitment, which makes it ready again.
+ *   4. The first session to collect t valid partials gives the signature.
+ *
+ * Sessions run concurrently over different t-subsets, so an unresponsive
+ * signer only holds up the sessions it is in. Each partial is checked with
+ * verifyPartialSignature; a signer that sends an invalid one is marked
+ * malicious and never put in another session. The coordinator gives up once
+ * fewer than t signers are left that are not malicious.
+ *
+ * For hierarchical groups, a session is opened only for a Birkhoff-poised
+ * subset of the ready signers. The coordinator is transport-agnostic:
+ * RoastCoordinator.receive returns the session requests to send out.
+ *
+ * When the group registers identity keys (see identity.ts), each signer
+ * signs its commitments and refuses a session carrying a commitment that is
+ * not signed by the signer it names. A dishonest coordinator then cannot
+ * slip in commitments of its own choosing, which ROS / Drijvers-style
+ * forgeries over concurrent sessions rely on.
+ */
+
+import type {
+  FrostSignature,
+  GrumpkinPoint,
+  NoncePair,
+  PartialSignature,
+  SigningSession,
+} from "./types.js";
+import {
+  createSigningSession,
+  registerNonceCommitment,
+  frostPartialSign,
+  frostHierarchicalPartialSign,
+  frostAggregate,
+  frostVerify,
+  verifyPartialSignature,
+  generateHedgedNonces,
+} from "./signer.js";
+import { isBirkhoffPoised } from "./birkhoff.js";
+import { signIdentityMessage, verifyIdentityMessage, nonceCommitmentDigest } from "./identity.js";
+import type { IdentitySignature } from "./identity.js";
+import type { UsedNonceRegistry } from "./nonce-tracker.js";
+
+// ── Types ──
+
+/** A group member as the coordinator sees it */
+export interface RoastSignerInfo {
+  index: bigint;
+  rank?: number; // Derivative order in a hierarchical group (default 0)
+  publicShare: GrumpkinPoint; // The key the signer's partials verify against
+  identityKey?: GrumpkinPoint; // When set, the signer's commitments must be signed with it
+}
+
+export interface RoastConfig {
+  message: bigint;
+  groupPublicKey: GrumpkinPoint;
+  threshold: number;
+  signers: RoastSignerInfo[];
+}
+
+/** A signer's nonce commitment (D, E) */
+export interface RoastCommitment {
+  D: GrumpkinPoint;
+  E: GrumpkinPoint;
+  signature?: IdentitySignature; // Over nonceCommitmentDigest, in groups with identity keys
+}
+
+/** A signer's identity secret key and every group member's identity public key */
+export interface RoastSignerIdentity {
+  secretKey: bigint;
+  publicKeys: Map<bigint, GrumpkinPoint>;
+}
+
+/** Coordinator → each member of a new session */
+export interface RoastSessionRequest {
+  sessionId: number;
+  message: bigint;
+  signers: { index: bigint; rank?: number; commitment: RoastCommitment }[];
+}
+
+/**
+ * Signer → coordinator. The first message carries only a commitment; each
+ * later one answers a session and carries the signer's next commitment.
+ */
+export interface RoastResponse {
+  signerIndex: bigint;
+  sessionId?: number;
+  partial?: PartialSignature;
+  nextCommitment: RoastCommitment;
+}
+
+export type RoastStatus = "running" | "done" | "failed";
+
+interface RoastSessionState {
+  session: SigningSession;
+  partials: Map<bigint, PartialSignature>;
+}
+
+/** Whether a commitment is signed by the identity key of the signer it is attributed to */
+function isSignedCommitment(
+  message: bigint,
+  signerIndex: bigint,
+  commitment: RoastCommitment,
+  identityKey: GrumpkinPoint
+): boolean {
+  return (
+    !!commitment.signature &&
+    verifyIdentityMessage(
+      identityKey,
+      nonceCommitmentDigest(message, signerIndex, commitment.D, commitment.E),
+      commitment.signature
+    )
+  );
+}
+
+/** FROST session for a request, with Birkhoff ranks when any signer has one */
+function sessionFromRequest(
+  request: RoastSessionRequest,
+  groupPublicKey: GrumpkinPoint
+): SigningSession {
+  const participants = request.signers.map((s) => s.index);
+  const session = createSigningSession(request.message, participants, groupPublicKey, participants.length);
+  for (const s of request.signers) {
+    registerNonceCommitment(session, s.index, s.commitment.D, s.commitment.E);
+  }
+  if (request.signers.some((s) => (s.rank ?? 0) > 0)) {
+    session.participantRanks = new Map(request.signers.map((s) => [s.index, s.rank ?? 0]));
+  }
+  return session;
+}
+
+// ── Coordinator ──
+
+/**
+ * Coordinator side of ROAST. Feed it every signer message with receive()
+ * and send the session requests it returns to the signers they name:
+ *
+ *   const roast = new RoastCoordinator({ message, groupPublicKey, threshold, signers });
+ *   for (const msg of incoming) {
+ *     for (const request of roast.receive(msg)) sendToEach(request.signers, request);
+ *     if (roast.status !== "running") break;
+ *   }
+ *   const signature = roast.signature;
+ *
+ * The coordinator holds no secrets; a dishonest coordinator can stall
+ * signing but not forge a signature.
+ */
+export class RoastCoordinator {
+  readonly message: bigint;
+  readonly groupPublicKey: GrumpkinPoint;
+  readonly threshold: number;
+
+  private _signers = new Map<bigint, RoastSignerInfo>();
+  private _commitments = new Map<bigint, RoastCommitment>(); // Latest unused commitment per signer
+  private _ready: bigint[] = []; // In arrival order
+  private _awaiting = new Map<bigint, number>(); // Signer → session it has not answered yet
+  private _sessions = new Map<number, RoastSessionState>();
+  private _malicious = new Set<bigint>();
+  private _nextSessionId = 1;
+  private _signature: FrostSignature | null = null;
+  private _status: RoastStatus = "running";
+
+  constructor(config: RoastConfig) {
+    const { threshold, signers } = config;
+    if (threshold < 1 || threshold > signers.length) {
+      throw new Error("ROAST: threshold must be between 1 and the number of signers");
+    }
+    for (const s of signers) {
+      if (this._signers.has(s.index)) {
+        throw new Error(`ROAST: duplicate signer index ${s.index}`);
+      }
+      this._signers.set(s.index, s);
+    }
+    this.message = config.message;
+    this.groupPublicKey = config.groupPublicKey;
+    this.threshold = threshold;
+    if (!this._canStillSign()) {
+      throw new Error("ROAST: no Birkhoff-poised quorum among the signers");
+    }
+  }
+
+  get status(): RoastStatus {
+    return this._status;
+  }
+
+  /** The aggregated signature, once a session has completed */
+  get signature(): FrostSignature | null {
+    return this._signature;
+  }
+
+  /** Signers that sent an invalid partial signature */
+  get malicious(): bigint[] {
+    return [...this._malicious].sort((a, b) => (a < b ? -1 : 1));
+  }
+
+  /** Number of sessions opened so far */
+  get sessionCount(): number {
+    return this._nextSessionId - 1;
+  }
+
+  /**
+   * Process one signer message. Messages from unknown or malicious signers,
+   * messages whose commitment is not signed by the signer's identity key (if
+   * it has one), answers to a session the signer is not awaited in, and
+   * anything after the coordinator has finished are ignored.
+   *
+   * @returns Session requests to send, one per session opened (usually 0 or 1)
+   */
+  receive(response: RoastResponse): RoastSessionRequest[] {
+    const { signerIndex } = response;
+    if (this._status !== "running") return [];
+    if (!this._signers.has(signerIndex) || this._malicious.has(signerIndex)) return [];
+    const { identityKey } = this._signers.get(signerIndex)!;
+    if (identityKey && !isSignedCommitment(this.message, signerIndex, response.nextCommitment, identityKey)) {
+      return [];
+    }
+
+    if (response.sessionId === undefined) {
+      // Initial commitment: only from a signer that has not joined yet
+      if (this._commitments.has(signerIndex) || this._awaiting.has(signerIndex)) return [];
+      this._commitments.set(signerIndex, response.nextCommitment);
+      this._ready.push(signerIndex);
+      return this._openSessions();
+    }
+
+    if (this._awaiting.get(signerIndex) !== response.sessionId) return [];
+    const state = this._sessions.get(response.sessionId)!;
+    this._awaiting.delete(signerIndex);
+
+    const partial = response.partial;
+    const { publicShare } = this._signers.get(signerIndex)!;
+    if (
+      !partial ||
+      partial.signerIndex !== signerIndex ||
+      !verifyPartialSignature(state.session, partial, publicShare)
+    ) {
+      this._malicious.add(signerIndex);
+      if (!this._canStillSign()) this._status = "failed";
+      return [];
+    }
+
+    state.partials.set(signerIndex, partial);
+    if (state.partials.size === this.threshold) {
+      const signature = frostAggregate([...state.partials.values()], this.threshold);
+      if (!frostVerify(signature, this.message, this.groupPublicKey)) {
+        throw new Error("ROAST: verified partials aggregated to an invalid signature");
+      }
+      this._signature = signature;
+      this._status = "done";
+      return [];
+    }
+
+    this._commitments.set(signerIndex, response.nextCommitment);
+    this._ready.push(signerIndex);
+    return this._openSessions();
+  }
+
+  /** Open sessions while the ready signers contain a quorum */
+  private _openSessions(): RoastSessionRequest[] {
+    const requests: RoastSessionRequest[] = [];
+    let quorum = this._pickQuorum(this._ready);
+    while (quorum) {
+      const request: RoastSessionRequest = {
+        sessionId: this._nextSessionId++,
+        message: this.message,
+        signers: quorum.map((index) => ({
+          index,
+          rank: this._signers.get(index)!.rank,
+          commitment: this._commitments.get(index)!,
+        })),
+      };
+      this._sessions.set(request.sessionId, {
+        session: sessionFromRequest(request, this.groupPublicKey),
+        partials: new Map(),
+      });
+      for (const index of quorum) {
+        // Each commitment goes into exactly one session
+        this._commitments.delete(index);
+        this._awaiting.set(index, request.sessionId);
+      }
+      this._ready = this._ready.filter((index) => !quorum!.includes(index));
+      requests.push(request);
+      quorum = this._pickQuorum(this._ready);
+    }
+    return requests;
+  }
+
+  /** First t candidates in arrival order; for hierarchical groups, the first poised t-subset */
+  private _pickQuorum(candidates: bigint[]): bigint[] | null {
+    const t = this.threshold;
+    if (candidates.length < t) return null;
+    const ranked = [...this._signers.values()].some((s) => (s.rank ?? 0) > 0);
+    if (!ranked) return candidates.slice(0, t);
+
+    const pick: bigint[] = [];
+    const search = (start: number): boolean => {
+      if (pick.length === t) {
+        return isBirkhoffPoised(pick.map((index) => ({ index, rank: this._signers.get(index)!.rank ?? 0 })));
+      }
+      for (let i = start; i <= candidates.length - (t - pick.length); i++) {
+        pick.push(candidates[i]);
+        if (search(i + 1)) return true;
+        pick.pop();
+      }
+      return false;
+    };
+    return search(0) ? pick : null;
+  }
+
+  /** Whether the signers not marked malicious still contain a quorum */
+  private _canStillSign(): boolean {
+    const honest = [...this._signers.keys()].filter((index) => !this._malicious.has(index));
+    return this._pickQuorum(honest) !== null;
+  }
+}
+
+// ── Signer ──
+
+/**
+ * Signer side of ROAST for one message. Holds a single unused nonce at a
+ * time: commit() publishes it, sign() spends it on the session that carries
+ * its commitment and returns the partial with a fresh commitment. A request
+ * for another message or with a stale commitment is refused, so no nonce
+ * ever signs twice. With an identity, commitments are signed and a session
+ * is signed only if every commitment in it verifies under its signer's key.
+ */
+export class RoastSigner {
+  readonly index: bigint;
+  readonly rank: number;
+  readonly message: bigint;
+  readonly groupPublicKey: GrumpkinPoint;
+
+  private _secretShare: bigint;
+  private _nonce: NoncePair | null = null;
+  private _usedNonces?: UsedNonceRegistry;
+  private _identity?: RoastSignerIdentity;
+
+  constructor(
+    share: { index: bigint; rank?: number; secretShare: bigint },
+    message: bigint,
+    groupPublicKey: GrumpkinPoint,
+    usedNonces?: UsedNonceRegistry,
+    identity?: RoastSignerIdentity
+  ) {
+    this.index = share.index;
+    this.rank = share.rank ?? 0;
+    this._secretShare = share.secretShare;
+    this.message = message;
+    this.groupPublicKey = groupPublicKey;
+    this._usedNonces = usedNonces;
+    this._identity = identity;
+  }
+
+  /** Initial message: this signer's first nonce commitment */
+  commit(): RoastResponse {
+    if (this._nonce) {
+      throw new Error("RoastSigner: already committed");
+    }
+    return { signerIndex: this.index, nextCommitment: this._freshCommitment() };
+  }
+
+  /**
+   * Sign a session and commit to the next nonce.
+   * @throws If the request is for another message, does not carry this signer's current commitment,
+   *         or (with an identity) carries a commitment its signer did not sign
+   */
+  sign(request: RoastSessionRequest): RoastResponse {
+    if (request.message !== this.message) {
+      throw new Error("RoastSigner: session is for a different message");
+    }
+    const own = request.signers.find((s) => s.index === this.index);
+    const nonce = this._nonce;
+    if (
+      !own ||
+      !nonce ||
+      own.commitment.D.x !== nonce.D.x ||
+      own.commitment.D.y !== nonce.D.y ||
+      own.commitment.E.x !== nonce.E.x ||
+      own.commitment.E.y !== nonce.E.y
+    ) {
+      throw new Error("RoastSigner: session does not carry this signer's current nonce commitment");
+    }
+    if (this._identity) {
+      for (const s of request.signers) {
+        const identityKey = this._identity.publicKeys.get(s.index);
+        if (!identityKey || !isSignedCommitment(this.message, s.index, s.commitment, identityKey)) {
+          throw new Error(`RoastSigner: commitment of signer ${s.index} is not signed by its identity key`);
+        }
+      }
+    }
+    this._nonce = null;
+
+    const session = sessionFromRequest(request, this.groupPublicKey);
+    const partial = session.participantRanks
+      ? frostHierarchicalPartialSign(
+          this.index,
+          this.rank,
+          this._secretShare,
+          nonce,
+          session,
+          request.signers.map((s) => ({ index: s.index, rank: s.rank ?? 0 })),
+          this._usedNonces
+        )
+      : frostPartialSign(this.index, this._secretShare, nonce, session, this._usedNonces);
+    nonce.d = 0n;
+    nonce.e = 0n;
+
+    return {
+      signerIndex: this.index,
+      sessionId: request.sessionId,
+      partial,
+      nextCommitment: this._freshCommitment(),
+    };
+  }
+
+  private _freshCommitment(): RoastCommitment {
+    this._nonce = generateHedgedNonces(this._secretShare, this.message);
+    const { D, E } = this._nonce;
+    if (!this._identity) return { D, E };
+    const digest = nonceCommitmentDigest(this.message, this.index, D, E);
+    return { D, E, signature: signIdentityMessage(this._identity.secretKey, digest) };
+  }
+}
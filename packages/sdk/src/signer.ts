@@ -18,10 +18,12 @@ import type {
   SigningSession,
 } from "./types.js";
 import { birkhoffCoeff, type BirkhoffParticipant } from "./birkhoff.js";
+import type { UsedNonceRegistry } from "./nonce-tracker.js";
 import {
   Fr,
   G,
   ZERO,
+  randomScalar,
   scalarMul,
   pointAdd,
   pointEqual,
@@ -35,23 +37,32 @@ import {
 
 // ─── Hash Functions ───────────────────────────────────────────────────────────
 
+const BINDING_DOMAIN = 0x62696e64696e67n; // "binding" in hex
+
 /**
- * Hash to scalar for FROST binding factor.
- * ρ_i = H("frost_binding", message, D_i, E_i, signer_index)
+ * Hash to scalar for FROST binding factors (RFC 9591 §4.4):
+ *
+ *   prefix = H("binding", PK_group, message, H((j, D_j, E_j) for j sorted))
+ *   ρ_i    = H(prefix, i)
+ *
+ * Every ρ_i commits to the whole commitment list, so no signer's share of R
+ * can be chosen after seeing the others' (which would let a coordinator
+ * running concurrent sessions forge with Wagner's attack).
  *
  * Uses Poseidon hash (BN254-native) for ZK compatibility.
  */
-function hashBinding(
+function hashBindingFactors(
   message: bigint,
-  D: GrumpkinPoint,
-  E: GrumpkinPoint,
-  signerIndex: bigint
-): bigint {
-  // Chain two poseidon2 hashes to fold 5+ inputs through state-4 permutation
-  // h1 = Poseidon2([message, D.x, D.y, E.x])
-  // result = Poseidon2([h1, E.y, signerIndex, 0])
-  const h1 = poseidon2Hash4(message, D.x, D.y, E.x);
-  return poseidon2Hash4(h1, E.y, signerIndex, 0n);
+  groupPublicKey: GrumpkinPoint,
+  commitments: { index: bigint; D: GrumpkinPoint; E: GrumpkinPoint }[]
+): Map<bigint, bigint> {
+  // Fold each (j, D_j, E_j) through the state-4 permutation in two steps
+  const listHash = commitments.reduce(
+    (acc, { index, D, E }) => poseidon2Hash4(poseidon2Hash4(acc, index, D.x, D.y), E.x, E.y, 0n),
+    BINDING_DOMAIN
+  );
+  const prefix = poseidon2Hash4(groupPublicKey.x, groupPublicKey.y, message, listHash);
+  return new Map(commitments.map(({ index }) => [index, poseidon2Hash2(prefix, index)]));
 }
 
 /**
@@ -69,6 +80,39 @@ export function hashChallenge(
   return poseidon2Hash2(c, message);
 }
 
+// ─── Hedged Nonces ────────────────────────────────────────────────────────────
+
+const NONCE_DOMAIN = 0x4e6f6e6365n; // "Nonce" in hex
+
+/**
+ * Generate a FROST nonce pair hedged against both RNG failure and state
+ * reuse (as in RFC 9591 nonce_generate, plus the message and signer set):
+ *
+ *   d = H("Nonce", randomness, k_i, H(message, participants..., 0))
+ *   e = H("Nonce", randomness, k_i, H(message, participants..., 1))
+ *
+ * A weak RNG alone cannot predict the nonce (it mixes in the secret share),
+ * and the same randomness on a different message or signer set still
+ * yields a different nonce. Persist `randomness` to re-derive the nonce
+ * between committing and signing.
+ *
+ * @param secretShare - This signer's share k_i
+ * @param message - The message the nonce will sign
+ * @param participants - The signer set, if known when committing
+ * @param randomness - Fresh randomness (default: a random scalar)
+ */
+export function generateHedgedNonces(
+  secretShare: bigint,
+  message: bigint,
+  participants: bigint[] = [],
+  randomness: bigint = randomScalar()
+): NoncePair {
+  const context = participants.reduce((acc, p) => poseidon2Hash2(acc, p), message);
+  const d = Fr.create(poseidon2Hash4(NONCE_DOMAIN, randomness, secretShare, poseidon2Hash2(context, 0n)));
+  const e = Fr.create(poseidon2Hash4(NONCE_DOMAIN, randomness, secretShare, poseidon2Hash2(context, 1n)));
+  return { d, e, D: toAffine(scalarMul(G, d)), E: toAffine(scalarMul(G, e)) };
+}
+
 // ─── Lagrange Coefficient ─────────────────────────────────────────────────────
 
 /**
@@ -132,6 +176,66 @@ export function registerNonceCommitment(
   session.nonceCommitments.set(signerIndex, { D, E });
 }
 
+// ─── Group Commitment ─────────────────────────────────────────────────────────
+
+/**
+ * Compute the binding factors and group nonce commitment for a signer set:
+ *
+ *   R = Σ(D_j + [ρ_j]E_j) for j in participants
+ *
+ * The commitment list is hashed in ascending index order, so every signer
+ * derives the same ρ_j whatever order it lists the participants in.
+ *
+ * @param message - The message being signed
+ * @param groupPublicKey - The group public key PK_group
+ * @param participants - Signer indices participating
+ * @param nonceCommitments - Every participant's (D, E)
+ * @returns R and each participant's binding factor ρ_j
+ * @throws If a participant's commitment is missing
+ */
+export function computeGroupCommitment(
+  message: bigint,
+  groupPublicKey: GrumpkinPoint,
+  participants: bigint[],
+  nonceCommitments: Map<bigint, { D: GrumpkinPoint; E: GrumpkinPoint }>
+): { R: GrumpkinPoint; bindingFactors: Map<bigint, bigint> } {
+  const commitments = [...participants]
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    .map((index) => {
+      const commitment = nonceCommitments.get(index);
+      if (!commitment) {
+        throw new Error(`Missing nonce commitment for signer ${index}`);
+      }
+      return { index, ...commitment };
+    });
+
+  const bindingFactors = hashBindingFactors(message, groupPublicKey, commitments);
+  let R: ProjectivePointType = ZERO;
+  for (const { index, D, E } of commitments) {
+    const Ej_scaled = scalarMul(fromAffine(E), bindingFactors.get(index)!);
+    R = pointAdd(R, pointAdd(fromAffine(D), Ej_scaled));
+  }
+  return { R: toAffine(R), bindingFactors };
+}
+
+/** A signer's own ρ_i, once its nonce is the commitment the others bound to */
+function ownBindingFactor(
+  bindingFactors: Map<bigint, bigint>,
+  signerIndex: bigint,
+  nonce: NoncePair,
+  nonceCommitments: Map<bigint, { D: GrumpkinPoint; E: GrumpkinPoint }>
+): bigint {
+  const rho_i = bindingFactors.get(signerIndex);
+  const own = nonceCommitments.get(signerIndex);
+  if (rho_i === undefined || !own) {
+    throw new Error(`Signer ${signerIndex} is not a participant in this session`);
+  }
+  if (own.D.x !== nonce.D.x || own.D.y !== nonce.D.y || own.E.x !== nonce.E.x || own.E.y !== nonce.E.y) {
+    throw new Error(`Nonce does not match signer ${signerIndex}'s registered commitment`);
+  }
+  return rho_i;
+}
+
 // ─── Partial Signing ──────────────────────────────────────────────────────────
 
 /**
@@ -144,43 +248,37 @@ export function registerNonceCommitment(
  * @param secretShare - This signer's Shamir share k_i
  * @param nonce - Pre-computed nonce pair (consumed after use)
  * @param session - The signing session with all nonce commitments
+ * @param usedNonces - Registry that refuses a nonce that has already signed
  * @returns Partial signature { z_i, R }
+ * @throws If a participant's commitment is missing or the nonce was used before
  */
 export function frostPartialSign(
   signerIndex: bigint,
   secretShare: bigint,
   nonce: NoncePair,
-  session: SigningSession
+  session: SigningSession,
+  usedNonces?: UsedNonceRegistry
 ): PartialSignature {
   const { message, participants, nonceCommitments, groupPublicKey } = session;
 
-  // Verify all participants have registered nonce commitments
-  for (const p of participants) {
-    if (!nonceCommitments.has(p)) {
-      throw new Error(`Missing nonce commitment for signer ${p}`);
-    }
-  }
-
-  // 1. Compute binding factor for this signer
-  const rho_i = hashBinding(message, nonce.D, nonce.E, signerIndex);
-
-  // 2. Compute group nonce commitment R = Σ(D_j + [ρ_j]E_j) for j in participants
-  let R: ProjectivePointType = ZERO;
-  for (const j of participants) {
-    const { D, E } = nonceCommitments.get(j)!;
-    const rho_j = hashBinding(message, D, E, j);
-    const Ej_scaled = scalarMul(fromAffine(E), rho_j);
-    const term = pointAdd(fromAffine(D), Ej_scaled);
-    R = pointAdd(R, term);
-  }
+  // 1–2. Binding factors over the full commitment list, and group nonce
+  //      commitment R = Σ(D_j + [ρ_j]E_j) for j in participants
+  const { R: R_affine, bindingFactors } = computeGroupCommitment(
+    message,
+    groupPublicKey,
+    participants,
+    nonceCommitments
+  );
+  const rho_i = ownBindingFactor(bindingFactors, signerIndex, nonce, nonceCommitments);
 
   // 3. Compute challenge c = H("frost_challenge", R, PK_group, message)
-  const R_affine = toAffine(R);
   const c = hashChallenge(R_affine, groupPublicKey, message);
 
   // 4. Compute Lagrange coefficient λ_i
   const lambda_i = lagrangeCoeff(signerIndex, participants);
 
+  usedNonces?.markUsed(nonce);
+
   // 5. Partial signature: z_i = d_i + ρ_i·e_i + λ_i·k_i·c (mod order)
   const z_i = Fr.add(
     Fr.add(nonce.d, Fr.mul(rho_i, nonce.e)),
@@ -256,6 +354,59 @@ export function frostVerify(
   return pointEqual(lhs, rhs);
 }
 
+/**
+ * Verify one signer's partial signature before aggregation (RFC 9591 §5.4):
+ *
+ *   [z_i]G == D_i + [rho_i]E_i + [w_i * c]PK_i
+ *
+ * where w_i is the Lagrange coefficient, or the Birkhoff coefficient when the
+ * session has participantRanks. A false result identifies the signer whose
+ * partial would make the aggregate fail, without spending a proving run.
+ *
+ * @param session - The signing session with every participant's nonce commitment
+ * @param partial - The partial signature to check
+ * @param publicShare - The signer's public share [k_i]G, adjusted like its
+ *   secret share (e.g. plus the stealth offset)
+ * @returns true if the partial is valid for this session
+ */
+export function verifyPartialSignature(
+  session: SigningSession,
+  partial: PartialSignature,
+  publicShare: GrumpkinPoint
+): boolean {
+  const { message, participants, participantRanks, nonceCommitments, groupPublicKey } = session;
+  const own = nonceCommitments.get(partial.signerIndex);
+  if (!own || !participants.includes(partial.signerIndex) || partial.z_i >= Fr.ORDER) {
+    return false;
+  }
+
+  // Group commitment R, which the partial must have used
+  if (!participants.every((j) => nonceCommitments.has(j))) return false;
+  const { R: R_affine, bindingFactors } = computeGroupCommitment(
+    message,
+    groupPublicKey,
+    participants,
+    nonceCommitments
+  );
+  if (R_affine.x !== partial.R.x || R_affine.y !== partial.R.y) return false;
+
+  const c = hashChallenge(R_affine, groupPublicKey, message);
+  const weight = participantRanks
+    ? birkhoffCoeff(
+        partial.signerIndex,
+        participantRanks.get(partial.signerIndex) ?? 0,
+        participants.map((index) => ({ index, rank: participantRanks.get(index) ?? 0 }))
+      )
+    : lagrangeCoeff(partial.signerIndex, participants);
+
+  const rho_i = bindingFactors.get(partial.signerIndex)!;
+  const rhs = pointAdd(
+    pointAdd(fromAffine(own.D), scalarMul(fromAffine(own.E), rho_i)),
+    scalarMul(fromAffine(publicShare), Fr.mul(weight, c))
+  );
+  return pointEqual(scalarMul(G, partial.z_i), rhs);
+}
+
 // ─── Convenience: Full Sign Flow ──────────────────────────────────────────────
 
 /**
@@ -344,6 +495,7 @@ export function frostSign(
  * @param nonce - Pre-computed nonce pair
  * @param session - The signing session (must have participantRanks set)
  * @param participants - All participants with their ranks
+ * @param usedNonces - Registry that refuses a nonce that has already signed
  * @returns Partial signature { z_i, R }
  */
 export function frostHierarchicalPartialSign(
@@ -352,38 +504,28 @@ export function frostHierarchicalPartialSign(
   secretShare: bigint,
   nonce: NoncePair,
   session: SigningSession,
-  participants: BirkhoffParticipant[]
+  participants: BirkhoffParticipant[],
+  usedNonces?: UsedNonceRegistry
 ): PartialSignature {
   const { message, nonceCommitments, groupPublicKey } = session;
-  const participantIndices = participants.map((p) => p.index);
 
-  // Verify all participants have registered nonce commitments
-  for (const p of participantIndices) {
-    if (!nonceCommitments.has(p)) {
-      throw new Error(`Missing nonce commitment for signer ${p}`);
-    }
-  }
-
-  // 1. Compute binding factor
-  const rho_i = hashBinding(message, nonce.D, nonce.E, signerIndex);
-
-  // 2. Compute group nonce R
-  let R: ProjectivePointType = ZERO;
-  for (const j of participantIndices) {
-    const { D, E } = nonceCommitments.get(j)!;
-    const rho_j = hashBinding(message, D, E, j);
-    const Ej_scaled = scalarMul(fromAffine(E), rho_j);
-    const term = pointAdd(fromAffine(D), Ej_scaled);
-    R = pointAdd(R, term);
-  }
+  // 1–2. Compute binding factors and group nonce R
+  const { R: R_affine, bindingFactors } = computeGroupCommitment(
+    message,
+    groupPublicKey,
+    participants.map((p) => p.index),
+    nonceCommitments
+  );
+  const rho_i = ownBindingFactor(bindingFactors, signerIndex, nonce, nonceCommitments);
 
   // 3. Compute challenge
-  const R_affine = toAffine(R);
   const c = hashChallenge(R_affine, groupPublicKey, message);
 
   // 4. Compute Birkhoff coefficient (replaces Lagrange)
   const beta_i = birkhoffCoeff(signerIndex, signerRank, participants);
 
+  usedNonces?.markUsed(nonce);
+
   // 5. Partial signature: z_i = d_i + rho_i*e_i + beta_i*k_i*c
   const z_i = Fr.add(
     Fr.add(nonce.d, Fr.mul(rho_i, nonce.e)),
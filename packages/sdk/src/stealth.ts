@@ -3,10 +3,25 @@
  *
  * Implements simplified Railgun-style stealth addresses on Grumpkin.
  * Senders can pay recipients without revealing the recipient's identity on-chain.
+ *
+ * Note owners also commit to the recipient's nullifying key (NK), so only the
+ * recipient can compute a note's nullifier: a sender cannot tell when the
+ * note they paid is spent.
+ *
+ * A meta-address may also carry a scan key. Senders then add a scan tag
+ * derived from [r]PK_scan, so whoever holds the scan key can filter the
+ * pool for candidate notes without being able to open them (used when the
+ * viewing key is threshold-shared, see threshold-viewing.ts).
  */
 
-import { poseidon2Hash2 } from "./hash.js";
-import type { GrumpkinPoint, StealthMetaAddress, StealthAddress } from "./types.js";
+import { poseidon2Hash2, poseidon2Hash3 } from "./hash.js";
+import type {
+  GrumpkinPoint,
+  StealthMetaAddress,
+  StealthAddress,
+  StealthNote,
+  NoteCiphertext,
+} from "./types.js";
 import {
   G,
   randomScalar,
@@ -17,17 +32,107 @@ import {
   Fr,
 } from "./grumpkin.js";
 
+/** Domain separator deriving nk from the viewing key ("Nullify" in hex) */
+const NULLIFYING_KEY_DOMAIN = 0x4e756c6c696679n;
+
+/** Domain separator for the public nullifier key commitment ("NullKey" in hex) */
+const NULLIFIER_KEY_COMMITMENT_DOMAIN = 0x4e756c6c4b6579n;
+
+/** Domain separator deriving the outgoing viewing key ("Outgoing" in hex) */
+const OUTGOING_VIEWING_KEY_DOMAIN = 0x4f7574676f696e67n;
+
+/** Domain separator deriving per-epoch viewing keys ("EpochVk" in hex) */
+const EPOCH_VIEWING_KEY_DOMAIN = 0x45706f6368566bn;
+
+/** Domain separator for scan tags ("ScanTag" in hex) */
+const SCAN_TAG_DOMAIN = 0x5363616e546167n;
+
+/** Domain separator for note blinding derivation ("Blinding" in hex) */
+const BLINDING_DOMAIN = 0x426c696e64696e67n;
+
+/** Amounts are 128-bit and encrypted with the low 128 bits of the stealth scalar */
+const MASK_128 = (1n << 128n) - 1n;
+
+// ─── Nullifying Key ───────────────────────────────────────────────────────────
+
+/**
+ * Derive the treasury's secret nullifying key from its viewing key.
+ * nk = Poseidon(viewingSk, domain)
+ *
+ * Whoever holds the viewing key can therefore also see when notes are spent;
+ * senders, who only know the meta-address, cannot.
+ */
+export function deriveNullifyingKey(viewingSecretKey: bigint): bigint {
+  return poseidon2Hash2(viewingSecretKey, NULLIFYING_KEY_DOMAIN);
+}
+
+/**
+ * Public commitment to a nullifying key, published in the meta-address.
+ * NK = Poseidon(nk, domain). Must match the circuit.
+ */
+export function computeNullifierKeyCommitment(nullifyingKey: bigint): bigint {
+  return poseidon2Hash2(nullifyingKey, NULLIFIER_KEY_COMMITMENT_DOMAIN);
+}
+
+/**
+ * Derive the treasury's outgoing viewing key from its viewing key.
+ * ovk = Poseidon(viewingSk, domain)
+ *
+ * Each output is also encrypted to the ovk (see encryptStealthNote), so the
+ * treasury can recover who it paid. It can be handed to an auditor on its
+ * own: it reveals sent payments but not received notes or spends.
+ */
+export function deriveOutgoingViewingKey(viewingSecretKey: bigint): bigint {
+  return poseidon2Hash2(viewingSecretKey, OUTGOING_VIEWING_KEY_DOMAIN);
+}
+
+// ─── Epoch Viewing Keys ───────────────────────────────────────────────────────
+
+/**
+ * Viewing-key epoch of a timestamp: its calendar quarter in UTC, numbered
+ * 4 * year + quarter (0-3).
+ */
+export function viewingKeyEpoch(timestampMs: number): number {
+  const date = new Date(timestampMs);
+  return date.getUTCFullYear() * 4 + Math.floor(date.getUTCMonth() / 3);
+}
+
+/** Label of a viewing-key epoch, e.g. "2026-Q4" */
+export function formatViewingKeyEpoch(epoch: number): string {
+  return `${Math.floor(epoch / 4)}-Q${(epoch % 4) + 1}`;
+}
+
+/**
+ * Derive the viewing key for one epoch from the master viewing key.
+ * vsk_e = Poseidon(masterViewingSk, domain, epoch)
+ *
+ * The treasury publishes a fresh meta-address each epoch with this key's
+ * public point, so an epoch key only finds notes sent in that epoch. The
+ * derivation is one-way: an epoch key reveals neither the master nor any
+ * other epoch's key. The nullifying key stays derived from the master key,
+ * so notes of every epoch are spent the same way.
+ */
+export function deriveEpochViewingKey(masterViewingSecretKey: bigint, epoch: number): bigint {
+  if (!Number.isInteger(epoch) || epoch < 0) throw new Error(`Invalid viewing-key epoch: ${epoch}`);
+  return poseidon2Hash3(masterViewingSecretKey, EPOCH_VIEWING_KEY_DOMAIN, BigInt(epoch));
+}
+
 // ─── Stealth Meta-Address ─────────────────────────────────────────────────────
 
 /**
- * Create a stealth meta-address from spending and viewing public keys.
+ * Create a stealth meta-address from spending and viewing public keys and the
+ * nullifier key commitment (and optionally a scan key).
  * This is published by the recipient so senders can derive stealth addresses.
  */
 export function createStealthMetaAddress(
   spendingPublicKey: GrumpkinPoint,
-  viewingPublicKey: GrumpkinPoint
+  viewingPublicKey: GrumpkinPoint,
+  nullifierKeyCommitment: bigint,
+  scanPublicKey?: GrumpkinPoint
 ): StealthMetaAddress {
-  return { spendingPublicKey, viewingPublicKey };
+  return scanPublicKey
+    ? { spendingPublicKey, viewingPublicKey, nullifierKeyCommitment, scanPublicKey }
+    : { spendingPublicKey, viewingPublicKey, nullifierKeyCommitment };
 }
 
 // ─── Stealth Address Generation (Sender Side) ────────────────────────────────
@@ -40,15 +145,17 @@ export function createStealthMetaAddress(
  * 2. Shared secret S = [r]PK_view (ECDH with recipient's viewing key)
  * 3. Stealth public key = [H(S)]G + PK_spend
  * 4. View tag = H(S) truncated (for efficient scanning)
+ * 5. Note owner = Poseidon(stealthPk.x, stealthPk.y, NK)
  *
  * @param recipientMeta - Recipient's stealth meta-address
- * @returns Stealth address + ephemeral public key + view tag
+ * @param ephemeralSk - Ephemeral secret r (random by default)
+ * @returns Stealth address + note owner + ephemeral public key + view tag
  */
 export function generateStealthAddress(
-  recipientMeta: StealthMetaAddress
+  recipientMeta: StealthMetaAddress,
+  ephemeralSk: bigint = randomScalar()
 ): StealthAddress {
-  // 1. Generate ephemeral secret
-  const ephemeralSk = randomScalar();
+  // 1. Ephemeral keypair
   const ephemeralPk = toAffine(scalarMul(G, ephemeralSk));
 
   // 2. Compute shared secret: S = [ephemeralSk]PK_view
@@ -68,8 +175,10 @@ export function generateStealthAddress(
   // 5. View tag for efficient scanning (just the low bits of the hash)
   const viewTag = stealthScalar & 0xFFn;
 
+  const address = toAffine(stealthPoint);
   return {
-    address: toAffine(stealthPoint),
+    address,
+    owner: poseidon2Hash3(address.x, address.y, recipientMeta.nullifierKeyCommitment),
     ephemeralPublicKey: ephemeralPk,
     viewTag,
     stealthScalar,
@@ -96,7 +205,16 @@ export function checkStealthAddress(
   const sharedSecret = toAffine(
     scalarMul(fromAffine(ephemeralPk), viewingSecretKey)
   );
+  return checkSharedSecret(sharedSecret, viewTag);
+}
 
+/**
+ * Check a view tag against an already computed shared secret S = [viewingSk]R,
+ * e.g. one combined from threshold partials.
+ *
+ * @returns The stealth scalar if the view tag matches, null otherwise
+ */
+export function checkSharedSecret(sharedSecret: GrumpkinPoint, viewTag: bigint): bigint | null {
   // Derive stealth scalar
   const stealthScalar = poseidon2Hash2(sharedSecret.x, sharedSecret.y);
 
@@ -107,6 +225,29 @@ export function checkStealthAddress(
   return stealthScalar;
 }
 
+// ─── Scan Tags ────────────────────────────────────────────────────────────────
+
+/** Scan tag from the scan ECDH point: one byte, like the view tag */
+function scanTagOf(point: GrumpkinPoint): bigint {
+  return poseidon2Hash3(SCAN_TAG_DOMAIN, point.x, point.y) & 0xFFn;
+}
+
+/**
+ * Compute the scan tag for a note to a meta-address with a scan key (sender
+ * side): the low byte of Poseidon(domain, [r]PK_scan).
+ */
+export function computeScanTag(scanPublicKey: GrumpkinPoint, ephemeralSk: bigint): bigint {
+  return scanTagOf(toAffine(scalarMul(fromAffine(scanPublicKey), ephemeralSk)));
+}
+
+/**
+ * Check a note's scan tag with the scan key. A match only makes the note a
+ * candidate (1 in 256 others match too); the scan key cannot open it.
+ */
+export function checkScanTag(ephemeralPk: GrumpkinPoint, scanTag: bigint, scanSecretKey: bigint): boolean {
+  return scanTagOf(toAffine(scalarMul(fromAffine(ephemeralPk), scanSecretKey))) === scanTag;
+}
+
 /**
  * Compute the stealth spending key for a matched address.
  * stealthSk = spendingSk + stealthScalar
@@ -121,3 +262,127 @@ export function computeStealthSpendingKey(
 ): bigint {
   return Fr.add(spendingSecretKey, stealthScalar);
 }
+
+/**
+ * Compute the stealth public key for a matched address.
+ * stealthPk = PK_spend + [stealthScalar]G
+ *
+ * @param spendingPublicKey - The (group) spending public key
+ * @param stealthScalar - The derived stealth scalar
+ * @returns The one-time public key the note is owned by
+ */
+export function computeStealthPublicKey(
+  spendingPublicKey: GrumpkinPoint,
+  stealthScalar: bigint
+): GrumpkinPoint {
+  return toAffine(
+    pointAdd(fromAffine(spendingPublicKey), scalarMul(G, stealthScalar))
+  );
+}
+
+/**
+ * Compute a stealth note's owner field: Poseidon(stealthPk.x, stealthPk.y, NK).
+ * Matches the circuit, which derives it from the group key, stealth scalar
+ * and nullifying key rather than taking it as an input.
+ *
+ * @param spendingPublicKey - The (group) spending public key
+ * @param stealthScalar - The derived stealth scalar
+ * @param nullifierKeyCommitment - NK of the owner's nullifying key
+ * @returns The spending key hash used as the note commitment's owner
+ */
+export function computeStealthSpendingKeyHash(
+  spendingPublicKey: GrumpkinPoint,
+  stealthScalar: bigint,
+  nullifierKeyCommitment: bigint
+): bigint {
+  const stealthPk = computeStealthPublicKey(spendingPublicKey, stealthScalar);
+  return poseidon2Hash3(stealthPk.x, stealthPk.y, nullifierKeyCommitment);
+}
+
+// ─── Stealth Notes ────────────────────────────────────────────────────────────
+
+/**
+ * Derive a stealth note's blinding factor from its stealth scalar.
+ * blinding = Poseidon(stealthScalar, domain). Must match the circuit.
+ */
+export function deriveNoteBlinding(stealthScalar: bigint): bigint {
+  return poseidon2Hash2(stealthScalar, BLINDING_DOMAIN);
+}
+
+/**
+ * XOR a 128-bit amount with the low 128 bits of the stealth scalar.
+ * The same call decrypts. Must match the circuit.
+ */
+export function encryptNoteAmount(amount: bigint, stealthScalar: bigint): bigint {
+  return (amount ^ stealthScalar) & MASK_128;
+}
+
+/**
+ * Create a note paying `amount` of `asset` to a fresh stealth address of
+ * `recipientMeta`, with the ciphertext its recipient scans for.
+ *
+ * Owner and blinding are derived from the ECDH secret, so the ciphertext
+ * alone lets the viewing key holder open the note. The transfer circuit
+ * re-derives all of them from the recipient's keys and ephemeralSk, so a
+ * sender cannot publish a ciphertext that does not open its commitment.
+ *
+ * @throws If the amount does not fit in 128 bits
+ */
+export function createStealthNote(
+  recipientMeta: StealthMetaAddress,
+  asset: string,
+  amount: bigint,
+  ephemeralSk: bigint = randomScalar()
+): StealthNote {
+  if (amount < 0n || amount > MASK_128) {
+    throw new Error("Note amount must fit in 128 bits");
+  }
+  const stealth = generateStealthAddress(recipientMeta, ephemeralSk);
+  return {
+    owner: stealth.owner,
+    asset,
+    amount,
+    blinding: deriveNoteBlinding(stealth.stealthScalar),
+    recipient: recipientMeta,
+    ephemeralSecretKey: ephemeralSk,
+    ciphertext: {
+      ephemeralPublicKey: stealth.ephemeralPublicKey,
+      viewTag: stealth.viewTag,
+      encryptedAmount: encryptNoteAmount(amount, stealth.stealthScalar),
+    },
+  };
+}
+
+/**
+ * Open a note ciphertext with the viewing key.
+ *
+ * @returns The note's stealth scalar, amount and blinding, or null if the
+ *   ciphertext is not addressed to this viewing key
+ */
+export function openStealthNote(
+  ciphertext: NoteCiphertext,
+  viewingSecretKey: bigint
+): { stealthScalar: bigint; amount: bigint; blinding: bigint } | null {
+  const sharedSecret = toAffine(scalarMul(fromAffine(ciphertext.ephemeralPublicKey), viewingSecretKey));
+  return openStealthNoteWithSharedSecret(ciphertext, sharedSecret);
+}
+
+/**
+ * Open a note ciphertext with its ECDH secret S = [viewingSk]R, as combined
+ * from threshold partials (see combinePartialSharedSecrets).
+ *
+ * @returns The note's stealth scalar, amount and blinding, or null if the
+ *   view tag does not match
+ */
+export function openStealthNoteWithSharedSecret(
+  ciphertext: NoteCiphertext,
+  sharedSecret: GrumpkinPoint
+): { stealthScalar: bigint; amount: bigint; blinding: bigint } | null {
+  const stealthScalar = checkSharedSecret(sharedSecret, ciphertext.viewTag);
+  if (stealthScalar === null) return null;
+  return {
+    stealthScalar,
+    amount: encryptNoteAmount(ciphertext.encryptedAmount, stealthScalar),
+    blinding: deriveNoteBlinding(stealthScalar),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * BLSGun Threshold Viewing Key
+ *
+ * Optional mode in which the viewing key is Shamir-shared like the spending
+ * key, so no single signer can decrypt the treasury's history:
+ *
+ *   Filter:   a delegated scan key (no viewing power) matches each note's
+ *             scan tag and yields candidate ephemeral keys R.
+ *   Partials: each of t signers returns [vsk_i]R with a DLEQ proof that it
+ *             used the same vsk_i as its public share [vsk_i]G.
+ *   Combine:  S = sum(lambda_i * [vsk_i]R) = [vsk]R, the ECDH secret the
+ *             sender used. S opens the note (openStealthNoteWithSharedSecret).
+ *
+ * A wrong partial is caught by its proof and attributed to its signer.
+ *
+ * nk cannot be derived from a shared key, so it is generated separately and
+ * held by every signer (it reveals spends only of notes one can already
+ * find). Epoch viewing keys and the outgoing viewing key are derived from a
+ * viewing secret by hashing, so this mode has neither: auditors are served
+ * from threshold scans instead. Call initHash() before use.
+ */
+
+import type { GrumpkinPoint, StealthMetaAddress, ViewingKeyShare } from "./types.js";
+import {
+  Fr,
+  G,
+  ZERO,
+  scalarMul,
+  pointAdd,
+  pointNeg,
+  toAffine,
+  fromAffine,
+  randomScalar,
+} from "./grumpkin.js";
+import { poseidon2Hash3, poseidon2Hash4 } from "./hash.js";
+import { shamirSplit } from "./keygen.js";
+import { lagrangeCoeff } from "./signer.js";
+import { computeNullifierKeyCommitment, createStealthMetaAddress } from "./stealth.js";
+
+const DLEQ_DOMAIN = 0x446c6571n; // "Dleq" in hex
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Threshold viewing key (output of the dealer) */
+export interface ThresholdViewingKeyPackage {
+  threshold: number;
+  viewingPublicKey: GrumpkinPoint; // [vsk]G; vsk itself is discarded
+  shares: ViewingKeyShare[];
+  scanSecretKey: bigint; // Delegated scan-only key
+  scanPublicKey: GrumpkinPoint;
+  nullifyingKey: bigint; // nk, held by every signer
+}
+
+/** Proof that log_G(Y) == log_R(P) */
+export interface DleqProof {
+  c: bigint;
+  z: bigint;
+}
+
+/** One signer's contribution [vsk_i]R to the ECDH secret of a note */
+export interface PartialSharedSecret {
+  index: bigint;
+  point: GrumpkinPoint;
+  proof: DleqProof;
+}
+
+// ─── Key Generation ───────────────────────────────────────────────────────────
+
+/**
+ * Generate a t-of-n threshold viewing key with a scan key and nullifying key.
+ *
+ * Like generateMasterKeyPackage this is a trusted dealer: vsk exists in one
+ * process until the shares are handed out.
+ */
+export function generateThresholdViewingKey(options: {
+  threshold: number;
+  totalSigners: number;
+}): ThresholdViewingKeyPackage {
+  const { threshold, totalSigners } = options;
+  if (threshold < 1 || threshold > totalSigners) {
+    throw new Error(`Invalid threshold: need 1 <= t(${threshold}) <= n(${totalSigners})`);
+  }
+
+  const viewingSecretKey = randomScalar();
+  const shares = shamirSplit(viewingSecretKey, threshold, totalSigners).map((secretShare, idx) => ({
+    index: BigInt(idx + 1),
+    secretShare,
+    publicShare: toAffine(scalarMul(G, secretShare)),
+  }));
+  const scanSecretKey = randomScalar();
+
+  return {
+    threshold,
+    viewingPublicKey: toAffine(scalarMul(G, viewingSecretKey)),
+    shares,
+    scanSecretKey,
+    scanPublicKey: toAffine(scalarMul(G, scanSecretKey)),
+    nullifyingKey: randomScalar(),
+  };
+}
+
+/** The treasury's meta-address in threshold viewing mode (with its scan key) */
+export function thresholdMetaAddress(
+  spendingPublicKey: GrumpkinPoint,
+  pkg: ThresholdViewingKeyPackage
+): StealthMetaAddress {
+  return createStealthMetaAddress(
+    spendingPublicKey,
+    pkg.viewingPublicKey,
+    computeNullifierKeyCommitment(pkg.nullifyingKey),
+    pkg.scanPublicKey
+  );
+}
+
+// ─── DLEQ Proofs ──────────────────────────────────────────────────────────────
+
+function dleqChallenge(
+  index: bigint,
+  Y: GrumpkinPoint,
+  R: GrumpkinPoint,
+  P: GrumpkinPoint,
+  A: GrumpkinPoint,
+  B: GrumpkinPoint
+): bigint {
+  const h = poseidon2Hash4(DLEQ_DOMAIN, index, Y.x, Y.y);
+  const h2 = poseidon2Hash4(h, R.x, R.y, P.x);
+  const h3 = poseidon2Hash4(h2, P.y, A.x, A.y);
+  return Fr.create(poseidon2Hash3(h3, B.x, B.y));
+}
+
+/**
+ * Compute this signer's partial ECDH value for a note's ephemeral key, with
+ * a proof that it used its viewing key share.
+ */
+export function computePartialSharedSecret(
+  share: ViewingKeyShare,
+  ephemeralPublicKey: GrumpkinPoint
+): PartialSharedSecret {
+  const R = fromAffine(ephemeralPublicKey);
+  const point = toAffine(scalarMul(R, share.secretShare));
+
+  const k = randomScalar();
+  const c = dleqChallenge(
+    share.index,
+    share.publicShare,
+    ephemeralPublicKey,
+    point,
+    toAffine(scalarMul(G, k)),
+    toAffine(scalarMul(R, k))
+  );
+  return { index: share.index, point, proof: { c, z: Fr.add(k, Fr.mul(c, share.secretShare)) } };
+}
+
+/**
+ * Verify a partial against the signer's public share [vsk_i]G:
+ * A = [z]G - [c]Y_i and B = [z]R - [c]P_i must hash back to c.
+ */
+export function verifyPartialSharedSecret(
+  partial: PartialSharedSecret,
+  publicShare: GrumpkinPoint,
+  ephemeralPublicKey: GrumpkinPoint
+): boolean {
+  const { c, z } = partial.proof;
+  if (c >= Fr.ORDER || z >= Fr.ORDER) return false;
+  let P;
+  try {
+    P = fromAffine(partial.point);
+    P.assertValidity();
+  } catch {
+    return false; // Not a curve point
+  }
+  const R = fromAffine(ephemeralPublicKey);
+  const A = pointAdd(scalarMul(G, z), pointNeg(scalarMul(fromAffine(publicShare), c)));
+  const B = pointAdd(scalarMul(R, z), pointNeg(scalarMul(P, c)));
+  return dleqChallenge(partial.index, publicShare, ephemeralPublicKey, partial.point, toAffine(A), toAffine(B)) === c;
+}
+
+/**
+ * Combine partials from at least t signers into S = [vsk]R.
+ *
+ * @param publicShares - Every signer's public viewing key share
+ * @throws If a partial's proof fails (naming the signer) or fewer than
+ *   `threshold` distinct signers contributed
+ */
+export function combinePartialSharedSecrets(
+  partials: PartialSharedSecret[],
+  ephemeralPublicKey: GrumpkinPoint,
+  publicShares: { index: bigint; publicShare: GrumpkinPoint }[],
+  threshold: number
+): GrumpkinPoint {
+  const byIndex = new Map<bigint, PartialSharedSecret>();
+  for (const partial of partials) {
+    const publicShare = publicShares.find((s) => s.index === partial.index)?.publicShare;
+    if (!publicShare || !verifyPartialSharedSecret(partial, publicShare, ephemeralPublicKey)) {
+      throw new Error(`Invalid partial shared secret from signer ${partial.index}`);
+    }
+    byIndex.set(partial.index, partial);
+  }
+  if (byIndex.size < threshold) {
+    throw new Error(`Need partials from ${threshold} signers, got ${byIndex.size}`);
+  }
+
+  const participants = [...byIndex.keys()];
+  let sharedSecret = ZERO;
+  for (const [index, partial] of byIndex) {
+    sharedSecret = pointAdd(sharedSecret, scalarMul(fromAffine(partial.point), lagrangeCoeff(index, participants)));
+  }
+  return toAffine(sharedSecret);
+}
@@ -5,74 +5,137 @@
  * nullifier derivation, and Merkle tree management.
  */
 
-import { poseidon2Hash2, poseidon2Hash3 } from "./hash.js";
+import { poseidon2Hash2, poseidon2Hash3, poseidon2Hash4 } from "./hash.js";
 import type {
   Note,
   CommitmentLeaf,
   MerkleProof,
+  SerializedMerkleTree,
   UnsignedTransaction,
   CircuitInputs,
   FrostSignature,
   GrumpkinPoint,
+  SpendInput,
+  SpendWitness,
+  StealthNote,
+  NoteCiphertext,
 } from "./types.js";
-import { randomScalar, GRUMPKIN_ORDER } from "./grumpkin.js";
+import { randomScalar, GRUMPKIN_ORDER, G, toAffine } from "./grumpkin.js";
+import {
+  computeStealthSpendingKeyHash,
+  computeNullifierKeyCommitment,
+  createStealthNote,
+} from "./stealth.js";
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 /** Merkle tree depth (supports 2^20 = ~1M notes) */
 export const TREE_DEPTH = 20;
 
+/** JoinSplit arity: notes spent / created per transaction (must match circuit N_INS / N_OUTS) */
+export const MAX_INPUTS = 2;
+export const MAX_OUTPUTS = 2;
+
+/** Asset name of the chain's native coin in Note.asset */
+export const NATIVE_ASSET = "CFX";
+
+/** Asset ID committed into native-coin notes (ERC-20 notes use the token address) */
+export const NATIVE_ASSET_ID = 0n;
+
 /** Zero value for empty tree leaves */
 const ZERO_VALUE = 0n;
 
 // ─── Commitment & Nullifier ───────────────────────────────────────────────────
 
+/**
+ * Map a Note.asset to the asset ID committed into notes and used as the
+ * circuit's public `asset` input: 0n for the native coin, otherwise the
+ * ERC-20 token address as a field element.
+ *
+ * @throws If the asset is neither the native coin nor a 20-byte address
+ */
+export function assetId(asset: string): bigint {
+  if (asset === NATIVE_ASSET) return NATIVE_ASSET_ID;
+  if (!/^0x[0-9a-fA-F]{40}$/.test(asset)) {
+    throw new Error(`Unknown asset: ${asset}`);
+  }
+  const id = BigInt(asset);
+  if (id === NATIVE_ASSET_ID) {
+    throw new Error("The zero address is not a token");
+  }
+  return id;
+}
+
 /**
  * Compute a Poseidon commitment for a note.
- * commitment = Poseidon(owner, amount, blinding)
+ * commitment = Poseidon(owner, amount, blinding, asset)
  *
  * This hides the note contents on-chain while allowing ZK proofs.
+ * The asset ID is committed so a note can only be spent as the asset it holds.
  */
 export function computeCommitment(
   owner: bigint,
   amount: bigint,
-  blinding: bigint
+  blinding: bigint,
+  asset: bigint = NATIVE_ASSET_ID
 ): bigint {
-  return poseidon2Hash3(owner, amount, blinding);
+  return poseidon2Hash4(owner, amount, blinding, asset);
 }
 
 /**
  * Compute a nullifier for a spent note.
- * nullifier = Poseidon(spendingKeyHash, leafIndex)
+ * nullifier = Poseidon(nk, commitment, leafIndex)
  *
- * The nullifier is unique per note and prevents double-spending.
+ * The nullifier is unique per note and prevents double-spending. It depends
+ * on the owner's secret nullifying key, so the sender of a note cannot
+ * recognise it when the note is spent.
  */
 export function computeNullifier(
-  spendingKeyHash: bigint,
+  nullifyingKey: bigint,
+  commitment: bigint,
   leafIndex: bigint
 ): bigint {
-  return poseidon2Hash2(spendingKeyHash, leafIndex);
+  return poseidon2Hash3(nullifyingKey, commitment, leafIndex);
+}
+
+/**
+ * Pad a list of slot values with zeros (unused slots) up to `size`.
+ */
+function padSlots(values: bigint[], size: number, what: string): bigint[] {
+  if (values.length > size) {
+    throw new Error(`Too many ${what}: ${values.length} (max ${size})`);
+  }
+  return [...values, ...Array<bigint>(size - values.length).fill(0n)];
 }
 
 /**
  * Compute the transaction message M to be signed by FROST.
- * M = Poseidon(nullifiers || commitments || fee || deadline)
+ * M = Poseidon(fee || relayer || deadline || nullifiers || commitments || recipient || publicAmount || asset)
+ *
+ * Nullifiers and commitments are padded with 0 to MAX_INPUTS / MAX_OUTPUTS
+ * slots. The circuit recomputes M from its public inputs, so a signature
+ * only authorizes this exact set of outputs, recipient, amount and asset,
+ * and only lets `relayer` (0n = any submitter) collect the fee.
  */
 export function computeTransactionMessage(
   inputNullifiers: bigint[],
   outputCommitments: bigint[],
   fee: bigint,
-  deadline: bigint
+  deadline: bigint,
+  recipient: bigint = 0n,
+  publicAmount: bigint = 0n,
+  asset: bigint = NATIVE_ASSET_ID,
+  relayer: bigint = 0n
 ): bigint {
   // Chain hash: fold all inputs into a single hash
-  let h = poseidon2Hash2(fee, deadline);
-  for (const n of inputNullifiers) {
+  let h = poseidon2Hash3(fee, relayer, deadline);
+  for (const n of padSlots(inputNullifiers, MAX_INPUTS, "inputs")) {
     h = poseidon2Hash2(h, n);
   }
-  for (const c of outputCommitments) {
+  for (const c of padSlots(outputCommitments, MAX_OUTPUTS, "outputs")) {
     h = poseidon2Hash2(h, c);
   }
-  return h;
+  return poseidon2Hash4(h, recipient, publicAmount, asset);
 }
 
 // ─── Note Construction ────────────────────────────────────────────────────────
@@ -99,13 +162,16 @@ export function createNote(
  * Incremental Merkle Tree for commitment storage.
  *
  * Uses Poseidon hashing. Pre-computes zero hashes for empty subtrees.
- * This mirrors the on-chain MerkleTree.sol contract.
+ * This mirrors the on-chain MerkleTree.sol contract: an insert only rehashes
+ * the path from the new leaf to the root, using the filled subtrees on its
+ * left and zero hashes on its right. Every non-empty node is cached, so
+ * inserts, proofs and the root are all O(depth).
  */
 export class MerkleTree {
   readonly depth: number;
   readonly zeroHashes: bigint[];
-  private leaves: bigint[] = [];
-  private layers: bigint[][] = [];
+  // layers[0] = leaves, layers[depth] = [root]; only non-empty nodes are stored
+  private layers: bigint[][];
 
   constructor(depth: number = TREE_DEPTH) {
     this.depth = depth;
@@ -126,13 +192,12 @@ export class MerkleTree {
 
   /** Current number of leaves */
   get size(): number {
-    return this.leaves.length;
+    return this.layers[0].length;
   }
 
   /** Current Merkle root */
   get root(): bigint {
-    if (this.leaves.length === 0) return this.zeroHashes[this.depth];
-    return this._computeRoot();
+    return this.layers[this.depth][0] ?? this.zeroHashes[this.depth];
   }
 
   /**
@@ -140,11 +205,22 @@ export class MerkleTree {
    * @returns The leaf index
    */
   insert(leaf: bigint): number {
-    const index = this.leaves.length;
+    const index = this.size;
     if (index >= 2 ** this.depth) {
       throw new Error("Merkle tree is full");
     }
-    this.leaves.push(leaf);
+
+    let idx = index;
+    let node = leaf;
+    this.layers[0][idx] = node;
+    for (let level = 0; level < this.depth; level++) {
+      // Left of a new node is a filled subtree; right of it is still empty
+      node = idx % 2 === 0
+        ? poseidon2Hash2(node, this.zeroHashes[level])
+        : poseidon2Hash2(this.layers[level][idx - 1], node);
+      idx = Math.floor(idx / 2);
+      this.layers[level + 1][idx] = node;
+    }
     return index;
   }
 
@@ -152,87 +228,69 @@ export class MerkleTree {
    * Generate a Merkle proof for a leaf at the given index.
    */
   generateProof(leafIndex: number): MerkleProof {
-    if (leafIndex >= this.leaves.length) {
+    if (leafIndex < 0 || leafIndex >= this.size) {
       throw new Error(`Leaf index ${leafIndex} out of bounds`);
     }
 
     const pathElements: bigint[] = [];
     const pathIndices: number[] = [];
 
-    // Build full tree layers
-    let currentLayer = [...this.leaves];
-
-    // Pad to power of 2 with zero values
-    const layerSize = 2 ** this.depth;
-    while (currentLayer.length < layerSize) {
-      currentLayer.push(ZERO_VALUE);
-    }
-
     let idx = leafIndex;
     for (let level = 0; level < this.depth; level++) {
       const isRight = idx % 2;
       const siblingIdx = isRight ? idx - 1 : idx + 1;
 
       pathIndices.push(isRight);
-      pathElements.push(
-        siblingIdx < currentLayer.length
-          ? currentLayer[siblingIdx]
-          : this.zeroHashes[level]
-      );
-
-      // Compute next layer
-      const nextLayer: bigint[] = [];
-      for (let i = 0; i < currentLayer.length; i += 2) {
-        const left = currentLayer[i];
-        const right =
-          i + 1 < currentLayer.length
-            ? currentLayer[i + 1]
-            : this.zeroHashes[level];
-        nextLayer.push(poseidon2Hash2(left, right));
-      }
-      currentLayer = nextLayer;
+      pathElements.push(this.layers[level][siblingIdx] ?? this.zeroHashes[level]);
       idx = Math.floor(idx / 2);
     }
 
     return {
       pathElements,
       pathIndices,
-      root: currentLayer[0],
+      root: this.root,
     };
   }
 
-  /** Recompute root from current leaves */
-  private _computeRoot(): bigint {
-    let currentLayer = [...this.leaves];
-    const layerSize = 2 ** this.depth;
-    while (currentLayer.length < layerSize) {
-      currentLayer.push(ZERO_VALUE);
-    }
+  /**
+   * Snapshot the tree, including all cached nodes, so it can be persisted
+   * (e.g. by the indexer) and restored without rehashing.
+   */
+  serialize(): SerializedMerkleTree {
+    return {
+      depth: this.depth,
+      layers: this.layers.map((layer) => layer.map((node) => node.toString(16))),
+    };
+  }
 
-    for (let level = 0; level < this.depth; level++) {
-      const nextLayer: bigint[] = [];
-      for (let i = 0; i < currentLayer.length; i += 2) {
-        const left = currentLayer[i];
-        const right =
-          i + 1 < currentLayer.length
-            ? currentLayer[i + 1]
-            : this.zeroHashes[level];
-        nextLayer.push(poseidon2Hash2(left, right));
+  /**
+   * Restore a tree from serialize() output.
+   * @throws If the snapshot's shape does not match its depth
+   */
+  static deserialize(data: SerializedMerkleTree): MerkleTree {
+    const tree = new MerkleTree(data.depth);
+    if (data.layers.length !== data.depth + 1) {
+      throw new Error("Invalid Merkle tree snapshot: wrong number of layers");
+    }
+    for (let level = 1; level <= data.depth; level++) {
+      if (data.layers[level].length !== Math.ceil(data.layers[level - 1].length / 2)) {
+        throw new Error(`Invalid Merkle tree snapshot: layer ${level} has the wrong size`);
       }
-      currentLayer = nextLayer;
     }
-
-    return currentLayer[0];
+    tree.layers = data.layers.map((layer) => layer.map((node) => BigInt(`0x${node}`)));
+    return tree;
   }
 }
 
 /**
- * Verify a Merkle proof.
+ * Verify a Merkle proof. Every path index must be 0 or 1, as in the
+ * circuit: the leaf index (and so the nullifier) is read from them.
  */
 export function verifyMerkleProof(
   leaf: bigint,
   proof: MerkleProof
 ): boolean {
+  if (proof.pathIndices.some((bit) => bit !== 0 && bit !== 1)) return false;
   let current = leaf;
   for (let i = 0; i < proof.pathElements.length; i++) {
     if (proof.pathIndices[i] === 0) {
@@ -247,49 +305,132 @@ export function verifyMerkleProof(
 // ─── Transaction Building ─────────────────────────────────────────────────────
 
 /**
- * Build an unsigned transaction for a private transfer.
+ * Build an unsigned JoinSplit transaction spending up to MAX_INPUTS notes
+ * into up to MAX_OUTPUTS new notes, optionally paying `publicAmount` out of
+ * the pool to `recipient`.
  *
- * @param spendingKeyHash - Hash of the sender's spending key
- * @param inputNote - The note being spent
- * @param inputLeafIndex - Merkle leaf index of the input note
- * @param outputNote - The new note being created (for recipient)
- * @param fee - Transaction fee
- * @param deadline - Block deadline for the transaction
+ * Value must be conserved: sum(inputs) = sum(outputs) + publicAmount + fee.
+ * Every note must hold the same asset; the fee and publicAmount are paid in it.
+ *
+ * @param inputs - Notes being spent, with the owner's nullifying key and leaf index
+ * @param outputNotes - New notes (null marks an empty output slot)
+ * @param fee - Transaction fee, paid to whoever submits the transaction
+ * @param deadline - Unix timestamp after which the transaction is rejected
+ * @param recipient - Unshield recipient address as a field (0n if nothing leaves the pool)
+ * @param publicAmount - Amount paid out to recipient (0n for private transfers)
+ * @param relayer - Relayer address as a field; only it may submit (0n = anyone)
  * @returns Unsigned transaction ready for FROST signing
+ * @throws If the amounts do not balance, the assets differ, or there are too many inputs/outputs
  */
-export function buildTransaction(
-  spendingKeyHash: bigint,
-  inputNote: Note,
-  inputLeafIndex: number,
-  outputNote: Note,
+export function buildJoinSplitTransaction(
+  inputs: SpendInput[],
+  outputNotes: (Note | null)[],
   fee: bigint,
-  deadline: bigint
+  deadline: bigint,
+  recipient: bigint = 0n,
+  publicAmount: bigint = 0n,
+  relayer: bigint = 0n
 ): UnsignedTransaction {
-  const nullifier = computeNullifier(spendingKeyHash, BigInt(inputLeafIndex));
-  const outputCommitment = computeCommitment(
-    outputNote.owner,
-    outputNote.amount,
-    outputNote.blinding
+  if (inputs.length === 0 || inputs.length > MAX_INPUTS) {
+    throw new Error(`JoinSplit needs 1..${MAX_INPUTS} inputs, got ${inputs.length}`);
+  }
+  if (outputNotes.length > MAX_OUTPUTS) {
+    throw new Error(`JoinSplit allows at most ${MAX_OUTPUTS} outputs, got ${outputNotes.length}`);
+  }
+
+  const asset = assetId(inputs[0].note.asset);
+  const notes = [...inputs.map((input) => input.note), ...outputNotes.filter((note) => note !== null)];
+  if (notes.some((note) => assetId(note.asset) !== asset)) {
+    throw new Error("All notes in a transaction must hold the same asset");
+  }
+
+  const totalIn = inputs.reduce((sum, input) => sum + input.note.amount, 0n);
+  const totalOut = outputNotes.reduce((sum, note) => sum + (note ? note.amount : 0n), 0n);
+  if (totalIn !== totalOut + publicAmount + fee) {
+    throw new Error(
+      `Value not conserved: inputs ${totalIn} != outputs ${totalOut} + public ${publicAmount} + fee ${fee}`
+    );
+  }
+
+  const inputNullifiers = inputs.map(({ nullifyingKey, note, leafIndex }) =>
+    computeNullifier(
+      nullifyingKey,
+      computeCommitment(note.owner, note.amount, note.blinding, asset),
+      BigInt(leafIndex)
+    )
+  );
+  if (new Set(inputNullifiers).size !== inputNullifiers.length) {
+    throw new Error("The same note cannot be spent twice in one transaction");
+  }
+  const outputCommitments = outputNotes.map((note) =>
+    note ? computeCommitment(note.owner, note.amount, note.blinding, asset) : 0n
   );
 
-  const inputNullifiers = [nullifier];
-  const outputCommitments = [outputCommitment];
   const message = computeTransactionMessage(
     inputNullifiers,
     outputCommitments,
     fee,
-    deadline
+    deadline,
+    recipient,
+    publicAmount,
+    asset,
+    relayer
   );
 
   return {
     inputNullifiers,
     outputCommitments,
     fee,
+    relayer,
     deadline,
+    recipient,
+    publicAmount,
+    asset,
     message,
   };
 }
 
+/**
+ * Build an unsigned transaction for a private transfer or unshield.
+ * Single-input / single-output case of buildJoinSplitTransaction.
+ *
+ * Value must be conserved: inputNote.amount = outputNote.amount + publicAmount + fee.
+ * For a partial unshield the output note is the change returned to the treasury.
+ *
+ * @param nullifyingKey - The treasury's secret nullifying key
+ * @param inputNote - The note being spent
+ * @param inputLeafIndex - Merkle leaf index of the input note
+ * @param outputNote - Recipient note, or change note for an unshield (null for a full unshield)
+ * @param fee - Transaction fee
+ * @param deadline - Unix timestamp after which the transaction is rejected
+ * @param recipient - Unshield recipient address as a field (0n for private transfers)
+ * @param publicAmount - Amount paid out to recipient (0n for private transfers)
+ * @param relayer - Relayer address as a field; only it may submit (0n = anyone)
+ * @returns Unsigned transaction ready for FROST signing
+ * @throws If the amounts do not balance
+ */
+export function buildTransaction(
+  nullifyingKey: bigint,
+  inputNote: Note,
+  inputLeafIndex: number,
+  outputNote: Note | null,
+  fee: bigint,
+  deadline: bigint,
+  recipient: bigint = 0n,
+  publicAmount: bigint = 0n,
+  relayer: bigint = 0n
+): UnsignedTransaction {
+  return buildJoinSplitTransaction(
+    [{ nullifyingKey, note: inputNote, leafIndex: inputLeafIndex }],
+    [outputNote],
+    fee,
+    deadline,
+    recipient,
+    publicAmount,
+    relayer
+  );
+}
+
 // ─── Circuit Witness Generation ───────────────────────────────────────────────
 
 /**
@@ -304,44 +445,203 @@ function splitLoHi(value: bigint): { lo: bigint; hi: bigint } {
   };
 }
 
+/** Hex-encode a field element for Prover.toml / noir_js */
+function toHex(value: bigint | number): string {
+  return `0x${value.toString(16)}`;
+}
+
 /**
- * Generate circuit inputs (Prover.toml format) for the Noir ZK proof.
+ * Generate JoinSplit circuit inputs (Prover.toml format) for the Noir ZK proof.
+ *
+ * The nullifiers, output commitments, fee, deadline, recipient and public
+ * amount are taken from the signed transaction so that the public inputs
+ * always match the message the signers approved. Unused input and output
+ * slots are padded with zeros.
+ *
+ * The circuit derives each input's owner from the group key, the note's
+ * stealth scalar and the nullifying key, and verifies the signature under the
+ * first input's stealth key (PK_group + [stealthScalar]G), which is the key
+ * the signers sign with.
+ *
+ * Each output's owner, blinding and ciphertext are re-derived in the circuit
+ * from the recipient's meta-address and the ephemeral secret, and the
+ * ciphertext is a public input: the contract only accepts the metadata the
+ * recipient can open.
+ *
+ * @param signature - Aggregated FROST signature over transaction.message
+ * @param groupPubKey - Untweaked group public key
+ * @param nullifyingKey - The treasury's secret nullifying key
+ * @param inputs - Openings and Merkle proofs of the spent notes, in transaction order
+ * @param outputNotes - Stealth notes opening the output commitments, in transaction order (null = empty slot)
+ * @param transaction - The signed transaction
+ * @throws If inputs/outputs don't line up with the transaction, prove different
+ *   roots, are not owned by the group key, or an output's ciphertext does not
+ *   open it
  */
-export function buildCircuitInputs(
+export function buildJoinSplitCircuitInputs(
   signature: FrostSignature,
   groupPubKey: GrumpkinPoint,
-  spendingKeyHash: bigint,
-  noteAmount: bigint,
-  noteBlinding: bigint,
-  merkleProof: MerkleProof,
-  nullifier: bigint,
-  commitment: bigint
+  nullifyingKey: bigint,
+  inputs: SpendWitness[],
+  outputNotes: (StealthNote | null)[],
+  transaction: UnsignedTransaction
 ): CircuitInputs {
-  // Pad merkle proof to TREE_DEPTH
-  const pathElements = [...merkleProof.pathElements];
-  const pathIndices = [...merkleProof.pathIndices];
-  while (pathElements.length < TREE_DEPTH) {
-    pathElements.push(0n);
-    pathIndices.push(0);
+  if (inputs.length !== transaction.inputNullifiers.length) {
+    throw new Error("Input witnesses do not match the transaction's nullifiers");
+  }
+  if (outputNotes.length !== transaction.outputCommitments.length) {
+    throw new Error("Output notes do not match the transaction's commitments");
   }
+  const merkleRoot = inputs[0].merkleProof.root;
+  if (inputs.some((input) => input.merkleProof.root !== merkleRoot)) {
+    throw new Error("All inputs must be proven against the same Merkle root");
+  }
+  const nullifierKeyCommitment = computeNullifierKeyCommitment(nullifyingKey);
+  inputs.forEach((input, i) => {
+    const owner = computeStealthSpendingKeyHash(groupPubKey, input.stealthScalar, nullifierKeyCommitment);
+    const opened = computeCommitment(owner, input.amount, input.blinding, transaction.asset);
+    if (opened !== input.commitment) {
+      throw new Error(`Input ${i} is not owned by the group key under its stealth scalar`);
+    }
+    if (input.merkleProof.pathIndices.some((bit) => bit !== 0 && bit !== 1)) {
+      throw new Error(`Input ${i} has a Merkle path index that is not a bit`);
+    }
+    const leafIndex = input.merkleProof.pathIndices.reduce(
+      (acc, bit, d) => acc + (BigInt(bit) << BigInt(d)),
+      0n
+    );
+    if (computeNullifier(nullifyingKey, input.commitment, leafIndex) !== transaction.inputNullifiers[i]) {
+      throw new Error(`Input ${i} does not match the signed nullifier`);
+    }
+  });
+  outputNotes.forEach((note, j) => {
+    if (note === null) return;
+    const derived = createStealthNote(note.recipient, note.asset, note.amount, note.ephemeralSecretKey);
+    if (
+      derived.owner !== note.owner ||
+      derived.blinding !== note.blinding ||
+      !sameCiphertext(derived.ciphertext, note.ciphertext)
+    ) {
+      throw new Error(`Output ${j} ciphertext does not open to the note`);
+    }
+    const opened = computeCommitment(note.owner, note.amount, note.blinding, transaction.asset);
+    if (opened !== transaction.outputCommitments[j]) {
+      throw new Error(`Output ${j} does not match the signed commitment`);
+    }
+  });
+
+  // Pad to circuit arity: unused slots are all-zero
+  const emptyInput: SpendWitness = {
+    stealthScalar: 0n,
+    amount: 0n,
+    blinding: 0n,
+    commitment: 0n,
+    merkleProof: { pathElements: [], pathIndices: [], root: merkleRoot },
+  };
+  const ins = [...inputs];
+  while (ins.length < MAX_INPUTS) ins.push(emptyInput);
+  // Unused output slots publish no ciphertext; their private keys are dummies
+  // (the generator, r = 1) so the curve operations stay well-defined
+  const generator = toAffine(G);
+  const emptyOutput: StealthNote = {
+    owner: 0n,
+    asset: "",
+    amount: 0n,
+    blinding: 0n,
+    recipient: { spendingPublicKey: generator, viewingPublicKey: generator, nullifierKeyCommitment: 0n },
+    ephemeralSecretKey: 1n,
+    ciphertext: { ephemeralPublicKey: { x: 0n, y: 0n }, viewTag: 0n, encryptedAmount: 0n },
+  };
+  const outs = outputNotes.map((note) => note ?? emptyOutput);
+  while (outs.length < MAX_OUTPUTS) outs.push(emptyOutput);
+
+  // Pad each merkle proof to TREE_DEPTH
+  const paths = ins.map((input) => {
+    const pathElements = [...input.merkleProof.pathElements];
+    const pathIndices = [...input.merkleProof.pathIndices];
+    while (pathElements.length < TREE_DEPTH) {
+      pathElements.push(0n);
+      pathIndices.push(0);
+    }
+    return { pathElements, pathIndices };
+  });
 
   // Split signature_z into 128-bit limbs for EmbeddedCurveScalar
   const { lo: z_lo, hi: z_hi } = splitLoHi(signature.z);
 
   return {
-    signature_R_x: `0x${signature.R.x.toString(16)}`,
-    signature_R_y: `0x${signature.R.y.toString(16)}`,
-    signature_z_lo: `0x${z_lo.toString(16)}`,
-    signature_z_hi: `0x${z_hi.toString(16)}`,
-    group_pubkey_x: `0x${groupPubKey.x.toString(16)}`,
-    group_pubkey_y: `0x${groupPubKey.y.toString(16)}`,
-    spending_key_hash: `0x${spendingKeyHash.toString(16)}`,
-    note_amount: `0x${noteAmount.toString(16)}`,
-    note_blinding: `0x${noteBlinding.toString(16)}`,
-    merkle_path: pathElements.map((e) => `0x${e.toString(16)}`),
-    merkle_indices: pathIndices.map((i) => `0x${i.toString(16)}`),
-    nullifier: `0x${nullifier.toString(16)}`,
-    commitment: `0x${commitment.toString(16)}`,
-    merkle_root: `0x${merkleProof.root.toString(16)}`,
+    signature_R_x: toHex(signature.R.x),
+    signature_R_y: toHex(signature.R.y),
+    signature_z_lo: toHex(z_lo),
+    signature_z_hi: toHex(z_hi),
+    group_pubkey_x: toHex(groupPubKey.x),
+    group_pubkey_y: toHex(groupPubKey.y),
+    nullifying_key: toHex(nullifyingKey),
+    stealth_scalar: ins.map((input) => toHex(input.stealthScalar)),
+    note_amount: ins.map((input) => toHex(input.amount)),
+    note_blinding: ins.map((input) => toHex(input.blinding)),
+    merkle_path: paths.map((p) => p.pathElements.map(toHex)),
+    merkle_indices: paths.map((p) => p.pathIndices.map(toHex)),
+    output_amount: outs.map((note) => toHex(note.amount)),
+    output_spending_pubkey_x: outs.map((note) => toHex(note.recipient.spendingPublicKey.x)),
+    output_spending_pubkey_y: outs.map((note) => toHex(note.recipient.spendingPublicKey.y)),
+    output_viewing_pubkey_x: outs.map((note) => toHex(note.recipient.viewingPublicKey.x)),
+    output_viewing_pubkey_y: outs.map((note) => toHex(note.recipient.viewingPublicKey.y)),
+    output_nk_commitment: outs.map((note) => toHex(note.recipient.nullifierKeyCommitment)),
+    output_ephemeral_secret_lo: outs.map((note) => toHex(splitLoHi(note.ephemeralSecretKey).lo)),
+    output_ephemeral_secret_hi: outs.map((note) => toHex(splitLoHi(note.ephemeralSecretKey).hi)),
+    nullifier: padSlots(transaction.inputNullifiers, MAX_INPUTS, "inputs").map(toHex),
+    commitment: ins.map((input) => toHex(input.commitment)),
+    merkle_root: toHex(merkleRoot),
+    output_commitment: padSlots(transaction.outputCommitments, MAX_OUTPUTS, "outputs").map(toHex),
+    fee: toHex(transaction.fee),
+    relayer: toHex(transaction.relayer),
+    deadline: toHex(transaction.deadline),
+    recipient: toHex(transaction.recipient),
+    public_amount: toHex(transaction.publicAmount),
+    asset: toHex(transaction.asset),
+    output_eph_pubkey_x: outs.map((note) => toHex(note.ciphertext.ephemeralPublicKey.x)),
+    output_eph_pubkey_y: outs.map((note) => toHex(note.ciphertext.ephemeralPublicKey.y)),
+    output_view_tag: outs.map((note) => toHex(note.ciphertext.viewTag)),
+    output_encrypted_amount: outs.map((note) => toHex(note.ciphertext.encryptedAmount)),
   };
 }
+
+/** Whether two note ciphertexts are identical */
+function sameCiphertext(a: NoteCiphertext, b: NoteCiphertext): boolean {
+  return (
+    a.ephemeralPublicKey.x === b.ephemeralPublicKey.x &&
+    a.ephemeralPublicKey.y === b.ephemeralPublicKey.y &&
+    a.viewTag === b.viewTag &&
+    a.encryptedAmount === b.encryptedAmount
+  );
+}
+
+/**
+ * Generate circuit inputs for a single-input / single-output spend.
+ * Convenience wrapper over buildJoinSplitCircuitInputs.
+ *
+ * `outputNote` is the stealth note opening the output commitment (null
+ * when the transaction has no output).
+ */
+export function buildCircuitInputs(
+  signature: FrostSignature,
+  groupPubKey: GrumpkinPoint,
+  nullifyingKey: bigint,
+  stealthScalar: bigint,
+  noteAmount: bigint,
+  noteBlinding: bigint,
+  merkleProof: MerkleProof,
+  transaction: UnsignedTransaction,
+  commitment: bigint,
+  outputNote: StealthNote | null
+): CircuitInputs {
+  return buildJoinSplitCircuitInputs(
+    signature,
+    groupPubKey,
+    nullifyingKey,
+    [{ stealthScalar, amount: noteAmount, blinding: noteBlinding, commitment, merkleProof }],
+    [outputNote],
+    transaction
+  );
+}
@@ -31,11 +31,20 @@ export interface NoncePair {
   E: GrumpkinPoint; // [e]G (public commitment)
 }
 
+/** A signer's Shamir share of a threshold-shared viewing key */
+export interface ViewingKeyShare {
+  index: bigint; // Signer index (1..n)
+  secretShare: bigint; // vsk_i
+  publicShare: GrumpkinPoint; // [vsk_i]G, verifies the signer's partial ECDH values
+}
+
 /** Complete key material for a signer */
 export interface SignerKeyMaterial {
   share: KeyShare;
   nonces: NoncePair[];
-  viewingKey: bigint; // All signers get full viewing key for balance scanning
+  viewingKey?: bigint; // Full viewing key for balance scanning (unless threshold-shared)
+  viewingKeyShare?: ViewingKeyShare; // Threshold mode: this signer's viewing key share
+  nullifyingKey?: bigint; // Threshold mode: nk, which cannot be derived from a share
 }
 
 /** Master key package (output of keygen ceremony) */
@@ -57,11 +66,26 @@ export interface HierarchicalKeyPackage extends MasterKeyPackage {
 /** Encrypted note representing a UTXO */
 export interface Note {
   owner: bigint; // Stealth public key hash
-  asset: string; // Token address (or "CFX" for native)
+  asset: string; // ERC-20 token address (or "CFX" for native), committed as assetId(asset)
   amount: bigint; // Value (hidden on-chain)
   blinding: bigint; // Randomness for commitment
 }
 
+/** Note opening and memo recovered from an encrypted note (see decryptNote) */
+export interface NotePlaintext {
+  amount: bigint;
+  asset: string; // "CFX" or ERC-20 token address (lowercase)
+  blinding: bigint;
+  memo: string; // Up to 64 bytes of UTF-8, e.g. an invoice number
+}
+
+/** A sent note recovered with the outgoing viewing key (see decryptOutgoingNote) */
+export interface OutgoingNotePlaintext extends NotePlaintext {
+  recipient: StealthMetaAddress; // Who was paid
+  ephemeralSecretKey: bigint; // r
+  owner: bigint; // Re-derived note owner, to check against the commitment
+}
+
 /** Commitment leaf in the Merkle tree */
 export interface CommitmentLeaf {
   commitment: bigint; // Poseidon hash of note data
@@ -75,13 +99,39 @@ export interface MerkleProof {
   root: bigint; // Tree root at time of proof
 }
 
+/** JSON-safe Merkle tree snapshot (hex nodes, no 0x prefix) */
+export interface SerializedMerkleTree {
+  depth: number;
+  layers: string[][]; // layers[0] = leaves, layers[depth] = [root]
+}
+
+/** A note being spent in a JoinSplit transaction */
+export interface SpendInput {
+  nullifyingKey: bigint; // Owner's secret nullifying key nk
+  note: Note;
+  leafIndex: number; // Position in the Merkle tree
+}
+
+/** Prover-side opening of a spent note */
+export interface SpendWitness {
+  stealthScalar: bigint; // Note owner = Poseidon(PK_group + [stealthScalar]G, NK)
+  amount: bigint;
+  blinding: bigint;
+  commitment: bigint;
+  merkleProof: MerkleProof;
+}
+
 /** Unsigned transaction (before FROST signing) */
 export interface UnsignedTransaction {
-  inputNullifiers: bigint[];
-  outputCommitments: bigint[];
-  fee: bigint;
-  deadline: bigint;
-  message: bigint; // M = Poseidon(nullifiers || commitments || fee || deadline)
+  inputNullifiers: bigint[]; // Up to MAX_INPUTS
+  outputCommitments: bigint[]; // Up to MAX_OUTPUTS, 0n marks an empty output slot
+  fee: bigint; // Paid to the transaction's submitter (msg.sender)
+  relayer: bigint; // Address allowed to submit and collect the fee (0n = anyone)
+  deadline: bigint; // Unix timestamp after which the contract rejects the proof
+  recipient: bigint; // Unshield recipient address (0n for private transfers)
+  publicAmount: bigint; // Amount leaving the pool to recipient (0n for private transfers)
+  asset: bigint; // Asset ID shared by every note in the transaction (0n = native CFX)
+  message: bigint; // M = Poseidon(fee || relayer || deadline || nullifiers || commitments || recipient || publicAmount || asset)
 }
 
 /** FROST Schnorr signature */
@@ -113,16 +163,37 @@ export interface SignedTransaction {
 export interface StealthMetaAddress {
   spendingPublicKey: GrumpkinPoint; // PK_spend
   viewingPublicKey: GrumpkinPoint; // PK_view
+  nullifierKeyCommitment: bigint; // NK = Poseidon(nk, domain), bound into every note owner
+  scanPublicKey?: GrumpkinPoint; // PK_scan: senders add a scan tag for delegated filtering
 }
 
 /** One-time stealth address (generated by sender) */
 export interface StealthAddress {
   address: GrumpkinPoint; // One-time stealth public key
+  owner: bigint; // Note owner field: Poseidon(address.x, address.y, NK)
   ephemeralPublicKey: GrumpkinPoint; // Published on-chain for recipient to find
   viewTag: bigint; // Short tag for efficient scanning
   stealthScalar: bigint; // Sender uses for XOR amount encryption
 }
 
+/** Stealth metadata published with a new note (the contract's StealthMetadata) */
+export interface NoteCiphertext {
+  ephemeralPublicKey: GrumpkinPoint; // R = [r]G
+  viewTag: bigint; // Low byte of the stealth scalar
+  encryptedAmount: bigint; // amount XOR low 128 bits of the stealth scalar
+}
+
+/**
+ * Note sent to a stealth meta-address, with what the sender needs to prove
+ * its ciphertext: the circuit re-derives owner, blinding and ciphertext from
+ * the recipient's keys and the ephemeral secret.
+ */
+export interface StealthNote extends Note {
+  recipient: StealthMetaAddress;
+  ephemeralSecretKey: bigint; // r
+  ciphertext: NoteCiphertext;
+}
+
 // ─── Signing Session Types ────────────────────────────────────────────────────
 
 /** FROST signing session state */
@@ -142,7 +213,10 @@ export interface AuditTransaction {
   nullifier: bigint;
   commitment: bigint;
   amount: bigint;
-  recipient: string;
+  asset: string; // "CFX" or token address ("" if only the proven amount was decrypted)
+  recipient: string; // Counterparty meta-address for outflows, "" for notes received
+  memo: string;
+  direction: "inflow" | "outflow" | "internal"; // internal = change sent to ourselves
   timestamp: number;
   blockNumber: number;
 }
@@ -158,7 +232,7 @@ export interface AuditReport {
 
 // ─── Circuit Witness Types ────────────────────────────────────────────────────
 
-/** Inputs for the Noir ZK circuit */
+/** Inputs for the Noir ZK circuit (2-in / 2-out JoinSplit, unused slots zeroed) */
 export interface CircuitInputs {
   // Private inputs
   signature_R_x: string;
@@ -167,13 +241,33 @@ export interface CircuitInputs {
   signature_z_hi: string;
   group_pubkey_x: string;
   group_pubkey_y: string;
-  spending_key_hash: string;
-  note_amount: string;
-  note_blinding: string;
-  merkle_path: string[];
-  merkle_indices: string[];
+  nullifying_key: string;
+  stealth_scalar: string[];
+  note_amount: string[];
+  note_blinding: string[];
+  merkle_path: string[][];
+  merkle_indices: string[][];
+  output_amount: string[];
+  output_spending_pubkey_x: string[];
+  output_spending_pubkey_y: string[];
+  output_viewing_pubkey_x: string[];
+  output_viewing_pubkey_y: string[];
+  output_nk_commitment: string[];
+  output_ephemeral_secret_lo: string[];
+  output_ephemeral_secret_hi: string[];
   // Public inputs
-  nullifier: string;
-  commitment: string;
+  nullifier: string[];
+  commitment: string[];
   merkle_root: string;
+  output_commitment: string[];
+  fee: string;
+  relayer: string;
+  deadline: string;
+  recipient: string;
+  public_amount: string;
+  asset: string;
+  output_eph_pubkey_x: string[];
+  output_eph_pubkey_y: string[];
+  output_view_tag: string[];
+  output_encrypted_amount: string[];
 }
@@ -1,11 +1,26 @@
 import { describe, test, expect } from "bun:test";
 import {
   distributedCeremony,
+  hierarchicalCeremony,
   verifyShareAgainstCommitments,
   clearSecret,
+  createRefreshContribution,
+  applyRefresh,
+  refreshPolynomialCommitments,
+  refreshShares,
+  createReshareContribution,
+  applyReshare,
+  resharePolynomialCommitments,
+  reshareShares,
+  publicShareFromCommitments,
+  createRepairContribution,
+  sumRepairPieces,
+  completeRepair,
+  repairShare,
 } from "../src/ceremony.js";
-import type { CeremonyShare, CeremonyResult } from "../src/ceremony.js";
+import type { CeremonyShare, CeremonyResult, HierarchicalCeremonyShare } from "../src/ceremony.js";
 import { shamirReconstruct } from "../src/keygen.js";
+import { birkhoffReconstruct } from "../src/birkhoff.js";
 import { G, scalarMul, toAffine } from "../src/grumpkin.js";
 
 describe("Distributed Ceremony", () => {
@@ -153,3 +168,267 @@ describe("clearSecret", () => {
     expect(obj.index).toBe(1n);
   });
 });
+
+describe("Proactive Share Refresh", () => {
+  function runCeremony(): { shares: CeremonyShare[]; result: CeremonyResult } {
+    const gen = distributedCeremony({ threshold: 2, totalSigners: 3 });
+    const shares: CeremonyShare[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as CeremonyShare) });
+    }
+    return { shares, result: gen.next().value as CeremonyResult };
+  }
+
+  test("every share changes, the group key and reconstruction do not", () => {
+    const { shares, result } = runCeremony();
+    const refreshed = refreshShares(shares, 2, result.polynomialCommitments);
+
+    for (let i = 0; i < 3; i++) {
+      expect(refreshed.shares[i].index).toBe(shares[i].index);
+      expect(refreshed.shares[i].secretShare).not.toBe(shares[i].secretShare);
+      expect(verifyShareAgainstCommitments(refreshed.shares[i], refreshed.polynomialCommitments!)).toBe(true);
+    }
+    expect(refreshed.polynomialCommitments![0]).toEqual(result.groupPublicKey);
+
+    const secret = shamirReconstruct(refreshed.shares.slice(1).map((s) => [s.index, s.secretShare]));
+    expect(toAffine(scalarMul(G, secret))).toEqual(result.groupPublicKey);
+
+    // An old share no longer combines with a new one
+    const mixed = shamirReconstruct([
+      [shares[0].index, shares[0].secretShare],
+      [refreshed.shares[1].index, refreshed.shares[1].secretShare],
+    ]);
+    expect(toAffine(scalarMul(G, mixed))).not.toEqual(result.groupPublicKey);
+  });
+
+  test("a bad contribution is attributed to its signer", () => {
+    const { shares } = runCeremony();
+    const contributions = shares.map((s) => createRefreshContribution(s.index, 2, shares));
+
+    const tampered = structuredClone(contributions);
+    tampered[2].shares[0].share += 1n;
+    expect(() => applyRefresh(shares[0], tampered, 2)).toThrow("Invalid refresh share from signer 3");
+
+    // A contribution with a non-zero constant term would move the group key
+    const shifting = structuredClone(contributions);
+    shifting[1].commitments[0] = toAffine(G);
+    expect(() => applyRefresh(shares[0], shifting, 2)).toThrow("Invalid refresh share from signer 2");
+
+    expect(applyRefresh(shares[0], contributions, 2).secretShare).not.toBe(shares[0].secretShare);
+  });
+
+  test("a contribution of higher degree than the group is rejected", () => {
+    const { shares, result } = runCeremony();
+    const contributions = shares.map((s) => createRefreshContribution(s.index, 2, shares));
+
+    // Zero constant term, so every share check passes, but degree 2 in a 2-of-3 group
+    contributions[2] = createRefreshContribution(3n, 3, shares);
+    for (const share of shares) {
+      expect(() => applyRefresh(share, contributions, 2)).toThrow("Invalid refresh share from signer 3");
+    }
+    expect(() => refreshPolynomialCommitments(result.polynomialCommitments, contributions, 2)).toThrow(
+      "Invalid refresh commitments from signer 3"
+    );
+  });
+
+  test("hierarchical shares refresh with derivative evaluations", () => {
+    const gen = hierarchicalCeremony({
+      threshold: 3,
+      signers: [
+        { index: 1, rank: 0 },
+        { index: 2, rank: 0 },
+        { index: 3, rank: 1 },
+      ],
+    });
+    const shares: HierarchicalCeremonyShare[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as HierarchicalCeremonyShare) });
+    }
+    const result = gen.next().value as CeremonyResult;
+
+    const refreshed = refreshShares(shares, 3).shares;
+    expect(refreshed.map((s) => s.rank)).toEqual([0, 0, 1]);
+    const secret = birkhoffReconstruct(
+      refreshed.map((s) => ({ index: s.index, rank: s.rank, value: s.secretShare }))
+    );
+    expect(toAffine(scalarMul(G, secret))).toEqual(result.groupPublicKey);
+  });
+});
+
+describe("Resharing", () => {
+  function runCeremony(): { shares: CeremonyShare[]; result: CeremonyResult } {
+    const gen = distributedCeremony({ threshold: 2, totalSigners: 3 });
+    const shares: CeremonyShare[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as CeremonyShare) });
+    }
+    return { shares, result: gen.next().value as CeremonyResult };
+  }
+
+  function groupKeyOf(shares: CeremonyShare[]) {
+    return toAffine(scalarMul(G, shamirReconstruct(shares.map((s) => [s.index, s.secretShare]))));
+  }
+
+  test("2-of-3 to 3-of-4 keeps the group key", () => {
+    const { shares, result } = runCeremony();
+    const config = { threshold: 3, signers: [1n, 2n, 3n, 4n].map((index) => ({ index })) };
+    const reshared = reshareShares([shares[0], shares[2]], config);
+
+    expect(reshared.polynomialCommitments[0]).toEqual(result.groupPublicKey);
+    for (const share of reshared.shares) {
+      expect(verifyShareAgainstCommitments(share, reshared.polynomialCommitments)).toBe(true);
+    }
+    expect(groupKeyOf(reshared.shares.slice(1))).toEqual(result.groupPublicKey);
+    expect(groupKeyOf(reshared.shares.slice(2))).not.toEqual(result.groupPublicKey);
+  });
+
+  test("removing a signer: 2-of-3 to 2-of-2 without signer 3", () => {
+    const { shares, result } = runCeremony();
+    const reshared = reshareShares(shares.slice(0, 2), {
+      threshold: 2,
+      signers: [{ index: 1n }, { index: 2n }],
+    });
+
+    expect(groupKeyOf(reshared.shares)).toEqual(result.groupPublicKey);
+    // Signer 3's old share no longer combines with the new ones
+    expect(groupKeyOf([reshared.shares[0], shares[2]])).not.toEqual(result.groupPublicKey);
+  });
+
+  test("a dealer who does not deal its own share is attributed", () => {
+    const { shares } = runCeremony();
+    const quorum = shares.slice(0, 2);
+    const config = { threshold: 2, signers: [{ index: 1n }, { index: 2n }, { index: 3n }] };
+
+    // Signer 2 deals a random secret instead of w_2 * s_2
+    const forged = createReshareContribution({ ...shares[1], secretShare: 12345n }, quorum, config);
+    const contributions = [createReshareContribution(shares[0], quorum, config), forged];
+    expect(() => applyReshare({ index: 1n }, contributions, quorum, shares, 2)).toThrow(
+      "Invalid reshare share from signer 2"
+    );
+    expect(() => applyReshare({ index: 1n }, contributions.slice(0, 1), quorum, shares, 2)).toThrow(
+      "Missing reshare contribution from signer 2"
+    );
+  });
+
+  test("a dealer using a higher degree than the new threshold is attributed", () => {
+    const { shares } = runCeremony();
+    const quorum = shares.slice(0, 2);
+    const config = { threshold: 2, signers: [{ index: 1n }, { index: 2n }, { index: 3n }] };
+
+    // Signer 1 deals its share correctly but on a degree-2 polynomial
+    const contributions = [
+      createReshareContribution(shares[0], quorum, { ...config, threshold: 3 }),
+      createReshareContribution(shares[1], quorum, config),
+    ];
+    for (const participant of config.signers) {
+      expect(() => applyReshare(participant, contributions, quorum, shares, 2)).toThrow(
+        "Invalid reshare share from signer 1"
+      );
+    }
+    expect(() => resharePolynomialCommitments(contributions, 2)).toThrow("Invalid reshare commitments from signer 1");
+  });
+
+  test("hierarchical shares reshare to a new rank layout", () => {
+    const gen = hierarchicalCeremony({
+      threshold: 3,
+      signers: [
+        { index: 1, rank: 0 },
+        { index: 2, rank: 0 },
+        { index: 3, rank: 1 },
+      ],
+    });
+    const shares: HierarchicalCeremonyShare[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as HierarchicalCeremonyShare) });
+    }
+    const result = gen.next().value as CeremonyResult;
+
+    const reshared = reshareShares(shares, {
+      threshold: 2,
+      signers: [
+        { index: 1n, rank: 0 },
+        { index: 2n, rank: 1 },
+        { index: 4n, rank: 0 },
+      ],
+    }).shares;
+    const secret = birkhoffReconstruct(
+      [reshared[0], reshared[1]].map((s) => ({ index: s.index, rank: s.rank!, value: s.secretShare }))
+    );
+    expect(toAffine(scalarMul(G, secret))).toEqual(result.groupPublicKey);
+  });
+});
+
+describe("Share Repair", () => {
+  function runCeremony(): { shares: CeremonyShare[]; result: CeremonyResult } {
+    const gen = distributedCeremony({ threshold: 2, totalSigners: 3 });
+    const shares: CeremonyShare[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as CeremonyShare) });
+    }
+    return { shares, result: gen.next().value as CeremonyResult };
+  }
+
+  test("two helpers re-create signer 3's share", () => {
+    const { shares, result } = runCeremony();
+    const lost = shares[2];
+    const target = {
+      index: 3n,
+      publicShare: publicShareFromCommitments(result.polynomialCommitments, { index: 3n }),
+    };
+    expect(target.publicShare).toEqual(lost.publicShare);
+
+    const repaired = repairShare(shares.slice(0, 2), target);
+    expect(repaired.secretShare).toBe(lost.secretShare);
+  });
+
+  test("a helper sending a wrong sum is attributed", () => {
+    const { shares } = runCeremony();
+    const helpers = shares.slice(1);
+    const target = { index: 1n, publicShare: shares[0].publicShare };
+    const contributions = helpers.map((s) => createRepairContribution(s, helpers, target));
+    const sums = helpers.map((s) => sumRepairPieces(s.index, contributions));
+
+    expect(completeRepair(target, sums, contributions, helpers).secretShare).toBe(shares[0].secretShare);
+
+    const tampered = [sums[0], { ...sums[1], sum: sums[1].sum + 1n }];
+    expect(() => completeRepair(target, tampered, contributions, helpers)).toThrow(
+      "Invalid repair sum from signer 3"
+    );
+
+    // A helper that splits something other than its real share is caught from the commitments
+    const forged = createRepairContribution({ ...helpers[0], secretShare: 7n }, helpers, target);
+    expect(() => completeRepair(target, sums, [forged, contributions[1]], helpers)).toThrow(
+      "Invalid repair contribution from signer 2"
+    );
+    expect(() => createRepairContribution(shares[0], [shares[0], shares[1]], target)).toThrow(
+      "Signer 1 cannot help repair its own share"
+    );
+  });
+
+  test("a hierarchical share is repaired by a poised quorum", () => {
+    const gen = hierarchicalCeremony({
+      threshold: 3,
+      signers: [
+        { index: 1, rank: 0 },
+        { index: 2, rank: 0 },
+        { index: 3, rank: 1 },
+        { index: 4, rank: 0 },
+      ],
+    });
+    const shares: HierarchicalCeremonyShare[] = [];
+    for (let i = 0; i < 4; i++) {
+      const { value } = gen.next();
+      shares.push({ ...(value as HierarchicalCeremonyShare) });
+    }
+
+    const lost = shares[2];
+    const repaired = repairShare([shares[0], shares[1], shares[3]], lost);
+    expect(repaired.secretShare).toBe(lost.secretShare);
+    expect(repaired.rank).toBe(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import {
+  generateCoordinationKey,
+  coordinationRoomId,
+  sealCoordinationPayload,
+  openCoordinationPayload,
+} from "../src/coordination.js";
+
+describe("Coordination Envelopes", () => {
+  const key = generateCoordinationKey();
+  const payload = { id: "payment-1", amount: "4200", signingData: { nonceCommitments: { "1": { Dx: "7" } } } };
+
+  test("round trip under the group key", async () => {
+    const room = await coordinationRoomId(key);
+    const envelope = await sealCoordinationPayload(key, room, "payment-1", payload);
+    expect(envelope.ciphertext).not.toContain("4200");
+    expect(await openCoordinationPayload(key, room, "payment-1", envelope)).toEqual(payload);
+  });
+
+  test("room id is stable per key and does not reveal it", async () => {
+    const room = await coordinationRoomId(key);
+    expect(room).toBe(await coordinationRoomId(key));
+    expect(room).toMatch(/^[0-9a-f]{64}$/);
+    expect(room).not.toBe(key.slice(2));
+    expect(await coordinationRoomId(generateCoordinationKey())).not.toBe(room);
+  });
+
+  test("another key, topic or room, or a tampered ciphertext, does not open", async () => {
+    const room = await coordinationRoomId(key);
+    const envelope = await sealCoordinationPayload(key, room, "payment-1", payload);
+
+    expect(await openCoordinationPayload(generateCoordinationKey(), room, "payment-1", envelope)).toBeNull();
+    expect(await openCoordinationPayload(key, room, "payment-2", envelope)).toBeNull();
+    expect(await openCoordinationPayload(key, "00".repeat(32), "payment-1", envelope)).toBeNull();
+
+    const flipped = (parseInt(envelope.ciphertext[0], 16) ^ 1).toString(16) + envelope.ciphertext.slice(1);
+    expect(await openCoordinationPayload(key, room, "payment-1", { ...envelope, ciphertext: flipped })).toBeNull();
+  });
+
+  test("rejects keys that are not 32 bytes", async () => {
+    await expect(coordinationRoomId("0x1234")).rejects.toThrow("Coordination: key must be 32 bytes");
+  });
+});
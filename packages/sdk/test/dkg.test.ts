@@ -0,0 +1,142 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import { DkgParticipant, verifyDkgProof } from "../src/dkg.js";
+import type {
+  DkgRound1Package,
+  DkgRound2Package,
+  DkgComplaint,
+  DkgComplaintResponse,
+  DkgResult,
+} from "../src/dkg.js";
+import { shamirReconstruct } from "../src/keygen.js";
+import { Fr, G, scalarMul, toAffine } from "../src/grumpkin.js";
+
+/** Run a full DKG, letting the test tamper with messages between rounds */
+function runDkg(
+  threshold: number,
+  totalSigners: number,
+  hooks: {
+    round1?: (pkgs: DkgRound1Package[]) => DkgRound1Package[];
+    round2?: (msgs: DkgRound2Package[]) => DkgRound2Package[];
+    responses?: (msgs: DkgComplaintResponse[]) => DkgComplaintResponse[];
+  } = {}
+): { participants: DkgParticipant[]; complaints: DkgComplaint[]; results: DkgResult[] } {
+  const participants = Array.from(
+    { length: totalSigners },
+    (_, i) => new DkgParticipant(i + 1, { threshold, totalSigners, context: 42n })
+  );
+
+  let round1 = participants.map((p) => p.round1());
+  if (hooks.round1) round1 = hooks.round1(round1);
+
+  let round2 = participants.flatMap((p) => p.round2(round1));
+  if (hooks.round2) round2 = hooks.round2(round2);
+
+  const complaints = participants.flatMap((p) => p.receiveShares(round2));
+  let responses = participants.flatMap((p) => p.respondToComplaints(complaints));
+  if (hooks.responses) responses = hooks.responses(responses);
+
+  for (const p of participants) p.resolveComplaints(complaints, responses);
+  const results: DkgResult[] = [];
+  for (const p of participants) {
+    try {
+      results.push(p.finalize());
+    } catch {
+      // Disqualified participants cannot finalize
+    }
+  }
+  return { participants, complaints, results };
+}
+
+describe("Distributed Key Generation", () => {
+  test("all participants derive the same group key and public shares", () => {
+    const { complaints, results } = runDkg(2, 3);
+    expect(complaints).toHaveLength(0);
+    expect(results).toHaveLength(3);
+
+    for (const r of results) {
+      expect(r.groupPublicKey).toEqual(results[0].groupPublicKey);
+      expect(r.publicShares).toEqual(results[0].publicShares);
+      expect(r.qualified).toEqual([1n, 2n, 3n]);
+      expect(r.publicShare).toEqual(toAffine(scalarMul(G, r.secretShare)));
+    }
+  });
+
+  test("any threshold subset reconstructs the group secret", () => {
+    const { results } = runDkg(2, 3);
+    const groupPk = results[0].groupPublicKey;
+
+    for (const pair of [[0, 1], [0, 2], [1, 2]]) {
+      const secret = shamirReconstruct(
+        pair.map((i) => [results[i].index, results[i].secretShare] as [bigint, bigint])
+      );
+      expect(toAffine(scalarMul(G, secret))).toEqual(groupPk);
+    }
+  });
+
+  test("rejects a proof of knowledge bound to another context", () => {
+    const p = new DkgParticipant(1, { threshold: 2, totalSigners: 3, context: 7n });
+    const pkg = p.round1();
+    expect(verifyDkgProof(pkg, 7n)).toBe(true);
+    expect(verifyDkgProof(pkg, 8n)).toBe(false);
+  });
+
+  test("disqualifies a participant with an invalid proof of knowledge", () => {
+    const { participants, results } = runDkg(2, 3, {
+      round1: (pkgs) =>
+        pkgs.map((pkg) =>
+          pkg.index === 3n ? { ...pkg, proof: { ...pkg.proof, mu: Fr.add(pkg.proof.mu, 1n) } } : pkg
+        ),
+    });
+
+    expect(participants[0].disqualified).toEqual([3n]);
+    const honest = results.filter((r) => r.index !== 3n);
+    expect(honest).toHaveLength(2);
+    expect(honest[0].qualified).toEqual([1n, 2n]);
+    expect(honest[1].groupPublicKey).toEqual(honest[0].groupPublicKey);
+
+    const secret = shamirReconstruct(honest.map((r) => [r.index, r.secretShare] as [bigint, bigint]));
+    expect(toAffine(scalarMul(G, secret))).toEqual(honest[0].groupPublicKey);
+  });
+
+  test("a corrupted share is resolved by the accused revealing it", () => {
+    const { complaints, results } = runDkg(2, 3, {
+      round2: (msgs) =>
+        msgs.map((m) =>
+          m.from === 1n && m.to === 2n ? { ...m, encryptedShare: Fr.add(m.encryptedShare, 1n) } : m
+        ),
+    });
+
+    expect(complaints).toEqual([{ accuser: 2n, accused: 1n }]);
+    expect(results).toHaveLength(3);
+    for (const r of results) expect(r.qualified).toEqual([1n, 2n, 3n]);
+
+    const secret = shamirReconstruct(
+      [results[0], results[1]].map((r) => [r.index, r.secretShare] as [bigint, bigint])
+    );
+    expect(toAffine(scalarMul(G, secret))).toEqual(results[0].groupPublicKey);
+  });
+
+  test("disqualifies an accused participant that reveals a bad share", () => {
+    const { complaints, results } = runDkg(2, 3, {
+      round2: (msgs) => msgs.filter((m) => !(m.from === 3n && m.to === 1n)),
+      responses: (msgs) => msgs.map((m) => (m.from === 3n ? { ...m, share: Fr.add(m.share, 1n) } : m)),
+    });
+
+    expect(complaints).toEqual([{ accuser: 1n, accused: 3n }]);
+    const honest = results.filter((r) => r.index !== 3n);
+    expect(honest).toHaveLength(2);
+    for (const r of honest) expect(r.qualified).toEqual([1n, 2n]);
+
+    const secret = shamirReconstruct(honest.map((r) => [r.index, r.secretShare] as [bigint, bigint]));
+    expect(toAffine(scalarMul(G, secret))).toEqual(honest[0].groupPublicKey);
+  });
+
+  test("enforces the round order", () => {
+    const p = new DkgParticipant(1, { threshold: 2, totalSigners: 3 });
+    expect(() => p.round2([])).toThrow("expected phase round2");
+    p.round1();
+    expect(() => p.round1()).toThrow("expected phase round1");
+    expect(() => p.finalize()).toThrow();
+  });
+});
@@ -22,7 +22,13 @@ import {
   generateStealthAddress,
   checkStealthAddress,
   computeStealthSpendingKey,
+  deriveNullifyingKey,
+  computeNullifierKeyCommitment,
+  deriveOutgoingViewingKey,
+  deriveEpochViewingKey,
+  createStealthNote,
 } from "../src/stealth.js";
+import { encryptStealthNote } from "../src/note-encryption.js";
 import {
   computeCommitment,
   computeNullifier,
@@ -30,9 +36,14 @@ import {
 } from "../src/transaction.js";
 import {
   generateAuditReport,
+  issueAuditorCredential,
+  encodeAuditorCredential,
+  decodeAuditorCredential,
   type ShieldEvent,
+  type TransferEvent,
 } from "../src/audit.js";
-import { G, scalarMul, pointAdd, toAffine, fromAffine, randomScalar, Fr } from "../src/grumpkin.js";
+import type { StealthNote } from "../src/types.js";
+import { G, scalarMul, pointAdd, toAffine, fromAffine, randomScalar } from "../src/grumpkin.js";
 
 describe("Full Flow: Scan-then-Spend", () => {
   test("viewing key scans stealth notes, spending key spends them (standard TSS)", () => {
@@ -44,7 +55,12 @@ describe("Full Flow: Scan-then-Spend", () => {
     const viewingPk = pkg.viewingPublicKey;
 
     // 3. Create stealth meta-address from (groupPK, viewingPK)
-    const meta = createStealthMetaAddress(pkg.groupPublicKey, viewingPk);
+    const nullifyingKey = deriveNullifyingKey(viewingSk);
+    const meta = createStealthMetaAddress(
+      pkg.groupPublicKey,
+      viewingPk,
+      computeNullifierKeyCommitment(nullifyingKey)
+    );
 
     // 4. Sender generates stealth address
     const stealth = generateStealthAddress(meta);
@@ -52,8 +68,7 @@ describe("Full Flow: Scan-then-Spend", () => {
     // 5. Create a note at the stealth address
     const amount = 1000n;
     const blinding = randomScalar();
-    const owner = stealth.address.x; // use stealth address x as owner identifier
-    const commitment = computeCommitment(owner, amount, blinding);
+    const commitment = computeCommitment(stealth.owner, amount, blinding);
 
     // 6. Scan: use checkStealthAddress to find the note
     const stealthScalar = checkStealthAddress(
@@ -78,8 +93,7 @@ describe("Full Flow: Scan-then-Spend", () => {
     expect(derivedPk.y).toBe(stealth.address.y);
 
     // 10. Build a transaction message
-    const spendingKeyHash = Fr.create(stealthSpendingSk);
-    const nullifier = computeNullifier(spendingKeyHash, 0);
+    const nullifier = computeNullifier(nullifyingKey, commitment, 0);
     const message = randomScalar(); // simplified transaction message
 
     // 11. Sign with FROST (2-of-3)
@@ -112,7 +126,11 @@ describe("Full Flow: Scan-then-Spend", () => {
     });
 
     // 2. Create stealth meta-address
-    const meta = createStealthMetaAddress(pkg.groupPublicKey, pkg.viewingPublicKey);
+    const meta = createStealthMetaAddress(
+      pkg.groupPublicKey,
+      pkg.viewingPublicKey,
+      computeNullifierKeyCommitment(deriveNullifyingKey(pkg.viewingSecretKey))
+    );
 
     // 3. Sender generates stealth address
     const stealth = generateStealthAddress(meta);
@@ -180,7 +198,11 @@ describe("Full Flow: Scan-then-Spend", () => {
     const viewingSk = pkg.viewingSecretKey;
     const viewingPk = pkg.viewingPublicKey;
 
-    const meta = createStealthMetaAddress(pkg.groupPublicKey, viewingPk);
+    const meta = createStealthMetaAddress(
+      pkg.groupPublicKey,
+      viewingPk,
+      computeNullifierKeyCommitment(deriveNullifyingKey(viewingSk))
+    );
 
     // 2. Create multiple stealth addresses for same recipient
     const stealth1 = generateStealthAddress(meta);
@@ -255,4 +277,98 @@ describe("Full Flow: Scan-then-Spend", () => {
     expect(reportPartial.transactions.length).toBe(1);
     expect(reportPartial.transactions[0].amount).toBe(amount2);
   });
+
+  test("audit report lists payments sent with counterparty, amount and memo", () => {
+    const treasury = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const vendor = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const metaOf = (pkg: typeof treasury) =>
+      createStealthMetaAddress(
+        pkg.groupPublicKey,
+        pkg.viewingPublicKey,
+        computeNullifierKeyCommitment(deriveNullifyingKey(pkg.viewingSecretKey))
+      );
+    const treasuryMeta = metaOf(treasury);
+    const vendorMeta = metaOf(vendor);
+    const ovk = deriveOutgoingViewingKey(treasury.viewingSecretKey);
+
+    // One transfer pays the vendor 700 and returns 300 change to the treasury
+    const transferEvent = (note: StealthNote, memo: string, blockNumber: number): TransferEvent => ({
+      nullifier: 1n,
+      commitment: computeCommitment(note.owner, note.amount, note.blinding),
+      ephemeralPubKey: note.ciphertext.ephemeralPublicKey,
+      viewTag: note.ciphertext.viewTag,
+      encryptedAmount: note.ciphertext.encryptedAmount,
+      encryptedNote: encryptStealthNote(note, memo, ovk),
+      blockNumber,
+      timestamp: blockNumber * 100,
+      txHash: "0xddd",
+    });
+    const payment = createStealthNote(vendorMeta, "CFX", 700n);
+    const change = createStealthNote(treasuryMeta, "CFX", 300n);
+    const events = [transferEvent(payment, "Invoice 2024-117", 40), transferEvent(change, "", 40)];
+
+    const report = generateAuditReport(treasury.viewingSecretKey, events, 0, 100);
+    expect(report.totalOutflow).toBe(700n);
+    expect(report.totalInflow).toBe(0n);
+    expect(report.transactions.map((t) => t.direction)).toEqual(["outflow", "internal"]);
+
+    const [sent] = report.transactions;
+    expect(sent.amount).toBe(700n);
+    expect(sent.memo).toBe("Invoice 2024-117");
+    expect(BigInt("0x" + sent.recipient.slice(130, 194))).toBe(vendorMeta.viewingPublicKey.x);
+
+    // An auditor given only the outgoing viewing key sees the same payments
+    const auditorKeys = { outgoingViewingKey: ovk, viewingPublicKey: treasury.viewingPublicKey };
+    const auditorReport = generateAuditReport(auditorKeys, events, 0, 100);
+    expect(auditorReport.transactions.map((t) => t.direction)).toEqual(["outflow", "internal"]);
+    expect(auditorReport.totalOutflow).toBe(700n);
+
+    // The vendor sees an inflow with the memo, and nothing of the change
+    const vendorReport = generateAuditReport(vendor.viewingSecretKey, events, 0, 100);
+    expect(vendorReport.transactions).toHaveLength(1);
+    expect(vendorReport.transactions[0]).toMatchObject({ direction: "inflow", amount: 700n, memo: "Invoice 2024-117" });
+  });
+
+  test("auditor credential only decrypts notes of its epochs", () => {
+    const treasury = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const master = treasury.viewingSecretKey;
+    const nk = computeNullifierKeyCommitment(deriveNullifyingKey(master));
+    const epochMeta = (epoch: number) =>
+      createStealthMetaAddress(
+        treasury.groupPublicKey,
+        toAffine(scalarMul(G, deriveEpochViewingKey(master, epoch))),
+        nk
+      );
+
+    // One deposit per epoch 8100..8103, each to that epoch's meta-address
+    const events: ShieldEvent[] = [8100, 8101, 8102, 8103].map((epoch, i) => {
+      const note = createStealthNote(epochMeta(epoch), "CFX", BigInt(100 * (i + 1)));
+      return {
+        commitment: computeCommitment(note.owner, note.amount, note.blinding),
+        ephemeralPubKey: note.ciphertext.ephemeralPublicKey,
+        viewTag: note.ciphertext.viewTag,
+        encryptedAmount: note.ciphertext.encryptedAmount,
+        encryptedNote: encryptStealthNote(note, `epoch ${epoch}`),
+        blockNumber: 10 * (i + 1),
+        timestamp: 0,
+        txHash: "0xeee",
+      };
+    });
+
+    const credential = decodeAuditorCredential(
+      encodeAuditorCredential(issueAuditorCredential(master, 8101, 8102))
+    );
+    expect(credential.epochKeys.map((k) => k.epoch)).toEqual([8101, 8102]);
+    expect(credential.epochKeys.map((k) => k.viewingSecretKey)).not.toContain(master);
+
+    const report = generateAuditReport(credential, events, 0, 100);
+    expect(report.transactions.map((t) => t.memo)).toEqual(["epoch 8101", "epoch 8102"]);
+    expect(report.totalInflow).toBe(500n);
+
+    // A credential whose keys do not match its range is rejected
+    const tampered = JSON.parse(encodeAuditorCredential(credential));
+    tampered.toEpoch = 8103;
+    expect(() => decodeAuditorCredential(JSON.stringify(tampered))).toThrow("do not match");
+    expect(() => issueAuditorCredential(master, 8102, 8101)).toThrow("Invalid epoch range");
+  });
 });
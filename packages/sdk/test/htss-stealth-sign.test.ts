@@ -11,6 +11,7 @@ import {
   poseidon2Hash2,
   Fr,
   G,
+  ZERO,
   scalarMul,
   pointAdd,
   toAffine,
@@ -23,6 +24,7 @@ import {
   registerNonceCommitment,
   frostHierarchicalPartialSign,
   frostAggregate,
+  verifyPartialSignature,
 } from "../src/index";
 import type { NoncePair, GrumpkinPoint, CeremonyResult } from "../src/types";
 
@@ -141,6 +143,20 @@ describe("HTSS stealth signing", () => {
     const signature = frostAggregate([partial1, partial2, partial3], 3);
     const valid = frostVerify(signature, message, stealthGroupPK);
     expect(valid).toBe(true);
+
+    // Each partial checks against its public share, stealth-adjusted for rank 0 only
+    const stealthPoint = scalarMul(G, stealthScalar);
+    const adjusted = (i: number) =>
+      toAffine(pointAdd(fromAffine(shares[i].publicShare), shares[i].rank === 0 ? stealthPoint : ZERO));
+    expect(verifyPartialSignature(session, partial1, adjusted(0))).toBe(true);
+    expect(verifyPartialSignature(session, partial2, adjusted(1))).toBe(true);
+    expect(verifyPartialSignature(session, partial3, adjusted(2))).toBe(true);
+
+    // A rank-1 signer that wrongly adds the stealth scalar is identified
+    const wrong3 = frostHierarchicalPartialSign(
+      3n, 1, Fr.add(shares[2].secretShare, stealthScalar), nonces[2], session, birkhoffParticipants
+    );
+    expect(verifyPartialSignature(session, wrong3, adjusted(2))).toBe(false);
   });
 
   test("WRONG: adding stealthScalar to rank-1 signer breaks verification", () => {
@@ -0,0 +1,67 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import {
+  deriveIdentityKey,
+  signIdentityMessage,
+  verifyIdentityMessage,
+  nonceCommitmentDigest,
+  partialSignatureDigest,
+  registerIdentityKey,
+  verifyIdentityRegistration,
+} from "../src/identity.js";
+import { precomputeNonces } from "../src/keygen.js";
+import { Fr, G, randomScalar, scalarMul, toAffine } from "../src/grumpkin.js";
+
+function setup() {
+  const alice = deriveIdentityKey(randomScalar());
+  const bob = deriveIdentityKey(randomScalar());
+  const message = randomScalar();
+  const [nonce] = precomputeNonces(1);
+  const digest = nonceCommitmentDigest(message, 1n, nonce.D, nonce.E);
+  return { alice, bob, message, nonce, digest };
+}
+
+describe("Signer Identity Keys", () => {
+  test("identity key is a deterministic function of the share", () => {
+    const share = randomScalar();
+    expect(deriveIdentityKey(share)).toEqual(deriveIdentityKey(share));
+    expect(deriveIdentityKey(share).secretKey).not.toBe(share);
+  });
+
+  test("a signed commitment verifies only under the signer's key", () => {
+    const { alice, bob, digest } = setup();
+    const signature = signIdentityMessage(alice.secretKey, digest);
+    expect(verifyIdentityMessage(alice.publicKey, digest, signature)).toBe(true);
+    expect(verifyIdentityMessage(bob.publicKey, digest, signature)).toBe(false);
+    expect(verifyIdentityMessage(alice.publicKey, digest, { ...signature, s: Fr.add(signature.s, 1n) })).toBe(false);
+    expect(verifyIdentityMessage(alice.publicKey, digest, { ...signature, R: { x: 1n, y: 1n } })).toBe(false);
+  });
+
+  test("digests bind the message and the signer index", () => {
+    const { alice, message, nonce, digest } = setup();
+    const signature = signIdentityMessage(alice.secretKey, digest);
+    const otherPayment = nonceCommitmentDigest(randomScalar(), 1n, nonce.D, nonce.E);
+    const otherSigner = nonceCommitmentDigest(message, 2n, nonce.D, nonce.E);
+    expect(verifyIdentityMessage(alice.publicKey, otherPayment, signature)).toBe(false);
+    expect(verifyIdentityMessage(alice.publicKey, otherSigner, signature)).toBe(false);
+
+    // Commitment and partial digests never collide for the same values
+    expect(partialSignatureDigest(message, 1n, nonce.D.x, nonce.E)).not.toBe(digest);
+  });
+
+  test("a registration verifies only under the public share of the signer it names", () => {
+    const share = randomScalar();
+    const publicShare = toAffine(scalarMul(G, share));
+    const registration = registerIdentityKey(share, 2n);
+    expect(registration.identityPublicKey).toEqual(deriveIdentityKey(share).publicKey);
+    expect(verifyIdentityRegistration(registration, publicShare)).toBe(true);
+
+    // Another signer's share, index or identity key does not verify
+    const other = registerIdentityKey(randomScalar(), 2n);
+    expect(verifyIdentityRegistration({ ...other, signerIndex: 2n }, publicShare)).toBe(false);
+    expect(verifyIdentityRegistration({ ...registration, signerIndex: 3n }, publicShare)).toBe(false);
+    expect(
+      verifyIdentityRegistration({ ...registration, identityPublicKey: other.identityPublicKey }, publicShare)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import {
+  PoolIndexer,
+  MemoryCheckpointStore,
+  type PoolEvent,
+  type PoolEventSource,
+} from "../src/indexer.js";
+import { MerkleTree } from "../src/transaction.js";
+
+function treeOf(leaves: bigint[]): MerkleTree {
+  const tree = new MerkleTree(8);
+  for (const leaf of leaves) tree.insert(leaf);
+  return tree;
+}
+
+/** Fake chain: one shield per block, block hashes tagged with a fork id */
+class FakeChain implements PoolEventSource {
+  head: number;
+  fork = "a";
+  forkBlock = Infinity; // Blocks >= forkBlock belong to `fork`, older ones to "a"
+  calls: [number, number][] = [];
+
+  constructor(head: number) {
+    this.head = head;
+  }
+
+  private _forkOf(n: number): string {
+    return n >= this.forkBlock ? this.fork : "a";
+  }
+
+  async getBlockNumber() {
+    return this.head;
+  }
+
+  async getBlockHash(n: number) {
+    if (n > this.head) throw new Error("unknown block");
+    return `0x${this._forkOf(n)}${n}`;
+  }
+
+  async getEvents(from: number, to: number): Promise<PoolEvent[]> {
+    this.calls.push([from, to]);
+    const events: PoolEvent[] = [];
+    for (let n = to; n >= from; n--) {
+      events.push({
+        blockNumber: n,
+        logIndex: 0,
+        txHash: `0x${this._forkOf(n)}${n}`,
+        leaves: [{
+          commitment: BigInt(n) * (this._forkOf(n) === "a" ? 1n : 1000n),
+          asset: "CFX",
+          ephPubKeyX: 0n,
+          ephPubKeyY: 0n,
+          viewTag: 0n,
+          encryptedAmount: 0n,
+          type: "shield",
+        }],
+        nullifiers: [BigInt(n) + 10_000n],
+      });
+    }
+    return events;
+  }
+}
+
+describe("PoolIndexer", () => {
+  test("indexes from the deployment block in chunks", async () => {
+    const chain = new FakeChain(25);
+    const indexer = new PoolIndexer(chain, new MemoryCheckpointStore(), { deploymentBlock: 5, chunkSize: 8 });
+
+    const result = await indexer.sync();
+
+    expect(chain.calls).toEqual([[5, 12], [13, 20], [21, 25]]);
+    expect(result).toEqual({ fromBlock: 5, toBlock: 25, newEvents: 21, reorged: false });
+    expect(indexer.lastBlock).toBe(25);
+    // Events are kept in chain order even if the source returns them unsorted
+    expect(indexer.leaves()).toEqual(Array.from({ length: 21 }, (_, i) => BigInt(i + 5)));
+    expect(indexer.spentNullifiers().has(10_005n)).toBe(true);
+  });
+
+  test("resumes from the stored checkpoint and only fetches new blocks", async () => {
+    const chain = new FakeChain(10);
+    const store = new MemoryCheckpointStore();
+    await new PoolIndexer(chain, store, { treeDepth: 8 }).sync();
+
+    chain.head = 13;
+    chain.calls = [];
+    const indexer = new PoolIndexer(chain, store, { treeDepth: 8 });
+    const result = await indexer.sync();
+
+    expect(chain.calls).toEqual([[11, 13]]);
+    expect(result.newEvents).toBe(3);
+    expect(indexer.events.length).toBe(14);
+    // The restored tree continues from the persisted one
+    expect(indexer.tree.root).toBe(treeOf(indexer.leaves()).root);
+  });
+
+  test("does nothing when there are no new blocks", async () => {
+    const chain = new FakeChain(10);
+    const indexer = new PoolIndexer(chain, new MemoryCheckpointStore());
+    await indexer.sync();
+
+    chain.calls = [];
+    const result = await indexer.sync();
+
+    expect(chain.calls).toEqual([]);
+    expect(result.newEvents).toBe(0);
+  });
+
+  test("rolls back orphaned blocks and re-indexes the new branch", async () => {
+    const chain = new FakeChain(20);
+    const indexer = new PoolIndexer(chain, new MemoryCheckpointStore(), { reorgDepth: 10, treeDepth: 8 });
+    await indexer.sync();
+
+    // Blocks 18.. are replaced and the chain grows to 22
+    chain.fork = "b";
+    chain.forkBlock = 18;
+    chain.head = 22;
+    chain.calls = [];
+    const result = await indexer.sync();
+
+    expect(result.reorged).toBe(true);
+    expect(chain.calls).toEqual([[18, 22]]);
+    const leaves = indexer.leaves();
+    expect(leaves.length).toBe(23);
+    expect(leaves.slice(17)).toEqual([17n, 18_000n, 19_000n, 20_000n, 21_000n, 22_000n]);
+    expect(indexer.tree.root).toBe(treeOf(leaves).root);
+  });
+
+  test("re-indexes from scratch after a reorg deeper than reorgDepth", async () => {
+    const chain = new FakeChain(20);
+    const indexer = new PoolIndexer(chain, new MemoryCheckpointStore(), { reorgDepth: 3 });
+    await indexer.sync();
+
+    chain.fork = "b";
+    chain.forkBlock = 15;
+    chain.calls = [];
+    const result = await indexer.sync();
+
+    expect(result.reorged).toBe(true);
+    expect(chain.calls).toEqual([[0, 20]]);
+    expect(indexer.leaves()[15]).toBe(15_000n);
+    expect(indexer.leaves().length).toBe(21);
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, test, expect } from "bun:test";
-import { NonceTracker } from "../src/nonce-tracker.js";
+import {
+  NonceTracker,
+  UsedNonceRegistry,
+  MemoryUsedNonceStore,
+  LocalStorageUsedNonceStore,
+} from "../src/nonce-tracker.js";
 import { precomputeNonces } from "../src/keygen.js";
 
 describe("NonceTracker", () => {
@@ -67,3 +72,49 @@ describe("NonceTracker", () => {
     expect(() => tracker.consumeNext()).toThrow("all nonces consumed");
   });
 });
+
+describe("UsedNonceRegistry", () => {
+  test("a commitment can be marked used once, and the store persists it", () => {
+    const store = new MemoryUsedNonceStore();
+    const [nonce, other] = precomputeNonces(2);
+
+    new UsedNonceRegistry(store).markUsed(nonce);
+
+    // A new registry over the same store (e.g. after a reload) still refuses it
+    const registry = new UsedNonceRegistry(store);
+    expect(registry.isUsed(nonce)).toBe(true);
+    expect(registry.isUsed(other)).toBe(false);
+    expect(() => registry.markUsed(nonce)).toThrow("nonce commitment already used to sign");
+    registry.markUsed(other);
+  });
+
+  test("localStorage keys are kept per payment and dropped once it is forgotten", () => {
+    const items = new Map<string, string>();
+    (globalThis as { localStorage?: unknown }).localStorage = {
+      getItem: (k: string) => items.get(k) ?? null,
+      setItem: (k: string, v: string) => items.set(k, v),
+    };
+    try {
+      // A store written before keys were grouped by payment
+      const [legacy, first, second] = precomputeNonces(3);
+      items.set("used", JSON.stringify([UsedNonceRegistry.key(legacy)]));
+
+      const store = new LocalStorageUsedNonceStore("used");
+      new UsedNonceRegistry(store.forScope("pay-1")).markUsed(first);
+      new UsedNonceRegistry(store.forScope("pay-2")).markUsed(second);
+
+      // Every payment's keys are refused, whichever scope signs
+      const registry = new UsedNonceRegistry(store.forScope("pay-3"));
+      expect(registry.isUsed(legacy)).toBe(true);
+      expect(registry.isUsed(first)).toBe(true);
+      expect(() => registry.markUsed(second)).toThrow("nonce commitment already used to sign");
+
+      store.forget("pay-1");
+      expect(registry.isUsed(first)).toBe(false);
+      expect(registry.isUsed(second)).toBe(true);
+      expect(Object.keys(JSON.parse(items.get("used")!))).toEqual(["", "pay-2"]);
+    } finally {
+      delete (globalThis as { localStorage?: unknown }).localStorage;
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import {
+  encryptNote,
+  encryptStealthNote,
+  decryptNote,
+  decryptOutgoingNote,
+  ENCRYPTED_NOTE_BYTES,
+  OUTGOING_NOTE_BYTES,
+} from "../src/note-encryption.js";
+import {
+  createStealthMetaAddress,
+  createStealthNote,
+  deriveOutgoingViewingKey,
+  openStealthNote,
+} from "../src/stealth.js";
+import { G, randomScalar, scalarMul, toAffine } from "../src/grumpkin.js";
+import type { Note } from "../src/types.js";
+
+const TOKEN = "0x00000000000000000000000000000000000000aa";
+
+describe("Note Encryption", () => {
+  const stealthScalar = randomScalar();
+  const note: Note = { owner: 1n, asset: "CFX", amount: 123456789n, blinding: randomScalar() };
+
+  test("round-trips amount, asset, blinding and memo", () => {
+    const encrypted = encryptNote(note, stealthScalar, "Invoice #2024-117");
+    expect(encrypted.length).toBe(2 + ENCRYPTED_NOTE_BYTES * 2);
+
+    expect(decryptNote(encrypted, stealthScalar)).toEqual({
+      amount: note.amount,
+      asset: "CFX",
+      blinding: note.blinding,
+      memo: "Invoice #2024-117",
+    });
+
+    const tokenNote = { ...note, asset: TOKEN };
+    expect(decryptNote(encryptNote(tokenNote, stealthScalar), stealthScalar)?.asset).toBe(TOKEN);
+  });
+
+  test("carries a full 64-byte UTF-8 memo", () => {
+    const memo = "é".repeat(32);
+    expect(decryptNote(encryptNote(note, stealthScalar, memo), stealthScalar)?.memo).toBe(memo);
+    expect(() => encryptNote(note, stealthScalar, memo + "x")).toThrow("Memo exceeds 64 bytes");
+  });
+
+  test("rejects a tampered ciphertext or another key", () => {
+    const encrypted = encryptNote(note, stealthScalar, "memo");
+    const flipped = encrypted.slice(0, 10) + (encrypted[10] === "0" ? "1" : "0") + encrypted.slice(11);
+
+    expect(decryptNote(flipped, stealthScalar)).toBeNull();
+    expect(decryptNote(encrypted, randomScalar())).toBeNull();
+    expect(decryptNote(encrypted.slice(0, -2), stealthScalar)).toBeNull();
+  });
+
+  test("the recipient decrypts a stealth note with its viewing key", () => {
+    const viewingSk = randomScalar();
+    const meta = createStealthMetaAddress(
+      toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, viewingSk)), 7n
+    );
+    const stealthNote = createStealthNote(meta, TOKEN, 42n);
+    const encrypted = encryptStealthNote(stealthNote, "PO-9");
+
+    const opened = openStealthNote(stealthNote.ciphertext, viewingSk)!;
+    expect(decryptNote(encrypted, opened.stealthScalar)).toEqual({
+      amount: 42n,
+      asset: TOKEN,
+      blinding: stealthNote.blinding,
+      memo: "PO-9",
+    });
+  });
+
+  test("the sender recovers recipient and memo with its outgoing viewing key", () => {
+    const meta = createStealthMetaAddress(
+      toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, randomScalar())), 7n
+    );
+    const ovk = deriveOutgoingViewingKey(randomScalar());
+    const stealthNote = createStealthNote(meta, "CFX", 900n);
+    const encrypted = encryptStealthNote(stealthNote, "Rent Q3", ovk);
+    expect(encrypted.length).toBe(2 + (ENCRYPTED_NOTE_BYTES + OUTGOING_NOTE_BYTES) * 2);
+
+    const { ephemeralPublicKey } = stealthNote.ciphertext;
+    const sent = decryptOutgoingNote(encrypted, ephemeralPublicKey, ovk)!;
+    expect(sent.recipient).toEqual(meta);
+    expect(sent.owner).toBe(stealthNote.owner);
+    expect(sent.amount).toBe(900n);
+    expect(sent.memo).toBe("Rent Q3");
+
+    expect(decryptOutgoingNote(encrypted, ephemeralPublicKey, ovk + 1n)).toBeNull();
+    expect(decryptOutgoingNote(encryptStealthNote(stealthNote, "Rent Q3"), ephemeralPublicKey, ovk)).toBeNull();
+  });
+});
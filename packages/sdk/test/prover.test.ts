@@ -0,0 +1,11 @@
+import { describe, test, expect } from "bun:test";
+import { publicInputCount } from "../src/prover.js";
+import { MAX_INPUTS, MAX_OUTPUTS } from "../src/transaction.js";
+
+describe("Compiled circuit", () => {
+  test("takes the public inputs BLSGun._verifySpend passes", () => {
+    // nullifier[2], commitment[2], merkle_root, output_commitment[2], fee, relayer,
+    // deadline, recipient, public_amount, asset, and four per-output ciphertext fields
+    expect(publicInputCount()).toBe(2 * MAX_INPUTS + 1 + MAX_OUTPUTS + 6 + 4 * MAX_OUTPUTS);
+  });
+});
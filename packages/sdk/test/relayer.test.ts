@@ -0,0 +1,85 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import {
+  RelayerClient,
+  encodeRelayPayload,
+  decodeRelayPayload,
+} from "../src/relayer.js";
+
+const RELAYER = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+const TOKEN = "0x" + "ab".repeat(20);
+
+const received: unknown[] = [];
+
+// Minimal stand-in for scripts/relayer.ts
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const { pathname } = new URL(req.url);
+    if (pathname === "/info") {
+      return new Response(
+        encodeRelayPayload({
+          address: RELAYER,
+          contract: "0x" + "11".repeat(20),
+          chainId: 31337,
+          fees: { ["0x" + "00".repeat(20)]: 1000n, [TOKEN]: 5n },
+        })
+      );
+    }
+    if (pathname === "/relay") {
+      const body = decodeRelayPayload<{ args: unknown[] }>(await req.text());
+      received.push(body);
+      if ((body.args[4] as { fee: bigint }).fee < 1000n) {
+        return new Response(JSON.stringify({ error: "Fee below minimum" }), { status: 400 });
+      }
+      return new Response(JSON.stringify({ txHash: "0xabc" }));
+    }
+    return new Response("{}", { status: 404 });
+  },
+});
+
+afterAll(() => server.stop(true));
+
+const client = new RelayerClient(`http://127.0.0.1:${server.port}/`);
+
+describe("Relay payload encoding", () => {
+  test("bigints round-trip, other values are untouched", () => {
+    const value = { fee: 1000n, nested: [1n, "0x10", 7, "42"] };
+    expect(decodeRelayPayload(encodeRelayPayload(value))).toEqual(value);
+  });
+});
+
+describe("RelayerClient", () => {
+  test("getInfo decodes the fee schedule", async () => {
+    const info = await client.getInfo();
+
+    expect(info.address).toBe(RELAYER);
+    expect(info.chainId).toBe(31337);
+    expect(info.fees[TOKEN]).toBe(5n);
+  });
+
+  test("quoteFee looks up the token case-insensitively", async () => {
+    expect(await client.quoteFee(TOKEN.toUpperCase().replace("0X", "0x"))).toBe(5n);
+    await expect(client.quoteFee("0x" + "cd".repeat(20))).rejects.toThrow("not accepted");
+  });
+
+  test("submit sends the call and returns the tx hash", async () => {
+    const args = ["0x01", "0x02", "0x03", "0x04", { fee: 1000n, relayer: RELAYER }, 99n];
+    const txHash = await client.submit({ functionName: "privateTransfer", args });
+
+    expect(txHash).toBe("0xabc");
+    expect(received.at(-1)).toEqual({ functionName: "privateTransfer", args });
+  });
+
+  test("submit surfaces relayer errors", async () => {
+    const args = ["0x01", "0x02", "0x03", "0x04", { fee: 1n, relayer: RELAYER }, 99n];
+    await expect(client.submit({ functionName: "privateTransfer", args })).rejects.toThrow(
+      "Relayer: Fee below minimum"
+    );
+  });
+
+  test("refuses functions a relayer cannot submit", async () => {
+    await expect(
+      client.submit({ functionName: "shield" as never, args: [] })
+    ).rejects.toThrow("cannot be relayed");
+  });
+});
@@ -0,0 +1,179 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import { generateMasterKeyPackage, generateHierarchicalKeyPackage } from "../src/keygen.js";
+import { frostVerify } from "../src/signer.js";
+import { deriveIdentityKey } from "../src/identity.js";
+import { RoastCoordinator, RoastSigner } from "../src/roast.js";
+import type { RoastResponse } from "../src/roast.js";
+import { Fr, randomScalar, G, scalarMul, toAffine } from "../src/grumpkin.js";
+import type { MasterKeyPackage } from "../src/types.js";
+
+function setup(pkg: MasterKeyPackage) {
+  const message = randomScalar();
+  const roast = new RoastCoordinator({
+    message,
+    groupPublicKey: pkg.groupPublicKey,
+    threshold: pkg.threshold,
+    signers: pkg.shares,
+  });
+  const signers = pkg.shares.map((share) => new RoastSigner(share, message, pkg.groupPublicKey));
+  return { message, roast, signers };
+}
+
+describe("ROAST Coordinator", () => {
+  test("honest signers finish in the first session", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const { message, roast, signers } = setup(pkg);
+
+    expect(roast.receive(signers[0].commit())).toEqual([]);
+    const [request] = roast.receive(signers[1].commit());
+    expect(request.signers.map((s) => s.index)).toEqual([1n, 2n]);
+
+    roast.receive(signers[0].sign(request));
+    expect(roast.status).toBe("running");
+    roast.receive(signers[1].sign(request));
+
+    expect(roast.status).toBe("done");
+    expect(frostVerify(roast.signature!, message, pkg.groupPublicKey)).toBe(true);
+  });
+
+  test("a signer going offline mid-session does not stall signing", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const { message, roast, signers } = setup(pkg);
+
+    roast.receive(signers[0].commit());
+    const [first] = roast.receive(signers[1].commit());
+    expect(roast.receive(signers[2].commit())).toEqual([]);
+
+    // Signer 2 never answers; signer 1's answer makes it ready again next to signer 3
+    const [second] = roast.receive(signers[0].sign(first));
+    expect(second.signers.map((s) => s.index)).toEqual([3n, 1n]);
+
+    roast.receive(signers[2].sign(second));
+    roast.receive(signers[0].sign(second));
+    expect(roast.status).toBe("done");
+    expect(roast.sessionCount).toBe(2);
+    expect(frostVerify(roast.signature!, message, pkg.groupPublicKey)).toBe(true);
+  });
+
+  test("an invalid partial marks its signer malicious and it is never chosen again", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const { message, roast, signers } = setup(pkg);
+
+    roast.receive(signers[0].commit());
+    const [first] = roast.receive(signers[1].commit());
+    roast.receive(signers[2].commit());
+
+    const bad = signers[1].sign(first);
+    bad.partial = { ...bad.partial!, z_i: Fr.add(bad.partial!.z_i, 1n) };
+    expect(roast.receive(bad)).toEqual([]);
+    expect(roast.malicious).toEqual([2n]);
+
+    // A later message from the malicious signer is ignored
+    expect(roast.receive({ signerIndex: 2n, sessionId: first.sessionId, nextCommitment: bad.nextCommitment })).toEqual([]);
+
+    const [second] = roast.receive(signers[0].sign(first));
+    expect(second.signers.map((s) => s.index)).toEqual([3n, 1n]);
+    roast.receive(signers[0].sign(second));
+    roast.receive(signers[2].sign(second));
+    expect(roast.status).toBe("done");
+    expect(frostVerify(roast.signature!, message, pkg.groupPublicKey)).toBe(true);
+  });
+
+  test("fails once fewer than t signers are left that are not malicious", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const { roast, signers } = setup(pkg);
+
+    roast.receive(signers[0].commit());
+    const [first] = roast.receive(signers[1].commit());
+    const tamper = (r: RoastResponse): RoastResponse => ({ ...r, partial: { ...r.partial!, z_i: 1n } });
+
+    roast.receive(tamper(signers[0].sign(first)));
+    expect(roast.status).toBe("running");
+    roast.receive(tamper(signers[1].sign(first)));
+    expect(roast.status).toBe("failed");
+    expect(roast.signature).toBeNull();
+  });
+
+  test("hierarchical groups only open Birkhoff-poised sessions", () => {
+    const pkg = generateHierarchicalKeyPackage({
+      threshold: 2,
+      signers: [
+        { index: 1, rank: 0 },
+        { index: 2, rank: 1 },
+        { index: 3, rank: 1 },
+      ],
+    });
+    const { message, roast, signers } = setup(pkg);
+
+    // Two rank-1 signers cannot recover f(0)
+    roast.receive(signers[1].commit());
+    expect(roast.receive(signers[2].commit())).toEqual([]);
+    const [request] = roast.receive(signers[0].commit());
+    expect(request.signers.map((s) => [s.index, s.rank])).toEqual([
+      [2n, 1],
+      [1n, 0],
+    ]);
+
+    roast.receive(signers[1].sign(request));
+    roast.receive(signers[0].sign(request));
+    expect(roast.status).toBe("done");
+    expect(frostVerify(roast.signature!, message, pkg.groupPublicKey)).toBe(true);
+  });
+
+  test("a signer refuses another message or a stale commitment", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const { roast, signers } = setup(pkg);
+
+    roast.receive(signers[0].commit());
+    const [request] = roast.receive(signers[1].commit());
+
+    expect(() => signers[0].sign({ ...request, message: randomScalar() })).toThrow(
+      "RoastSigner: session is for a different message"
+    );
+    signers[0].sign(request);
+    expect(() => signers[0].sign(request)).toThrow(
+      "RoastSigner: session does not carry this signer's current nonce commitment"
+    );
+  });
+
+  test("with identity keys, injected commitments are ignored and refused", () => {
+    const pkg = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const message = randomScalar();
+    const identities = pkg.shares.map((s) => deriveIdentityKey(s.secretShare));
+    const publicKeys = new Map(pkg.shares.map((s, i) => [s.index, identities[i].publicKey]));
+    const roast = new RoastCoordinator({
+      message,
+      groupPublicKey: pkg.groupPublicKey,
+      threshold: pkg.threshold,
+      signers: pkg.shares.map((s, i) => ({ ...s, identityKey: identities[i].publicKey })),
+    });
+    const signers = pkg.shares.map(
+      (share, i) =>
+        new RoastSigner(share, message, pkg.groupPublicKey, undefined, {
+          secretKey: identities[i].secretKey,
+          publicKeys,
+        })
+    );
+
+    // An unsigned commitment in signer 2's name does not make it ready
+    const forged = { D: toAffine(scalarMul(G, randomScalar())), E: toAffine(scalarMul(G, randomScalar())) };
+    roast.receive(signers[0].commit());
+    expect(roast.receive({ signerIndex: 2n, nextCommitment: forged })).toEqual([]);
+
+    // A dishonest coordinator swapping in its own commitment gets no partial
+    const [request] = roast.receive(signers[1].commit());
+    const tampered = {
+      ...request,
+      signers: request.signers.map((s) => (s.index === 2n ? { ...s, commitment: { ...s.commitment, ...forged } } : s)),
+    };
+    expect(() => signers[0].sign(tampered)).toThrow(
+      "RoastSigner: commitment of signer 2 is not signed by its identity key"
+    );
+
+    roast.receive(signers[0].sign(request));
+    roast.receive(signers[1].sign(request));
+    expect(roast.status).toBe("done");
+    expect(frostVerify(roast.signature!, message, pkg.groupPublicKey)).toBe(true);
+  });
+});
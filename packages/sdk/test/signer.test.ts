@@ -13,7 +13,11 @@ import {
   createSigningSession,
   registerNonceCommitment,
   lagrangeCoeff,
+  generateHedgedNonces,
+  verifyPartialSignature,
+  computeGroupCommitment,
 } from "../src/signer.js";
+import { UsedNonceRegistry } from "../src/nonce-tracker.js";
 import { randomScalar, Fr } from "../src/grumpkin.js";
 
 describe("FROST 2-of-3 Threshold Signing", () => {
@@ -180,6 +184,53 @@ describe("FROST Partial Signing Flow", () => {
     expect(frostVerify(sig, message, pkg.groupPublicKey)).toBe(true);
   });
 
+  test("a bad partial is identified before aggregation", () => {
+    const pkg = generateMasterKeyPackage(10);
+    const message = randomScalar();
+    const [nonce1, nonce2] = precomputeNonces(2);
+    const session = createSigningSession(message, [1n, 2n], pkg.groupPublicKey);
+    registerNonceCommitment(session, 1n, nonce1.D, nonce1.E);
+    registerNonceCommitment(session, 2n, nonce2.D, nonce2.E);
+
+    const partial1 = frostPartialSign(1n, pkg.shares[0].secretShare, nonce1, session);
+    const partial2 = frostPartialSign(2n, randomScalar(), nonce2, session); // wrong share
+    expect(verifyPartialSignature(session, partial1, pkg.shares[0].publicShare)).toBe(true);
+    expect(verifyPartialSignature(session, partial2, pkg.shares[1].publicShare)).toBe(false);
+
+    // Checked against another signer's public share, or with a shifted z, it fails too
+    expect(verifyPartialSignature(session, partial1, pkg.shares[1].publicShare)).toBe(false);
+    expect(verifyPartialSignature(session, { ...partial1, z_i: Fr.add(partial1.z_i, 1n) }, pkg.shares[0].publicShare)).toBe(false);
+  });
+
+  test("every binding factor commits to the whole commitment list", () => {
+    const pkg = generateMasterKeyPackage(10);
+    const message = randomScalar();
+    const [nonce1, nonce2, other] = precomputeNonces(3);
+    const commitments = new Map([
+      [1n, { D: nonce1.D, E: nonce1.E }],
+      [2n, { D: nonce2.D, E: nonce2.E }],
+    ]);
+    const { R, bindingFactors } = computeGroupCommitment(message, pkg.groupPublicKey, [1n, 2n], commitments);
+
+    // Listing the participants in another order gives the same R and factors
+    const reordered = computeGroupCommitment(message, pkg.groupPublicKey, [2n, 1n], commitments);
+    expect(reordered.R).toEqual(R);
+    expect(reordered.bindingFactors).toEqual(bindingFactors);
+
+    // Changing signer 2's commitment changes signer 1's factor as well
+    commitments.set(2n, { D: other.D, E: other.E });
+    const changed = computeGroupCommitment(message, pkg.groupPublicKey, [1n, 2n], commitments);
+    expect(changed.bindingFactors.get(1n)).not.toBe(bindingFactors.get(1n));
+
+    // A nonce that is not the signer's registered commitment is refused
+    const session = createSigningSession(message, [1n, 2n], pkg.groupPublicKey);
+    registerNonceCommitment(session, 1n, nonce1.D, nonce1.E);
+    registerNonceCommitment(session, 2n, nonce2.D, nonce2.E);
+    expect(() => frostPartialSign(1n, pkg.shares[0].secretShare, other, session)).toThrow(
+      "Nonce does not match signer 1's registered commitment"
+    );
+  });
+
   test("insufficient signers (1-of-3) produces invalid signature", () => {
     const pkg = generateMasterKeyPackage(10);
     const message = randomScalar();
@@ -192,3 +243,37 @@ describe("FROST Partial Signing Flow", () => {
     }).toThrow("Need at least 2 partial signatures, got 1");
   });
 });
+
+describe("Hedged Nonces", () => {
+  test("same inputs re-derive the nonce; a new message or signer set changes it", () => {
+    const share = randomScalar();
+    const message = randomScalar();
+    const randomness = randomScalar();
+
+    const nonce = generateHedgedNonces(share, message, [1n, 2n], randomness);
+    expect(generateHedgedNonces(share, message, [1n, 2n], randomness)).toEqual(nonce);
+    expect(generateHedgedNonces(share, message + 1n, [1n, 2n], randomness).d).not.toBe(nonce.d);
+    expect(generateHedgedNonces(share, message, [1n, 3n], randomness).d).not.toBe(nonce.d);
+    expect(generateHedgedNonces(share, message, [1n, 2n]).d).not.toBe(nonce.d);
+    expect(nonce.d).not.toBe(nonce.e);
+  });
+
+  test("the registry refuses a second signature with the same nonce", () => {
+    const pkg = generateMasterKeyPackage(10);
+    const registry = new UsedNonceRegistry();
+    const share = pkg.shares[0].secretShare;
+
+    function sign(message: bigint, nonce1: ReturnType<typeof generateHedgedNonces>) {
+      const nonce2 = precomputeNonces(1)[0];
+      const session = createSigningSession(message, [1n, 2n], pkg.groupPublicKey);
+      registerNonceCommitment(session, 1n, nonce1.D, nonce1.E);
+      registerNonceCommitment(session, 2n, nonce2.D, nonce2.E);
+      return frostPartialSign(1n, share, nonce1, session, registry);
+    }
+
+    const nonce = generateHedgedNonces(share, 42n, [1n, 2n]);
+    sign(42n, nonce);
+    expect(registry.isUsed(nonce)).toBe(true);
+    expect(() => sign(43n, nonce)).toThrow("nonce commitment already used to sign");
+  });
+});
@@ -4,9 +4,22 @@ import {
   createStealthMetaAddress,
   generateStealthAddress,
   checkStealthAddress,
+  computeStealthSpendingKeyHash,
+  computeNullifierKeyCommitment,
+  deriveNullifyingKey,
+  createStealthNote,
+  openStealthNote,
+  deriveNoteBlinding,
+  deriveEpochViewingKey,
+  viewingKeyEpoch,
+  formatViewingKeyEpoch,
 } from "../src/stealth.js";
+import { poseidon2Hash3 } from "../src/hash.js";
 import { G, scalarMul, toAffine, randomScalar } from "../src/grumpkin.js";
 
+/** NK published in the meta-address of a treasury with this viewing key */
+const nkCommitment = (viewingSk: bigint) => computeNullifierKeyCommitment(deriveNullifyingKey(viewingSk));
+
 describe("Stealth Addresses", () => {
   test("generate and recover stealth address", () => {
     // Recipient setup
@@ -15,7 +28,7 @@ describe("Stealth Addresses", () => {
     const spendingPk = toAffine(scalarMul(G, spendingSk));
     const viewingPk = toAffine(scalarMul(G, viewingSk));
 
-    const meta = createStealthMetaAddress(spendingPk, viewingPk);
+    const meta = createStealthMetaAddress(spendingPk, viewingPk, nkCommitment(viewingSk));
 
     // Sender generates stealth address
     const stealth = generateStealthAddress(meta);
@@ -41,7 +54,7 @@ describe("Stealth Addresses", () => {
     const spendingPk = toAffine(scalarMul(G, spendingSk));
     const viewingPk = toAffine(scalarMul(G, viewingSk));
 
-    const meta = createStealthMetaAddress(spendingPk, viewingPk);
+    const meta = createStealthMetaAddress(spendingPk, viewingPk, nkCommitment(viewingSk));
     const stealth = generateStealthAddress(meta);
 
     // Try to recover with wrong key
@@ -60,7 +73,7 @@ describe("Stealth Addresses", () => {
     const spendingPk = toAffine(scalarMul(G, spendingSk));
     const viewingPk = toAffine(scalarMul(G, viewingSk));
 
-    const meta = createStealthMetaAddress(spendingPk, viewingPk);
+    const meta = createStealthMetaAddress(spendingPk, viewingPk, nkCommitment(viewingSk));
 
     // Generate two stealth addresses
     const stealth1 = generateStealthAddress(meta);
@@ -70,4 +83,78 @@ describe("Stealth Addresses", () => {
     expect(stealth1.address.x).not.toBe(stealth2.address.x);
     expect(stealth1.ephemeralPublicKey.x).not.toBe(stealth2.ephemeralPublicKey.x);
   });
+
+  test("note owner binds the stealth public key and the nullifier key commitment", () => {
+    const spendingPk = toAffine(scalarMul(G, randomScalar()));
+    const viewingSk = randomScalar();
+    const NK = nkCommitment(viewingSk);
+    const meta = createStealthMetaAddress(spendingPk, toAffine(scalarMul(G, viewingSk)), NK);
+    const stealth = generateStealthAddress(meta);
+
+    expect(stealth.owner).toBe(poseidon2Hash3(stealth.address.x, stealth.address.y, NK));
+    const recovered = checkStealthAddress(stealth.ephemeralPublicKey, stealth.viewTag, viewingSk);
+    expect(computeStealthSpendingKeyHash(spendingPk, recovered!, NK)).toBe(stealth.owner);
+  });
+
+  test("zero stealth scalar gives the spending key's own owner field", () => {
+    const spendingPk = toAffine(scalarMul(G, randomScalar()));
+    expect(computeStealthSpendingKeyHash(spendingPk, 0n, 7n)).toBe(
+      poseidon2Hash3(spendingPk.x, spendingPk.y, 7n)
+    );
+  });
+
+  test("nullifying key derives from the viewing key", () => {
+    const viewingSk = randomScalar();
+    expect(deriveNullifyingKey(viewingSk)).toBe(deriveNullifyingKey(viewingSk));
+    expect(deriveNullifyingKey(viewingSk)).not.toBe(deriveNullifyingKey(viewingSk + 1n));
+    // The published commitment does not reveal nk itself
+    expect(nkCommitment(viewingSk)).not.toBe(deriveNullifyingKey(viewingSk));
+  });
+
+  test("stealth note ciphertext opens to the note with the viewing key", () => {
+    const viewingSk = randomScalar();
+    const meta = createStealthMetaAddress(
+      toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, viewingSk)), nkCommitment(viewingSk)
+    );
+    const note = createStealthNote(meta, "CFX", 123456789n);
+
+    const opened = openStealthNote(note.ciphertext, viewingSk);
+    expect(opened).not.toBeNull();
+    expect(opened!.amount).toBe(note.amount);
+    expect(opened!.blinding).toBe(note.blinding);
+    expect(deriveNoteBlinding(opened!.stealthScalar)).toBe(note.blinding);
+    expect(computeStealthSpendingKeyHash(meta.spendingPublicKey, opened!.stealthScalar, meta.nullifierKeyCommitment))
+      .toBe(note.owner);
+  });
+
+  test("stealth note is deterministic in the ephemeral secret", () => {
+    const meta = createStealthMetaAddress(
+      toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, randomScalar())), 1n
+    );
+    const r = randomScalar();
+    expect(createStealthNote(meta, "CFX", 5n, r)).toEqual(createStealthNote(meta, "CFX", 5n, r));
+    expect(() => createStealthNote(meta, "CFX", 1n << 128n)).toThrow("128 bits");
+  });
+
+  test("epoch viewing keys are per calendar quarter and only find their epoch's notes", () => {
+    const q4 = viewingKeyEpoch(Date.UTC(2026, 9, 19));
+    expect(formatViewingKeyEpoch(q4)).toBe("2026-Q4");
+    expect(viewingKeyEpoch(Date.UTC(2026, 11, 31, 23, 59))).toBe(q4);
+    expect(viewingKeyEpoch(Date.UTC(2027, 0, 1))).toBe(q4 + 1);
+    expect(formatViewingKeyEpoch(q4 + 1)).toBe("2027-Q1");
+
+    const master = randomScalar();
+    const q4Key = deriveEpochViewingKey(master, q4);
+    expect(q4Key).toBe(deriveEpochViewingKey(master, q4));
+    expect(q4Key).not.toBe(deriveEpochViewingKey(master, q4 + 1));
+    expect(() => deriveEpochViewingKey(master, -1)).toThrow("Invalid viewing-key epoch");
+
+    const meta = createStealthMetaAddress(
+      toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, q4Key)), nkCommitment(master)
+    );
+    const note = createStealthNote(meta, "CFX", 10n);
+    expect(openStealthNote(note.ciphertext, q4Key)?.amount).toBe(10n);
+    expect(openStealthNote(note.ciphertext, deriveEpochViewingKey(master, q4 + 1))).toBeNull();
+    expect(openStealthNote(note.ciphertext, master)).toBeNull();
+  });
 });
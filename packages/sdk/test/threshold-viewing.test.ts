@@ -0,0 +1,67 @@
+import "./preload.js";
+import { describe, test, expect } from "bun:test";
+import {
+  generateThresholdViewingKey,
+  thresholdMetaAddress,
+  computePartialSharedSecret,
+  verifyPartialSharedSecret,
+  combinePartialSharedSecrets,
+} from "../src/threshold-viewing.js";
+import { checkScanTag, createStealthNote, openStealthNoteWithSharedSecret } from "../src/stealth.js";
+import { decryptNote, encryptStealthNote, readScanTag } from "../src/note-encryption.js";
+import { createSignerKeyMaterial, generateMasterKeyPackage } from "../src/keygen.js";
+import { G, randomScalar, scalarMul, toAffine } from "../src/grumpkin.js";
+
+describe("Threshold Viewing Key", () => {
+  const pkg = generateThresholdViewingKey({ threshold: 2, totalSigners: 3 });
+  const meta = thresholdMetaAddress(toAffine(scalarMul(G, randomScalar())), pkg);
+  const note = createStealthNote(meta, "CFX", 4200n);
+  const encrypted = encryptStealthNote(note, "Payroll");
+  const R = note.ciphertext.ephemeralPublicKey;
+
+  test("scan key filters, t partials open the note", () => {
+    const scanTag = readScanTag(encrypted)!;
+    expect(checkScanTag(R, scanTag, pkg.scanSecretKey)).toBe(true);
+
+    const partials = [pkg.shares[0], pkg.shares[2]].map((share) => computePartialSharedSecret(share, R));
+    const sharedSecret = combinePartialSharedSecrets(partials, R, pkg.shares, pkg.threshold);
+
+    const opened = openStealthNoteWithSharedSecret(note.ciphertext, sharedSecret)!;
+    expect(opened.amount).toBe(4200n);
+    expect(decryptNote(encrypted, opened.stealthScalar)?.memo).toBe("Payroll");
+  });
+
+  test("every t-subset combines to the same secret; fewer than t is rejected", () => {
+    const partials = pkg.shares.map((share) => computePartialSharedSecret(share, R));
+    const s12 = combinePartialSharedSecrets([partials[0], partials[1]], R, pkg.shares, 2);
+    const s23 = combinePartialSharedSecrets([partials[1], partials[2]], R, pkg.shares, 2);
+    expect(s12).toEqual(s23);
+    expect(() => combinePartialSharedSecrets([partials[0], partials[0]], R, pkg.shares, 2)).toThrow(
+      "Need partials from 2 signers, got 1"
+    );
+  });
+
+  test("a partial that does not match its public share is attributed to its signer", () => {
+    const honest = computePartialSharedSecret(pkg.shares[0], R);
+    expect(verifyPartialSharedSecret(honest, pkg.shares[0].publicShare, R)).toBe(true);
+
+    // Signer 2 contributes [x]R for a different x, with a valid-looking proof
+    const forged = computePartialSharedSecret({ ...pkg.shares[1], secretShare: randomScalar() }, R);
+    expect(verifyPartialSharedSecret(forged, pkg.shares[1].publicShare, R)).toBe(false);
+    expect(() => combinePartialSharedSecrets([honest, forged], R, pkg.shares, 2)).toThrow(
+      "Invalid partial shared secret from signer 2"
+    );
+
+    const offCurve = { ...honest, point: { x: 1n, y: 1n } };
+    expect(verifyPartialSharedSecret(offCurve, pkg.shares[0].publicShare, R)).toBe(false);
+  });
+
+  test("signer key material carries only a viewing key share", () => {
+    const master = generateMasterKeyPackage({ threshold: 2, totalSigners: 3 });
+    const material = createSignerKeyMaterial(master, 1, 1, pkg);
+    expect(material.viewingKey).toBeUndefined();
+    expect(material.viewingKeyShare).toEqual(pkg.shares[1]);
+    expect(material.nullifyingKey).toBe(pkg.nullifyingKey);
+    expect(createSignerKeyMaterial(master, 1, 1).viewingKey).toBe(master.viewingSecretKey);
+  });
+});
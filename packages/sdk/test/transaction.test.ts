@@ -8,9 +8,20 @@ import {
   MerkleTree,
   verifyMerkleProof,
   buildTransaction,
+  buildJoinSplitTransaction,
+  buildCircuitInputs,
+  assetId,
+  NATIVE_ASSET_ID,
   TREE_DEPTH,
 } from "../src/transaction.js";
-import { randomScalar } from "../src/grumpkin.js";
+import { G, randomScalar, scalarMul, toAffine } from "../src/grumpkin.js";
+import {
+  computeStealthSpendingKeyHash,
+  computeNullifierKeyCommitment,
+  deriveNullifyingKey,
+  createStealthMetaAddress,
+  createStealthNote,
+} from "../src/stealth.js";
 
 describe("Poseidon Commitments", () => {
   test("commitment is deterministic", () => {
@@ -32,27 +43,58 @@ describe("Poseidon Commitments", () => {
     expect(c1).not.toBe(c2);
     expect(c1).not.toBe(c3);
   });
+
+  test("asset is committed into the note", () => {
+    const token = assetId("0x" + "ab".repeat(20));
+
+    const native = computeCommitment(1n, 100n, 999n);
+    expect(computeCommitment(1n, 100n, 999n, NATIVE_ASSET_ID)).toBe(native);
+    expect(computeCommitment(1n, 100n, 999n, token)).not.toBe(native);
+  });
+});
+
+describe("Asset IDs", () => {
+  test("native CFX maps to 0, tokens to their address", () => {
+    expect(assetId("CFX")).toBe(0n);
+    expect(assetId("0x" + "ab".repeat(20))).toBe(BigInt("0x" + "ab".repeat(20)));
+  });
+
+  test("rejects unknown assets and the zero address", () => {
+    expect(() => assetId("USDT")).toThrow("Unknown asset");
+    expect(() => assetId("0x" + "00".repeat(20))).toThrow("not a token");
+  });
 });
 
 describe("Nullifier Derivation", () => {
   test("nullifier is deterministic", () => {
-    const keyHash = randomScalar();
+    const nk = randomScalar();
+    const commitment = randomScalar();
     const leafIdx = 42n;
 
-    const n1 = computeNullifier(keyHash, leafIdx);
-    const n2 = computeNullifier(keyHash, leafIdx);
+    const n1 = computeNullifier(nk, commitment, leafIdx);
+    const n2 = computeNullifier(nk, commitment, leafIdx);
 
     expect(n1).toBe(n2);
   });
 
   test("different leaf indices → different nullifiers", () => {
-    const keyHash = randomScalar();
+    const nk = randomScalar();
+    const commitment = randomScalar();
 
-    const n1 = computeNullifier(keyHash, 0n);
-    const n2 = computeNullifier(keyHash, 1n);
+    const n1 = computeNullifier(nk, commitment, 0n);
+    const n2 = computeNullifier(nk, commitment, 1n);
 
     expect(n1).not.toBe(n2);
   });
+
+  test("depends on the secret nullifying key", () => {
+    const commitment = randomScalar();
+
+    // A sender knows the commitment and leaf index, but not nk
+    expect(computeNullifier(randomScalar(), commitment, 0n)).not.toBe(
+      computeNullifier(randomScalar(), commitment, 0n)
+    );
+  });
 });
 
 describe("Transaction Message", () => {
@@ -74,6 +116,40 @@ describe("Transaction Message", () => {
 
     expect(m1).not.toBe(m2);
   });
+
+  test("recipient and public amount are bound into the message", () => {
+    const base = computeTransactionMessage([1n], [0n], 0n, 100n, 0xabcn, 500n);
+    const otherRecipient = computeTransactionMessage([1n], [0n], 0n, 100n, 0xdefn, 500n);
+    const otherAmount = computeTransactionMessage([1n], [0n], 0n, 100n, 0xabcn, 501n);
+
+    expect(base).not.toBe(otherRecipient);
+    expect(base).not.toBe(otherAmount);
+  });
+
+  test("asset is bound into the message", () => {
+    const native = computeTransactionMessage([1n], [2n], 0n, 100n);
+    const token = computeTransactionMessage([1n], [2n], 0n, 100n, 0n, 0n, assetId("0x" + "ab".repeat(20)));
+
+    expect(native).not.toBe(token);
+  });
+
+  test("relayer is bound into the message", () => {
+    const anyone = computeTransactionMessage([1n], [2n], 10n, 100n);
+    const relayer = computeTransactionMessage([1n], [2n], 10n, 100n, 0n, 0n, 0n, 0x1234n);
+
+    expect(anyone).not.toBe(relayer);
+  });
+
+  test("unused slots are padded with zero", () => {
+    const short = computeTransactionMessage([1n], [2n], 0n, 100n);
+    const padded = computeTransactionMessage([1n, 0n], [2n, 0n], 0n, 100n);
+
+    expect(short).toBe(padded);
+  });
+
+  test("rejects more slots than the circuit supports", () => {
+    expect(() => computeTransactionMessage([1n, 2n, 3n], [4n], 0n, 100n)).toThrow("Too many");
+  });
 });
 
 describe("Merkle Tree", () => {
@@ -136,6 +212,19 @@ describe("Merkle Tree", () => {
     expect(verifyMerkleProof(wrongLeaf, proof)).toBe(false);
   });
 
+  test("non-binary path index fails verification", () => {
+    const tree = new MerkleTree(4);
+    tree.insert(computeCommitment(1n, 100n, 111n));
+    const commitment = computeCommitment(2n, 200n, 222n);
+    tree.insert(commitment);
+
+    // 3 hashes like 1 (right child) but would read as leaf index 3
+    const proof = tree.generateProof(1);
+    const forged = { ...proof, pathIndices: [3, ...proof.pathIndices.slice(1)] };
+
+    expect(verifyMerkleProof(commitment, forged)).toBe(false);
+  });
+
   test("root changes after insertion", () => {
     const tree = new MerkleTree(4);
     const root1 = tree.root;
@@ -145,16 +234,71 @@ describe("Merkle Tree", () => {
 
     expect(root1).not.toBe(root2);
   });
+
+  test("root and proofs match a full rebuild after every insert", () => {
+    const tree = new MerkleTree(4);
+    for (let i = 0; i < 16; i++) {
+      tree.insert(BigInt(i + 1) * 7n);
+      const rebuilt = new MerkleTree(4);
+      for (let j = 0; j <= i; j++) rebuilt.insert(BigInt(j + 1) * 7n);
+      expect(tree.root).toBe(rebuilt.root);
+      for (let j = 0; j <= i; j++) {
+        expect(verifyMerkleProof(BigInt(j + 1) * 7n, tree.generateProof(j))).toBe(true);
+      }
+    }
+  });
+
+  test("proofs at full depth only touch the path", () => {
+    const tree = new MerkleTree(); // depth 20, 2^20 leaf slots
+    const leaves = [11n, 22n, 33n];
+    for (const leaf of leaves) tree.insert(leaf);
+
+    const start = performance.now();
+    const proof = tree.generateProof(2);
+    expect(performance.now() - start).toBeLessThan(50);
+    expect(proof.pathElements.length).toBe(20);
+    expect(verifyMerkleProof(33n, proof)).toBe(true);
+  });
+
+  test("serialize / deserialize round-trips without rehashing", () => {
+    const tree = new MerkleTree(4);
+    for (let i = 1n; i <= 5n; i++) tree.insert(i * 1000n);
+
+    const json = JSON.stringify(tree.serialize());
+    const restored = MerkleTree.deserialize(JSON.parse(json));
+
+    expect(restored.size).toBe(5);
+    expect(restored.root).toBe(tree.root);
+    expect(restored.generateProof(3)).toEqual(tree.generateProof(3));
+
+    // Inserts continue from the restored state
+    tree.insert(6000n);
+    restored.insert(6000n);
+    expect(restored.root).toBe(tree.root);
+  });
+
+  test("deserialize rejects malformed snapshots", () => {
+    const tree = new MerkleTree(4);
+    tree.insert(1n);
+    const data = tree.serialize();
+
+    expect(() => MerkleTree.deserialize({ ...data, depth: 5 })).toThrow("wrong number of layers");
+    expect(() =>
+      MerkleTree.deserialize({ ...data, layers: [["1", "2", "3"], ...data.layers.slice(1)] })
+    ).toThrow("layer 1");
+  });
 });
 
 describe("Build Transaction", () => {
+  const nullifyingKey = randomScalar();
+
   test("builds valid unsigned transaction", () => {
     const spendingKeyHash = randomScalar();
     const inputNote = createNote(spendingKeyHash, "CFX", 50000n);
     const outputNote = createNote(randomScalar(), "CFX", 49000n);
 
     const tx = buildTransaction(
-      spendingKeyHash,
+      nullifyingKey,
       inputNote,
       0,
       outputNote,
@@ -168,4 +312,242 @@ describe("Build Transaction", () => {
     expect(tx.deadline).toBe(999999n);
     expect(tx.message).toBeDefined();
   });
+
+  test("unshield has empty output slot and binds recipient/amount", () => {
+    const spendingKeyHash = randomScalar();
+    const inputNote = createNote(spendingKeyHash, "CFX", 50000n);
+
+    const tx = buildTransaction(nullifyingKey, inputNote, 0, null, 0n, 999999n, 0x1234n, 50000n);
+
+    expect(tx.outputCommitments).toEqual([0n]);
+    expect(tx.recipient).toBe(0x1234n);
+    expect(tx.publicAmount).toBe(50000n);
+    expect(tx.message).toBe(
+      computeTransactionMessage(tx.inputNullifiers, [0n], 0n, 999999n, 0x1234n, 50000n)
+    );
+  });
+
+  test("relayed transfer commits to the relayer", () => {
+    const spendingKeyHash = randomScalar();
+    const inputNote = createNote(spendingKeyHash, "CFX", 50000n);
+    const outputNote = createNote(randomScalar(), "CFX", 49000n);
+
+    const tx = buildTransaction(nullifyingKey, inputNote, 0, outputNote, 1000n, 999999n, 0n, 0n, 0x5678n);
+
+    expect(tx.relayer).toBe(0x5678n);
+    expect(tx.message).toBe(
+      computeTransactionMessage(tx.inputNullifiers, tx.outputCommitments, 1000n, 999999n, 0n, 0n, 0n, 0x5678n)
+    );
+  });
+
+  test("partial unshield returns change to an output note", () => {
+    const spendingKeyHash = randomScalar();
+    const inputNote = createNote(spendingKeyHash, "CFX", 50000n);
+    const changeNote = createNote(spendingKeyHash, "CFX", 19000n);
+
+    const tx = buildTransaction(nullifyingKey, inputNote, 0, changeNote, 1000n, 999999n, 0x1234n, 30000n);
+
+    expect(tx.outputCommitments).toEqual([
+      computeCommitment(changeNote.owner, changeNote.amount, changeNote.blinding),
+    ]);
+    expect(tx.publicAmount).toBe(30000n);
+  });
+
+  test("rejects transactions that do not conserve value", () => {
+    const spendingKeyHash = randomScalar();
+    const inputNote = createNote(spendingKeyHash, "CFX", 50000n);
+
+    // Withdrawing less than the note without a change output would burn funds
+    expect(() =>
+      buildTransaction(nullifyingKey, inputNote, 0, null, 0n, 999999n, 0x1234n, 30000n)
+    ).toThrow("Value not conserved");
+  });
+});
+
+describe("JoinSplit Transaction", () => {
+  const nullifyingKey = randomScalar();
+
+  test("2-in/2-out spends two notes into a payment and change", () => {
+    const spendingKeyHash = randomScalar();
+    const noteA = createNote(spendingKeyHash, "CFX", 30000n);
+    const noteB = createNote(spendingKeyHash, "CFX", 20000n);
+    const payment = createNote(randomScalar(), "CFX", 45000n);
+    const change = createNote(spendingKeyHash, "CFX", 4000n);
+
+    const tx = buildJoinSplitTransaction(
+      [
+        { nullifyingKey, note: noteA, leafIndex: 0 },
+        { nullifyingKey, note: noteB, leafIndex: 1 },
+      ],
+      [payment, change],
+      1000n,
+      999999n
+    );
+
+    expect(tx.inputNullifiers).toEqual([
+      computeNullifier(nullifyingKey, computeCommitment(noteA.owner, noteA.amount, noteA.blinding), 0n),
+      computeNullifier(nullifyingKey, computeCommitment(noteB.owner, noteB.amount, noteB.blinding), 1n),
+    ]);
+    expect(tx.outputCommitments.length).toBe(2);
+    expect(tx.message).toBe(
+      computeTransactionMessage(tx.inputNullifiers, tx.outputCommitments, 1000n, 999999n)
+    );
+  });
+
+  test("rejects unbalanced JoinSplits", () => {
+    const spendingKeyHash = randomScalar();
+    const noteA = createNote(spendingKeyHash, "CFX", 30000n);
+    const noteB = createNote(spendingKeyHash, "CFX", 20000n);
+    const payment = createNote(randomScalar(), "CFX", 50001n);
+
+    expect(() =>
+      buildJoinSplitTransaction(
+        [
+          { nullifyingKey, note: noteA, leafIndex: 0 },
+          { nullifyingKey, note: noteB, leafIndex: 1 },
+        ],
+        [payment],
+        0n,
+        999999n
+      )
+    ).toThrow("Value not conserved");
+  });
+
+  test("rejects spending the same note twice", () => {
+    const spendingKeyHash = randomScalar();
+    const note = createNote(spendingKeyHash, "CFX", 25000n);
+    const payment = createNote(randomScalar(), "CFX", 50000n);
+    const input = { nullifyingKey, note, leafIndex: 0 };
+
+    expect(() => buildJoinSplitTransaction([input, input], [payment], 0n, 999999n)).toThrow(
+      "spent twice"
+    );
+  });
+
+  test("rejects more inputs than the circuit supports", () => {
+    const spendingKeyHash = randomScalar();
+    const inputs = [0, 1, 2].map((leafIndex) => ({
+      nullifyingKey,
+      note: createNote(spendingKeyHash, "CFX", 100n),
+      leafIndex,
+    }));
+
+    expect(() => buildJoinSplitTransaction(inputs, [null], 0n, 999999n, 0x1234n, 300n)).toThrow(
+      "JoinSplit needs 1..2 inputs"
+    );
+  });
+
+  test("commits outputs to the inputs' asset", () => {
+    const token = "0x" + "ab".repeat(20);
+    const spendingKeyHash = randomScalar();
+    const note = createNote(spendingKeyHash, token, 50000n);
+    const payment = createNote(randomScalar(), token, 50000n);
+
+    const tx = buildJoinSplitTransaction([{ nullifyingKey, note, leafIndex: 0 }], [payment], 0n, 999999n);
+
+    expect(tx.asset).toBe(assetId(token));
+    expect(tx.outputCommitments).toEqual([
+      computeCommitment(payment.owner, payment.amount, payment.blinding, assetId(token)),
+    ]);
+  });
+
+  test("rejects mixing assets in one transaction", () => {
+    const spendingKeyHash = randomScalar();
+    const note = createNote(spendingKeyHash, "0x" + "ab".repeat(20), 50000n);
+    const payment = createNote(randomScalar(), "CFX", 50000n);
+
+    expect(() =>
+      buildJoinSplitTransaction([{ nullifyingKey, note, leafIndex: 0 }], [payment], 0n, 999999n)
+    ).toThrow("same asset");
+  });
+});
+
+describe("Circuit Inputs", () => {
+  const groupPubKey = toAffine(scalarMul(G, randomScalar()));
+  const stealthScalar = randomScalar() >> 8n; // Poseidon-sized, like a real stealth scalar
+  const nullifyingKey = deriveNullifyingKey(randomScalar() >> 8n);
+  const spendingKeyHash = computeStealthSpendingKeyHash(
+    groupPubKey, stealthScalar, computeNullifierKeyCommitment(nullifyingKey)
+  );
+  const note = createNote(spendingKeyHash, "CFX", 1000n);
+  const commitment = computeCommitment(note.owner, note.amount, note.blinding);
+  const tree = new MerkleTree(TREE_DEPTH);
+  tree.insert(commitment);
+  const tx = buildTransaction(nullifyingKey, note, 0, null, 0n, 999999n, 0x1234n, 1000n);
+  const signature = { R: groupPubKey, z: 1n }; // Not checked when building inputs
+
+  test("supply the stealth scalar, not the owner, as the witness", () => {
+    const inputs = buildCircuitInputs(
+      signature, groupPubKey, nullifyingKey, stealthScalar, note.amount, note.blinding,
+      tree.generateProof(0), tx, commitment, null
+    );
+    expect(inputs.group_pubkey_x).toBe(`0x${groupPubKey.x.toString(16)}`);
+    expect(inputs.nullifying_key).toBe(`0x${nullifyingKey.toString(16)}`);
+    expect(inputs.stealth_scalar).toEqual([`0x${stealthScalar.toString(16)}`, "0x0"]);
+  });
+
+  test("reject a nullifying key the notes are not bound to", () => {
+    expect(() =>
+      buildCircuitInputs(
+        signature, groupPubKey, nullifyingKey + 1n, stealthScalar, note.amount, note.blinding,
+        tree.generateProof(0), tx, commitment, null
+      )
+    ).toThrow("not owned by the group key");
+  });
+
+  test("reject a note not owned by the group key", () => {
+    const otherKey = toAffine(scalarMul(G, randomScalar()));
+    expect(() =>
+      buildCircuitInputs(
+        signature, otherKey, nullifyingKey, stealthScalar, note.amount, note.blinding,
+        tree.generateProof(0), tx, commitment, null
+      )
+    ).toThrow("not owned by the group key");
+  });
+
+  test("reject a Merkle path index that is not a bit", () => {
+    // The note sits at leaf 1; index 3 keeps its root but names leaf 3,
+    // whose nullifier differs from the one the note was spent under
+    const tree2 = new MerkleTree(TREE_DEPTH);
+    tree2.insert(12345n);
+    tree2.insert(commitment);
+    const proof = tree2.generateProof(1);
+    const forged = { ...proof, pathIndices: [3, ...proof.pathIndices.slice(1)] };
+    const replayTx = buildTransaction(nullifyingKey, note, 3, null, 0n, 999999n, 0x1234n, 1000n);
+    expect(() =>
+      buildCircuitInputs(
+        signature, groupPubKey, nullifyingKey, stealthScalar, note.amount, note.blinding,
+        forged, replayTx, commitment, null
+      )
+    ).toThrow("not a bit");
+  });
+
+  const recipient = createStealthMetaAddress(
+    toAffine(scalarMul(G, randomScalar())), toAffine(scalarMul(G, randomScalar())), 42n
+  );
+  const output = createStealthNote(recipient, "CFX", 1000n);
+  const transferTx = buildTransaction(nullifyingKey, note, 0, output, 0n, 999999n);
+
+  test("publish each output's ciphertext and prove it from the recipient's keys", () => {
+    const inputs = buildCircuitInputs(
+      signature, groupPubKey, nullifyingKey, stealthScalar, note.amount, note.blinding,
+      tree.generateProof(0), transferTx, commitment, output
+    );
+    const hex = (v: bigint) => `0x${v.toString(16)}`;
+    expect(inputs.output_eph_pubkey_x).toEqual([hex(output.ciphertext.ephemeralPublicKey.x), "0x0"]);
+    expect(inputs.output_view_tag).toEqual([hex(output.ciphertext.viewTag), "0x0"]);
+    expect(inputs.output_encrypted_amount).toEqual([hex(output.ciphertext.encryptedAmount), "0x0"]);
+    expect(inputs.output_viewing_pubkey_x[0]).toBe(hex(recipient.viewingPublicKey.x));
+    expect(inputs.output_nk_commitment).toEqual(["0x2a", "0x0"]);
+  });
+
+  test("reject an output whose ciphertext does not open it", () => {
+    const tampered = { ...output, ciphertext: { ...output.ciphertext, encryptedAmount: 1n } };
+    expect(() =>
+      buildCircuitInputs(
+        signature, groupPubKey, nullifyingKey, stealthScalar, note.amount, note.blinding,
+        tree.generateProof(0), transferTx, commitment, tampered
+      )
+    ).toThrow("ciphertext does not open");
+  });
 });
@@ -1,4 +1,4 @@
-import { useReducer, useState, useEffect, useCallback } from "react";
+import { useReducer, useState, useEffect, useCallback, useRef } from "react";
 import { Sidebar } from "./components/Sidebar";
 import { Header } from "./components/Header";
 import { Dashboard } from "./components/Dashboard";
@@ -6,6 +6,7 @@ import { InitKeys } from "./components/InitKeys";
 import { CreatePayment } from "./components/CreatePayment";
 import { ApprovalQueue } from "./components/ApprovalQueue";
 import { AuditExport } from "./components/AuditExport";
+import { KeySettings } from "./components/KeySettings";
 import { PasskeyLogin } from "./components/PasskeyLogin";
 import {
   getStoredShares,
@@ -18,6 +19,8 @@ import {
   getSessionTimeRemaining,
   extendSession,
   getViewingSecretKey,
+  getViewingKeyShare,
+  getCoordinationKey,
   getSession,
 } from "./lib/session";
 import {
@@ -30,24 +33,53 @@ import {
   type KeyCeremonyData,
   type CeremonyTranscriptEntry,
   type GroupConfig,
+  type ViewingShareData,
+  type CurvePoint,
 } from "./store/treasury";
 import { getContractBalance, toBytes32 } from "./lib/chain";
-import { scanBalance, getLocalMerkleTree, type ScannedNote } from "./lib/balanceScanner";
-import { deriveNonces, computePartialSig, aggregateAndProve } from "./lib/frostSigning";
+import { scanBalance, getLocalMerkleTree, type AssetBalance, type ScannedNote, type SentPayment } from "./lib/balanceScanner";
+import {
+  deriveNonces,
+  forgetNonceSeeds,
+  computePartialSig,
+  findInvalidPartialSigs,
+  signNonceCommitment,
+  signPartialSig,
+  authenticateSigningData,
+  aggregateAndProve,
+  signingDataAsset,
+  signingDataToTransaction,
+  signingDataOutputNote,
+} from "./lib/frostSigning";
 import { initHash } from "@blsgun/sdk/hash";
+import { NATIVE_ASSET } from "@blsgun/sdk/transaction";
 import { initProver } from "./lib/prover";
+import { treasuryNullifyingKey } from "./lib/stealthNote";
+import {
+  getCoordinator,
+  getIdentityCoordinator,
+  getViewingPartialsCoordinator,
+  identityTopic,
+  viewingPartialsTopic,
+} from "./lib/coordination";
+import { mergeIdentityRegistration, registerOwnIdentityKey, registeredIdentityKeys } from "./lib/identityRegistry";
+import { mergeViewingPartials, viewingPartialPages, type ViewingPartialsPage } from "./lib/thresholdViewing";
+import type { CoordinationClient } from "@blsgun/sdk/coordination";
 import { useWriteContract, useAccount, useConnect, useSwitchChain } from "wagmi";
+import { zeroAddress } from "viem";
 import { blsGunAbi } from "./lib/abi";
 import { getContractAddress } from "./lib/chain";
+import { getRelayer } from "./lib/relayer";
 import { confluxESpaceTestnet, publicClient } from "./lib/wagmiConfig";
 
-type Tab = "dashboard" | "payment" | "transactions" | "audit";
+type Tab = "dashboard" | "payment" | "transactions" | "audit" | "settings";
 
 const tabTitles: Record<Tab, string> = {
   dashboard: "Home",
   payment: "New Transaction",
   transactions: "Transactions",
   audit: "Audit",
+  settings: "Settings",
 };
 
 export default function App() {
@@ -60,8 +92,13 @@ export default function App() {
   const [sessionTimeRemaining, setSessionTimeRemaining] = useState(0);
   const [isScanning, setIsScanning] = useState(false);
   const [noteCount, setNoteCount] = useState(0);
+  const [lockedNotes, setLockedNotes] = useState(0);
+  // Groups without identity keys: signing is off until every signer has registered one
+  const [identityMigration, setIdentityMigration] = useState<{ registered: number; total: number } | null>(null);
   const [balanceLoaded, setBalanceLoaded] = useState(false);
   const [scannedNotes, setScannedNotes] = useState<ScannedNote[]>([]);
+  const [sentPayments, setSentPayments] = useState<SentPayment[]>([]);
+  const [assetBalances, setAssetBalances] = useState<AssetBalance[]>([]);
 
   const { writeContractAsync } = useWriteContract();
   const { isConnected, chainId } = useAccount();
@@ -100,6 +137,148 @@ export default function App() {
     savePendingPayments(state.pendingPayments);
   }, [state.initialized, state.pendingPayments]);
 
+  // A submitted payment is never signed again: drop its nonce seeds and used nonces
+  useEffect(() => {
+    for (const payment of state.pendingPayments) {
+      if (payment.status === "submitted" || payment.status === "confirmed") forgetNonceSeeds(payment.id);
+    }
+  }, [state.pendingPayments]);
+
+  // Sync pending payments with the other signers' devices (VITE_COORDINATOR_URL)
+  const [coordinator, setCoordinator] = useState<CoordinationClient<PendingPayment> | null>(null);
+  const lastSyncedRef = useRef(new Map<string, string>()); // Payment ID -> JSON last sent or received
+
+  useEffect(() => {
+    if (!state.initialized) return;
+    const identityKeys = state.groupConfig?.identityKeys?.map((p) => ({ x: BigInt(p.x), y: BigInt(p.y) }));
+    const client = getCoordinator(getCoordinationKey(), (payment) => {
+      // Without identity keys nothing relayed can be authenticated, so nothing is taken
+      if (!identityKeys) {
+        console.warn("[coordination] ignoring a relayed payment: the group has no identity keys yet");
+        return;
+      }
+      // Commitments and partials not signed by their signer never enter local state
+      if (payment.signingData) {
+        const { signingData, rejected } = authenticateSigningData(payment.signingData, identityKeys);
+        if (rejected.length > 0) {
+          console.warn("[coordination] dropped unauthenticated messages for signers", rejected);
+          payment = { ...payment, signingData };
+        }
+      }
+      lastSyncedRef.current.set(payment.id, JSON.stringify(payment));
+      dispatch({ type: "MERGE_PAYMENT", payment });
+    });
+    if (!client) return;
+    // A failed first attempt keeps retrying in the background
+    client.connect().catch((err) => console.warn("[coordination] connect failed:", err));
+    setCoordinator(client);
+    return () => {
+      client.close();
+      setCoordinator(null);
+      lastSyncedRef.current.clear();
+    };
+  }, [state.initialized, state.currentSigner, state.groupConfig]);
+
+  useEffect(() => {
+    if (!coordinator) return;
+    for (const payment of state.pendingPayments) {
+      const json = JSON.stringify(payment);
+      if (lastSyncedRef.current.get(payment.id) === json) continue;
+      lastSyncedRef.current.set(payment.id, json);
+      coordinator.publish(payment.id, payment).catch((err) => console.warn("[coordination] publish failed:", err));
+    }
+  }, [coordinator, state.pendingPayments]);
+
+  // One-time migration for groups created without identity keys: register this
+  // signer's, collect the others' (checked against their public shares) and
+  // take them into the group config once every signer's is in
+  useEffect(() => {
+    const gc = state.groupConfig;
+    if (!state.initialized || !gc || gc.identityKeys) {
+      setIdentityMigration(null);
+      return;
+    }
+    const publicShares = gc.publicShares;
+    if (!publicShares) {
+      setIdentityMigration({ registered: 0, total: gc.totalSigners });
+      return;
+    }
+
+    let cancelled = false;
+    const update = () => {
+      if (cancelled) return;
+      const keys = registeredIdentityKeys(publicShares);
+      const registered = keys.filter((k): k is CurvePoint => k !== null);
+      if (registered.length === keys.length) {
+        dispatch({ type: "SET_IDENTITY_KEYS", identityKeys: registered });
+      } else {
+        setIdentityMigration({ registered: registered.length, total: keys.length });
+      }
+    };
+
+    const client = getIdentityCoordinator(getCoordinationKey(), (registration) => {
+      initHash().then(() => {
+        if (!cancelled && mergeIdentityRegistration(registration, publicShares)) update();
+      });
+    });
+    client?.connect().catch((err) => console.warn("[coordination] connect failed:", err));
+    initHash().then(() => {
+      if (cancelled) return;
+      const session = getSession();
+      if (session?.share.secretShare) {
+        const own = registerOwnIdentityKey(session.share);
+        client?.publish(identityTopic(own.signerIndex), own).catch((err) => console.warn("[coordination] publish failed:", err));
+      }
+      update();
+    });
+    return () => {
+      cancelled = true;
+      client?.close();
+    };
+  }, [state.initialized, state.currentSigner, state.groupConfig]);
+
+  // Threshold viewing mode: sync the signers' partial viewing values the same way
+  const viewingCoordinatorRef = useRef<CoordinationClient<ViewingPartialsPage> | null>(null);
+  const publishedPagesRef = useRef(new Map<string, string>()); // Topic -> JSON last sent
+
+  /** This session's signer index and public viewing share, if it holds a viewing key share */
+  const ownViewingShare = useCallback(() => {
+    const session = getSession();
+    const publicShare = session && state.groupConfig?.viewingPublicShares?.[session.share.index - 1];
+    if (!session || !publicShare || !getViewingKeyShare()?.secretShare) return null;
+    return { signerIndex: session.share.index, publicShare };
+  }, [state.groupConfig]);
+
+  useEffect(() => {
+    if (!state.initialized || !state.groupConfig?.viewingPublicShares) return;
+    const ownPublicShare = ownViewingShare()?.publicShare ?? null;
+    const client = getViewingPartialsCoordinator(getCoordinationKey(), (page) =>
+      mergeViewingPartials(page, ownPublicShare)
+    );
+    if (!client) return;
+    client.connect().catch((err) => console.warn("[coordination] connect failed:", err));
+    viewingCoordinatorRef.current = client;
+    return () => {
+      client.close();
+      viewingCoordinatorRef.current = null;
+      publishedPagesRef.current.clear();
+    };
+  }, [state.initialized, state.currentSigner, state.groupConfig, ownViewingShare]);
+
+  /** Publish the pages of this signer's partials that changed since they were last sent */
+  const publishViewingPartials = useCallback(() => {
+    const client = viewingCoordinatorRef.current;
+    const own = ownViewingShare();
+    if (!client || !own) return;
+    viewingPartialPages(own.publicShare).forEach((page, i) => {
+      const topic = viewingPartialsTopic(own.signerIndex, i);
+      const json = JSON.stringify(page);
+      if (publishedPagesRef.current.get(topic) === json) return;
+      publishedPagesRef.current.set(topic, json);
+      client.publish(topic, page).catch((err) => console.warn("[coordination] publish failed:", err));
+    });
+  }, [ownViewingShare]);
+
   const handleLogout = useCallback(() => {
     destroySession();
     dispatch({ type: "LOGOUT" });
@@ -115,7 +294,14 @@ export default function App() {
   }, []);
 
   const handlePasskeyLogin = (payload: EncryptedSharePayload) => {
-    startSession(payload.share, 0, handleLogout, payload.viewingSecretKey ?? "");
+    startSession(
+      payload.share,
+      0,
+      handleLogout,
+      payload.viewingSecretKey ?? "",
+      payload.coordinationKey ?? "",
+      payload.viewingKeyShare ?? null
+    );
 
     dispatch({
       type: "LOGIN_WITH_SHARE",
@@ -140,13 +326,22 @@ export default function App() {
   };
 
   const fetchBalance = useCallback(async () => {
-    const vsk = getViewingSecretKey();
-    if (vsk) {
+    // Threshold viewing mode scans with the scan key and the signers' partials
+    const viewingKeyShare = getViewingKeyShare();
+    const publicShares = state.groupConfig?.viewingPublicShares;
+    const session = getSession();
+    const viewingKey =
+      viewingKeyShare && publicShares && session && state.groupConfig
+        ? { viewingKeyShare, signerIndex: session.share.index, publicShares, threshold: state.groupConfig.threshold }
+        : getViewingSecretKey();
+    if (viewingKey) {
       setIsScanning(true);
       try {
         const gpk = state.keyCeremony?.groupPublicKey;
         const groupPK = gpk ? { x: BigInt(gpk.x), y: BigInt(gpk.y) } : undefined;
-        const result = await scanBalance(vsk, groupPK);
+        const result = await scanBalance(viewingKey, groupPK);
+        setLockedNotes(result.lockedNotes);
+        publishViewingPartials();
         const unspent = result.notes.filter((n) => !n.isSpent);
         if (unspent.length > 0) {
           dispatch({ type: "SET_BALANCE", balance: result.formattedBalance });
@@ -155,6 +350,8 @@ export default function App() {
         }
         setNoteCount(unspent.length);
         setScannedNotes(result.notes);
+        setSentPayments(result.sentPayments);
+        setAssetBalances(result.assetBalances);
       } catch (err) {
         console.warn("[fetchBalance] scan failed:", err);
         dispatch({ type: "SET_BALANCE", balance: "0" });
@@ -166,7 +363,7 @@ export default function App() {
       dispatch({ type: "SET_BALANCE", balance: "0" });
       setBalanceLoaded(true);
     }
-  }, [state.keyCeremony?.groupPublicKey]);
+  }, [state.keyCeremony?.groupPublicKey, state.groupConfig, publishViewingPartials]);
 
   // Poll balance every 30s when initialized
   useEffect(() => {
@@ -187,14 +384,18 @@ export default function App() {
     keyCeremony: KeyCeremonyData,
     transcript: CeremonyTranscriptEntry[],
     groupConfig: GroupConfig,
-    viewingSecretKey?: string
+    viewingSecretKey?: string,
+    coordinationKey?: string,
+    viewingKeyShare?: ViewingShareData
   ) => {
-    if (viewingSecretKey) {
+    if (viewingSecretKey || coordinationKey || viewingKeyShare) {
       startSession(
         { index: 1, role: groupConfig.roles[0], secretShare: "", publicShare: { x: "", y: "" } },
         0,
         handleLogout,
-        viewingSecretKey
+        viewingSecretKey ?? "",
+        coordinationKey ?? "",
+        viewingKeyShare ?? null
       );
     }
     dispatch({ type: "INIT_KEYS", keyCeremony, transcript, groupConfig });
@@ -254,7 +455,24 @@ export default function App() {
       return;
     }
 
-    const sd = payment.signingData;
+    // Refuse to commit to or sign a message that doesn't commit to the displayed effects
+    const { message } = signingDataToTransaction(payment.signingData);
+
+    // Use only commitments and partials signed by the signer they are filed under
+    const identityKeys = state.groupConfig?.identityKeys;
+    if (!identityKeys) {
+      console.warn("[handleSign] refusing to sign: the group has no identity keys yet");
+      return;
+    }
+    const authenticated = authenticateSigningData(
+      payment.signingData,
+      identityKeys.map((p) => ({ x: BigInt(p.x), y: BigInt(p.y) }))
+    );
+    if (authenticated.rejected.length > 0) {
+      console.log("[handleSign] ignoring unauthenticated messages for signers", authenticated.rejected);
+    }
+    const sd = authenticated.signingData;
+
     const signerIndex = session.share.index;
     const signerIndexStr = signerIndex.toString();
     const threshold = payment.requiredSignatures;
@@ -265,27 +483,30 @@ export default function App() {
     const existingNonceCount = Object.keys(sd.nonceCommitments).length;
 
     if (!sd.nonceCommitments[signerIndexStr]) {
+      if (payment.excludedSigners?.includes(signerIndex)) {
+        console.log("[handleSign] signer", signerIndex, "is excluded from this payment");
+        return;
+      }
       if (existingNonceCount >= threshold) {
         console.log("[handleSign] nonce slots full, can't join");
         return;
       }
       console.log("[handleSign] deriving nonces...");
-      const nonce = deriveNonces(session.share.secretShare, payment.id);
-      dispatch({
-        type: "ADD_NONCE_COMMITMENT",
-        paymentId,
-        signerIndex: signerIndexStr,
-        Dx: nonce.D.x.toString(),
-        Dy: nonce.D.y.toString(),
-        Ex: nonce.E.x.toString(),
-        Ey: nonce.E.y.toString(),
-      });
-      sd.nonceCommitments[signerIndexStr] = {
+      const nonce = deriveNonces(session.share.secretShare, payment.id, signerIndex, message);
+      const commitment = {
         Dx: nonce.D.x.toString(),
         Dy: nonce.D.y.toString(),
         Ex: nonce.E.x.toString(),
         Ey: nonce.E.y.toString(),
+        auth: signNonceCommitment(session.share.secretShare, signerIndex, message, nonce),
       };
+      dispatch({
+        type: "ADD_NONCE_COMMITMENT",
+        paymentId,
+        signerIndex: signerIndexStr,
+        ...commitment,
+      });
+      sd.nonceCommitments[signerIndexStr] = commitment;
       console.log("[handleSign] nonce committed");
     } else {
       console.log("[handleSign] nonce already exists for signer", signerIndexStr);
@@ -298,32 +519,32 @@ export default function App() {
       return;
     }
 
-    // 3. Compute partial sig if not yet done
-    if (!sd.partialSignatures[signerIndexStr]) {
-      console.log("[handleSign] computing partial sig...");
-      const participants = Object.keys(sd.nonceCommitments).map(BigInt);
-      const groupPK = {
-        x: BigInt(state.keyCeremony!.groupPublicKey.x),
-        y: BigInt(state.keyCeremony!.groupPublicKey.y),
-      };
+    const participants = Object.keys(sd.nonceCommitments).map(BigInt);
+    const groupPK = {
+      x: BigInt(state.keyCeremony!.groupPublicKey.x),
+      y: BigInt(state.keyCeremony!.groupPublicKey.y),
+    };
 
-      // Build participant ranks map for HTSS mode
-      const groupMode = state.groupConfig?.mode ?? "TSS";
-      const signerRanks = state.groupConfig?.signerRanks;
-      const participantRanks: Record<string, number> = {};
-      if (groupMode === "HTSS" && signerRanks) {
-        for (const pIdx of participants) {
-          const arrayIdx = Number(pIdx) - 1; // signer index is 1-based
-          participantRanks[pIdx.toString()] = signerRanks[arrayIdx] ?? 0;
-        }
+    // Build participant ranks map for HTSS mode
+    const groupMode = state.groupConfig?.mode ?? "TSS";
+    const signerRanks = state.groupConfig?.signerRanks;
+    const participantRanks: Record<string, number> = {};
+    if (groupMode === "HTSS" && signerRanks) {
+      for (const pIdx of participants) {
+        const arrayIdx = Number(pIdx) - 1; // signer index is 1-based
+        participantRanks[pIdx.toString()] = signerRanks[arrayIdx] ?? 0;
       }
+    }
 
+    // 3. Compute partial sig if not yet done
+    if (!sd.partialSignatures[signerIndexStr]) {
+      console.log("[handleSign] computing partial sig...");
       const result = computePartialSig({
         signerIndex,
         secretShareHex: session.share.secretShare,
         stealthScalar: BigInt(sd.inputStealthScalar),
         paymentId: payment.id,
-        message: BigInt(sd.message),
+        message,
         allNonceCommitments: sd.nonceCommitments,
         participants,
         groupPubKey: groupPK,
@@ -333,19 +554,19 @@ export default function App() {
         participantRanks: groupMode === "HTSS" ? participantRanks : undefined,
       });
 
+      const partialSig = {
+        z_i: result.z_i.toString(),
+        Rx: result.R.x.toString(),
+        Ry: result.R.y.toString(),
+        auth: signPartialSig(session.share.secretShare, signerIndex, message, result),
+      };
       dispatch({
         type: "ADD_PARTIAL_SIG",
         paymentId,
         signerIndex: signerIndexStr,
-        z_i: result.z_i.toString(),
-        Rx: result.R.x.toString(),
-        Ry: result.R.y.toString(),
+        ...partialSig,
       });
-      sd.partialSignatures[signerIndexStr] = {
-        z_i: result.z_i.toString(),
-        Rx: result.R.x.toString(),
-        Ry: result.R.y.toString(),
-      };
+      sd.partialSignatures[signerIndexStr] = partialSig;
       console.log("[handleSign] partial sig computed");
     } else {
       console.log("[handleSign] partial sig already exists for signer", signerIndexStr);
@@ -358,9 +579,32 @@ export default function App() {
       return;
     }
 
+    // 5. Verify each partial against its signer's public share; a bad one excludes its signer
+    const publicShares = state.groupConfig?.publicShares;
+    if (publicShares) {
+      const culprits = findInvalidPartialSigs({
+        stealthScalar: BigInt(sd.inputStealthScalar),
+        message,
+        allNonceCommitments: sd.nonceCommitments,
+        partialSigs: sd.partialSignatures,
+        groupPubKey: groupPK,
+        publicShares: publicShares.map((p) => ({ x: BigInt(p.x), y: BigInt(p.y) })),
+        mode: groupMode,
+        participantRanks: groupMode === "HTSS" ? participantRanks : undefined,
+      });
+      if (culprits.length > 0) {
+        console.log("[handleSign] invalid partial sigs from signers", culprits);
+        forgetNonceSeeds(paymentId);
+        dispatch({ type: "EXCLUDE_SIGNERS", paymentId, signerIndices: culprits });
+        return;
+      }
+    } else {
+      console.log("[handleSign] group has no public shares, skipping partial sig verification");
+    }
+
     console.log("[handleSign] all sigs ready, starting aggregate + prove + submit");
 
-    // 5. All sigs collected — aggregate + prove + submit
+    // 6. All sigs collected — aggregate + prove + submit
     // Helper: dispatch + yield to event loop so React can repaint before heavy WASM work
     const updateStep = async (step: "aggregating" | "proving" | "submitting" | "confirming") => {
       console.log(`[handleSign] step -> ${step}`);
@@ -376,24 +620,25 @@ export default function App() {
       const merkleTree = getLocalMerkleTree();
       if (!merkleTree) throw new Error("Merkle tree not available — refresh balance first");
 
-      const groupPK = {
-        x: BigInt(state.keyCeremony!.groupPublicKey.x),
-        y: BigInt(state.keyCeremony!.groupPublicKey.y),
-      };
-
       console.log("[handleSign] calling aggregateAndProve...");
       const t0 = performance.now();
+      // Pin the proof to this tree's root: the contract accepts any recent root,
+      // so deposits landing while we prove do not invalidate it
+      const merkleRoot = merkleTree.root;
+
       const { proofHex, nullifier } = await aggregateAndProve({
         partialSigs: sd.partialSignatures,
-        message: BigInt(sd.message),
+        transaction: signingDataToTransaction(sd),
+        outputNote: signingDataOutputNote(sd),
         groupPubKey: groupPK,
         stealthScalar: BigInt(sd.inputStealthScalar),
-        spendingKeyHash: BigInt(sd.inputSpendingKeyHash),
+        nullifyingKey: treasuryNullifyingKey(),
         noteAmount: BigInt(sd.inputAmount),
         noteBlinding: BigInt(sd.inputBlinding),
         leafIndex: sd.inputLeafIndex,
         inputCommitment: BigInt(sd.inputCommitment),
         merkleTree,
+        merkleRoot,
         threshold,
         onProgress: async (step) => {
           await updateStep(step);
@@ -401,43 +646,71 @@ export default function App() {
       });
       console.log(`[handleSign] proof generated in ${((performance.now() - t0) / 1000).toFixed(1)}s, proofHex length=${proofHex.length}`);
 
-      // 6. Submit on-chain
+      // 7. Submit on-chain: through the relayer the proof names, else from this wallet
       await updateStep("submitting");
-      await ensureWalletConnected();
+      const relayerClient = sd.relayer ? getRelayer() : null;
+      if (sd.relayer && !relayerClient) {
+        throw new Error("Payment must be submitted by a relayer, but VITE_RELAYER_URL is not set");
+      }
+      if (!relayerClient) await ensureWalletConnected();
       const contractAddress = getContractAddress() as `0x${string}`;
-      console.log("[handleSign] submitting tx to", contractAddress, "type=", payment.txType);
+      const relay = { fee: BigInt(sd.fee), relayer: (sd.relayer ?? zeroAddress) as `0x${string}` };
+      const asset = signingDataAsset(sd);
+      const token = (asset === NATIVE_ASSET ? zeroAddress : asset) as `0x${string}`;
+      console.log("[handleSign] submitting tx to", contractAddress, "type=", payment.txType, "relayed=", !!relayerClient);
 
       let txHash: `0x${string}`;
 
       if (payment.txType === "withdraw") {
-        txHash = await writeContractAsync({
-          address: contractAddress,
-          abi: blsGunAbi,
-          functionName: "unshield",
-          args: [
-            toBytes32(nullifier),
-            sd.inputCommitment as `0x${string}`,
-            sd.withdrawRecipient as `0x${string}`,
-            BigInt(sd.withdrawAmountWei!),
-            proofHex as `0x${string}`,
-          ],
-        });
+        const args = [
+          toBytes32(nullifier),
+          sd.inputCommitment as `0x${string}`,
+          toBytes32(merkleRoot),
+          sd.withdrawRecipient as `0x${string}`,
+          BigInt(sd.withdrawAmountWei!),
+          toBytes32(BigInt(sd.outputCommitment ?? "0")),
+          relay,
+          BigInt(sd.deadline),
+          proofHex as `0x${string}`,
+          {
+            ephPubKeyX: toBytes32(BigInt(sd.outputEphPubKeyX ?? "0")),
+            ephPubKeyY: toBytes32(BigInt(sd.outputEphPubKeyY ?? "0")),
+            viewTag: sd.outputViewTag ?? 0,
+            encryptedAmount: BigInt(sd.outputEncryptedAmount ?? "0"),
+            encryptedNote: (sd.outputEncryptedNote ?? "0x") as `0x${string}`,
+          },
+        ] as const;
+        if (token === zeroAddress) {
+          txHash = relayerClient
+            ? ((await relayerClient.submit({ functionName: "unshield", args })) as `0x${string}`)
+            : await writeContractAsync({ address: contractAddress, abi: blsGunAbi, functionName: "unshield", args });
+        } else {
+          const erc20Args = [token, ...args] as const;
+          txHash = relayerClient
+            ? ((await relayerClient.submit({ functionName: "unshieldERC20", args: erc20Args })) as `0x${string}`)
+            : await writeContractAsync({ address: contractAddress, abi: blsGunAbi, functionName: "unshieldERC20", args: erc20Args });
+        }
       } else {
-        txHash = await writeContractAsync({
-          address: contractAddress,
-          abi: blsGunAbi,
-          functionName: "privateTransfer",
-          args: [
-            toBytes32(nullifier),
-            sd.inputCommitment as `0x${string}`,
-            toBytes32(BigInt(sd.outputCommitment!)),
-            proofHex as `0x${string}`,
-            toBytes32(BigInt(sd.outputEphPubKeyX!)),
-            toBytes32(BigInt(sd.outputEphPubKeyY!)),
-            sd.outputViewTag!,
-            BigInt(sd.outputEncryptedAmount!),
-          ],
-        });
+        const args = [
+          toBytes32(nullifier),
+          sd.inputCommitment as `0x${string}`,
+          toBytes32(merkleRoot),
+          toBytes32(BigInt(sd.outputCommitment!)),
+          relay,
+          BigInt(sd.deadline),
+          proofHex as `0x${string}`,
+          {
+            ephPubKeyX: toBytes32(BigInt(sd.outputEphPubKeyX!)),
+            ephPubKeyY: toBytes32(BigInt(sd.outputEphPubKeyY!)),
+            viewTag: sd.outputViewTag!,
+            encryptedAmount: BigInt(sd.outputEncryptedAmount!),
+            encryptedNote: (sd.outputEncryptedNote ?? "0x") as `0x${string}`,
+          },
+          token,
+        ] as const;
+        txHash = relayerClient
+          ? ((await relayerClient.submit({ functionName: "privateTransfer", args })) as `0x${string}`)
+          : await writeContractAsync({ address: contractAddress, abi: blsGunAbi, functionName: "privateTransfer", args });
       }
 
       console.log("[handleSign] tx sent, hash=", txHash);
@@ -468,6 +741,7 @@ export default function App() {
         // Signatures are invalid (likely computed with wrong challenge).
         // Reset all sigs so signers can re-sign with corrected code.
         console.log("[handleSign] resetting signatures for re-signing");
+        forgetNonceSeeds(paymentId);
         dispatch({ type: "RESET_SIGNATURES", paymentId });
         dispatch({
           type: "ADD_ACTIVITY",
@@ -590,6 +864,13 @@ export default function App() {
         />
 
         <main className="flex-1 overflow-auto p-6 bg-dark-bg">
+          {identityMigration && (
+            <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl text-base text-amber-400">
+              {state.groupConfig?.publicShares
+                ? `Signing is paused until every signer has registered its identity key (${identityMigration.registered} of ${identityMigration.total}). Each signer registers by logging in once.`
+                : "Signing is paused: this group has no identity keys. Refresh all shares in Settings to register them."}
+            </div>
+          )}
           {tab === "dashboard" && (
             <Dashboard
               state={state}
@@ -597,10 +878,11 @@ export default function App() {
               pendingPayments={pendingPayments}
               isScanning={isScanning}
               noteCount={noteCount}
+              lockedNotes={lockedNotes}
+              assetBalances={assetBalances}
               balanceLoaded={balanceLoaded}
               onRefresh={fetchBalance}
               groupPublicKey={state.keyCeremony?.groupPublicKey ?? null}
-              viewingPublicKey={state.keyCeremony?.viewingPublicKey ?? null}
               onDeposited={() => {
                 fetchBalance();
                 dispatch({
@@ -627,6 +909,7 @@ export default function App() {
               groupConfig={state.groupConfig}
               balance={state.balance}
               notes={scannedNotes}
+              assetBalances={assetBalances}
               groupPublicKey={state.keyCeremony?.groupPublicKey}
             />
           )}
@@ -640,7 +923,9 @@ export default function App() {
             />
           )}
 
-          {tab === "audit" && <AuditExport state={state} notes={scannedNotes} />}
+          {tab === "audit" && <AuditExport state={state} notes={scannedNotes} sentPayments={sentPayments} />}
+
+          {tab === "settings" && <KeySettings state={state} onSharesRefreshed={handleLogout} />}
         </main>
       </div>
     </div>
@@ -49,8 +49,14 @@ export function ApprovalQueue({ payments, currentSigner, onSign, groupConfig }:
         const allSigsReady = partialSigCount >= threshold;
         const isSigning = signingPayment === payment.id;
 
+        // Signers whose partial signature failed verification can't rejoin this payment
+        const excludedSigners = payment.excludedSigners ?? [];
+        const isExcluded = excludedSigners.includes(Number(mySignerIndex));
+        const excludedRoles = excludedSigners.map((idx) => groupConfig?.roles?.[idx - 1] ?? `Signer ${idx}`);
+        const eligibleCount = (groupConfig?.totalSigners ?? threshold) - excludedSigners.length;
+
         // Once threshold nonces are collected, only those signers can sign
-        const isParticipant = hasMyNonce || !noncesLocked;
+        const isParticipant = !isExcluded && (hasMyNonce || !noncesLocked);
         const lockedOut = noncesLocked && !hasMyNonce;
 
         // Derive who actually signed from partialSignatures keys → role names
@@ -84,6 +90,9 @@ export function ApprovalQueue({ payments, currentSigner, onSign, groupConfig }:
         } else if (hasMyPartialSig) {
           statusLabel = `${partialSigCount}/${threshold} signed`;
           statusStyle = "bg-blue-500/15 text-blue-400";
+        } else if (isExcluded) {
+          statusLabel = "Excluded";
+          statusStyle = "bg-red-500/15 text-red-400";
         } else if (lockedOut) {
           statusLabel = "Not in signing group";
           statusStyle = "bg-slate-500/15 text-slate-400";
@@ -100,7 +109,7 @@ export function ApprovalQueue({ payments, currentSigner, onSign, groupConfig }:
             <div className="flex items-start justify-between mb-4">
               <div>
                 <div className="flex items-center gap-2">
-                  <p className="text-lg font-semibold text-white">{payment.amount} CFX</p>
+                  <p className="text-lg font-semibold text-white">{payment.amount} {payment.symbol ?? "CFX"}</p>
                   {payment.txType && (
                     <span className={`text-xs px-2 py-0.5 rounded ${
                       payment.txType === "withdraw"
@@ -164,6 +173,21 @@ export function ApprovalQueue({ payments, currentSigner, onSign, groupConfig }:
               </div>
             </div>
 
+            {excludedRoles.length > 0 && (
+              <div className="mb-4 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+                <p className="text-sm text-red-400">
+                  Invalid partial signature from {excludedRoles.join(", ")}. Excluded from this payment; the
+                  other signers must sign again.
+                </p>
+                {eligibleCount < threshold && (
+                  <p className="text-sm text-red-400 mt-1">
+                    Only {eligibleCount} eligible signer{eligibleCount === 1 ? "" : "s"} left: this payment can no
+                    longer reach {threshold} signatures.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Actions */}
             {payment.status === "pending" && !hasMyPartialSig && !allSigsReady && isParticipant && (
               <button
@@ -1,22 +1,65 @@
 import { useState } from "react";
 import { formatEther } from "viem";
 import type { TreasuryState } from "../store/treasury";
-import type { ScannedNote } from "../lib/balanceScanner";
+import type { ScannedNote, SentPayment } from "../lib/balanceScanner";
+import { NATIVE_ASSET } from "@blsgun/sdk/transaction";
+import { formatViewingKeyEpoch } from "@blsgun/sdk/stealth";
+import { initHash } from "@blsgun/sdk/hash";
+import { currentViewingKeyEpoch, isThresholdViewing, treasuryAuditorCredential } from "../lib/stealthNote";
 
 interface AuditExportProps {
   state: TreasuryState;
   notes: ScannedNote[];
+  sentPayments: SentPayment[];
 }
 
-export function AuditExport({ state, notes }: AuditExportProps) {
+/** Download `contents` as a JSON file */
+function downloadJSON(contents: string, filename: string) {
+  const blob = new Blob([contents], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatAmount(asset: string, amount: bigint): string {
+  return asset === NATIVE_ASSET
+    ? `${formatEther(amount)} CFX`
+    : `${amount} (${asset.slice(0, 6)}...${asset.slice(-4)})`;
+}
+
+export function AuditExport({ state, notes, sentPayments }: AuditExportProps) {
   const [exported, setExported] = useState(false);
-  const [tab, setTab] = useState<"notes" | "history">("notes");
+  const [tab, setTab] = useState<"notes" | "sent" | "history">("notes");
+
+  // Auditor credentials cover a range of quarters: the last two years up to a year ahead
+  const currentEpoch = currentViewingKeyEpoch();
+  const epochOptions = Array.from({ length: 12 }, (_, i) => currentEpoch - 7 + i);
+  const [fromEpoch, setFromEpoch] = useState(currentEpoch);
+  const [toEpoch, setToEpoch] = useState(currentEpoch);
+  const [credentialError, setCredentialError] = useState<string | null>(null);
 
+  const handleIssueCredential = async () => {
+    setCredentialError(null);
+    try {
+      await initHash();
+      downloadJSON(
+        treasuryAuditorCredential(fromEpoch, toEpoch),
+        `pavv-auditor-${formatViewingKeyEpoch(fromEpoch)}-to-${formatViewingKeyEpoch(toEpoch)}.json`
+      );
+    } catch (err) {
+      setCredentialError(err instanceof Error ? err.message : "Cannot issue the auditor credential");
+    }
+  };
+
+  // CFX totals; token notes are listed individually with their token address
   const totalBalance = notes
-    .filter((n) => !n.isSpent && n.amount > 0n)
+    .filter((n) => !n.isSpent && n.amount > 0n && n.asset === NATIVE_ASSET)
     .reduce((sum, n) => sum + n.amount, 0n);
   const totalDeposited = notes
-    .filter((n) => n.type === "shield")
+    .filter((n) => n.type === "shield" && n.asset === NATIVE_ASSET)
     .reduce((sum, n) => sum + n.amount, 0n);
   const spentCount = notes.filter((n) => n.isSpent).length;
   const unspentCount = notes.filter((n) => !n.isSpent).length;
@@ -37,12 +80,23 @@ export function AuditExport({ state, notes }: AuditExportProps) {
       },
       notes: notes.map((n) => ({
         commitment: n.commitment,
-        amount: formatEther(n.amount) + " CFX",
+        asset: n.asset,
+        amount: n.asset === NATIVE_ASSET ? formatEther(n.amount) + " CFX" : n.amount.toString(),
         type: n.type,
         isSpent: n.isSpent,
         leafIndex: n.leafIndex,
         blockNumber: n.blockNumber,
         txHash: n.txHash,
+        ...(n.memo && { memo: n.memo }),
+      })),
+      sentPayments: sentPayments.map((p) => ({
+        commitment: p.commitment,
+        asset: p.asset,
+        amount: p.asset === NATIVE_ASSET ? formatEther(p.amount) + " CFX" : p.amount.toString(),
+        recipient: p.recipient,
+        blockNumber: p.blockNumber,
+        txHash: p.txHash,
+        ...(p.memo && { memo: p.memo }),
       })),
       transactions: completedPayments.map((p) => ({
         amount: p.amount + " CFX",
@@ -54,13 +108,7 @@ export function AuditExport({ state, notes }: AuditExportProps) {
       })),
     };
 
-    const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `pavv-audit-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadJSON(JSON.stringify(report, null, 2), `pavv-audit-${Date.now()}.json`);
     setExported(true);
     setTimeout(() => setExported(false), 3000);
   };
@@ -116,6 +164,56 @@ export function AuditExport({ state, notes }: AuditExportProps) {
         </div>
       </div>
 
+      {/* Auditor credential */}
+      <div className="bg-dark-card rounded-xl border border-dark-border p-4 mb-6">
+        <p className="text-sm font-medium text-white mb-1">Auditor credential</p>
+        {isThresholdViewing() ? (
+          <p className="text-xs text-slate-400">
+            The viewing key is shared between the signers, so there are no keys to hand out. Use the
+            JSON export instead: it covers the notes the signers opened together.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-slate-400 mb-3">
+              Viewing keys for the chosen quarters only. The auditor sees payments received and sent in
+              those quarters, and nothing before or after.
+            </p>
+            <div className="flex items-center gap-2">
+              <select
+                value={fromEpoch}
+                onChange={(e) => {
+                  const epoch = Number(e.target.value);
+                  setFromEpoch(epoch);
+                  setToEpoch((to) => Math.max(to, epoch));
+                }}
+                className="bg-dark-surface border border-dark-border rounded-lg px-3 py-2 text-sm text-white"
+              >
+                {epochOptions.map((epoch) => (
+                  <option key={epoch} value={epoch}>{formatViewingKeyEpoch(epoch)}</option>
+                ))}
+              </select>
+              <span className="text-sm text-slate-400">to</span>
+              <select
+                value={toEpoch}
+                onChange={(e) => setToEpoch(Number(e.target.value))}
+                className="bg-dark-surface border border-dark-border rounded-lg px-3 py-2 text-sm text-white"
+              >
+                {epochOptions.filter((epoch) => epoch >= fromEpoch).map((epoch) => (
+                  <option key={epoch} value={epoch}>{formatViewingKeyEpoch(epoch)}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleIssueCredential}
+                className="ml-auto px-4 py-2 rounded-lg text-sm font-medium bg-pavv-600 text-white hover:bg-pavv-500 transition-colors duration-200 cursor-pointer"
+              >
+                Issue credential
+              </button>
+            </div>
+            {credentialError && <p className="text-xs text-red-400 mt-2">{credentialError}</p>}
+          </>
+        )}
+      </div>
+
       {/* Tab toggle */}
       <div className="flex gap-1 bg-dark-card rounded-lg p-1 border border-dark-border mb-4">
         <button
@@ -126,6 +224,14 @@ export function AuditExport({ state, notes }: AuditExportProps) {
         >
           On-chain Notes ({notes.length})
         </button>
+        <button
+          onClick={() => setTab("sent")}
+          className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors cursor-pointer ${
+            tab === "sent" ? "bg-pavv-500/20 text-pavv-400" : "text-slate-400 hover:text-white"
+          }`}
+        >
+          Payments Sent ({sentPayments.length})
+        </button>
         <button
           onClick={() => setTab("history")}
           className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors cursor-pointer ${
@@ -169,12 +275,11 @@ export function AuditExport({ state, notes }: AuditExportProps) {
                         )}
                       </div>
                       <div>
-                        <p className="text-base font-semibold text-white">
-                          {formatEther(note.amount)} CFX
-                        </p>
+                        <p className="text-base font-semibold text-white">{formatAmount(note.asset, note.amount)}</p>
                         <p className="text-xs text-slate-500">
-                          {note.type === "shield" ? "Deposit" : "Transfer"} at block {note.blockNumber}
+                          {note.type === "shield" ? "Deposit" : note.type === "change" ? "Withdrawal change" : "Transfer"} at block {note.blockNumber}
                         </p>
+                        {note.memo && <p className="text-xs text-slate-400">{note.memo}</p>}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -211,6 +316,45 @@ export function AuditExport({ state, notes }: AuditExportProps) {
         </>
       )}
 
+      {/* Sent tab: outputs recovered with the outgoing viewing key */}
+      {tab === "sent" && (
+        <>
+          {sentPayments.length === 0 ? (
+            <div className="bg-dark-card rounded-xl border border-dark-border p-8 text-center">
+              <p className="text-slate-400">No payments sent from this treasury found on-chain</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sentPayments.map((payment) => (
+                <div
+                  key={payment.commitment}
+                  className="bg-dark-card rounded-xl border border-dark-border p-4"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <p className="text-base font-semibold text-white">{formatAmount(payment.asset, payment.amount)}</p>
+                      <p className="text-xs text-slate-500 font-mono truncate max-w-[420px]" title={payment.recipient}>
+                        To {payment.recipient.slice(0, 14)}...{payment.recipient.slice(-8)}
+                      </p>
+                      {payment.memo && <p className="text-xs text-slate-400">{payment.memo}</p>}
+                    </div>
+                    <span className="text-xs text-slate-500">Block {payment.blockNumber}</span>
+                  </div>
+                  <a
+                    href={`https://evmtestnet.confluxscan.org/tx/${payment.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-pavv-400 hover:underline"
+                  >
+                    View tx
+                  </a>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
       {/* History tab */}
       {tab === "history" && (
         <>
@@ -282,7 +426,7 @@ export function AuditExport({ state, notes }: AuditExportProps) {
         <svg className="w-4 h-4 text-pavv-400 shrink-0" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
         </svg>
-        <span>Decrypted via viewing key. On-chain data remains private (stealth addresses + ZK proofs).</span>
+        <span>Decrypted via the viewing key (received notes) and outgoing viewing key (payments sent). On-chain data remains private (stealth addresses + ZK proofs).</span>
       </div>
     </div>
   );
@@ -1,34 +1,32 @@
 import { useState } from "react";
-import type { PendingPayment, SignerRole, GroupConfig, CurvePoint } from "../store/treasury";
-import type { ScannedNote } from "../lib/balanceScanner";
-import { initHash, poseidon2Hash2 } from "@blsgun/sdk/hash";
-import { generateStealthAddress } from "@blsgun/sdk/stealth";
-import { computeCommitment, computeNullifier } from "@blsgun/sdk/transaction";
-import { scalarMul, pointAdd, toAffine, fromAffine, G, Fp, GRUMPKIN_BASE_FIELD_ORDER } from "@blsgun/sdk/grumpkin";
-import { parseEther, formatEther } from "viem";
-import { deriveNonces } from "../lib/frostSigning";
+import type { PendingPayment, SignerRole, GroupConfig, CurvePoint, SigningData } from "../store/treasury";
+import type { AssetBalance, ScannedNote } from "../lib/balanceScanner";
+import { initHash } from "@blsgun/sdk/hash";
+import { NATIVE_ASSET, assetId, computeTransactionMessage } from "@blsgun/sdk/transaction";
+import {
+  computeNullifierKeyCommitment,
+  computeStealthPublicKey,
+  computeStealthSpendingKeyHash,
+} from "@blsgun/sdk/stealth";
+import { parseUnits, formatUnits } from "viem";
+import { deriveNonces, signNonceCommitment, paymentDeadline } from "../lib/frostSigning";
+import { paymentFeeTerms } from "../lib/relayer";
+import {
+  createStealthOutput,
+  decodeMetaAddress,
+  encodeMetaAddress,
+  treasuryNullifyingKey,
+  treasuryOutgoingViewingKey,
+} from "../lib/stealthNote";
 import { getSession } from "../lib/session";
 
-const BLINDING_DOMAIN = 0x426c696e64696e67n;
-const GRUMPKIN_B = GRUMPKIN_BASE_FIELD_ORDER - 17n;
-
-/** Decompress a Grumpkin point from x + y-is-odd flag */
-function decompressPoint(x: bigint, yOdd: boolean): { x: bigint; y: bigint } {
-  // y² = x³ - 17 (mod p)
-  const y2 = Fp.add(Fp.pow(x, 3n), GRUMPKIN_B);
-  let y = Fp.sqrt(y2);
-  if (y === undefined) throw new Error("Invalid point: not on curve");
-  // Pick the y with matching parity
-  if ((y % 2n === 1n) !== yOdd) y = Fp.neg(y);
-  return { x, y };
-}
-
 interface CreatePaymentProps {
   currentSigner: SignerRole;
   onCreatePayment: (payment: PendingPayment) => void;
   groupConfig: GroupConfig | null;
   balance?: string;
   notes?: ScannedNote[];
+  assetBalances?: AssetBalance[];
   groupPublicKey?: CurvePoint | null;
 }
 
@@ -38,6 +36,7 @@ export function CreatePayment({
   groupConfig,
   balance,
   notes,
+  assetBalances,
   groupPublicKey,
 }: CreatePaymentProps) {
   const thresholdValue = groupConfig?.threshold ?? 2;
@@ -45,11 +44,23 @@ export function CreatePayment({
   const [recipient, setRecipient] = useState("");
   const [amount, setAmount] = useState("");
   const [memo, setMemo] = useState("");
+  const [asset, setAsset] = useState(NATIVE_ASSET);
   const [selectedNoteIdx, setSelectedNoteIdx] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
-  const unspentNotes = (notes ?? []).filter((n) => !n.isSpent && n.amount > 0n);
+  // A payment spends and creates notes of one asset; its amount and fee are in that asset
+  const heldAssets = [NATIVE_ASSET, ...(assetBalances ?? []).filter((b) => b.asset !== NATIVE_ASSET && b.balance > 0n).map((b) => b.asset)];
+  const unit = assetBalances?.find((b) => b.asset === asset);
+  const symbol = unit?.symbol ?? NATIVE_ASSET;
+  const decimals = unit?.decimals ?? 18;
+  const available = asset === NATIVE_ASSET ? balance : unit?.formatted;
+  const unspentNotes = (notes ?? []).filter((n) => !n.isSpent && n.amount > 0n && n.asset === asset);
+
+  const selectAsset = (next: string) => {
+    setAsset(next);
+    setSelectedNoteIdx(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,79 +71,59 @@ export function CreatePayment({
     try {
       await initHash();
 
-      // 1. Select note to spend
+      // 1. Select note to spend. A transfer has a single output, so the
+      // circuit requires it to carry the whole note value minus the fee.
+      const amountWei = parseUnits(amount, decimals);
+      const { fee, relayer } = await paymentFeeTerms(asset);
       let noteToSpend: ScannedNote;
       if (selectedNoteIdx !== null) {
         noteToSpend = unspentNotes[selectedNoteIdx];
+        if (noteToSpend.amount !== amountWei + fee) {
+          throw new Error(
+            fee > 0n
+              ? `Transfers spend the whole note. Enter the selected note's amount minus the ${formatUnits(fee, decimals)} ${symbol} relayer fee.`
+              : "Transfers spend the whole note. Enter the selected note's exact amount."
+          );
+        }
       } else {
-        // Auto-select smallest note that covers the amount
-        const amountWei = parseEther(amount);
-        const suitable = unspentNotes
-          .filter((n) => n.amount >= amountWei)
-          .sort((a, b) => (a.amount < b.amount ? -1 : 1));
-        if (suitable.length === 0) {
-          throw new Error("No note with sufficient balance");
+        const exact = unspentNotes.find((n) => n.amount === amountWei + fee);
+        if (!exact) {
+          throw new Error(
+            fee > 0n
+              ? `No note with exactly this amount plus the ${formatUnits(fee, decimals)} ${symbol} relayer fee`
+              : "No note with exactly this amount"
+          );
         }
-        noteToSpend = suitable[0];
+        noteToSpend = exact;
       }
 
       // 2. Parse recipient stealth meta-address
-      let recipientMeta: { spendingPublicKey: { x: bigint; y: bigint }; viewingPublicKey: { x: bigint; y: bigint } };
-      const trimmed = recipient.trim();
-      if (trimmed.startsWith("0x") && trimmed.length === 132) {
-        // Compressed: 0x + flags(2) + spendX(64) + viewX(64)
-        const hex = trimmed.slice(2);
-        const flags = parseInt(hex.slice(0, 2), 16);
-        const spendX = BigInt("0x" + hex.slice(2, 66));
-        const viewX = BigInt("0x" + hex.slice(66, 130));
-        recipientMeta = {
-          spendingPublicKey: decompressPoint(spendX, (flags & 1) === 1),
-          viewingPublicKey: decompressPoint(viewX, (flags & 2) === 2),
-        };
-      } else if (trimmed.startsWith("0x") && trimmed.length === 258) {
-        // Uncompressed: 0x + spendX(64) + spendY(64) + viewX(64) + viewY(64)
-        const hex = trimmed.slice(2);
-        recipientMeta = {
-          spendingPublicKey: { x: BigInt("0x" + hex.slice(0, 64)), y: BigInt("0x" + hex.slice(64, 128)) },
-          viewingPublicKey: { x: BigInt("0x" + hex.slice(128, 192)), y: BigInt("0x" + hex.slice(192, 256)) },
-        };
-      } else {
-        try {
-          const parsed = JSON.parse(trimmed);
-          recipientMeta = {
-            spendingPublicKey: { x: BigInt(parsed.spendingPublicKey.x), y: BigInt(parsed.spendingPublicKey.y) },
-            viewingPublicKey: { x: BigInt(parsed.viewingPublicKey.x), y: BigInt(parsed.viewingPublicKey.y) },
-          };
-        } catch {
-          throw new Error("Invalid address. Paste the 0x... stealth address from the recipient.");
-        }
-      }
+      const recipientMeta = decodeMetaAddress(recipient);
 
-      // 3. Generate stealth address for recipient
-      const stealth = generateStealthAddress(recipientMeta);
-      const outputOwnerHash = poseidon2Hash2(stealth.address.x, stealth.address.y);
-      const amountWei = parseEther(amount);
-      const outputBlinding = poseidon2Hash2(stealth.stealthScalar, BLINDING_DOMAIN);
-      const outputCommitment = computeCommitment(outputOwnerHash, amountWei, outputBlinding);
+      // 3-4. Generate stealth output note for recipient (commitment + encrypted amount)
+      const output = createStealthOutput(recipientMeta, asset, amountWei, memo, treasuryOutgoingViewingKey());
+      const outputCommitment = output.commitment;
 
-      // 4. Compute encrypted amount for output
-      const MASK_128 = (1n << 128n) - 1n;
-      const encryptedAmount = (amountWei ^ (stealth.stealthScalar & MASK_128)) & MASK_128;
-      const viewTag = Number(stealth.viewTag & 0xFFn);
+      // 5. Compute input note's stealth public key and owner field (bound to the treasury's NK)
+      const groupPK = { x: BigInt(groupPublicKey!.x), y: BigInt(groupPublicKey!.y) };
+      const stealthPubKey = computeStealthPublicKey(groupPK, noteToSpend.stealthScalar);
+      const nkCommitment = computeNullifierKeyCommitment(treasuryNullifyingKey());
+      const spendingKeyHash = computeStealthSpendingKeyHash(groupPK, noteToSpend.stealthScalar, nkCommitment);
 
-      // 5. Compute input note's stealth public key for spendingKeyHash
-      const stealthPubKey = toAffine(
-        pointAdd(
-          scalarMul(G, noteToSpend.stealthScalar),
-          fromAffine({ x: BigInt(groupPublicKey!.x), y: BigInt(groupPublicKey!.y) })
-        )
+      // 6. Nullifier (derived by the scan from the nullifying key) and message
+      //    (binds the output commitment, fee, relayer and deadline)
+      const nullifier = BigInt(noteToSpend.nullifier);
+      const deadline = paymentDeadline();
+      const message = computeTransactionMessage(
+        [nullifier],
+        [outputCommitment],
+        fee,
+        deadline,
+        0n,
+        0n,
+        assetId(asset),
+        BigInt(relayer)
       );
-      const spendingKeyHash = poseidon2Hash2(stealthPubKey.x, stealthPubKey.y);
-
-      // 6. Compute nullifier and message (must match circuit: message = hash_2(nullifier, commitment))
-      const nullifier = computeNullifier(spendingKeyHash, BigInt(noteToSpend.leafIndex));
-      const inputCommitmentBigint = BigInt(noteToSpend.commitment);
-      const message = poseidon2Hash2(nullifier, inputCommitmentBigint);
 
       // 7. Build signingData
       const paymentId = crypto.randomUUID();
@@ -141,21 +132,23 @@ export function CreatePayment({
       const session = getSession();
       if (!session) throw new Error("No active session");
       const signerIndex = session.share.index;
-      const nonce = deriveNonces(session.share.secretShare, paymentId);
+      const nonce = deriveNonces(session.share.secretShare, paymentId, signerIndex, message);
 
-      const nonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string }> = {
+      const nonceCommitments: SigningData["nonceCommitments"] = {
         [signerIndex.toString()]: {
           Dx: nonce.D.x.toString(),
           Dy: nonce.D.y.toString(),
           Ex: nonce.E.x.toString(),
           Ey: nonce.E.y.toString(),
+          auth: signNonceCommitment(session.share.secretShare, signerIndex, message, nonce),
         },
       };
 
       const payment: PendingPayment = {
         id: paymentId,
-        recipient: `${stealth.address.x.toString(16).slice(0, 8)}...`,
+        recipient: `${recipient.trim().slice(0, 10)}...${recipient.trim().slice(-8)}`,
         amount,
+        symbol,
         memo,
         createdBy: currentSigner,
         createdAt: Date.now(),
@@ -164,6 +157,7 @@ export function CreatePayment({
         status: "pending",
         txType: "send",
         signingData: {
+          asset,
           inputCommitment: noteToSpend.commitment,
           inputAmount: noteToSpend.amount.toString(),
           inputBlinding: noteToSpend.blinding.toString(),
@@ -173,10 +167,19 @@ export function CreatePayment({
           inputStealthPubKeyY: stealthPubKey.y.toString(),
           inputSpendingKeyHash: spendingKeyHash.toString(),
           outputCommitment: outputCommitment.toString(),
-          outputEphPubKeyX: stealth.ephemeralPublicKey.x.toString(),
-          outputEphPubKeyY: stealth.ephemeralPublicKey.y.toString(),
-          outputViewTag: viewTag,
-          outputEncryptedAmount: encryptedAmount.toString(),
+          outputOwner: output.owner.toString(),
+          outputAmount: output.amount.toString(),
+          outputBlinding: output.blinding.toString(),
+          outputEphPubKeyX: output.ephPubKey.x.toString(),
+          outputEphPubKeyY: output.ephPubKey.y.toString(),
+          outputViewTag: output.viewTag,
+          outputEncryptedAmount: output.encryptedAmount.toString(),
+          outputEncryptedNote: output.encryptedNote,
+          outputRecipient: encodeMetaAddress(recipientMeta),
+          outputEphemeralSecret: output.ephemeralSecretKey.toString(),
+          fee: fee.toString(),
+          ...(BigInt(relayer) !== 0n && { relayer }),
+          deadline: deadline.toString(),
           message: message.toString(),
           nullifier: nullifier.toString(),
           nonceCommitments,
@@ -211,14 +214,35 @@ export function CreatePayment({
             <p className="text-base font-medium text-white">{currentSigner}</p>
           </div>
         </div>
-        {balance && balance !== "0" && (
+        {available && available !== "0" && (
           <div className="text-right">
             <p className="text-sm text-slate-400">Available</p>
-            <p className="text-base font-medium text-white">{balance} CFX</p>
+            <p className="text-base font-medium text-white">{available} {symbol}</p>
           </div>
         )}
       </div>
 
+      {/* Asset selection (shown once the treasury holds a token) */}
+      {heldAssets.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {heldAssets.map((a) => (
+            <button
+              key={a}
+              type="button"
+              title={a}
+              onClick={() => selectAsset(a)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors cursor-pointer ${
+                asset === a
+                  ? "border-pavv-500 bg-pavv-500/10 text-white"
+                  : "border-dark-border bg-dark-surface text-slate-400 hover:border-slate-500"
+              }`}
+            >
+              {assetBalances?.find((b) => b.asset === a)?.symbol ?? a}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Note selection */}
       {unspentNotes.length > 0 && (
         <div className="bg-dark-card rounded-xl border border-dark-border p-5 mb-4">
@@ -239,7 +263,7 @@ export function CreatePayment({
               >
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-white font-medium">
-                    {formatEther(note.amount)} CFX
+                    {formatUnits(note.amount, decimals)} {symbol}
                   </span>
                   <span className="text-xs text-slate-400">
                     Leaf #{note.leafIndex}
@@ -253,7 +277,7 @@ export function CreatePayment({
           </div>
           {selectedNoteIdx === null && (
             <p className="text-xs text-slate-500 mt-2">
-              Auto-selects smallest sufficient note if none chosen
+              Auto-selects a note matching the amount if none chosen
             </p>
           )}
         </div>
@@ -273,7 +297,7 @@ export function CreatePayment({
               placeholder="0"
               className="flex-1 bg-transparent text-3xl font-bold text-white placeholder-slate-500 focus:outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
             />
-            <span className="text-lg font-medium text-slate-400">CFX</span>
+            <span className="text-lg font-medium text-slate-400">{symbol}</span>
           </div>
         </div>
 
@@ -294,13 +318,13 @@ export function CreatePayment({
         {/* Memo */}
         <div className="bg-dark-card rounded-xl border border-dark-border p-5">
           <label className="block text-sm font-medium text-slate-400 mb-2">
-            Memo (optional)
+            Memo (optional, sent encrypted to the recipient)
           </label>
           <input
             type="text"
             value={memo}
             onChange={(e) => setMemo(e.target.value)}
-            placeholder="What's this for?"
+            placeholder="What's this for? (up to 64 bytes)"
             className="w-full bg-transparent text-base text-white placeholder-slate-500 focus:outline-none"
           />
         </div>
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import type { TreasuryState, PendingPayment, CurvePoint, GroupConfig } from "../store/treasury";
-import type { ScannedNote } from "../lib/balanceScanner";
+import type { AssetBalance, ScannedNote } from "../lib/balanceScanner";
 import { ReceiveModal } from "./ReceiveModal";
 import { WithdrawModal } from "./WithdrawModal";
 
@@ -12,10 +12,11 @@ interface DashboardProps {
   pendingPayments: PendingPayment[];
   isScanning?: boolean;
   noteCount?: number;
+  lockedNotes?: number; // Threshold viewing: notes waiting for more signers' partials
+  assetBalances?: AssetBalance[];
   balanceLoaded?: boolean;
   onRefresh: () => void;
   groupPublicKey: CurvePoint | null;
-  viewingPublicKey: CurvePoint | null;
   onDeposited: () => void;
   notes?: ScannedNote[];
   groupConfig?: GroupConfig | null;
@@ -27,7 +28,7 @@ function truncateHex(hex: string, chars = 8): string {
   return hex.slice(0, chars + 2) + "..." + hex.slice(-chars);
 }
 
-export function Dashboard({ state, onTabChange, pendingPayments, isScanning, noteCount, balanceLoaded, onRefresh, groupPublicKey, viewingPublicKey, onDeposited, notes, groupConfig, onCreateWithdraw }: DashboardProps) {
+export function Dashboard({ state, onTabChange, pendingPayments, isScanning, noteCount, lockedNotes, assetBalances, balanceLoaded, onRefresh, groupPublicKey, onDeposited, notes, groupConfig, onCreateWithdraw }: DashboardProps) {
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
 
@@ -77,6 +78,29 @@ export function Dashboard({ state, onTabChange, pendingPayments, isScanning, not
                   <span className="text-sm text-slate-400">{noteCount} note{noteCount !== 1 ? "s" : ""}</span>
                 </span>
               )}
+              {!isScanning && lockedNotes !== undefined && lockedNotes > 0 && (
+                <span
+                  title="The viewing key is shared: these notes open once enough signers have scanned"
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-amber-500/15 rounded-full"
+                >
+                  <span className="text-sm text-amber-400">
+                    {lockedNotes} note{lockedNotes !== 1 ? "s" : ""} awaiting other signers
+                  </span>
+                </span>
+              )}
+              {/* Shielded ERC-20 balances (CFX is the headline figure above) */}
+              {!isScanning && assetBalances
+                ?.filter((b) => b.asset !== "CFX" && b.balance > 0n)
+                .map((b) => (
+                  <span
+                    key={b.asset}
+                    title={b.asset}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-dark-surface rounded-full"
+                  >
+                    <span className="text-sm font-medium text-white">{b.formatted}</span>
+                    <span className="text-sm text-slate-400">{b.symbol}</span>
+                  </span>
+                ))}
             </div>
           </div>
           <div className="flex items-center gap-3">
@@ -206,7 +230,7 @@ export function Dashboard({ state, onTabChange, pendingPayments, isScanning, not
                 {pendingPayments.slice(0, 4).map((payment) => (
                   <div key={payment.id} className="px-6 py-3.5">
                     <div className="flex items-center justify-between mb-1">
-                      <span className="text-base font-medium text-white">{payment.amount} CFX</span>
+                      <span className="text-base font-medium text-white">{payment.amount} {payment.symbol ?? "CFX"}</span>
                       <span className={`text-sm font-medium px-2.5 py-0.5 rounded-full ${
                         payment.status === "pending"
                           ? "bg-yellow-500/15 text-yellow-400"
@@ -286,12 +310,11 @@ export function Dashboard({ state, onTabChange, pendingPayments, isScanning, not
         <span className="text-pavv-400 font-medium">Fully Shielded</span>
       </div>
 
-      {groupPublicKey && viewingPublicKey && (
+      {groupPublicKey && (
         <ReceiveModal
           open={showDepositModal}
           onClose={() => setShowDepositModal(false)}
           groupPublicKey={groupPublicKey}
-          viewingPublicKey={viewingPublicKey}
           onDeposited={onDeposited}
         />
       )}
@@ -300,6 +323,7 @@ export function Dashboard({ state, onTabChange, pendingPayments, isScanning, not
         open={showWithdrawModal}
         onClose={() => setShowWithdrawModal(false)}
         notes={notes}
+        assetBalances={assetBalances}
         groupPublicKey={groupPublicKey}
         groupConfig={groupConfig}
         onCreateWithdraw={onCreateWithdraw ?? (() => {})}
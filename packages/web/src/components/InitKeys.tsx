@@ -4,25 +4,39 @@ import type {
   SignerRole,
   CeremonyTranscriptEntry,
   GroupConfig,
+  ViewingShareData,
 } from "../store/treasury";
 import {
+  authenticateAndDecryptShare,
+  getStoredShares,
   isWebAuthnAvailable,
   registerPasskeyForShare,
+  removeStoredShare,
+  type EncryptedSharePayload,
+  type StoredPasskeyShare,
 } from "../lib/passkey";
 import {
   distributedCeremony,
   hierarchicalCeremony,
+  reshareShares,
   type CeremonyShare,
   type HierarchicalCeremonyShare,
   type CeremonyResult,
 } from "@blsgun/sdk/ceremony";
+import { isBirkhoffPoised } from "@blsgun/sdk/birkhoff";
+import { generateCoordinationKey } from "@blsgun/sdk/coordination";
+import { deriveIdentityKey } from "@blsgun/sdk/identity";
+import { generateThresholdViewingKey } from "@blsgun/sdk/threshold-viewing";
+import { initHash } from "@blsgun/sdk/hash";
 
 interface InitKeysProps {
   onInit: (
     data: KeyCeremonyData,
     transcript: CeremonyTranscriptEntry[],
     groupConfig: GroupConfig,
-    viewingSecretKey?: string
+    viewingSecretKey?: string,
+    coordinationKey?: string,
+    viewingKeyShare?: ViewingShareData
   ) => void;
 }
 
@@ -44,7 +58,8 @@ function truncateHex(hex: string, chars = 8): string {
 function downloadShareJSON(
   share: { index: number; role: SignerRole; secretShare: string; publicShare: { x: string; y: string }; rank?: number },
   groupPk: { x: string; y: string },
-  groupConfig: GroupConfig
+  groupConfig: GroupConfig,
+  viewingKeyShare?: ViewingShareData
 ) {
   const mode = groupConfig.mode ?? "TSS";
   const data = {
@@ -61,6 +76,11 @@ function downloadShareJSON(
       mode,
       ...(share.rank !== undefined ? { rank: share.rank } : {}),
       groupName: groupConfig.name,
+      ...(groupConfig.publicShares ? { publicShares: groupConfig.publicShares } : {}),
+      ...(groupConfig.identityKeys ? { identityKeys: groupConfig.identityKeys } : {}),
+      ...(viewingKeyShare
+        ? { viewingKeyShare, viewingPublicShares: groupConfig.viewingPublicShares }
+        : {}),
     },
   };
   const blob = new Blob([JSON.stringify(data, null, 2)], {
@@ -99,7 +119,7 @@ function KeyIdenticon({ hexBytes }: { hexBytes: string }) {
   );
 }
 
-type Phase = "idle" | "configure" | "generating" | "distribute" | "complete";
+type Phase = "idle" | "reshare-unlock" | "configure" | "generating" | "distribute" | "complete";
 
 interface DistributionEntry {
   role: SignerRole;
@@ -121,6 +141,7 @@ export function InitKeys({ onInit }: InitKeysProps) {
   const [roleNames, setRoleNames] = useState<string[]>(DEFAULT_ROLES);
   const [ceremonyMode, setCeremonyMode] = useState<"TSS" | "HTSS">("TSS");
   const [signerRanks, setSignerRanks] = useState<number[]>([0, 0, 0]);
+  const [thresholdViewing, setThresholdViewing] = useState(false);
 
   // Distribute phase state
   const [currentShareIndex, setCurrentShareIndex] = useState(0);
@@ -152,18 +173,49 @@ export function InitKeys({ onInit }: InitKeysProps) {
   const [saveError, setSaveError] = useState<string | null>(null);
   const webAuthnSupported = isWebAuthnAvailable();
 
+  // Membership change: an old quorum reshares the existing key to a new group
+  const [resharing, setResharing] = useState(false);
+  const [reshareEntries, setReshareEntries] = useState<StoredPasskeyShare[]>([]);
+  const [unlockedIds, setUnlockedIds] = useState<string[]>([]);
+  const [reshareBusy, setReshareBusy] = useState(false);
+  const [reshareError, setReshareError] = useState<string | null>(null);
+  const oldPayloadsRef = useRef(new Map<string, EncryptedSharePayload>());
+  const oldCredentialIdsRef = useRef<string[]>([]);
+
   const groupConfigRef = useRef<GroupConfig | null>(null);
   const viewingSkRef = useRef<string | null>(null);
-
-  const generationSteps = [
-    "Generating master spending key on Grumpkin curve...",
-    ceremonyMode === "HTSS"
-      ? `Splitting into ${threshold}-of-${totalSigners} Birkhoff hierarchical shares...`
-      : `Splitting into ${threshold}-of-${totalSigners} Shamir shares with Feldman VSS...`,
-    "Computing polynomial commitments for verification...",
-    "Deriving viewing key for audit...",
-    "Zeroing master secret from memory...",
-  ];
+  const viewingSharesRef = useRef<ViewingShareData[]>([]); // Threshold viewing mode, by signer index - 1
+  const coordinationKeyRef = useRef<string | null>(null);
+
+  const generationSteps = resharing
+    ? [
+        "Weighting old signers' shares for the quorum...",
+        ceremonyMode === "HTSS"
+          ? `Dealing sub-shares to ${threshold}-of-${totalSigners} Birkhoff hierarchical signers...`
+          : `Dealing sub-shares to ${threshold}-of-${totalSigners} Shamir signers...`,
+        "Verifying sub-shares against Feldman commitments...",
+        "Checking the group public key is unchanged...",
+        "Zeroing old shares from memory...",
+      ]
+    : [
+        "Generating master spending key on Grumpkin curve...",
+        ceremonyMode === "HTSS"
+          ? `Splitting into ${threshold}-of-${totalSigners} Birkhoff hierarchical shares...`
+          : `Splitting into ${threshold}-of-${totalSigners} Shamir shares with Feldman VSS...`,
+        "Computing polynomial commitments for verification...",
+        thresholdViewing
+          ? `Splitting the viewing key into ${threshold}-of-${totalSigners} shares...`
+          : "Deriving viewing key for audit...",
+        "Zeroing master secret from memory...",
+      ];
+
+  // The old group's threshold and whether the unlocked shares can reconstruct its key
+  const oldPayloads = unlockedIds.flatMap((id) => oldPayloadsRef.current.get(id) ?? []);
+  const oldThreshold = oldPayloads[0]?.groupConfig?.threshold ?? reshareEntries[0]?.threshold ?? 0;
+  const quorumReady =
+    oldPayloads.length > 0 &&
+    oldPayloads.length === oldThreshold &&
+    isBirkhoffPoised(oldPayloads.map((p) => ({ index: BigInt(p.share.index), rank: p.share.rank ?? 0 })));
 
   const configValid = useMemo(() => {
     if (!groupName.trim()) return false;
@@ -237,7 +289,9 @@ export function InitKeys({ onInit }: InitKeysProps) {
       gpk,
       vpk,
       groupConfigRef.current ?? undefined,
-      viewingSkRef.current ?? undefined
+      viewingSkRef.current ?? undefined,
+      coordinationKeyRef.current ?? undefined,
+      viewingSharesRef.current[currentShare.index - 1]
     );
 
     if (result.ok) {
@@ -256,7 +310,7 @@ export function InitKeys({ onInit }: InitKeysProps) {
     const gpk = groupPkRef.current;
     const gc = groupConfigRef.current;
     if (!gpk || !gc) return;
-    downloadShareJSON(currentShare, gpk, gc);
+    downloadShareJSON(currentShare, gpk, gc, viewingSharesRef.current[currentShare.index - 1]);
     handleShareSaved("download");
   };
 
@@ -270,6 +324,142 @@ export function InitKeys({ onInit }: InitKeysProps) {
     setPhase("configure");
   };
 
+  const handleStartReshare = () => {
+    setReshareEntries(getStoredShares());
+    setUnlockedIds([]);
+    setReshareError(null);
+    oldPayloadsRef.current.clear();
+    setPhase("reshare-unlock");
+  };
+
+  const handleUnlockOldShare = async (entry: StoredPasskeyShare) => {
+    setReshareError(null);
+    setReshareBusy(true);
+    const result = await authenticateAndDecryptShare(entry);
+    setReshareBusy(false);
+    if (!result.ok || !result.payload) {
+      setReshareError(result.error || "Failed to unlock share");
+      return;
+    }
+
+    const payload = result.payload;
+    const first = oldPayloadsRef.current.values().next().value as EncryptedSharePayload | undefined;
+    if (
+      first &&
+      (first.groupPublicKey.x !== payload.groupPublicKey.x || first.groupPublicKey.y !== payload.groupPublicKey.y)
+    ) {
+      setReshareError(`${entry.name}'s share belongs to a different group`);
+      return;
+    }
+    for (const other of oldPayloadsRef.current.values()) {
+      if (other.share.index === payload.share.index) {
+        setReshareError(`Signer ${payload.share.index} is already unlocked`);
+        return;
+      }
+    }
+    oldPayloadsRef.current.set(entry.credentialId, payload);
+    setUnlockedIds((prev) => [...prev, entry.credentialId]);
+    if (!first) {
+      // Only this group's passkeys can take part from here on
+      setReshareEntries((prev) => prev.filter((e) => e.groupName === entry.groupName));
+    }
+  };
+
+  const handleConfigureReshare = () => {
+    const old = oldPayloads[0]?.groupConfig;
+    if (old) {
+      setGroupName(old.name);
+      setTotalSigners(old.totalSigners);
+      setThreshold(old.threshold);
+      setRoleNames(old.roles);
+      setCeremonyMode(old.mode ?? "TSS");
+      setSignerRanks(old.signerRanks ?? old.roles.map(() => 0));
+      setThresholdViewing(!!old.viewingPublicShares);
+    }
+    oldCredentialIdsRef.current = reshareEntries.map((e) => e.credentialId);
+    setResharing(true);
+    setPhase("configure");
+  };
+
+  /**
+   * Deal the unlocked old shares to the new membership. The group key and the
+   * viewing key carry over, so the treasury address and its notes are unchanged.
+   * A threshold-shared viewing key is reshared the same way.
+   */
+  const reshareToNewGroup = (
+    gc: GroupConfig,
+    roles: string[],
+    ranks: number[]
+  ): { index: number; role: SignerRole; secretShare: string; publicShare: { x: string; y: string }; rank?: number }[] => {
+    const payloads = [...oldPayloadsRef.current.values()];
+    const quorum = payloads.map((p) => ({
+      index: BigInt(p.share.index),
+      rank: p.share.rank,
+      secretShare: BigInt(p.share.secretShare),
+      publicShare: { x: BigInt(p.share.publicShare.x), y: BigInt(p.share.publicShare.y) },
+    }));
+    const signers = roles.map((_, i) => ({
+      index: BigInt(i + 1),
+      ...(ceremonyMode === "HTSS" ? { rank: ranks[i] } : {}),
+    }));
+
+    const { shares, polynomialCommitments } = reshareShares(quorum, { threshold, signers });
+    for (const q of quorum) q.secretShare = 0n;
+
+    const oldGroupPk = payloads[0].groupPublicKey;
+    const groupPk = pointToHex(polynomialCommitments[0]);
+    if (groupPk.x !== oldGroupPk.x || groupPk.y !== oldGroupPk.y) {
+      throw new Error("Resharing changed the group public key");
+    }
+    groupPkRef.current = oldGroupPk;
+    viewingPkRef.current = payloads[0].viewingPublicKey;
+    viewingSkRef.current = payloads[0].viewingSecretKey ?? null;
+
+    // Viewing key shares are plain Shamir shares: any t of them, whatever the ranks
+    const oldViewingShares = payloads[0].groupConfig?.viewingPublicShares;
+    if (oldViewingShares) {
+      const viewingQuorum = payloads.map((p) => {
+        if (!p.viewingKeyShare?.secretShare) {
+          throw new Error(`Signer ${p.share.index}'s passkey holds no viewing key share`);
+        }
+        const publicShare = oldViewingShares[p.share.index - 1];
+        return {
+          index: BigInt(p.share.index),
+          secretShare: BigInt(p.viewingKeyShare.secretShare),
+          publicShare: { x: BigInt(publicShare.x), y: BigInt(publicShare.y) },
+        };
+      });
+      const reshared = reshareShares(viewingQuorum, {
+        threshold,
+        signers: roles.map((_, i) => ({ index: BigInt(i + 1) })),
+      });
+      for (const q of viewingQuorum) q.secretShare = 0n;
+
+      const { viewingPublicKey, scanSecretKey, nullifyingKey } = payloads[0].viewingKeyShare!;
+      const newViewingPk = pointToHex(reshared.polynomialCommitments[0]);
+      if (newViewingPk.x !== viewingPublicKey.x || newViewingPk.y !== viewingPublicKey.y) {
+        throw new Error("Resharing changed the viewing public key");
+      }
+      gc.viewingPublicShares = reshared.shares.map((vs) => pointToHex(vs.publicShare));
+      viewingSharesRef.current = reshared.shares.map((vs) => ({
+        secretShare: bigintToHex(vs.secretShare),
+        scanSecretKey,
+        nullifyingKey,
+        viewingPublicKey,
+      }));
+    }
+    oldPayloadsRef.current.clear();
+    setUnlockedIds([]);
+
+    return shares.map((s, i) => ({
+      index: Number(s.index),
+      role: roles[i],
+      secretShare: bigintToHex(s.secretShare),
+      publicShare: pointToHex(s.publicShare),
+      ...(s.rank !== undefined ? { rank: s.rank } : {}),
+    }));
+  };
+
   const handleGenerateActual = async () => {
     const roles = roleNames.slice(0, totalSigners).map((n) => n.trim());
     const ranks = signerRanks.slice(0, totalSigners);
@@ -282,6 +472,9 @@ export function InitKeys({ onInit }: InitKeysProps) {
       signerRanks: ceremonyMode === "HTSS" ? ranks : undefined,
     };
     groupConfigRef.current = gc;
+    viewingSharesRef.current = [];
+    // A fresh key on resharing too: members who left must not read the new group's signing state
+    coordinationKeyRef.current = generateCoordinationKey();
 
     setPhase("generating");
 
@@ -295,9 +488,11 @@ export function InitKeys({ onInit }: InitKeysProps) {
     await new Promise((r) => setTimeout(r, 100));
 
     try {
-      const collectedShares: { index: number; role: SignerRole; secretShare: string; publicShare: { x: string; y: string }; rank?: number }[] = [];
+      let collectedShares: { index: number; role: SignerRole; secretShare: string; publicShare: { x: string; y: string }; rank?: number }[] = [];
 
-      if (ceremonyMode === "HTSS") {
+      if (resharing) {
+        collectedShares = reshareToNewGroup(gc, roles, ranks);
+      } else if (ceremonyMode === "HTSS") {
         const signerConfigs = ranks.map((rank, i) => ({ index: i + 1, rank }));
         const gen = hierarchicalCeremony({ threshold, signers: signerConfigs });
 
@@ -339,6 +534,30 @@ export function InitKeys({ onInit }: InitKeysProps) {
         viewingSkRef.current = bigintToHex(cr.viewingSecretKey);
       }
 
+      // Every signer's payload carries all public shares so partial signatures can be attributed
+      gc.publicShares = [...collectedShares].sort((a, b) => a.index - b.index).map((s) => s.publicShare);
+      // ...and their identity keys, which every nonce commitment and partial signature must be signed with
+      await initHash();
+      gc.identityKeys = [...collectedShares]
+        .sort((a, b) => a.index - b.index)
+        .map((s) => pointToHex(deriveIdentityKey(BigInt(s.secretShare)).publicKey));
+
+      // Threshold viewing: the ceremony's viewing key is dropped for one no signer holds
+      if (thresholdViewing && !resharing) {
+        const viewing = generateThresholdViewingKey({ threshold, totalSigners });
+        const viewingPublicKey = pointToHex(viewing.viewingPublicKey);
+        viewingPkRef.current = viewingPublicKey;
+        viewingSkRef.current = null;
+        gc.viewingPublicShares = viewing.shares.map((vs) => pointToHex(vs.publicShare));
+        viewingSharesRef.current = viewing.shares.map((vs) => ({
+          secretShare: bigintToHex(vs.secretShare),
+          scanSecretKey: bigintToHex(viewing.scanSecretKey),
+          nullifyingKey: bigintToHex(viewing.nullifyingKey),
+          viewingPublicKey,
+        }));
+        for (const vs of viewing.shares) vs.secretShare = 0n;
+      }
+
       allSharesRef.current = collectedShares;
       setCurrentShare(collectedShares[0]);
       setCurrentShareIndex(0);
@@ -346,7 +565,13 @@ export function InitKeys({ onInit }: InitKeysProps) {
       setPhase("distribute");
     } catch (err) {
       console.error("Key generation failed:", err);
-      setPhase("idle");
+      if (resharing) {
+        setReshareError(err instanceof Error ? err.message : "Resharing failed");
+        setResharing(false);
+        setPhase("reshare-unlock");
+      } else {
+        setPhase("idle");
+      }
     }
   };
 
@@ -357,6 +582,8 @@ export function InitKeys({ onInit }: InitKeysProps) {
     if (currentShareIndex < allSharesRef.current.length) {
       allSharesRef.current[currentShareIndex].secretShare = "";
     }
+    const viewingShare = viewingSharesRef.current[currentShareIndex];
+    if (viewingShare) viewingShare.secretShare = "";
 
     const nextIndex = currentShareIndex + 1;
     if (nextIndex >= gc.totalSigners) {
@@ -402,8 +629,19 @@ export function InitKeys({ onInit }: InitKeysProps) {
 
     const vsk = viewingSkRef.current ?? undefined;
     viewingSkRef.current = "";
+    const coordinationKey = coordinationKeyRef.current ?? undefined;
+    coordinationKeyRef.current = null;
+    // Threshold viewing: this session keeps the scan key and nk to show the address, no share
+    const viewingShare = viewingSharesRef.current[0];
+    const viewingKeyShare = viewingShare ? { ...viewingShare, secretShare: "" } : undefined;
+    viewingSharesRef.current = [];
+
+    // The old group's passkeys hold shares of the previous membership
+    if (resharing) {
+      for (const id of oldCredentialIdsRef.current) removeStoredShare(id);
+    }
 
-    onInit(keyCeremony, transcript, groupConfigRef.current, vsk);
+    onInit(keyCeremony, transcript, groupConfigRef.current, vsk, coordinationKey, viewingKeyShare);
   };
 
   // -- Render: idle --
@@ -441,6 +679,14 @@ export function InitKeys({ onInit }: InitKeysProps) {
             >
               Configure Group
             </button>
+            {getStoredShares().length > 0 && (
+              <button
+                onClick={handleStartReshare}
+                className="w-full mt-3 py-3 bg-dark-surface hover:bg-dark-hover text-slate-200 border border-dark-border rounded-xl font-semibold text-base transition-colors duration-200 cursor-pointer"
+              >
+                Change Membership
+              </button>
+            )}
             <div className="mt-6 p-3 bg-dark-surface rounded-lg text-sm text-slate-400">
               Curve: Grumpkin (BN254 cycle) | Protocol: FROST RFC 9591
             </div>
@@ -450,6 +696,87 @@ export function InitKeys({ onInit }: InitKeysProps) {
     );
   }
 
+  // -- Render: reshare-unlock --
+
+  if (phase === "reshare-unlock") {
+    return (
+      <div className="flex items-center justify-center min-h-[70vh]">
+        <div className="max-w-lg w-full">
+          <div className="bg-dark-card rounded-2xl p-8 border border-dark-border">
+            <h2 className="text-3xl font-bold text-white mb-1 text-center">
+              Change Membership
+            </h2>
+            <p className="text-slate-400 mb-6 text-center text-base">
+              A quorum of current signers unlocks their shares. They deal the
+              same treasury key to the new group, so the address and all notes
+              stay as they are.
+            </p>
+
+            {reshareEntries.length === 0 ? (
+              <p className="text-base text-slate-400 text-center">No stored passkeys on this device.</p>
+            ) : (
+              <div className="space-y-2 mb-4">
+                {reshareEntries.map((entry) => {
+                  const isUnlocked = unlockedIds.includes(entry.credentialId);
+                  return (
+                    <div
+                      key={entry.credentialId}
+                      className="flex items-center justify-between bg-dark-surface rounded-lg px-4 py-3"
+                    >
+                      <div>
+                        <p className="text-base text-white">{entry.name}</p>
+                        <p className="text-sm text-slate-400">
+                          {entry.role}
+                          {entry.groupName ? ` · ${entry.groupName}` : ""}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleUnlockOldShare(entry)}
+                        disabled={isUnlocked || reshareBusy || (oldThreshold > 0 && unlockedIds.length >= oldThreshold)}
+                        className="px-4 py-2 rounded-lg text-sm font-medium bg-pavv-500 hover:bg-pavv-600 text-white transition-colors duration-200 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {isUnlocked ? "Unlocked" : "Unlock"}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {unlockedIds.length > 0 && (
+              <div className="p-3 bg-pavv-500/10 rounded-lg text-base text-pavv-400 text-center mb-4">
+                {unlockedIds.length} of {oldThreshold} current signers unlocked
+                {unlockedIds.length === oldThreshold && !quorumReady && " — these ranks cannot reconstruct the key"}
+              </div>
+            )}
+
+            {reshareError && <p className="text-base text-red-400 mb-4">{reshareError}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  oldPayloadsRef.current.clear();
+                  setUnlockedIds([]);
+                  setPhase("idle");
+                }}
+                className="flex-1 py-3 bg-dark-surface hover:bg-dark-hover text-slate-200 rounded-xl font-semibold text-base transition-colors duration-200 cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfigureReshare}
+                disabled={!quorumReady}
+                className="flex-1 py-3 bg-pavv-500 hover:bg-pavv-600 disabled:bg-dark-surface disabled:text-slate-500 text-white rounded-xl font-semibold text-base transition-colors duration-200 cursor-pointer"
+              >
+                Configure New Group
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // -- Render: configure --
 
   if (phase === "configure") {
@@ -459,10 +786,12 @@ export function InitKeys({ onInit }: InitKeysProps) {
         <div className="max-w-lg w-full">
           <div className="bg-dark-card rounded-2xl p-8 border border-dark-border">
             <h2 className="text-3xl font-bold text-white mb-1 text-center">
-              Configure Group
+              {resharing ? "New Membership" : "Configure Group"}
             </h2>
             <p className="text-slate-400 mb-6 text-center text-base">
-              Set your MPC threshold group parameters before key generation.
+              {resharing
+                ? "Set the new signers and threshold. The treasury key and address stay the same."
+                : "Set your MPC threshold group parameters before key generation."}
             </p>
 
             <div className="space-y-5">
@@ -474,6 +803,7 @@ export function InitKeys({ onInit }: InitKeysProps) {
                   type="text"
                   value={groupName}
                   onChange={(e) => setGroupName(e.target.value)}
+                  disabled={resharing}
                   placeholder="e.g. Engineering Treasury"
                   className="w-full bg-dark-surface border border-dark-border rounded-lg px-4 py-3 text-base text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-pavv-500 focus:border-transparent transition-colors duration-200"
                 />
@@ -557,6 +887,44 @@ export function InitKeys({ onInit }: InitKeysProps) {
                 </p>
               </div>
 
+              {/* Viewing key: held by every signer, or threshold-shared like the spending key */}
+              <div>
+                <label className="block text-base font-medium text-slate-200 mb-2">
+                  Viewing Key
+                </label>
+                <div className="flex rounded-lg overflow-hidden border border-dark-border">
+                  <button
+                    type="button"
+                    onClick={() => setThresholdViewing(false)}
+                    disabled={resharing}
+                    className={`flex-1 py-2.5 text-base font-medium transition-colors duration-200 cursor-pointer disabled:cursor-not-allowed ${
+                      !thresholdViewing
+                        ? "bg-pavv-500 text-white"
+                        : "bg-dark-surface text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    Every signer
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setThresholdViewing(true)}
+                    disabled={resharing}
+                    className={`flex-1 py-2.5 text-base font-medium transition-colors duration-200 cursor-pointer disabled:cursor-not-allowed ${
+                      thresholdViewing
+                        ? "bg-pavv-500 text-white"
+                        : "bg-dark-surface text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    Threshold
+                  </button>
+                </div>
+                <p className="text-sm text-slate-400 mt-1.5">
+                  {thresholdViewing
+                    ? `No signer can read the treasury alone: notes open once ${threshold} signers have scanned. No quarterly auditor keys.`
+                    : "Each signer's passkey holds the viewing key, with quarterly keys for auditors"}
+                </p>
+              </div>
+
               <div>
                 <label className="block text-base font-medium text-slate-200 mb-2">
                   Signer Roles
@@ -598,12 +966,19 @@ export function InitKeys({ onInit }: InitKeysProps) {
                 </div>
               </div>
 
+              {resharing && (
+                <p className="text-sm text-amber-400">
+                  Members who leave must delete their old share: old shares still
+                  combine with each other, just not with the new ones.
+                </p>
+              )}
+
               <button
                 onClick={handleGenerateActual}
                 disabled={!configValid}
                 className="w-full py-3 bg-pavv-500 hover:bg-pavv-600 disabled:bg-dark-surface disabled:text-slate-500 text-white rounded-xl font-semibold text-base transition-colors duration-200 cursor-pointer"
               >
-                Generate Keys
+                {resharing ? "Reshare Keys" : "Generate Keys"}
               </button>
             </div>
           </div>
@@ -635,7 +1010,7 @@ export function InitKeys({ onInit }: InitKeysProps) {
               </svg>
             </div>
             <h2 className="text-3xl font-bold text-white mb-4">
-              Generating Keys...
+              {resharing ? "Resharing Keys..." : "Generating Keys..."}
             </h2>
             <div className="space-y-3">
               {generationSteps.map((s, i) => (
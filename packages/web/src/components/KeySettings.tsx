@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import type { CurvePoint, ShareData, TreasuryState } from "../store/treasury";
+import {
+  authenticateAndDecryptShare,
+  getStoredShares,
+  registerPasskeyForShare,
+  removeStoredShare,
+  type EncryptedSharePayload,
+  type StoredPasskeyShare,
+} from "../lib/passkey";
+import { refreshShares } from "@blsgun/sdk/ceremony";
+import { deriveIdentityKey } from "@blsgun/sdk/identity";
+import { initHash } from "@blsgun/sdk/hash";
+
+interface KeySettingsProps {
+  state: TreasuryState;
+  onSharesRefreshed: () => void;
+}
+
+function bigintToHex(n: bigint): string {
+  return "0x" + n.toString(16).padStart(64, "0");
+}
+
+function pointToHex(p: { x: bigint; y: bigint }) {
+  return { x: bigintToHex(p.x), y: bigintToHex(p.y) };
+}
+
+/**
+ * Proactive share refresh: every signer's share is replaced, the group key
+ * (and so the treasury's address and notes) stays the same. All signers'
+ * passkeys must be on this device; each is unlocked, then re-wrapped in a
+ * new passkey. The old passkey entries are removed once all are re-wrapped.
+ */
+export function KeySettings({ state, onSharesRefreshed }: KeySettingsProps) {
+  const groupConfig = state.groupConfig;
+  const groupPublicKey = state.keyCeremony?.groupPublicKey;
+  const [entries] = useState<StoredPasskeyShare[]>(() =>
+    getStoredShares().filter((e) => e.groupName === groupConfig?.name)
+  );
+  const [phase, setPhase] = useState<"unlock" | "rewrap" | "done">("unlock");
+  const [unlocked, setUnlocked] = useState<string[]>([]); // credentialIds
+  const [rewrapped, setRewrapped] = useState<string[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Decrypted payloads and refreshed shares, keyed by credentialId (never in React state)
+  const payloadsRef = useRef(new Map<string, EncryptedSharePayload>());
+  const refreshedRef = useRef(new Map<string, ShareData>());
+  const publicSharesRef = useRef<CurvePoint[]>([]);
+  const identityKeysRef = useRef<CurvePoint[]>([]);
+
+  const signingInProgress = state.pendingPayments.some((p) => p.status === "signing");
+  const allUnlocked = !!groupConfig && unlocked.length === groupConfig.totalSigners;
+
+  const handleUnlock = async (entry: StoredPasskeyShare) => {
+    setError(null);
+    setBusy(entry.credentialId);
+    const result = await authenticateAndDecryptShare(entry);
+    setBusy(null);
+    if (!result.ok || !result.payload) {
+      setError(result.error || "Failed to unlock share");
+      return;
+    }
+
+    const payload = result.payload;
+    if (
+      groupPublicKey &&
+      (payload.groupPublicKey.x !== groupPublicKey.x || payload.groupPublicKey.y !== groupPublicKey.y)
+    ) {
+      setError(`${entry.name}'s share belongs to a different group`);
+      return;
+    }
+    for (const other of payloadsRef.current.values()) {
+      if (other.share.index === payload.share.index) {
+        setError(`Signer ${payload.share.index} is already unlocked`);
+        return;
+      }
+    }
+    payloadsRef.current.set(entry.credentialId, payload);
+    setUnlocked((prev) => [...prev, entry.credentialId]);
+  };
+
+  const handleRefresh = async () => {
+    if (!groupConfig) return;
+    setError(null);
+    try {
+      await initHash();
+      const ids = [...payloadsRef.current.keys()];
+      const shares = ids.map((id) => {
+        const { share } = payloadsRef.current.get(id)!;
+        return {
+          index: BigInt(share.index),
+          rank: share.rank,
+          secretShare: BigInt(share.secretShare),
+          publicShare: { x: BigInt(share.publicShare.x), y: BigInt(share.publicShare.y) },
+        };
+      });
+
+      const refreshed = refreshShares(shares, groupConfig.threshold).shares;
+      // New shares give new identity keys
+      identityKeysRef.current = [...refreshed]
+        .sort((a, b) => Number(a.index - b.index))
+        .map((s) => pointToHex(deriveIdentityKey(s.secretShare).publicKey));
+      refreshed.forEach((s, i) => {
+        const old = payloadsRef.current.get(ids[i])!.share;
+        refreshedRef.current.set(ids[i], {
+          ...old,
+          secretShare: bigintToHex(s.secretShare),
+          publicShare: pointToHex(s.publicShare),
+        });
+        s.secretShare = 0n;
+        shares[i].secretShare = 0n;
+      });
+      publicSharesRef.current = [...refreshed]
+        .sort((a, b) => Number(a.index - b.index))
+        .map((s) => pointToHex(s.publicShare));
+      setPhase("rewrap");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Share refresh failed");
+    }
+  };
+
+  const handleRewrap = async (entry: StoredPasskeyShare) => {
+    const payload = payloadsRef.current.get(entry.credentialId);
+    const share = refreshedRef.current.get(entry.credentialId);
+    if (!payload || !share) return;
+
+    setError(null);
+    setBusy(entry.credentialId);
+    const result = await registerPasskeyForShare(
+      entry.name,
+      share,
+      payload.groupPublicKey,
+      payload.viewingPublicKey,
+      payload.groupConfig && {
+        ...payload.groupConfig,
+        publicShares: publicSharesRef.current,
+        identityKeys: identityKeysRef.current,
+      },
+      payload.viewingSecretKey,
+      payload.coordinationKey,
+      payload.viewingKeyShare
+    );
+    setBusy(null);
+    if (!result.ok) {
+      setError(result.error || "Failed to save passkey");
+      return;
+    }
+
+    refreshedRef.current.delete(entry.credentialId);
+    const done = [...rewrapped, entry.credentialId];
+    setRewrapped(done);
+
+    // Old passkeys go only once every new share is saved: until then the old set still signs
+    if (done.length === unlocked.length) {
+      for (const id of done) removeStoredShare(id);
+      payloadsRef.current.clear();
+      setPhase("done");
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-dark-card rounded-xl border border-dark-border p-4 mb-6">
+        <p className="text-sm font-medium text-white mb-1">Refresh key shares</p>
+        <p className="text-xs text-slate-400 mb-3">
+          Replaces every signer's share without changing the treasury address. Shares from before the
+          refresh stop working, so a share that leaked earlier is useless once the others are refreshed.
+          Every signer unlocks their passkey on this device, then saves the new share to a new passkey.
+        </p>
+
+        {!groupConfig ? (
+          <p className="text-xs text-slate-400">No signing group loaded.</p>
+        ) : entries.length < groupConfig.totalSigners ? (
+          <p className="text-xs text-amber-400">
+            Only {entries.length} of {groupConfig.totalSigners} signers' passkeys are stored on this device.
+            All signers must take part in a refresh.
+          </p>
+        ) : signingInProgress ? (
+          <p className="text-xs text-amber-400">
+            Finish or cancel payments that are being signed first: their partial signatures use the current
+            shares.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => {
+              const isUnlocked = unlocked.includes(entry.credentialId);
+              const isRewrapped = rewrapped.includes(entry.credentialId);
+              return (
+                <div
+                  key={entry.credentialId}
+                  className="flex items-center justify-between bg-dark-surface rounded-lg px-3 py-2"
+                >
+                  <div>
+                    <p className="text-sm text-white">{entry.name}</p>
+                    <p className="text-xs text-slate-400">{entry.role}</p>
+                  </div>
+                  {phase === "unlock" && (
+                    <button
+                      onClick={() => handleUnlock(entry)}
+                      disabled={isUnlocked || busy !== null}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium bg-dark-card border border-dark-border text-slate-300 hover:bg-dark-bg transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUnlocked ? "Unlocked" : busy === entry.credentialId ? "Unlocking..." : "Unlock"}
+                    </button>
+                  )}
+                  {phase !== "unlock" && isUnlocked && (
+                    <button
+                      onClick={() => handleRewrap(entry)}
+                      disabled={isRewrapped || busy !== null}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium bg-pavv-600 text-white hover:bg-pavv-500 transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isRewrapped ? "Saved" : busy === entry.credentialId ? "Saving..." : "Save to new passkey"}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+
+            {phase === "unlock" && (
+              <button
+                onClick={handleRefresh}
+                disabled={!allUnlocked}
+                className="w-full mt-2 px-4 py-2 rounded-lg text-sm font-medium bg-pavv-600 text-white hover:bg-pavv-500 transition-colors duration-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Refresh shares
+              </button>
+            )}
+            {phase === "done" && (
+              <button
+                onClick={onSharesRefreshed}
+                className="w-full mt-2 px-4 py-2 rounded-lg text-sm font-medium bg-pavv-600 text-white hover:bg-pavv-500 transition-colors duration-200 cursor-pointer"
+              >
+                Sign in with the new share
+              </button>
+            )}
+          </div>
+        )}
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import {
   registerPasskeyForShare,
   isWebAuthnAvailable,
 } from "../lib/passkey";
-import type { ShareData, CurvePoint, GroupConfig } from "../store/treasury";
+import type { ShareData, CurvePoint, GroupConfig, ViewingShareData } from "../store/treasury";
 
 interface PasskeyLoginProps {
   storedShares: StoredPasskeyShare[];
@@ -42,6 +42,7 @@ interface ParsedShareFile {
   groupPublicKey: CurvePoint;
   viewingPublicKey?: CurvePoint;
   groupConfig?: GroupConfig;
+  viewingKeyShare?: ViewingShareData;
   role: string;
 }
 
@@ -67,6 +68,9 @@ function parseShareJSON(text: string): ParsedShareFile | null {
           threshold: Number(parts[0]),
           totalSigners: Number(parts[1]),
           roles: [s.signerRole],
+          ...(s.publicShares && { publicShares: s.publicShares }),
+          ...(s.identityKeys && { identityKeys: s.identityKeys }),
+          ...(s.viewingPublicShares && { viewingPublicShares: s.viewingPublicShares }),
         };
       }
     }
@@ -74,8 +78,9 @@ function parseShareJSON(text: string): ParsedShareFile | null {
     return {
       share,
       groupPublicKey: s.groupPublicKey,
-      viewingPublicKey: s.viewingPublicKey ?? s.groupPublicKey,
+      viewingPublicKey: s.viewingPublicKey ?? s.viewingKeyShare?.viewingPublicKey ?? s.groupPublicKey,
       groupConfig,
+      viewingKeyShare: s.viewingKeyShare,
       role: s.signerRole ?? "Unknown",
     };
   } catch {
@@ -157,7 +162,10 @@ export function PasskeyLogin({
       importedShare.share,
       importedShare.groupPublicKey,
       importedShare.viewingPublicKey ?? importedShare.groupPublicKey,
-      importedShare.groupConfig
+      importedShare.groupConfig,
+      undefined,
+      undefined,
+      importedShare.viewingKeyShare
     );
 
     if (result.ok) {
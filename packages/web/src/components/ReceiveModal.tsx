@@ -1,18 +1,17 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useConnect, useAccount, useSwitchChain, useWriteContract } from "wagmi";
 import { parseEther } from "viem";
 import { toBytes32, getContractAddress } from "../lib/chain";
 import { blsGunAbi } from "../lib/abi";
 import { confluxESpaceTestnet, publicClient } from "../lib/wagmiConfig";
-import { initHash, poseidon2Hash2 } from "@blsgun/sdk/hash";
-import { generateStealthAddress } from "@blsgun/sdk/stealth";
-import { computeCommitment } from "@blsgun/sdk/transaction";
+import { initHash } from "@blsgun/sdk/hash";
+import { createStealthOutput, encodeMetaAddress, treasuryMetaAddress } from "../lib/stealthNote";
+import { NATIVE_ASSET } from "@blsgun/sdk/transaction";
 
 interface ReceiveModalProps {
   open: boolean;
   onClose: () => void;
   groupPublicKey: { x: string; y: string };
-  viewingPublicKey: { x: string; y: string };
   onDeposited: () => void;
 }
 
@@ -23,27 +22,36 @@ function truncateHex(hex: string, chars = 8): string {
 
 type DepositState = "idle" | "connecting" | "depositing" | "success";
 
-export function ReceiveModal({ open, onClose, groupPublicKey, viewingPublicKey, onDeposited }: ReceiveModalProps) {
+export function ReceiveModal({ open, onClose, groupPublicKey, onDeposited }: ReceiveModalProps) {
   const [amount, setAmount] = useState("");
   const [depositState, setDepositState] = useState<DepositState>("idle");
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [metaAddress, setMetaAddress] = useState<string | null>(null);
 
   const { connectAsync, connectors } = useConnect();
   const { isConnected, chainId } = useAccount();
   const { switchChainAsync } = useSwitchChain();
   const { writeContractAsync } = useWriteContract();
 
+  // The meta-address carries NK, a Poseidon hash: wait for the hash module
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    initHash()
+      .then(() => {
+        if (!cancelled) setMetaAddress(encodeMetaAddress(treasuryMetaAddress(groupPublicKey)));
+      })
+      .catch((err) => setError(err?.message || "Cannot derive the stealth meta-address"));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, groupPublicKey]);
+
   if (!open) return null;
 
   const handleCopy = async () => {
-    // Compressed: 0x + flags(2 hex) + spendX(64) + viewX(64) = 132 chars
-    // flags byte: bit 0 = spend y is odd, bit 1 = view y is odd
-    const pad = (hex: string) => BigInt(hex).toString(16).padStart(64, "0");
-    const spendYOdd = BigInt(groupPublicKey.y) % 2n === 1n ? 1 : 0;
-    const viewYOdd = BigInt(viewingPublicKey.y) % 2n === 1n ? 1 : 0;
-    const flags = (spendYOdd | (viewYOdd << 1)).toString(16).padStart(2, "0");
-    const metaAddress = "0x" + flags + pad(groupPublicKey.x) + pad(viewingPublicKey.x);
+    if (!metaAddress) return;
     await navigator.clipboard.writeText(metaAddress);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
@@ -84,31 +92,25 @@ export function ReceiveModal({ open, onClose, groupPublicKey, viewingPublicKey,
       setDepositState("depositing");
       await initHash();
 
-      const spendingPK = { x: BigInt(groupPublicKey.x), y: BigInt(groupPublicKey.y) };
-      const viewingPK = { x: BigInt(viewingPublicKey.x), y: BigInt(viewingPublicKey.y) };
-
-      const stealth = generateStealthAddress({ spendingPublicKey: spendingPK, viewingPublicKey: viewingPK });
-
-      const ownerHash = poseidon2Hash2(stealth.address.x, stealth.address.y);
       const amountWei = parseEther(amount);
-      const BLINDING_DOMAIN = 0x426c696e64696e67n; // "Blinding" in hex
-      const blinding = poseidon2Hash2(stealth.stealthScalar, BLINDING_DOMAIN);
-      const commitment = computeCommitment(ownerHash, amountWei, blinding);
-
-      const MASK_128 = (1n << 128n) - 1n;
-      const encryptedAmount = (amountWei ^ (stealth.stealthScalar & MASK_128)) & MASK_128;
-      const viewTag = Number(stealth.viewTag & 0xFFn);
+      const note = createStealthOutput(
+        treasuryMetaAddress(groupPublicKey),
+        NATIVE_ASSET,
+        amountWei
+      );
 
       const hash = await writeContractAsync({
         address: contractAddress as `0x${string}`,
         abi: blsGunAbi,
         functionName: "shield",
         args: [
-          toBytes32(commitment),
-          toBytes32(stealth.ephemeralPublicKey.x),
-          toBytes32(stealth.ephemeralPublicKey.y),
-          viewTag,
-          encryptedAmount,
+          toBytes32(note.owner),
+          toBytes32(note.blinding),
+          toBytes32(note.ephPubKey.x),
+          toBytes32(note.ephPubKey.y),
+          note.viewTag,
+          note.encryptedAmount,
+          note.encryptedNote as `0x${string}`,
         ],
         value: amountWei,
       });
@@ -163,7 +165,7 @@ export function ReceiveModal({ open, onClose, groupPublicKey, viewingPublicKey,
           <div className="bg-dark-surface rounded-lg p-3">
             <span className="text-xs text-slate-400">Stealth Meta-Address</span>
             <p className="text-sm text-slate-200 font-mono break-all mt-1 leading-relaxed">
-              {"0x" + (BigInt(groupPublicKey.y) % 2n === 1n ? 1 : 0 | (BigInt(viewingPublicKey.y) % 2n === 1n ? 2 : 0)).toString(16).padStart(2, "0") + BigInt(groupPublicKey.x).toString(16).padStart(64, "0") + BigInt(viewingPublicKey.x).toString(16).padStart(64, "0")}
+              {metaAddress ?? "Deriving…"}
             </p>
           </div>
           <button
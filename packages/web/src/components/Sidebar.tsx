@@ -1,7 +1,9 @@
 import { useState } from "react";
 import type { SignerRole, GroupConfig, KeyCeremonyData, Signer } from "../store/treasury";
+import { initHash } from "@blsgun/sdk/hash";
+import { encodeMetaAddress, treasuryMetaAddress } from "../lib/stealthNote";
 
-type Tab = "dashboard" | "payment" | "transactions" | "audit";
+type Tab = "dashboard" | "payment" | "transactions" | "audit" | "settings";
 
 interface SidebarProps {
   activeTab: Tab;
@@ -61,6 +63,16 @@ const navItems: { key: Tab; label: string; icon: JSX.Element }[] = [
       </svg>
     ),
   },
+  {
+    key: "settings",
+    label: "Settings",
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
+        <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+    ),
+  },
 ];
 
 export function Sidebar({
@@ -89,12 +101,9 @@ export function Sidebar({
   const [copied, setCopied] = useState(false);
 
   const handleCopyAddress = async () => {
-    if (!keyCeremony?.groupPublicKey || !keyCeremony?.viewingPublicKey) return;
-    const pad = (hex: string) => BigInt(hex).toString(16).padStart(64, "0");
-    const spendYOdd = BigInt(keyCeremony.groupPublicKey.y) % 2n === 1n ? 1 : 0;
-    const viewYOdd = BigInt(keyCeremony.viewingPublicKey.y) % 2n === 1n ? 1 : 0;
-    const flags = (spendYOdd | (viewYOdd << 1)).toString(16).padStart(2, "0");
-    const metaAddress = "0x" + flags + pad(keyCeremony.groupPublicKey.x) + pad(keyCeremony.viewingPublicKey.x);
+    if (!keyCeremony?.groupPublicKey) return;
+    await initHash();
+    const metaAddress = encodeMetaAddress(treasuryMetaAddress(keyCeremony.groupPublicKey));
     await navigator.clipboard.writeText(metaAddress);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
@@ -183,18 +192,6 @@ export function Sidebar({
             )}
           </button>
         ))}
-
-        {/* Settings (disabled) */}
-        <button
-          disabled
-          className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm font-medium text-sidebar-text/30 border-l-2 border-transparent cursor-not-allowed"
-        >
-          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
-            <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-          </svg>
-          <span>Settings</span>
-        </button>
       </nav>
 
       {/* Session warning */}
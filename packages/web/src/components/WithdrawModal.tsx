@@ -1,17 +1,30 @@
 import { useState } from "react";
-import type { PendingPayment, GroupConfig, CurvePoint } from "../store/treasury";
-import type { ScannedNote } from "../lib/balanceScanner";
-import { initHash, poseidon2Hash2 } from "@blsgun/sdk/hash";
-import { computeNullifier } from "@blsgun/sdk/transaction";
-import { scalarMul, pointAdd, toAffine, fromAffine, G } from "@blsgun/sdk/grumpkin";
-import { parseEther, formatEther } from "viem";
-import { deriveNonces } from "../lib/frostSigning";
+import type { PendingPayment, GroupConfig, CurvePoint, SigningData } from "../store/treasury";
+import type { AssetBalance, ScannedNote } from "../lib/balanceScanner";
+import { initHash } from "@blsgun/sdk/hash";
+import { NATIVE_ASSET, assetId, computeTransactionMessage } from "@blsgun/sdk/transaction";
+import {
+  computeNullifierKeyCommitment,
+  computeStealthPublicKey,
+  computeStealthSpendingKeyHash,
+} from "@blsgun/sdk/stealth";
+import { parseUnits, formatUnits } from "viem";
+import { deriveNonces, signNonceCommitment, paymentDeadline } from "../lib/frostSigning";
+import { paymentFeeTerms } from "../lib/relayer";
+import {
+  createStealthOutput,
+  encodeMetaAddress,
+  treasuryMetaAddress,
+  treasuryNullifyingKey,
+  treasuryOutgoingViewingKey,
+} from "../lib/stealthNote";
 import { getSession } from "../lib/session";
 
 interface WithdrawModalProps {
   open: boolean;
   onClose: () => void;
   notes?: ScannedNote[];
+  assetBalances?: AssetBalance[];
   groupPublicKey?: CurvePoint | null;
   groupConfig?: GroupConfig | null;
   onCreateWithdraw: (payment: PendingPayment) => void;
@@ -21,19 +34,31 @@ export function WithdrawModal({
   open,
   onClose,
   notes,
+  assetBalances,
   groupPublicKey,
   groupConfig,
   onCreateWithdraw,
 }: WithdrawModalProps) {
   const [recipient, setRecipient] = useState("");
   const [amount, setAmount] = useState("");
+  const [asset, setAsset] = useState(NATIVE_ASSET);
   const [selectedNoteIdx, setSelectedNoteIdx] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
 
   if (!open) return null;
 
-  const unspentNotes = (notes ?? []).filter((n) => !n.isSpent && n.amount > 0n);
+  // A withdrawal spends one asset; the amount, change and fee are in that asset
+  const heldAssets = [NATIVE_ASSET, ...(assetBalances ?? []).filter((b) => b.asset !== NATIVE_ASSET && b.balance > 0n).map((b) => b.asset)];
+  const unit = assetBalances?.find((b) => b.asset === asset);
+  const symbol = unit?.symbol ?? NATIVE_ASSET;
+  const decimals = unit?.decimals ?? 18;
+  const unspentNotes = (notes ?? []).filter((n) => !n.isSpent && n.amount > 0n && n.asset === asset);
+
+  const selectAsset = (next: string) => {
+    setAsset(next);
+    setSelectedNoteIdx(null);
+  };
   const threshold = groupConfig?.threshold ?? 2;
 
   const handleCreateWithdraw = async () => {
@@ -55,18 +80,19 @@ export function WithdrawModal({
     try {
       await initHash();
 
-      const amountWei = parseEther(amount);
+      const amountWei = parseUnits(amount, decimals);
+      const { fee, relayer } = await paymentFeeTerms(asset);
 
-      // Select note to spend
+      // Select note to spend (it must also cover the relayer fee)
       let noteToSpend: ScannedNote;
       if (selectedNoteIdx !== null) {
         noteToSpend = unspentNotes[selectedNoteIdx];
-        if (noteToSpend.amount < amountWei) {
+        if (noteToSpend.amount < amountWei + fee) {
           throw new Error("Selected note has insufficient balance");
         }
       } else {
         const suitable = unspentNotes
-          .filter((n) => n.amount >= amountWei)
+          .filter((n) => n.amount >= amountWei + fee)
           .sort((a, b) => (a.amount < b.amount ? -1 : 1));
         if (suitable.length === 0) {
           throw new Error("No note with sufficient balance for this withdrawal");
@@ -74,19 +100,33 @@ export function WithdrawModal({
         noteToSpend = suitable[0];
       }
 
-      // Compute stealth public key for spendingKeyHash
-      const stealthPubKey = toAffine(
-        pointAdd(
-          scalarMul(G, noteToSpend.stealthScalar),
-          fromAffine({ x: BigInt(groupPublicKey!.x), y: BigInt(groupPublicKey!.y) })
-        )
-      );
-      const spendingKeyHash = poseidon2Hash2(stealthPubKey.x, stealthPubKey.y);
+      // Compute stealth public key and owner field (bound to the treasury's NK)
+      const groupPK = { x: BigInt(groupPublicKey!.x), y: BigInt(groupPublicKey!.y) };
+      const stealthPubKey = computeStealthPublicKey(groupPK, noteToSpend.stealthScalar);
+      const nkCommitment = computeNullifierKeyCommitment(treasuryNullifyingKey());
+      const spendingKeyHash = computeStealthSpendingKeyHash(groupPK, noteToSpend.stealthScalar, nkCommitment);
+
+      // Return the remainder to the treasury as a change note
+      // (circuit enforces: note amount = withdrawn + change + fee)
+      const changeAmount = noteToSpend.amount - amountWei - fee;
+      const changeMeta = changeAmount > 0n ? treasuryMetaAddress(groupPublicKey!) : null;
+      const change = changeMeta ? createStealthOutput(changeMeta, asset, changeAmount, "", treasuryOutgoingViewingKey()) : null;
+      const changeCommitment = change?.commitment ?? 0n;
 
-      // Compute nullifier and message (must match circuit: message = hash_2(nullifier, commitment))
-      const nullifier = computeNullifier(spendingKeyHash, BigInt(noteToSpend.leafIndex));
-      const inputCommitmentBigint = BigInt(noteToSpend.commitment);
-      const message = poseidon2Hash2(nullifier, inputCommitmentBigint);
+      // Nullifier (derived by the scan from the nullifying key) and message
+      // (binds change, recipient, amount, fee, relayer and deadline)
+      const nullifier = BigInt(noteToSpend.nullifier);
+      const deadline = paymentDeadline();
+      const message = computeTransactionMessage(
+        [nullifier],
+        [changeCommitment],
+        fee,
+        deadline,
+        BigInt(recipient),
+        amountWei,
+        assetId(asset),
+        BigInt(relayer)
+      );
 
       const paymentId = crypto.randomUUID();
 
@@ -94,14 +134,15 @@ export function WithdrawModal({
       const session = getSession();
       if (!session) throw new Error("No active session");
       const signerIndex = session.share.index;
-      const nonce = deriveNonces(session.share.secretShare, paymentId);
+      const nonce = deriveNonces(session.share.secretShare, paymentId, signerIndex, message);
 
-      const nonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string }> = {
+      const nonceCommitments: SigningData["nonceCommitments"] = {
         [signerIndex.toString()]: {
           Dx: nonce.D.x.toString(),
           Dy: nonce.D.y.toString(),
           Ex: nonce.E.x.toString(),
           Ey: nonce.E.y.toString(),
+          auth: signNonceCommitment(session.share.secretShare, signerIndex, message, nonce),
         },
       };
 
@@ -109,6 +150,7 @@ export function WithdrawModal({
         id: paymentId,
         recipient: `${recipient.slice(0, 10)}...${recipient.slice(-8)}`,
         amount,
+        symbol,
         memo: "Withdraw to public address",
         createdBy: session.share.role,
         createdAt: Date.now(),
@@ -117,6 +159,7 @@ export function WithdrawModal({
         status: "pending",
         txType: "withdraw",
         signingData: {
+          asset,
           inputCommitment: noteToSpend.commitment,
           inputAmount: noteToSpend.amount.toString(),
           inputBlinding: noteToSpend.blinding.toString(),
@@ -125,8 +168,24 @@ export function WithdrawModal({
           inputStealthPubKeyX: stealthPubKey.x.toString(),
           inputStealthPubKeyY: stealthPubKey.y.toString(),
           inputSpendingKeyHash: spendingKeyHash.toString(),
+          ...(change && {
+            outputCommitment: change.commitment.toString(),
+            outputOwner: change.owner.toString(),
+            outputAmount: change.amount.toString(),
+            outputBlinding: change.blinding.toString(),
+            outputEphPubKeyX: change.ephPubKey.x.toString(),
+            outputEphPubKeyY: change.ephPubKey.y.toString(),
+            outputViewTag: change.viewTag,
+            outputEncryptedAmount: change.encryptedAmount.toString(),
+            outputEncryptedNote: change.encryptedNote,
+            outputRecipient: encodeMetaAddress(changeMeta!),
+            outputEphemeralSecret: change.ephemeralSecretKey.toString(),
+          }),
           withdrawRecipient: recipient,
           withdrawAmountWei: amountWei.toString(),
+          fee: fee.toString(),
+          ...(BigInt(relayer) !== 0n && { relayer }),
+          deadline: deadline.toString(),
           message: message.toString(),
           nullifier: nullifier.toString(),
           nonceCommitments,
@@ -162,9 +221,30 @@ export function WithdrawModal({
         </div>
 
         <p className="text-sm text-slate-400 mb-4">
-          Withdraw shielded CFX to a public Conflux eSpace address. This requires threshold signatures and a ZK proof.
+          Withdraw shielded funds to a public Conflux eSpace address. This requires threshold signatures and a ZK proof.
         </p>
 
+        {/* Asset selection (shown once the treasury holds a token) */}
+        {heldAssets.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {heldAssets.map((a) => (
+              <button
+                key={a}
+                type="button"
+                title={a}
+                onClick={() => selectAsset(a)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors cursor-pointer ${
+                  asset === a
+                    ? "border-pavv-500 bg-pavv-500/10 text-white"
+                    : "border-dark-border bg-dark-surface text-slate-400 hover:border-slate-500"
+                }`}
+              >
+                {assetBalances?.find((b) => b.asset === a)?.symbol ?? a}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Note selection */}
         {unspentNotes.length > 0 && (
           <div className="mb-4">
@@ -183,7 +263,7 @@ export function WithdrawModal({
                 >
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-white font-medium">
-                      {formatEther(note.amount)} CFX
+                      {formatUnits(note.amount, decimals)} {symbol}
                     </span>
                     <span className="text-xs text-slate-400">
                       Leaf #{note.leafIndex}
@@ -225,7 +305,7 @@ export function WithdrawModal({
               step="0.01"
               className="flex-1 bg-dark-surface border border-dark-border rounded-lg px-3 py-2.5 text-base text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-pavv-500 focus:border-transparent transition-colors duration-200"
             />
-            <span className="text-sm font-medium text-slate-400">CFX</span>
+            <span className="text-sm font-medium text-slate-400">{symbol}</span>
           </div>
         </div>
 
@@ -235,7 +315,7 @@ export function WithdrawModal({
             <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
           </svg>
           <p className="text-xs text-amber-400">
-            Unshielding requires {threshold} signers and a ZK proof. This will be submitted as a pending transaction for co-signers to approve.
+            Unshielding requires {threshold} signers and a ZK proof. Any remainder of the note is returned to the treasury as a new shielded note. This will be submitted as a pending transaction for co-signers to approve.
           </p>
         </div>
 
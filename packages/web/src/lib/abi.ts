@@ -5,10 +5,12 @@ export const blsGunAbi = [
     inputs: [
       { name: "sender", type: "address", indexed: true },
       { name: "commitment", type: "bytes32", indexed: true },
+      { name: "token", type: "address", indexed: true },
       { name: "ephPubKeyX", type: "bytes32", indexed: false },
       { name: "ephPubKeyY", type: "bytes32", indexed: false },
       { name: "viewTag", type: "uint8", indexed: false },
       { name: "encryptedAmount", type: "uint128", indexed: false },
+      { name: "encryptedNote", type: "bytes", indexed: false },
     ],
   },
   {
@@ -17,10 +19,12 @@ export const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32", indexed: true },
       { name: "outputCommitment", type: "bytes32", indexed: true },
+      { name: "token", type: "address", indexed: true },
       { name: "ephPubKeyX", type: "bytes32", indexed: false },
       { name: "ephPubKeyY", type: "bytes32", indexed: false },
       { name: "viewTag", type: "uint8", indexed: false },
       { name: "encryptedAmount", type: "uint128", indexed: false },
+      { name: "encryptedNote", type: "bytes", indexed: false },
     ],
   },
   {
@@ -29,7 +33,37 @@ export const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32", indexed: true },
       { name: "recipient", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
       { name: "amount", type: "uint256", indexed: false },
+      { name: "changeCommitment", type: "bytes32", indexed: false },
+      { name: "ephPubKeyX", type: "bytes32", indexed: false },
+      { name: "ephPubKeyY", type: "bytes32", indexed: false },
+      { name: "viewTag", type: "uint8", indexed: false },
+      { name: "encryptedAmount", type: "uint128", indexed: false },
+      { name: "encryptedNote", type: "bytes", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Transact",
+    inputs: [
+      { name: "nullifiers", type: "bytes32[2]", indexed: false },
+      { name: "outputCommitments", type: "bytes32[2]", indexed: false },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "publicAmount", type: "uint256", indexed: false },
+      {
+        name: "outputs",
+        type: "tuple[2]",
+        indexed: false,
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
     ],
   },
   {
@@ -37,11 +71,36 @@ export const blsGunAbi = [
     name: "shield",
     stateMutability: "payable",
     inputs: [
-      { name: "commitment", type: "bytes32" },
+      { name: "owner", type: "bytes32" },
+      { name: "blinding", type: "bytes32" },
       { name: "ephPubKeyX", type: "bytes32" },
       { name: "ephPubKeyY", type: "bytes32" },
       { name: "viewTag", type: "uint8" },
       { name: "encryptedAmount", type: "uint128" },
+      { name: "encryptedNote", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "shieldERC20",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "owner", type: "bytes32" },
+      { name: "blinding", type: "bytes32" },
+      {
+        name: "meta",
+        type: "tuple",
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
     ],
     outputs: [],
   },
@@ -52,12 +111,30 @@ export const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" },
       { name: "inputCommitment", type: "bytes32" },
+      { name: "merkleRoot", type: "bytes32" },
       { name: "outputCommitment", type: "bytes32" },
+      {
+        name: "relay",
+        type: "tuple",
+        components: [
+          { name: "fee", type: "uint256" },
+          { name: "relayer", type: "address" },
+        ],
+      },
+      { name: "deadline", type: "uint256" },
       { name: "proof", type: "bytes" },
-      { name: "ephPubKeyX", type: "bytes32" },
-      { name: "ephPubKeyY", type: "bytes32" },
-      { name: "viewTag", type: "uint8" },
-      { name: "encryptedAmount", type: "uint128" },
+      {
+        name: "output",
+        type: "tuple",
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
+      { name: "token", type: "address" },
     ],
     outputs: [],
   },
@@ -68,9 +145,103 @@ export const blsGunAbi = [
     inputs: [
       { name: "nullifier", type: "bytes32" },
       { name: "inputCommitment", type: "bytes32" },
+      { name: "merkleRoot", type: "bytes32" },
+      { name: "recipient", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "changeCommitment", type: "bytes32" },
+      {
+        name: "relay",
+        type: "tuple",
+        components: [
+          { name: "fee", type: "uint256" },
+          { name: "relayer", type: "address" },
+        ],
+      },
+      { name: "deadline", type: "uint256" },
+      { name: "proof", type: "bytes" },
+      {
+        name: "change",
+        type: "tuple",
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "unshieldERC20",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "nullifier", type: "bytes32" },
+      { name: "inputCommitment", type: "bytes32" },
+      { name: "merkleRoot", type: "bytes32" },
       { name: "recipient", type: "address" },
       { name: "amount", type: "uint256" },
+      { name: "changeCommitment", type: "bytes32" },
+      {
+        name: "relay",
+        type: "tuple",
+        components: [
+          { name: "fee", type: "uint256" },
+          { name: "relayer", type: "address" },
+        ],
+      },
+      { name: "deadline", type: "uint256" },
+      { name: "proof", type: "bytes" },
+      {
+        name: "change",
+        type: "tuple",
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "transact",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "nullifierSlots", type: "bytes32[2]" },
+      { name: "inputCommitments", type: "bytes32[2]" },
+      { name: "merkleRoot", type: "bytes32" },
+      { name: "outputCommitments", type: "bytes32[2]" },
+      { name: "recipient", type: "address" },
+      { name: "publicAmount", type: "uint256" },
+      {
+        name: "relay",
+        type: "tuple",
+        components: [
+          { name: "fee", type: "uint256" },
+          { name: "relayer", type: "address" },
+        ],
+      },
+      { name: "deadline", type: "uint256" },
       { name: "proof", type: "bytes" },
+      {
+        name: "outputs",
+        type: "tuple[2]",
+        components: [
+          { name: "ephPubKeyX", type: "bytes32" },
+          { name: "ephPubKeyY", type: "bytes32" },
+          { name: "viewTag", type: "uint8" },
+          { name: "encryptedAmount", type: "uint128" },
+          { name: "encryptedNote", type: "bytes" },
+        ],
+      },
+      { name: "token", type: "address" },
     ],
     outputs: [],
   },
@@ -81,6 +252,13 @@ export const blsGunAbi = [
     inputs: [{ name: "nullifier", type: "bytes32" }],
     outputs: [{ name: "", type: "bool" }],
   },
+  {
+    type: "function",
+    name: "isKnownRoot",
+    stateMutability: "view",
+    inputs: [{ name: "_root", type: "bytes32" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
   {
     type: "function",
     name: "getMerkleRoot",
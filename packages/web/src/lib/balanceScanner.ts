@@ -1,47 +1,126 @@
 /**
  * On-chain balance scanner with EIP-5564 stealth scanning.
  *
- * Scans Shield and PrivateTransfer events, uses the viewing key to
+ * Indexes Shield, PrivateTransfer, Unshield (change note) and Transact events
+ * incrementally from the deployment block (SDK PoolIndexer, checkpointed in
+ * IndexedDB, so a refresh only fetches new blocks), uses the viewing key to
  * identify notes belonging to this wallet via 1-byte viewTag fast-reject,
- * decrypts amounts via XOR, and checks nullifier spent status.
+ * opens each note and checks nullifier spent status. Every event names the
+ * note's token, so balances are reported per asset.
  *
- * Also builds a local Merkle tree from ALL on-chain commitments (in block order)
- * so that spending proofs can be generated client-side.
+ * A note's memo comes from its authenticated ciphertext (SDK decryptNote).
+ * It is only shown when the ciphertext decrypts and agrees with the opening
+ * the circuit proved, so a sender cannot attach a misleading one.
+ *
+ * The treasury's meta-address uses a viewing key per epoch (calendar
+ * quarter) derived from the master viewing key, so every epoch from the
+ * deployment block's to the current one is scanned with its own key.
+ *
+ * Outputs this wallet sent carry an outgoing ciphertext under its outgoing
+ * viewing key (derived from the epoch viewing key). The scan decrypts them into
+ * sentPayments — recipient, amount and memo — for the audit history; change
+ * back to this wallet is left out.
+ *
+ * Nullifiers are Poseidon(nk, commitment, leafIndex), with nk derived from the
+ * viewing key, so the scan needs no spending-side key.
+ *
+ * In threshold viewing mode there is no viewing key to scan with: the scan key
+ * picks the candidate notes by their scan tag, this signer files its partials
+ * for them, and a note opens once t signers' partials verify
+ * (lib/thresholdViewing.ts). Until then it counts as locked. nk is held as is,
+ * and there are no epochs or outgoing ciphertexts.
+ *
+ * Spent status is read for every note's nullifier in one multicall and
+ * cross-checked against the nullifiers revealed by PrivateTransfer, Unshield
+ * and Transact events. A note counts as spent if either source says so.
+ *
+ * The indexer also maintains the Merkle tree over ALL on-chain commitments (in
+ * block order) so that spending proofs can be generated client-side. Proofs are pinned to
+ * this tree's root, which the contract keeps accepting while it is one of its
+ * recent roots — new deposits during proving do not invalidate the proof.
  */
 
+import { erc20Abi } from "viem";
 import { publicClient } from "./wagmiConfig";
 import { blsGunAbi } from "./abi";
-import { formatBalance, getContractAddress } from "./chain";
-import { checkStealthAddress } from "@blsgun/sdk/stealth";
-import { initHash, poseidon2Hash2 } from "@blsgun/sdk/hash";
-import { MerkleTree } from "@blsgun/sdk/transaction";
-import { scalarMul, pointAdd, toAffine, fromAffine, G } from "@blsgun/sdk/grumpkin";
+import { formatBalance, getContractAddress, toBytes32 } from "./chain";
+import { createPoolEventSource } from "./poolEventSource";
+import {
+  openStealthNote,
+  openStealthNoteWithSharedSecret,
+  checkScanTag,
+  computeNullifierKeyCommitment,
+  computeStealthSpendingKeyHash,
+  deriveNullifyingKey,
+  deriveOutgoingViewingKey,
+  deriveEpochViewingKey,
+  viewingKeyEpoch,
+} from "@blsgun/sdk/stealth";
+import { initHash } from "@blsgun/sdk/hash";
+import { G, scalarMul, toAffine } from "@blsgun/sdk/grumpkin";
+import { MerkleTree, NATIVE_ASSET, assetId, computeCommitment, computeNullifier } from "@blsgun/sdk/transaction";
+import { decryptNote, decryptOutgoingNote, readScanTag } from "@blsgun/sdk/note-encryption";
+import { PoolIndexer, IndexedDBCheckpointStore, type PoolLeaf } from "@blsgun/sdk/indexer";
 import type { GrumpkinPoint } from "@blsgun/sdk/types";
+import type { CurvePoint, ViewingShareData } from "../store/treasury";
+import { encodeMetaAddress } from "./stealthNote";
+import { combineViewingPartials, contributeViewingPartials, loadViewingPartials } from "./thresholdViewing";
 
-const BLINDING_DOMAIN = 0x426c696e64696e67n; // "Blinding" in hex
+/** Block BLSGun was deployed in: the indexer's starting point */
+const DEPLOYMENT_BLOCK = Number(import.meta.env.VITE_BLSGUN_DEPLOY_BLOCK || 0);
 
 export interface ScannedNote {
   commitment: string;
+  asset: string; // "CFX" or ERC-20 token address
   amount: bigint;
   blockNumber: number;
   txHash: string;
-  type: "shield" | "transfer";
+  type: "shield" | "transfer" | "change";
   isSpent: boolean;
+  nullifier: string;
   stealthScalar: bigint;
-  spendingKeyHash: bigint;
+  spendingKeyHash: bigint; // 0 when scanned without the group public key
   blinding: bigint;
   leafIndex: number;
+  memo?: string; // From the encrypted note, when present and consistent
+}
+
+/** A payment this wallet sent, recovered with its outgoing viewing key */
+export interface SentPayment {
+  commitment: string;
+  asset: string; // "CFX" or ERC-20 token address
+  amount: bigint;
+  recipient: string; // Encoded stealth meta-address of the counterparty
+  memo?: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface AssetBalance {
+  asset: string; // "CFX" or ERC-20 token address
+  symbol: string;
+  decimals: number;
+  balance: bigint;
+  formatted: string;
 }
 
 export interface ScanResult {
   notes: ScannedNote[];
-  totalBalance: bigint;
+  sentPayments: SentPayment[];
+  totalBalance: bigint; // Native CFX only — see assetBalances for tokens
   formattedBalance: string;
+  assetBalances: AssetBalance[]; // Unspent balance per asset, CFX first
+  lockedNotes: number; // Threshold viewing: candidate notes still short of t signers' partials
   scannedToBlock: number;
 }
 
-/** 128-bit mask for XOR amount decryption */
-const MASK_128 = (1n << 128n) - 1n;
+/** Keys for a scan in threshold viewing mode */
+export interface ThresholdScanKeys {
+  viewingKeyShare: ViewingShareData;
+  signerIndex: number; // Whose share it is (its secretShare is "" in the dealer's session)
+  publicShares: CurvePoint[]; // [vsk_i]G by signer index - 1
+  threshold: number;
+}
 
 let hashInitialized = false;
 
@@ -51,7 +130,7 @@ async function ensureHashInit(): Promise<void> {
   hashInitialized = true;
 }
 
-/** Module-level Merkle tree rebuilt on each scan */
+/** Module-level Merkle tree rebuilt on each scan (only kept if its root is known on-chain) */
 let _localTree: MerkleTree | null = null;
 
 /** Get the locally reconstructed Merkle tree (available after scanBalance) */
@@ -59,165 +138,373 @@ export function getLocalMerkleTree(): MerkleTree | null {
   return _localTree;
 }
 
-interface OnChainEvent {
-  commitment: bigint;
-  ephPubKeyX: bigint;
-  ephPubKeyY: bigint;
-  viewTag: bigint;
-  encryptedAmount: bigint;
-  blockNumber: number;
-  txHash: string;
-  logIndex: number;
-  type: "shield" | "transfer";
+/** Viewing-key epoch of the deployment block: the first one scanned */
+let _firstEpoch: number | null = null;
+
+async function firstScanEpoch(): Promise<number> {
+  if (_firstEpoch === null) {
+    const block = await publicClient.getBlock({ blockNumber: BigInt(DEPLOYMENT_BLOCK) });
+    _firstEpoch = viewingKeyEpoch(Number(block.timestamp) * 1000);
+  }
+  return _firstEpoch;
+}
+
+/** Scanning keys of one epoch */
+interface EpochKeys {
+  viewingSecretKey: bigint;
+  outgoingViewingKey: bigint;
+  viewingPublicKey: GrumpkinPoint;
+}
+
+/** Indexer for the configured pool, persisted in IndexedDB per chain and contract */
+let _indexer: { address: string; indexer: PoolIndexer } | null = null;
+
+function getIndexer(address: `0x${string}`): PoolIndexer {
+  if (_indexer?.address !== address) {
+    const store = new IndexedDBCheckpointStore(`${publicClient.chain.id}:${address.toLowerCase()}`);
+    _indexer = {
+      address,
+      indexer: new PoolIndexer(createPoolEventSource(address), store, { deploymentBlock: DEPLOYMENT_BLOCK }),
+    };
+  }
+  return _indexer.indexer;
+}
+
+/**
+ * Threshold viewing: file this signer's partials for every note the scan key
+ * matches, then combine the ECDH secret of each candidate that t signers
+ * have contributed to. Returns the secrets by ephemeral key x and how many
+ * candidates are still locked.
+ */
+function thresholdSharedSecrets(
+  leaves: PoolLeaf[],
+  keys: ThresholdScanKeys
+): { sharedSecrets: Map<bigint, GrumpkinPoint>; locked: number } {
+  const { viewingKeyShare, signerIndex, publicShares, threshold } = keys;
+  const scanSecretKey = BigInt(viewingKeyShare.scanSecretKey);
+  const candidates: GrumpkinPoint[] = [];
+  for (const leaf of leaves) {
+    if (leaf.ephPubKeyX === 0n || !leaf.encryptedNote) continue;
+    const scanTag = readScanTag(leaf.encryptedNote);
+    const ephemeralPublicKey = { x: leaf.ephPubKeyX, y: leaf.ephPubKeyY };
+    if (scanTag !== null && checkScanTag(ephemeralPublicKey, scanTag, scanSecretKey)) {
+      candidates.push(ephemeralPublicKey);
+    }
+  }
+
+  const publicShare = publicShares[signerIndex - 1];
+  if (viewingKeyShare.secretShare && publicShare) {
+    const share = {
+      index: BigInt(signerIndex),
+      secretShare: BigInt(viewingKeyShare.secretShare),
+      publicShare: { x: BigInt(publicShare.x), y: BigInt(publicShare.y) },
+    };
+    const added = contributeViewingPartials(share, candidates);
+    if (added > 0) console.log(`[scanBalance] filed ${added} viewing partials for signer ${signerIndex}`);
+  }
+
+  const store = loadViewingPartials();
+  const sharedSecrets = new Map<bigint, GrumpkinPoint>();
+  for (const ephemeralPublicKey of candidates) {
+    const sharedSecret = combineViewingPartials(store, ephemeralPublicKey, publicShares, threshold);
+    if (sharedSecret) sharedSecrets.set(ephemeralPublicKey.x, sharedSecret);
+  }
+  return { sharedSecrets, locked: candidates.length - sharedSecrets.size };
 }
 
 /**
  * Scan on-chain events for notes belonging to this wallet.
  *
- * @param viewingSecretKey - Hex-encoded viewing secret key
+ * @param viewingKey - Hex-encoded master viewing secret key, or the keys of
+ *   threshold viewing mode
  * @param groupPublicKey - Optional group public key for spendingKeyHash derivation
+ *   (nullifiers only need the viewing key)
  * @returns Scan result with matched notes, total balance, and block height
  */
 export async function scanBalance(
-  viewingSecretKey: string,
+  viewingKey: string | ThresholdScanKeys,
   groupPublicKey?: GrumpkinPoint
 ): Promise<ScanResult> {
   const contractAddress = getContractAddress();
   if (!contractAddress) {
-    return { notes: [], totalBalance: 0n, formattedBalance: "0", scannedToBlock: 0 };
+    return {
+      notes: [],
+      sentPayments: [],
+      totalBalance: 0n,
+      formattedBalance: "0",
+      assetBalances: [],
+      lockedNotes: 0,
+      scannedToBlock: 0,
+    };
   }
 
   await ensureHashInit();
 
   const address = contractAddress as `0x${string}`;
-  const currentBlock = await publicClient.getBlockNumber();
-  const vsk = BigInt(viewingSecretKey);
-
-  // Use a reasonable scan window — public RPCs reject huge ranges.
-  // For local (Hardhat) scan from 0; for testnet scan last 50k blocks.
-  const MAX_SCAN_RANGE = 50_000n;
-  const fromBlock = currentBlock > MAX_SCAN_RANGE ? currentBlock - MAX_SCAN_RANGE : 0n;
+  const thresholdKeys = typeof viewingKey === "string" ? null : viewingKey;
+  const vsk = typeof viewingKey === "string" ? BigInt(viewingKey) : null;
+  const nullifyingKey = thresholdKeys
+    ? BigInt(thresholdKeys.viewingKeyShare.nullifyingKey)
+    : deriveNullifyingKey(vsk!);
+  const nkCommitment = computeNullifierKeyCommitment(nullifyingKey);
 
-  // Collect ALL events in block order for Merkle tree reconstruction
-  const allEvents: OnChainEvent[] = [];
+  // No epoch keys in threshold viewing mode
+  const epochKeys: EpochKeys[] = [];
+  if (vsk !== null) {
+    for (let epoch = await firstScanEpoch(); epoch <= viewingKeyEpoch(Date.now()); epoch++) {
+      const epochVsk = deriveEpochViewingKey(vsk, epoch);
+      epochKeys.push({
+        viewingSecretKey: epochVsk,
+        outgoingViewingKey: deriveOutgoingViewingKey(epochVsk),
+        viewingPublicKey: toAffine(scalarMul(G, epochVsk)),
+      });
+    }
+  }
 
-  // 1. Scan Shield events
-  const shieldLogs = await publicClient.getLogs({
-    address,
-    event: blsGunAbi[0], // Shield event
-    fromBlock,
-    toBlock: currentBlock,
-  });
+  // 1. Index new blocks since the last refresh (the first sync starts at the
+  //    deployment block, so old notes are never dropped)
+  const indexer = getIndexer(address);
+  const { toBlock, reorged } = await indexer.sync();
+  if (reorged) console.warn("[scanBalance] chain reorg — orphaned blocks re-indexed");
+  const currentBlock = BigInt(toBlock);
 
-  for (const log of shieldLogs) {
-    const { commitment, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount } = log.args;
-    if (!commitment) continue;
-    allEvents.push({
-      commitment: BigInt(commitment),
-      ephPubKeyX: ephPubKeyX ? BigInt(ephPubKeyX) : 0n,
-      ephPubKeyY: ephPubKeyY ? BigInt(ephPubKeyY) : 0n,
-      viewTag: BigInt(viewTag ?? 0),
-      encryptedAmount: BigInt(encryptedAmount ?? 0),
-      blockNumber: Number(log.blockNumber),
-      txHash: log.transactionHash,
-      logIndex: log.logIndex ?? 0,
-      type: "shield",
-    });
-  }
-
-  // 2. Scan PrivateTransfer events
-  const transferLogs = await publicClient.getLogs({
-    address,
-    event: blsGunAbi[1], // PrivateTransfer event
-    fromBlock,
-    toBlock: currentBlock,
-  });
+  const threshold = thresholdKeys
+    ? thresholdSharedSecrets(indexer.events.flatMap((evt) => evt.leaves), thresholdKeys)
+    : null;
 
-  for (const log of transferLogs) {
-    const { outputCommitment, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount } = log.args;
-    if (!outputCommitment) continue;
-    allEvents.push({
-      commitment: BigInt(outputCommitment),
-      ephPubKeyX: ephPubKeyX ? BigInt(ephPubKeyX) : 0n,
-      ephPubKeyY: ephPubKeyY ? BigInt(ephPubKeyY) : 0n,
-      viewTag: BigInt(viewTag ?? 0),
-      encryptedAmount: BigInt(encryptedAmount ?? 0),
-      blockNumber: Number(log.blockNumber),
-      txHash: log.transactionHash,
-      logIndex: log.logIndex ?? 0,
-      type: "transfer",
-    });
-  }
-
-  // Sort by block number then log index to get insertion order
-  allEvents.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
-
-  // 3. Build Merkle tree from all events and identify our notes
-  const tree = new MerkleTree();
+  // 2. Identify our notes among all indexed leaves (in tree insertion order)
   const notes: ScannedNote[] = [];
+  const sentPayments: SentPayment[] = [];
+  let leafIndex = -1;
 
-  for (const evt of allEvents) {
-    const leafIndex = tree.insert(evt.commitment);
+  for (const evt of indexer.events) {
+    for (const leaf of evt.leaves) {
+      leafIndex++;
 
-    // Skip events with zero ephemeral key (can't scan)
-    if (evt.ephPubKeyX === 0n) continue;
+      // Skip leaves with zero ephemeral key (can't scan)
+      if (leaf.ephPubKeyX === 0n) continue;
 
-    const ephPK = { x: evt.ephPubKeyX, y: evt.ephPubKeyY };
-    const stealthScalar = checkStealthAddress(ephPK, evt.viewTag, vsk);
-    if (stealthScalar === null) continue;
+      const sent = sentPayment(leaf, epochKeys);
+      if (sent) sentPayments.push({ ...sent, blockNumber: evt.blockNumber, txHash: evt.txHash });
 
-    const amount = evt.encryptedAmount ^ (stealthScalar & MASK_128);
-    const blinding = poseidon2Hash2(stealthScalar, BLINDING_DOMAIN);
+      const ciphertext = {
+        ephemeralPublicKey: { x: leaf.ephPubKeyX, y: leaf.ephPubKeyY },
+        viewTag: leaf.viewTag,
+        encryptedAmount: leaf.encryptedAmount,
+      };
+      let opened = null;
+      if (threshold) {
+        const sharedSecret = threshold.sharedSecrets.get(leaf.ephPubKeyX);
+        if (sharedSecret) opened = openStealthNoteWithSharedSecret(ciphertext, sharedSecret);
+      }
+      for (const keys of epochKeys) {
+        opened = openStealthNote(ciphertext, keys.viewingSecretKey);
+        if (opened) break;
+      }
+      if (opened === null) continue;
+      const { stealthScalar, amount, blinding } = opened;
+      const memo = noteMemo(leaf.encryptedNote, stealthScalar, { amount, blinding, asset: leaf.asset });
 
-    // Compute stealth public key for spendingKeyHash
-    let spendingKeyHash = 0n;
-    if (groupPublicKey) {
-      const stealthPubKey = toAffine(
-        pointAdd(scalarMul(G, stealthScalar), fromAffine(groupPublicKey))
-      );
-      spendingKeyHash = poseidon2Hash2(stealthPubKey.x, stealthPubKey.y);
-    }
-
-    notes.push({
-      commitment: `0x${evt.commitment.toString(16).padStart(64, "0")}`,
-      amount,
-      blockNumber: evt.blockNumber,
-      txHash: evt.txHash,
-      type: evt.type,
-      isSpent: false,
-      stealthScalar,
-      spendingKeyHash,
-      blinding,
-      leafIndex,
-    });
-  }
+      const spendingKeyHash = groupPublicKey
+        ? computeStealthSpendingKeyHash(groupPublicKey, stealthScalar, nkCommitment)
+        : 0n;
 
-  _localTree = tree;
-
-  // 4. Check nullifier spent status for each note
-  for (const note of notes) {
-    try {
-      const spent = await publicClient.readContract({
-        address,
-        abi: blsGunAbi,
-        functionName: "isNullifierSpent",
-        args: [note.commitment as `0x${string}`],
+      notes.push({
+        commitment: toBytes32(leaf.commitment),
+        asset: leaf.asset,
+        amount,
+        blockNumber: evt.blockNumber,
+        txHash: evt.txHash,
+        type: leaf.type,
+        isSpent: false,
+        nullifier: toBytes32(computeNullifier(nullifyingKey, leaf.commitment, BigInt(leafIndex))),
+        stealthScalar,
+        spendingKeyHash,
+        blinding,
+        leafIndex,
+        ...(memo && { memo }),
       });
-      note.isSpent = spent;
-    } catch {
-      // If call fails, leave as unspent
     }
   }
 
-  // 5. Compute total balance from unspent notes
-  const totalBalance = notes
-    .filter((n) => !n.isSpent && n.amount > 0n)
-    .reduce((sum, n) => sum + n.amount, 0n);
+  // 3. Pin the local tree: its root must be one the contract accepts. Keep a
+  //    snapshot, since the indexer's tree grows on the next refresh.
+  const tree = MerkleTree.deserialize(indexer.tree.serialize());
+  const rootKnown = await publicClient.readContract({
+    address,
+    abi: blsGunAbi,
+    functionName: "isKnownRoot",
+    args: [toBytes32(tree.root)],
+  });
+  if (!rootKnown) {
+    console.warn("[scanBalance] local Merkle root is not known on-chain — is VITE_BLSGUN_DEPLOY_BLOCK too late?");
+  }
+  _localTree = rootKnown ? tree : null;
+
+  // 4. Check nullifier spent status at the indexed block
+  await markSpentNotes(address, notes, indexer.spentNullifiers(), currentBlock);
+
+  // 5. Compute balances from unspent notes (CFX total + per asset)
+  const assetBalances = await balancesByAsset(notes);
+  const totalBalance = assetBalances.find((b) => b.asset === NATIVE_ASSET)?.balance ?? 0n;
 
   return {
     notes,
+    sentPayments,
     totalBalance,
     formattedBalance: formatBalance(totalBalance),
+    assetBalances,
+    lockedNotes: threshold?.locked ?? 0,
     scannedToBlock: Number(currentBlock),
   };
 }
+
+/** Memo of a note's encrypted opening, if it decrypts and matches the note */
+function noteMemo(
+  encryptedNote: string | undefined,
+  stealthScalar: bigint,
+  note: { amount: bigint; blinding: bigint; asset: string }
+): string | undefined {
+  if (!encryptedNote || encryptedNote === "0x") return undefined;
+  const plaintext = decryptNote(encryptedNote, stealthScalar);
+  if (
+    !plaintext ||
+    plaintext.amount !== note.amount ||
+    plaintext.blinding !== note.blinding ||
+    assetId(plaintext.asset) !== assetId(note.asset)
+  ) {
+    console.warn("[scanBalance] ignoring an encrypted note that does not match its commitment opening");
+    return undefined;
+  }
+  return plaintext.memo || undefined;
+}
+
+/**
+ * Decrypt a leaf's outgoing ciphertext with each epoch's outgoing viewing key.
+ * Returns null unless this wallet sent the output to someone else and the
+ * recovered opening matches the commitment.
+ */
+function sentPayment(
+  leaf: PoolLeaf,
+  epochKeys: EpochKeys[]
+): Omit<SentPayment, "blockNumber" | "txHash"> | null {
+  if (!leaf.encryptedNote || leaf.encryptedNote === "0x") return null;
+  const ephemeralPublicKey = { x: leaf.ephPubKeyX, y: leaf.ephPubKeyY };
+  let sent = null;
+  for (const keys of epochKeys) {
+    sent = decryptOutgoingNote(leaf.encryptedNote, ephemeralPublicKey, keys.outgoingViewingKey);
+    if (sent) break;
+  }
+  if (!sent) return null;
+
+  const { viewingPublicKey: theirs } = sent.recipient;
+  const toSelf = epochKeys.some(({ viewingPublicKey: ours }) => theirs.x === ours.x && theirs.y === ours.y);
+  if (toSelf) return null; // Change
+
+  if (computeCommitment(sent.owner, sent.amount, sent.blinding, assetId(sent.asset)) !== leaf.commitment) {
+    console.warn("[scanBalance] ignoring an outgoing note that does not match its commitment");
+    return null;
+  }
+  return {
+    commitment: toBytes32(leaf.commitment),
+    asset: sent.asset,
+    amount: sent.amount,
+    recipient: encodeMetaAddress(sent.recipient),
+    ...(sent.memo && { memo: sent.memo }),
+  };
+}
+
+/**
+ * Set isSpent on each note from isNullifierSpent (batched in one multicall,
+ * falling back to single reads where the multicall fails, e.g. on a node
+ * without Multicall3) and from the spend events seen in the scan window.
+ *
+ * Both sources are read at `blockNumber`, so they must agree: the index covers
+ * every block since deployment up to it. On a disagreement the note is
+ * treated as spent so the balance is never overstated.
+ */
+async function markSpentNotes(
+  address: `0x${string}`,
+  notes: ScannedNote[],
+  eventNullifiers: Set<bigint>,
+  blockNumber: bigint
+): Promise<void> {
+  if (notes.length === 0) return;
+
+  const results = await publicClient.multicall({
+    contracts: notes.map((note) => ({
+      address,
+      abi: blsGunAbi,
+      functionName: "isNullifierSpent" as const,
+      args: [note.nullifier as `0x${string}`] as const,
+    })),
+    blockNumber,
+  });
+
+  for (const [i, note] of notes.entries()) {
+    let onChain: boolean | undefined =
+      results[i].status === "success" ? results[i].result : undefined;
+    if (onChain === undefined) {
+      try {
+        onChain = await publicClient.readContract({
+          address,
+          abi: blsGunAbi,
+          functionName: "isNullifierSpent",
+          args: [note.nullifier as `0x${string}`],
+          blockNumber,
+        });
+      } catch {
+        // Unreadable: rely on the events alone
+      }
+    }
+
+    const inEvents = eventNullifiers.has(BigInt(note.nullifier));
+    if (onChain !== undefined && onChain !== inEvents) {
+      console.warn(
+        `[scanBalance] spent status mismatch for ${note.commitment}: contract=${onChain}, events=${inEvents}`
+      );
+    }
+    note.isSpent = onChain === true || inEvents;
+  }
+}
+
+/** Symbol/decimals per ERC-20 token, fetched once per session */
+const tokenMetadata = new Map<string, { symbol: string; decimals: number }>();
+
+async function getTokenMetadata(token: string): Promise<{ symbol: string; decimals: number }> {
+  const cached = tokenMetadata.get(token);
+  if (cached) return cached;
+
+  let metadata = { symbol: `${token.slice(0, 6)}...${token.slice(-4)}`, decimals: 18 };
+  try {
+    const [symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address: token as `0x${string}`, abi: erc20Abi, functionName: "symbol" }),
+      publicClient.readContract({ address: token as `0x${string}`, abi: erc20Abi, functionName: "decimals" }),
+    ]);
+    metadata = { symbol, decimals };
+  } catch {
+    // Non-standard token: keep the shortened address and 18 decimals
+  }
+  tokenMetadata.set(token, metadata);
+  return metadata;
+}
+
+/**
+ * Sum unspent notes per asset. CFX is always listed first (even when zero),
+ * tokens follow in order of first appearance.
+ */
+export async function balancesByAsset(notes: ScannedNote[]): Promise<AssetBalance[]> {
+  const totals = new Map<string, bigint>([[NATIVE_ASSET, 0n]]);
+  for (const note of notes) {
+    if (note.isSpent || note.amount === 0n) continue;
+    totals.set(note.asset, (totals.get(note.asset) ?? 0n) + note.amount);
+  }
+
+  const balances: AssetBalance[] = [];
+  for (const [asset, balance] of totals) {
+    const { symbol, decimals } =
+      asset === NATIVE_ASSET ? { symbol: NATIVE_ASSET, decimals: 18 } : await getTokenMetadata(asset);
+    balances.push({ asset, symbol, decimals, balance, formatted: formatBalance(balance, decimals) });
+  }
+  return balances;
+}
@@ -1,10 +1,10 @@
-import { formatEther } from "viem";
+import { formatUnits } from "viem";
 import { publicClient } from "./wagmiConfig";
 
 const CONTRACT_ADDRESS = import.meta.env.VITE_BLSGUN_ADDRESS || "";
 
-export function formatBalance(wei: bigint): string {
-  const eth = formatEther(wei);
+export function formatBalance(wei: bigint, decimals = 18): string {
+  const eth = formatUnits(wei, decimals);
   const num = parseFloat(eth);
   return num.toLocaleString("en-US", {
     minimumFractionDigits: 0,
@@ -0,0 +1,69 @@
+/**
+ * Multi-device signing: when VITE_COORDINATOR_URL is set, pending payments
+ * (with their nonce commitments and partial signatures) are synced between
+ * the signers' browsers through a coordination server. Each payment is
+ * sealed with the group's coordination key, so the server relays only
+ * ciphertext. Without the URL, signing state stays in this browser.
+ *
+ * In threshold viewing mode the signers' partial viewing values are synced
+ * the same way, in pages under "viewing-partials:<signer>:<page>", and so
+ * are identity key registrations under "identity:<signer>".
+ */
+
+import { CoordinationClient } from "@blsgun/sdk/coordination";
+import type { PendingPayment } from "../store/treasury";
+import type { ViewingPartialsPage } from "./thresholdViewing";
+import type { StoredRegistration } from "./identityRegistry";
+
+const COORDINATOR_URL = import.meta.env.VITE_COORDINATOR_URL || "";
+
+const VIEWING_PARTIALS_TOPIC = /^viewing-partials:\d+:\d+$/;
+const IDENTITY_TOPIC = /^identity:\d+$/;
+
+/** Topic of page `page` of signer `signerIndex`'s partial viewing values */
+export function viewingPartialsTopic(signerIndex: number, page: number): string {
+  return `viewing-partials:${signerIndex}:${page}`;
+}
+
+/** Topic of signer `signerIndex`'s identity key registration */
+export function identityTopic(signerIndex: number): string {
+  return `identity:${signerIndex}`;
+}
+
+/**
+ * Client for the group's room, or null when no coordination server is
+ * configured or the signer's passkey carries no coordination key.
+ */
+export function getCoordinator(
+  coordinationKey: string | null,
+  onPayment: (payment: PendingPayment) => void
+): CoordinationClient<PendingPayment> | null {
+  if (!COORDINATOR_URL || !coordinationKey) return null;
+  return new CoordinationClient<PendingPayment>(COORDINATOR_URL, coordinationKey, (topic, payment) => {
+    // The topic is the payment ID; a payload filed under another ID is ignored
+    if (payment?.id === topic) onPayment(payment);
+  });
+}
+
+/** Client for the signers' partial viewing values in the group's room (threshold viewing mode) */
+export function getViewingPartialsCoordinator(
+  coordinationKey: string | null,
+  onPage: (page: ViewingPartialsPage) => void
+): CoordinationClient<ViewingPartialsPage> | null {
+  if (!COORDINATOR_URL || !coordinationKey) return null;
+  return new CoordinationClient<ViewingPartialsPage>(COORDINATOR_URL, coordinationKey, (topic, page) => {
+    // Payments share the room; only partial pages are taken
+    if (VIEWING_PARTIALS_TOPIC.test(topic)) onPage(page);
+  });
+}
+
+/** Client for the signers' identity key registrations in the group's room */
+export function getIdentityCoordinator(
+  coordinationKey: string | null,
+  onRegistration: (registration: StoredRegistration) => void
+): CoordinationClient<StoredRegistration> | null {
+  if (!COORDINATOR_URL || !coordinationKey) return null;
+  return new CoordinationClient<StoredRegistration>(COORDINATOR_URL, coordinationKey, (topic, registration) => {
+    if (IDENTITY_TOPIC.test(topic)) onRegistration(registration);
+  });
+}
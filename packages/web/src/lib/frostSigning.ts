@@ -1,14 +1,15 @@
 /**
  * FROST threshold signing helpers for the browser frontend.
  *
- * Provides deterministic nonce derivation, partial signature computation,
+ * Provides hedged nonce derivation, partial signature computation,
  * and aggregation + proof generation for the three-login signing flow.
  */
 
-import { initHash, poseidon2Hash2 } from "@blsgun/sdk/hash";
+import { initHash } from "@blsgun/sdk/hash";
 import {
   G,
   Fr,
+  randomScalar,
   scalarMul,
   pointAdd,
   toAffine,
@@ -21,10 +22,16 @@ import {
   frostHierarchicalPartialSign,
   frostAggregate,
   frostVerify,
+  verifyPartialSignature,
+  generateHedgedNonces,
 } from "@blsgun/sdk/signer";
+import { LocalStorageUsedNonceStore, UsedNonceRegistry } from "@blsgun/sdk/nonce-tracker";
 import {
+  NATIVE_ASSET,
+  assetId,
   computeNullifier,
   computeCommitment,
+  computeTransactionMessage,
   buildCircuitInputs,
 } from "@blsgun/sdk/transaction";
 import type {
@@ -34,40 +41,238 @@ import type {
   FrostSignature,
   SigningSession,
   MerkleProof,
+  StealthNote,
+  UnsignedTransaction,
 } from "@blsgun/sdk/types";
 import { MerkleTree } from "@blsgun/sdk/transaction";
+import { computeStealthPublicKey, createStealthNote } from "@blsgun/sdk/stealth";
+import {
+  deriveIdentityKey,
+  signIdentityMessage,
+  verifyIdentityMessage,
+  nonceCommitmentDigest,
+  partialSignatureDigest,
+} from "@blsgun/sdk/identity";
+import type { SignerAuth, SigningData } from "../store/treasury";
+import { decodeMetaAddress } from "./stealthNote";
 import { generateBrowserProof, initProver } from "./prover";
 
-// ─── Deterministic Nonce Derivation ──────────────────────────────────────────
+/** How long a created payment stays valid for signing + submission (seconds) */
+export const PAYMENT_DEADLINE_SECONDS = 7 * 24 * 60 * 60;
+
+/** Deadline for a payment created now, as a Unix timestamp */
+export function paymentDeadline(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + PAYMENT_DEADLINE_SECONDS);
+}
+
+/** Throw unless the transaction's message commits to its nullifiers, outputs, relayer, recipient, amount and asset */
+export function assertTransactionMessage(transaction: UnsignedTransaction): void {
+  const expected = computeTransactionMessage(
+    transaction.inputNullifiers,
+    transaction.outputCommitments,
+    transaction.fee,
+    transaction.deadline,
+    transaction.recipient,
+    transaction.publicAmount,
+    transaction.asset,
+    transaction.relayer
+  );
+  if (expected !== transaction.message) {
+    throw new Error("Transaction message does not match its outputs/recipient/amount");
+  }
+}
+
+/** The asset a payment spends and creates (Note.asset); payments without one are CFX */
+export function signingDataAsset(sd: SigningData): string {
+  return sd.asset ?? NATIVE_ASSET;
+}
 
 /**
- * Derive deterministic FROST nonces from a signer's secret share and payment ID.
- *
- * This allows signers to re-derive their nonces across login sessions
- * without needing to store nonce private keys.
+ * Rebuild the signed transaction from a pending payment's signing data.
+ * Withdrawals carry a public recipient/amount, transfers an output commitment.
+ * Throws if the stored message was not computed from these effects.
+ */
+export function signingDataToTransaction(sd: SigningData): UnsignedTransaction {
+  const transaction: UnsignedTransaction = {
+    inputNullifiers: [BigInt(sd.nullifier)],
+    outputCommitments: [sd.outputCommitment ? BigInt(sd.outputCommitment) : 0n],
+    fee: BigInt(sd.fee),
+    relayer: sd.relayer ? BigInt(sd.relayer) : 0n,
+    deadline: BigInt(sd.deadline),
+    recipient: sd.withdrawRecipient ? BigInt(sd.withdrawRecipient) : 0n,
+    publicAmount: sd.withdrawAmountWei ? BigInt(sd.withdrawAmountWei) : 0n,
+    asset: assetId(signingDataAsset(sd)),
+    message: BigInt(sd.message),
+  };
+  assertTransactionMessage(transaction);
+  return transaction;
+}
+
+/** Opening of the payment's output note (recipient or change), null if it has none */
+export function signingDataOutputNote(sd: SigningData): StealthNote | null {
+  if (!sd.outputCommitment) return null;
+  if (!sd.outputRecipient || !sd.outputAmount || !sd.outputEphemeralSecret) {
+    throw new Error("Payment is missing its output note opening");
+  }
+  // Rebuilt from the recipient and ephemeral secret: the circuit re-derives
+  // the published ciphertext from the same values
+  const note = createStealthNote(
+    decodeMetaAddress(sd.outputRecipient),
+    signingDataAsset(sd),
+    BigInt(sd.outputAmount),
+    BigInt(sd.outputEphemeralSecret)
+  );
+  if (computeCommitment(note.owner, note.amount, note.blinding, assetId(note.asset)) !== BigInt(sd.outputCommitment)) {
+    throw new Error("Payment output note does not match its commitment");
+  }
+  return note;
+}
+
+// ─── Hedged Nonce Derivation ─────────────────────────────────────────────────
+
+const NONCE_SEEDS_KEY = "pavv:nonce-seeds";
+
+/**
+ * Nonce commitments this browser has signed with, per payment; each signs at
+ * most once. A payment's entries go when its nonce seeds do, since its
+ * nonces can no longer be re-derived after that.
+ */
+const usedNonces = new LocalStorageUsedNonceStore("pavv:used-nonces");
+
+/** This signer's random nonce seed for a payment, created on first use */
+function nonceSeed(paymentId: string, signerIndex: number): bigint {
+  let seeds: Record<string, string> = {};
+  try {
+    seeds = JSON.parse(localStorage.getItem(NONCE_SEEDS_KEY) ?? "{}");
+  } catch {
+    // Corrupt entry: start over (uncommitted payments just get new seeds)
+  }
+  const key = `${paymentId}:${signerIndex}`;
+  if (!seeds[key]) {
+    seeds[key] = "0x" + randomScalar().toString(16);
+    localStorage.setItem(NONCE_SEEDS_KEY, JSON.stringify(seeds));
+  }
+  return BigInt(seeds[key]);
+}
+
+/**
+ * Derive a signer's FROST nonces for a payment's message (generateHedgedNonces).
  *
- * d = poseidon2Hash2(secretShare, poseidon2Hash2(paymentIdBigint, 0n))
- * e = poseidon2Hash2(secretShare, poseidon2Hash2(paymentIdBigint, 1n))
+ * The random seed is kept in localStorage so the nonce can be re-derived when
+ * the signer signs in a later session; without the secret share it reveals
+ * nothing. The message is mixed in, so a payment whose message changes under
+ * the same ID gets a different nonce, which no longer matches the commitment
+ * the signer published. The signer set is not fixed yet when a signer
+ * commits, so it is not mixed in.
  */
 export function deriveNonces(
   secretShareHex: string,
-  paymentId: string
+  paymentId: string,
+  signerIndex: number,
+  message: bigint
 ): NoncePair {
-  const secretShare = BigInt(secretShareHex);
-  // Hash paymentId to a field element
-  // Payment ID is a UUID string - hash its numeric representation
-  const paymentIdBigint = BigInt("0x" + paymentId.replace(/-/g, ""));
+  return generateHedgedNonces(BigInt(secretShareHex), message, [], nonceSeed(paymentId, signerIndex));
+}
+
+/**
+ * Drop a payment's nonce seeds, and the used-nonce entries they guarded, so
+ * every signer commits to fresh nonces when it is re-signed. Also called once
+ * a payment finalizes, so neither store grows with every payment.
+ */
+export function forgetNonceSeeds(paymentId: string): void {
+  try {
+    const seeds: Record<string, string> = JSON.parse(localStorage.getItem(NONCE_SEEDS_KEY) ?? "{}");
+    const keys = Object.keys(seeds).filter((key) => key.startsWith(`${paymentId}:`));
+    if (keys.length > 0) {
+      for (const key of keys) delete seeds[key];
+      localStorage.setItem(NONCE_SEEDS_KEY, JSON.stringify(seeds));
+    }
+  } catch {
+    localStorage.removeItem(NONCE_SEEDS_KEY);
+  }
+  usedNonces.forget(paymentId);
+}
+
+// ─── Signer Authentication ──────────────────────────────────────────────────
 
-  const dSeed = poseidon2Hash2(paymentIdBigint, 0n);
-  const eSeed = poseidon2Hash2(paymentIdBigint, 1n);
+function toSignerAuth(secretShareHex: string, digest: bigint): SignerAuth {
+  const { secretKey } = deriveIdentityKey(BigInt(secretShareHex));
+  const { R, s } = signIdentityMessage(secretKey, digest);
+  return { Rx: R.x.toString(), Ry: R.y.toString(), s: s.toString() };
+}
 
-  const d = poseidon2Hash2(secretShare, dSeed);
-  const e = poseidon2Hash2(secretShare, eSeed);
+function verifySignerAuth(identityKey: GrumpkinPoint | undefined, digest: bigint, auth?: SignerAuth): boolean {
+  if (!identityKey || !auth) return false;
+  return verifyIdentityMessage(identityKey, digest, {
+    R: { x: BigInt(auth.Rx), y: BigInt(auth.Ry) },
+    s: BigInt(auth.s),
+  });
+}
 
-  const D = toAffine(scalarMul(G, d));
-  const E = toAffine(scalarMul(G, e));
+/** Sign the nonce commitment this signer publishes for a payment's message with its identity key */
+export function signNonceCommitment(
+  secretShareHex: string,
+  signerIndex: number,
+  message: bigint,
+  nonce: { D: GrumpkinPoint; E: GrumpkinPoint }
+): SignerAuth {
+  return toSignerAuth(secretShareHex, nonceCommitmentDigest(message, BigInt(signerIndex), nonce.D, nonce.E));
+}
 
-  return { d, e, D, E };
+/** Sign the partial signature this signer publishes for a payment's message with its identity key */
+export function signPartialSig(
+  secretShareHex: string,
+  signerIndex: number,
+  message: bigint,
+  partial: { z_i: bigint; R: GrumpkinPoint }
+): SignerAuth {
+  return toSignerAuth(secretShareHex, partialSignatureDigest(message, BigInt(signerIndex), partial.z_i, partial.R));
+}
+
+/**
+ * Keep only the nonce commitments and partial signatures that are signed by
+ * the identity key registered for the signer index they are filed under.
+ * Anyone who can write the pending payment (localStorage, a coordinator)
+ * could otherwise add commitments in another signer's name and choose them
+ * after seeing the honest ones, as ROS / Drijvers-style forgeries need.
+ *
+ * @param identityKeys Every signer's identity public key, by signer index - 1
+ * @returns A copy of the signing data without the dropped entries, and the signer indices they were filed under
+ */
+export function authenticateSigningData(
+  sd: SigningData,
+  identityKeys: GrumpkinPoint[]
+): { signingData: SigningData; rejected: number[] } {
+  const message = BigInt(sd.message);
+  const rejected = new Set<number>();
+  const nonceCommitments: SigningData["nonceCommitments"] = {};
+  const partialSignatures: SigningData["partialSignatures"] = {};
+
+  for (const [idxStr, nc] of Object.entries(sd.nonceCommitments)) {
+    const index = Number(idxStr);
+    const digest = nonceCommitmentDigest(
+      message,
+      BigInt(index),
+      { x: BigInt(nc.Dx), y: BigInt(nc.Dy) },
+      { x: BigInt(nc.Ex), y: BigInt(nc.Ey) }
+    );
+    if (verifySignerAuth(identityKeys[index - 1], digest, nc.auth)) nonceCommitments[idxStr] = nc;
+    else rejected.add(index);
+  }
+  for (const [idxStr, ps] of Object.entries(sd.partialSignatures)) {
+    const index = Number(idxStr);
+    const digest = partialSignatureDigest(message, BigInt(index), BigInt(ps.z_i), {
+      x: BigInt(ps.Rx),
+      y: BigInt(ps.Ry),
+    });
+    if (verifySignerAuth(identityKeys[index - 1], digest, ps.auth)) partialSignatures[idxStr] = ps;
+    else rejected.add(index);
+  }
+
+  return {
+    signingData: { ...sd, nonceCommitments, partialSignatures },
+    rejected: [...rejected].sort((a, b) => a - b),
+  };
 }
 
 // ─── Partial Signature Computation ──────────────────────────────────────────
@@ -89,6 +294,50 @@ export interface ComputePartialSigParams {
   participantRanks?: Record<string, number>;
 }
 
+/** Signing session for a stealth input: the group key is shifted by [stealthScalar]G */
+function stealthSigningSession(
+  message: bigint,
+  participants: bigint[],
+  allNonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string }>,
+  groupPubKey: GrumpkinPoint,
+  stealthScalar: bigint,
+  participantRanks?: Record<string, number>
+): SigningSession {
+  // Compute stealth-adjusted group public key: PK_stealth = PK_group + [stealthScalar]G
+  const stealthGroupPK = toAffine(
+    pointAdd(fromAffine(groupPubKey), scalarMul(G, stealthScalar))
+  );
+
+  // Build signing session with stealth-adjusted key
+  const session: SigningSession = {
+    message,
+    participants,
+    nonceCommitments: new Map(),
+    partials: [],
+    groupPublicKey: stealthGroupPK,
+  };
+
+  // Register all nonce commitments
+  for (const [idxStr, nc] of Object.entries(allNonceCommitments)) {
+    const idx = BigInt(idxStr);
+    registerNonceCommitment(session, idx, {
+      x: BigInt(nc.Dx),
+      y: BigInt(nc.Dy),
+    }, {
+      x: BigInt(nc.Ex),
+      y: BigInt(nc.Ey),
+    });
+  }
+
+  // Birkhoff coefficients for HTSS
+  if (participantRanks) {
+    session.participantRanks = new Map(
+      participants.map((idx) => [idx, participantRanks[idx.toString()] ?? 0])
+    );
+  }
+  return session;
+}
+
 /**
  * Compute a FROST partial signature with stealth-adjusted share.
  *
@@ -129,34 +378,22 @@ export function computePartialSig(params: ComputePartialSigParams): {
     ? Fr.add(secretShare, stealthScalar)
     : secretShare;
 
-  // Derive deterministic nonces
-  const nonce = deriveNonces(secretShareHex, paymentId);
-
-  // Compute stealth-adjusted group public key: PK_stealth = PK_group + [stealthScalar]G
-  const stealthGroupPK = toAffine(
-    pointAdd(fromAffine(groupPubKey), scalarMul(G, stealthScalar))
-  );
+  // Re-derive this signer's nonce; it must match the commitment it published
+  const nonce = deriveNonces(secretShareHex, paymentId, signerIndex, message);
+  const committed = allNonceCommitments[signerIndex.toString()];
+  if (!committed || BigInt(committed.Dx) !== nonce.D.x || BigInt(committed.Ex) !== nonce.E.x) {
+    throw new Error("Nonce commitment does not match this payment's message");
+  }
 
-  // Build signing session with stealth-adjusted key
-  const session: SigningSession = {
+  const session = stealthSigningSession(
     message,
     participants,
-    nonceCommitments: new Map(),
-    partials: [],
-    groupPublicKey: stealthGroupPK,
-  };
-
-  // Register all nonce commitments
-  for (const [idxStr, nc] of Object.entries(allNonceCommitments)) {
-    const idx = BigInt(idxStr);
-    registerNonceCommitment(session, idx, {
-      x: BigInt(nc.Dx),
-      y: BigInt(nc.Dy),
-    }, {
-      x: BigInt(nc.Ex),
-      y: BigInt(nc.Ey),
-    });
-  }
+    allNonceCommitments,
+    groupPubKey,
+    stealthScalar,
+    isHTSS ? participantRanks : undefined
+  );
+  const paymentNonces = new UsedNonceRegistry(usedNonces.forScope(paymentId));
 
   // Compute partial signature using the appropriate algorithm
   if (isHTSS && participantRanks) {
@@ -166,17 +403,14 @@ export function computePartialSig(params: ComputePartialSigParams): {
       rank: participantRanks[idx.toString()] ?? 0,
     }));
 
-    session.participantRanks = new Map(
-      birkhoffParticipants.map((p) => [p.index, p.rank])
-    );
-
     const partial = frostHierarchicalPartialSign(
       BigInt(signerIndex),
       signerRank,
       adjustedShare,
       nonce,
       session,
-      birkhoffParticipants
+      birkhoffParticipants,
+      paymentNonces
     );
     return { z_i: partial.z_i, R: partial.R };
   }
@@ -186,25 +420,98 @@ export function computePartialSig(params: ComputePartialSigParams): {
     BigInt(signerIndex),
     adjustedShare,
     nonce,
-    session
+    session,
+    paymentNonces
   );
 
   return { z_i: partial.z_i, R: partial.R };
 }
 
+// ─── Partial Signature Verification ─────────────────────────────────────────
+
+export interface FindInvalidPartialSigsParams {
+  stealthScalar: bigint;
+  message: bigint;
+  allNonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string }>;
+  partialSigs: Record<string, { z_i: string; Rx: string; Ry: string }>;
+  groupPubKey: GrumpkinPoint;
+  /** Every signer's public share PK_i, by signer index - 1 */
+  publicShares: GrumpkinPoint[];
+  mode?: "TSS" | "HTSS";
+  /** Map of signer index (string) -> rank */
+  participantRanks?: Record<string, number>;
+}
+
+/**
+ * Check each partial signature against its signer's public share before
+ * aggregating (verifyPartialSignature), and return the indices of the signers
+ * whose partial is invalid. Public shares get the same stealth adjustment as
+ * the secret shares in computePartialSig: PK_i + [stealthScalar]G for TSS and
+ * rank-0 HTSS signers, PK_i unchanged otherwise.
+ */
+export function findInvalidPartialSigs(params: FindInvalidPartialSigsParams): number[] {
+  const {
+    stealthScalar,
+    message,
+    allNonceCommitments,
+    partialSigs,
+    groupPubKey,
+    publicShares,
+    mode = "TSS",
+    participantRanks,
+  } = params;
+  const isHTSS = mode === "HTSS";
+  const participants = Object.keys(allNonceCommitments).map(BigInt);
+  const session = stealthSigningSession(
+    message,
+    participants,
+    allNonceCommitments,
+    groupPubKey,
+    stealthScalar,
+    isHTSS ? participantRanks : undefined
+  );
+  const stealthOffset = scalarMul(G, stealthScalar);
+
+  const invalid: number[] = [];
+  for (const [idxStr, ps] of Object.entries(partialSigs)) {
+    const index = Number(idxStr);
+    const publicShare = publicShares[index - 1];
+    if (!publicShare) {
+      invalid.push(index);
+      continue;
+    }
+    const shouldAddStealth = !isHTSS || (participantRanks?.[idxStr] ?? 0) === 0;
+    const adjustedPublicShare = shouldAddStealth
+      ? toAffine(pointAdd(fromAffine(publicShare), stealthOffset))
+      : publicShare;
+    const partial: PartialSignature = {
+      signerIndex: BigInt(index),
+      z_i: BigInt(ps.z_i),
+      R: { x: BigInt(ps.Rx), y: BigInt(ps.Ry) },
+    };
+    if (!verifyPartialSignature(session, partial, adjustedPublicShare)) invalid.push(index);
+  }
+  return invalid;
+}
+
 // ─── Aggregation + Proof Generation ─────────────────────────────────────────
 
 export interface AggregateAndProveParams {
   partialSigs: Record<string, { z_i: string; Rx: string; Ry: string }>;
-  message: bigint;
+  transaction: UnsignedTransaction;
+  outputNote: StealthNote | null;
   groupPubKey: GrumpkinPoint;
+  /** Input note's stealth scalar: the circuit derives its owner from groupPubKey and this */
   stealthScalar: bigint;
-  spendingKeyHash: bigint;
+  /** Treasury's nullifying key: the circuit binds it into note owners and nullifiers */
+  nullifyingKey: bigint;
   noteAmount: bigint;
   noteBlinding: bigint;
   leafIndex: number;
   inputCommitment: bigint;
   merkleTree: MerkleTree;
+  /** Root the proof is pinned to — submitted on-chain alongside the proof */
+  merkleRoot: bigint;
   threshold: number;
   onProgress?: (step: "aggregating" | "proving") => Promise<void> | void;
 }
@@ -217,19 +524,25 @@ export async function aggregateAndProve(
 ): Promise<{ proofHex: string; nullifier: bigint; merkleRoot: bigint }> {
   const {
     partialSigs,
-    message,
+    transaction,
+    outputNote,
     groupPubKey,
     stealthScalar,
-    spendingKeyHash,
+    nullifyingKey,
     noteAmount,
     noteBlinding,
     leafIndex,
     inputCommitment,
     merkleTree,
+    merkleRoot,
     threshold,
     onProgress,
   } = params;
 
+  // 0. The message must commit to exactly these effects, or the circuit rejects it
+  assertTransactionMessage(transaction);
+  const { message } = transaction;
+
   // 1. Aggregate partial signatures
   console.log("[aggregateAndProve] aggregating", Object.keys(partialSigs).length, "partial sigs");
   await onProgress?.("aggregating");
@@ -245,9 +558,7 @@ export async function aggregateAndProve(
   console.log("[aggregateAndProve] signature aggregated, z=", signature.z.toString().slice(0, 20) + "...");
 
   // 2. Adjust group public key for stealth
-  const stealthGroupPK = toAffine(
-    pointAdd(fromAffine(groupPubKey), scalarMul(G, stealthScalar))
-  );
+  const stealthGroupPK = computeStealthPublicKey(groupPubKey, stealthScalar);
   console.log("[aggregateAndProve] stealth group PK computed");
 
   // 3. Verify signature locally before proving
@@ -257,26 +568,36 @@ export async function aggregateAndProve(
     throw new Error("FROST signature verification failed before proving");
   }
 
-  // 4. Compute nullifier
-  const nullifier = computeNullifier(spendingKeyHash, BigInt(leafIndex));
+  // 4. Compute nullifier (must be the one the signers approved). The circuit
+  //    re-derives the note owner from the group key and nullifying key, so a
+  //    note not owned by this treasury cannot be spent with its signature.
+  const nullifier = computeNullifier(nullifyingKey, inputCommitment, BigInt(leafIndex));
+  if (nullifier !== transaction.inputNullifiers[0]) {
+    throw new Error("Input note does not match the signed nullifier");
+  }
   console.log("[aggregateAndProve] nullifier =", nullifier.toString().slice(0, 20) + "...");
 
   // 5. Generate Merkle proof
-  console.log("[aggregateAndProve] generating merkle proof for leafIndex=", leafIndex, "treeSize=", merkleTree.leaves.length);
+  console.log("[aggregateAndProve] generating merkle proof for leafIndex=", leafIndex, "treeSize=", merkleTree.size);
   const merkleProof = merkleTree.generateProof(leafIndex);
+  if (merkleProof.root !== merkleRoot) {
+    throw new Error("Merkle tree changed since its root was pinned — refresh balance and retry");
+  }
   console.log("[aggregateAndProve] merkle proof generated, root =", merkleProof.root.toString().slice(0, 20) + "...");
 
   // 6. Build circuit inputs
   console.log("[aggregateAndProve] building circuit inputs...");
   const circuitInputs = buildCircuitInputs(
     signature,
-    stealthGroupPK,
-    spendingKeyHash,
+    groupPubKey,
+    nullifyingKey,
+    stealthScalar,
     noteAmount,
     noteBlinding,
     merkleProof,
-    nullifier,
-    inputCommitment
+    transaction,
+    inputCommitment,
+    outputNote
   );
   console.log("[aggregateAndProve] circuit inputs built, keys:", Object.keys(circuitInputs).join(", "));
 
@@ -298,6 +619,6 @@ export async function aggregateAndProve(
   return {
     proofHex,
     nullifier,
-    merkleRoot: merkleProof.root,
+    merkleRoot,
   };
 }
@@ -0,0 +1,118 @@
+/**
+ * Identity key registration for groups created before identity keys.
+ *
+ * Signing fails closed without every signer's identity key. A group whose
+ * passkeys carry none registers them once: on login each signer signs the
+ * identity key derived from its share with the share itself (SDK
+ * registerIdentityKey). Registrations are kept in localStorage and synced
+ * through the coordination server like pending payments. Each one is
+ * checked against the signer's public share from the passkey payload, so
+ * whoever writes the storage cannot register a key in a signer's name.
+ * Signing resumes once every signer's key is registered.
+ *
+ * Groups without public shares cannot check registrations; they register
+ * identity keys by refreshing all shares in Settings instead.
+ */
+
+import { registerIdentityKey, verifyIdentityRegistration } from "@blsgun/sdk/identity";
+import type { CurvePoint, ShareData, SignerAuth } from "../store/treasury";
+
+const STORAGE_KEY = "pavv:identity-registrations";
+
+/** A signer's identity key with its share's signature over it */
+export interface StoredRegistration {
+  signerIndex: number;
+  identityKey: CurvePoint;
+  auth: SignerAuth;
+}
+
+/** Public share x -> that signer's registration */
+type RegistrationStore = Record<string, StoredRegistration>;
+
+function bigintToHex(n: bigint): string {
+  return "0x" + n.toString(16).padStart(64, "0");
+}
+
+const keyOf = (publicShare: CurvePoint) => bigintToHex(BigInt(publicShare.x));
+
+function loadRegistrations(): RegistrationStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function saveRegistrations(store: RegistrationStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Ignore storage errors (quota, private browsing, etc.)
+  }
+}
+
+/** Whether `registration` is signed by the share whose public half is `publicShare` */
+function isValidRegistration(registration: StoredRegistration, publicShare: CurvePoint | undefined): boolean {
+  if (!publicShare) return false;
+  try {
+    const { signerIndex, identityKey, auth } = registration;
+    return verifyIdentityRegistration(
+      {
+        signerIndex: BigInt(signerIndex),
+        identityPublicKey: { x: BigInt(identityKey.x), y: BigInt(identityKey.y) },
+        signature: { R: { x: BigInt(auth.Rx), y: BigInt(auth.Ry) }, s: BigInt(auth.s) },
+      },
+      { x: BigInt(publicShare.x), y: BigInt(publicShare.y) }
+    );
+  } catch {
+    return false; // Malformed
+  }
+}
+
+/** Register this signer's identity key and file it. Call initHash() first. */
+export function registerOwnIdentityKey(share: ShareData): StoredRegistration {
+  const { identityPublicKey, signature } = registerIdentityKey(BigInt(share.secretShare), BigInt(share.index));
+  const registration = {
+    signerIndex: share.index,
+    identityKey: { x: bigintToHex(identityPublicKey.x), y: bigintToHex(identityPublicKey.y) },
+    auth: { Rx: bigintToHex(signature.R.x), Ry: bigintToHex(signature.R.y), s: bigintToHex(signature.s) },
+  };
+  const store = loadRegistrations();
+  store[keyOf(share.publicShare)] = registration;
+  saveRegistrations(store);
+  return registration;
+}
+
+/**
+ * File another signer's registration if it verifies against that signer's
+ * public share. Returns whether it was filed. Call initHash() first.
+ *
+ * @param publicShares - [s_i]G by signer index - 1, from the passkey payload
+ */
+export function mergeIdentityRegistration(registration: StoredRegistration, publicShares: CurvePoint[]): boolean {
+  const publicShare = publicShares[Number(registration?.signerIndex) - 1];
+  if (!isValidRegistration(registration, publicShare)) {
+    console.warn("[identityRegistry] dropped a registration that its signer's share did not sign");
+    return false;
+  }
+  const store = loadRegistrations();
+  store[keyOf(publicShare)] = registration;
+  saveRegistrations(store);
+  return true;
+}
+
+/**
+ * Every signer's registered identity key by signer index - 1 (null where
+ * none verifies). Call initHash() first.
+ */
+export function registeredIdentityKeys(publicShares: CurvePoint[]): (CurvePoint | null)[] {
+  const store = loadRegistrations();
+  return publicShares.map((publicShare, i) => {
+    const registration = store[keyOf(publicShare)];
+    return registration?.signerIndex === i + 1 && isValidRegistration(registration, publicShare)
+      ? registration.identityKey
+      : null;
+  });
+}
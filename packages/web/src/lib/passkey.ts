@@ -1,4 +1,4 @@
-import type { SignerRole, ShareData, CurvePoint, GroupConfig } from "../store/treasury";
+import type { SignerRole, ShareData, CurvePoint, GroupConfig, ViewingShareData } from "../store/treasury";
 
 // ── Types ──
 
@@ -21,7 +21,9 @@ export interface EncryptedSharePayload {
   groupPublicKey: CurvePoint;
   viewingPublicKey: CurvePoint;
   viewingSecretKey?: string;
+  viewingKeyShare?: ViewingShareData; // Threshold viewing mode, in place of viewingSecretKey
   groupConfig?: GroupConfig;
+  coordinationKey?: string; // Seals signing state relayed through the coordination server
 }
 
 export interface PasskeyResult {
@@ -157,7 +159,9 @@ export async function registerPasskeyForShare(
   groupPublicKey: CurvePoint,
   viewingPublicKey: CurvePoint,
   groupConfig?: GroupConfig,
-  viewingSecretKey?: string
+  viewingSecretKey?: string,
+  coordinationKey?: string,
+  viewingKeyShare?: ViewingShareData
 ): Promise<PasskeyResult> {
   try {
     const salt = crypto.getRandomValues(new Uint8Array(32));
@@ -225,7 +229,9 @@ export async function registerPasskeyForShare(
       groupPublicKey,
       viewingPublicKey,
       viewingSecretKey,
+      viewingKeyShare,
       groupConfig,
+      coordinationKey,
     };
 
     const ciphertext = await encryptPayload(aesKey, iv, payload);
@@ -0,0 +1,132 @@
+/**
+ * viem-backed event source for the SDK pool indexer.
+ *
+ * Decodes Shield, PrivateTransfer, Unshield and Transact logs into the
+ * indexer's PoolEvent form: the note commitments each log inserts into the
+ * Merkle tree (with stealth metadata) and the nullifiers it reveals.
+ */
+
+import { publicClient } from "./wagmiConfig";
+import { blsGunAbi } from "./abi";
+import { NATIVE_ASSET } from "@blsgun/sdk/transaction";
+import type { PoolEvent, PoolEventSource } from "@blsgun/sdk/indexer";
+
+/** Map an event's token address to a Note.asset (address(0) = native CFX) */
+export function noteAsset(token: string | undefined): string {
+  return !token || BigInt(token) === 0n ? NATIVE_ASSET : token;
+}
+
+export function createPoolEventSource(address: `0x${string}`): PoolEventSource {
+  return {
+    async getBlockNumber() {
+      return Number(await publicClient.getBlockNumber());
+    },
+
+    async getBlockHash(blockNumber) {
+      const block = await publicClient.getBlock({ blockNumber: BigInt(blockNumber) });
+      return block.hash;
+    },
+
+    async getEvents(from, to) {
+      const range = { address, fromBlock: BigInt(from), toBlock: BigInt(to) };
+      const [shieldLogs, transferLogs, unshieldLogs, transactLogs] = await Promise.all([
+        publicClient.getLogs({ ...range, event: blsGunAbi[0] }), // Shield
+        publicClient.getLogs({ ...range, event: blsGunAbi[1] }), // PrivateTransfer
+        publicClient.getLogs({ ...range, event: blsGunAbi[2] }), // Unshield
+        publicClient.getLogs({ ...range, event: blsGunAbi[3] }), // Transact
+      ]);
+
+      const events: PoolEvent[] = [];
+      const position = (log: { blockNumber: bigint; logIndex: number; transactionHash: string }) => ({
+        blockNumber: Number(log.blockNumber),
+        logIndex: log.logIndex,
+        txHash: log.transactionHash,
+      });
+
+      for (const log of shieldLogs) {
+        const { commitment, token, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount, encryptedNote } = log.args;
+        if (!commitment) continue;
+        events.push({
+          ...position(log),
+          leaves: [{
+            commitment: BigInt(commitment),
+            asset: noteAsset(token),
+            ephPubKeyX: ephPubKeyX ? BigInt(ephPubKeyX) : 0n,
+            ephPubKeyY: ephPubKeyY ? BigInt(ephPubKeyY) : 0n,
+            viewTag: BigInt(viewTag ?? 0),
+            encryptedAmount: BigInt(encryptedAmount ?? 0),
+            encryptedNote: encryptedNote ?? "0x",
+            type: "shield",
+          }],
+          nullifiers: [],
+        });
+      }
+
+      for (const log of transferLogs) {
+        const { nullifier, outputCommitment, token, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount, encryptedNote } = log.args;
+        events.push({
+          ...position(log),
+          leaves: outputCommitment
+            ? [{
+                commitment: BigInt(outputCommitment),
+                asset: noteAsset(token),
+                ephPubKeyX: ephPubKeyX ? BigInt(ephPubKeyX) : 0n,
+                ephPubKeyY: ephPubKeyY ? BigInt(ephPubKeyY) : 0n,
+                viewTag: BigInt(viewTag ?? 0),
+                encryptedAmount: BigInt(encryptedAmount ?? 0),
+                encryptedNote: encryptedNote ?? "0x",
+                type: "transfer",
+              }]
+            : [],
+          nullifiers: nullifier ? [BigInt(nullifier)] : [],
+        });
+      }
+
+      // Partial withdrawals return a change note; full ones insert nothing
+      for (const log of unshieldLogs) {
+        const { nullifier, changeCommitment, token, ephPubKeyX, ephPubKeyY, viewTag, encryptedAmount, encryptedNote } = log.args;
+        events.push({
+          ...position(log),
+          leaves: changeCommitment && BigInt(changeCommitment) !== 0n
+            ? [{
+                commitment: BigInt(changeCommitment),
+                asset: noteAsset(token),
+                ephPubKeyX: ephPubKeyX ? BigInt(ephPubKeyX) : 0n,
+                ephPubKeyY: ephPubKeyY ? BigInt(ephPubKeyY) : 0n,
+                viewTag: BigInt(viewTag ?? 0),
+                encryptedAmount: BigInt(encryptedAmount ?? 0),
+                encryptedNote: encryptedNote ?? "0x",
+                type: "change",
+              }]
+            : [],
+          nullifiers: nullifier ? [BigInt(nullifier)] : [],
+        });
+      }
+
+      // JoinSplit: up to two outputs, inserted in slot order
+      for (const log of transactLogs) {
+        const { nullifiers, outputCommitments, token, outputs } = log.args;
+        events.push({
+          ...position(log),
+          leaves: (outputCommitments ?? []).flatMap((commitment, slot) => {
+            if (BigInt(commitment) === 0n || !outputs) return [];
+            const meta = outputs[slot];
+            return [{
+              commitment: BigInt(commitment),
+              asset: noteAsset(token),
+              ephPubKeyX: BigInt(meta.ephPubKeyX),
+              ephPubKeyY: BigInt(meta.ephPubKeyY),
+              viewTag: BigInt(meta.viewTag),
+              encryptedAmount: BigInt(meta.encryptedAmount),
+              encryptedNote: meta.encryptedNote,
+              type: "transfer" as const,
+            }];
+          }),
+          nullifiers: (nullifiers ?? []).map((n) => BigInt(n)).filter((n) => n !== 0n),
+        });
+      }
+
+      return events;
+    },
+  };
+}
@@ -54,7 +54,7 @@ export async function initProver(): Promise<void> {
 }
 
 export async function generateBrowserProof(
-  inputs: Record<string, string | string[]>
+  inputs: Record<string, string | string[] | string[][]>
 ): Promise<{ proof: Uint8Array; publicInputs: string[] }> {
   if (!noir || !backend) await initProver();
 
@@ -0,0 +1,41 @@
+/**
+ * Relayer mode: when VITE_RELAYER_URL is set, payments commit to the
+ * relayer's address and fee and are submitted through it, so no signer's
+ * wallet pays gas for (or appears next to) a private action.
+ */
+
+import { zeroAddress } from "viem";
+import { RelayerClient } from "@blsgun/sdk/relayer";
+import { NATIVE_ASSET } from "@blsgun/sdk/transaction";
+import { getContractAddress } from "./chain";
+
+const RELAYER_URL = import.meta.env.VITE_RELAYER_URL || "";
+
+/** Relayer client, or null when payments are submitted from the signer's wallet */
+export function getRelayer(): RelayerClient | null {
+  return RELAYER_URL ? new RelayerClient(RELAYER_URL) : null;
+}
+
+/** Fee (in the payment's asset) and submitter a new payment commits to */
+export interface FeeTerms {
+  fee: bigint;
+  relayer: `0x${string}`; // zeroAddress = submitted by a signer, no fee
+}
+
+/**
+ * Fee terms for a payment of `asset` (Note.asset) created now. Fetches the
+ * relayer's quote in relayer mode; otherwise the submitting signer pays gas
+ * and takes no fee.
+ */
+export async function paymentFeeTerms(asset: string = NATIVE_ASSET): Promise<FeeTerms> {
+  const relayer = getRelayer();
+  if (!relayer) return { fee: 0n, relayer: zeroAddress };
+
+  const info = await relayer.getInfo();
+  if (info.contract.toLowerCase() !== getContractAddress().toLowerCase()) {
+    throw new Error("Relayer serves a different BLSGun contract");
+  }
+  const fee = info.fees[asset === NATIVE_ASSET ? zeroAddress : asset.toLowerCase()];
+  if (fee === undefined) throw new Error(`Relayer does not accept ${asset} fees`);
+  return { fee, relayer: info.address as `0x${string}` };
+}
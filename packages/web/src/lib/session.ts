@@ -8,7 +8,7 @@
  * never in React state, Redux, or localStorage.
  */
 
-import type { ShareData } from "../store/treasury";
+import type { ShareData, ViewingShareData } from "../store/treasury";
 
 export interface SignerSession {
   share: ShareData;
@@ -16,6 +16,8 @@ export interface SignerSession {
   startedAt: number;
   expiresAt: number;
   viewingSecretKey: string;
+  viewingKeyShare: ViewingShareData | null; // Threshold viewing mode
+  coordinationKey: string;
 }
 
 const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
@@ -32,7 +34,9 @@ export function startSession(
   share: ShareData,
   noncesRemaining: number,
   onExpire: () => void,
-  viewingSecretKey: string = ""
+  viewingSecretKey: string = "",
+  coordinationKey: string = "",
+  viewingKeyShare: ViewingShareData | null = null
 ): void {
   // Destroy any existing session first
   destroySession();
@@ -44,6 +48,8 @@ export function startSession(
     startedAt: now,
     expiresAt: now + SESSION_TIMEOUT_MS,
     viewingSecretKey,
+    viewingKeyShare,
+    coordinationKey,
   };
   _onExpireCallback = onExpire;
 
@@ -92,6 +98,13 @@ export function destroySession(): void {
     // Best-effort zeroing of the secret in memory
     _session.share.secretShare = "";
     _session.viewingSecretKey = "";
+    if (_session.viewingKeyShare) {
+      _session.viewingKeyShare.secretShare = "";
+      _session.viewingKeyShare.scanSecretKey = "";
+      _session.viewingKeyShare.nullifyingKey = "";
+      _session.viewingKeyShare = null;
+    }
+    _session.coordinationKey = "";
     _session.share = null as unknown as ShareData;
     _session = null;
   }
@@ -114,6 +127,18 @@ export function getViewingSecretKey(): string | null {
   return session?.viewingSecretKey || null;
 }
 
+/** Get this signer's threshold viewing keys from the current session, or null. */
+export function getViewingKeyShare(): ViewingShareData | null {
+  const session = getSession();
+  return session?.viewingKeyShare ?? null;
+}
+
+/** Get the group's coordination key from the current session, or null. */
+export function getCoordinationKey(): string | null {
+  const session = getSession();
+  return session?.coordinationKey || null;
+}
+
 /** Whether a session is currently active. */
 export function hasActiveSession(): boolean {
   return getSession() !== null;
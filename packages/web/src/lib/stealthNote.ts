@@ -0,0 +1,247 @@
+/**
+ * Stealth output notes.
+ *
+ * Builds a new note for a stealth meta-address: the one-time owner hash,
+ * the commitment opening (amount + derived blinding) and the metadata
+ * (ephemeral key, view tag, encrypted amount) published on-chain so the
+ * owner can find the note with their viewing key.
+ *
+ * Used for payments to a recipient and for change returned to the treasury.
+ * Each output also carries an authenticated encryption of its opening and
+ * an optional memo (SDK encryptNote).
+ *
+ * Also encodes and parses the meta-address string shared with senders, which
+ * carries the recipient's nullifier key commitment (NK) next to its keys.
+ *
+ * The treasury's meta-address changes every epoch (calendar quarter): its
+ * viewing key is the epoch key derived from the session's master viewing
+ * key, so auditors can be given individual quarters. Its NK stays the same.
+ *
+ * In threshold viewing mode no session holds the viewing key: the
+ * meta-address carries the shared viewing public key and the scan key
+ * instead, with no epochs, and outputs get no outgoing ciphertext.
+ */
+
+import {
+  createStealthMetaAddress,
+  createStealthNote,
+  deriveEpochViewingKey,
+  deriveNullifyingKey,
+  deriveOutgoingViewingKey,
+  computeNullifierKeyCommitment,
+  viewingKeyEpoch,
+} from "@blsgun/sdk/stealth";
+import { encryptStealthNote } from "@blsgun/sdk/note-encryption";
+import { encodeAuditorCredential, issueAuditorCredential } from "@blsgun/sdk/audit";
+import { assetId, computeCommitment } from "@blsgun/sdk/transaction";
+import { Fp, G, GRUMPKIN_BASE_FIELD_ORDER, scalarMul, toAffine } from "@blsgun/sdk/grumpkin";
+import type { GrumpkinPoint, StealthMetaAddress } from "@blsgun/sdk/types";
+import type { CurvePoint } from "../store/treasury";
+import { getViewingKeyShare, getViewingSecretKey } from "./session";
+
+export interface StealthOutput {
+  owner: bigint;
+  amount: bigint;
+  blinding: bigint;
+  commitment: bigint;
+  ephPubKey: GrumpkinPoint;
+  viewTag: number;
+  encryptedAmount: bigint;
+  encryptedNote: string; // Authenticated ciphertext of the opening and memo
+  ephemeralSecretKey: bigint; // Kept until proving: the circuit re-derives the ciphertext from it
+}
+
+/**
+ * Create a note of `amount` owned by a fresh stealth address of `meta`, with
+ * `memo` (up to 64 bytes) encrypted for its recipient and, given the
+ * treasury's outgoing viewing key, back to the treasury. Call initHash() first.
+ */
+export function createStealthOutput(
+  meta: StealthMetaAddress,
+  asset: string,
+  amount: bigint,
+  memo = "",
+  outgoingViewingKey?: bigint
+): StealthOutput {
+  const note = createStealthNote(meta, asset, amount);
+  const { ephemeralPublicKey, viewTag, encryptedAmount } = note.ciphertext;
+
+  return {
+    owner: note.owner,
+    amount,
+    blinding: note.blinding,
+    commitment: computeCommitment(note.owner, amount, note.blinding, assetId(asset)),
+    ephPubKey: ephemeralPublicKey,
+    viewTag: Number(viewTag),
+    encryptedAmount,
+    encryptedNote: encryptStealthNote(note, memo, outgoingViewingKey),
+    ephemeralSecretKey: note.ephemeralSecretKey,
+  };
+}
+
+/** The session's master viewing key */
+function masterViewingKey(purpose: string): bigint {
+  const viewingSecretKey = getViewingSecretKey();
+  if (!viewingSecretKey) throw new Error(`No viewing key in session — cannot derive the ${purpose}`);
+  return BigInt(viewingSecretKey);
+}
+
+/** Whether the group's viewing key is threshold-shared (no master viewing key in any session) */
+export function isThresholdViewing(): boolean {
+  return getViewingKeyShare() !== null;
+}
+
+/** Throw in threshold viewing mode, which has no key derived from the master viewing key */
+function requireMasterViewingKey(purpose: string): void {
+  if (isThresholdViewing()) {
+    throw new Error(`The viewing key is threshold-shared — there is no ${purpose}`);
+  }
+}
+
+/** The current viewing-key epoch (calendar quarter, UTC) */
+export function currentViewingKeyEpoch(): number {
+  return viewingKeyEpoch(Date.now());
+}
+
+/**
+ * The treasury's nullifying key: derived from the session's master viewing
+ * key, or held as is in threshold viewing mode
+ */
+export function treasuryNullifyingKey(): bigint {
+  const viewingKeyShare = getViewingKeyShare();
+  if (viewingKeyShare) return BigInt(viewingKeyShare.nullifyingKey);
+  return deriveNullifyingKey(masterViewingKey("nullifying key"));
+}
+
+/** The treasury's viewing key for `epoch` */
+export function treasuryEpochViewingKey(epoch: number): bigint {
+  requireMasterViewingKey("epoch viewing key");
+  return deriveEpochViewingKey(masterViewingKey("epoch viewing key"), epoch);
+}
+
+/**
+ * The treasury's outgoing viewing key for `epoch` (default: the current one),
+ * or undefined in threshold viewing mode
+ */
+export function treasuryOutgoingViewingKey(epoch = currentViewingKeyEpoch()): bigint | undefined {
+  if (isThresholdViewing()) return undefined;
+  return deriveOutgoingViewingKey(treasuryEpochViewingKey(epoch));
+}
+
+/**
+ * Auditor credential (JSON) with the treasury's viewing keys for epochs
+ * [fromEpoch, toEpoch]. It never contains the master viewing key.
+ */
+export function treasuryAuditorCredential(fromEpoch: number, toEpoch: number): string {
+  requireMasterViewingKey("auditor credential");
+  return encodeAuditorCredential(
+    issueAuditorCredential(masterViewingKey("auditor credential"), fromEpoch, toEpoch)
+  );
+}
+
+/**
+ * The treasury's stealth meta-address for `epoch` (group key spends, the
+ * epoch viewing key scans, NK from the session's master viewing key).
+ * In threshold viewing mode it is the same for every epoch. Call initHash() first.
+ */
+export function treasuryMetaAddress(
+  groupPublicKey: CurvePoint,
+  epoch = currentViewingKeyEpoch()
+): StealthMetaAddress {
+  const spendingPublicKey = { x: BigInt(groupPublicKey.x), y: BigInt(groupPublicKey.y) };
+  const viewingKeyShare = getViewingKeyShare();
+  if (viewingKeyShare) {
+    const { viewingPublicKey, scanSecretKey, nullifyingKey } = viewingKeyShare;
+    return createStealthMetaAddress(
+      spendingPublicKey,
+      { x: BigInt(viewingPublicKey.x), y: BigInt(viewingPublicKey.y) },
+      computeNullifierKeyCommitment(BigInt(nullifyingKey)),
+      toAffine(scalarMul(G, BigInt(scanSecretKey)))
+    );
+  }
+  return {
+    spendingPublicKey,
+    viewingPublicKey: toAffine(scalarMul(G, treasuryEpochViewingKey(epoch))),
+    nullifierKeyCommitment: computeNullifierKeyCommitment(treasuryNullifyingKey()),
+  };
+}
+
+// ─── Meta-Address Encoding ────────────────────────────────────────────────────
+
+const GRUMPKIN_B = GRUMPKIN_BASE_FIELD_ORDER - 17n;
+
+const pad = (v: bigint) => v.toString(16).padStart(64, "0");
+const word = (hex: string, i: number) => BigInt("0x" + hex.slice(i * 64, (i + 1) * 64));
+
+/** Decompress a Grumpkin point from x + y-is-odd flag */
+function decompressPoint(x: bigint, yOdd: boolean): GrumpkinPoint {
+  // y² = x³ - 17 (mod p)
+  const y2 = Fp.add(Fp.pow(x, 3n), GRUMPKIN_B);
+  let y = Fp.sqrt(y2);
+  if (y === undefined) throw new Error("Invalid point: not on curve");
+  // Pick the y with matching parity
+  if ((y % 2n === 1n) !== yOdd) y = Fp.neg(y);
+  return { x, y };
+}
+
+/**
+ * Compressed meta-address: 0x + flags(2) + spendX(64) + viewX(64) + NK(64) = 196 chars.
+ * flags byte: bit 0 = spend y is odd, bit 1 = view y is odd
+ *
+ * A recipient with a threshold-shared viewing key also has a scan key:
+ * + scanX(64) = 260 chars, with flags bit 2 = scan y is odd.
+ */
+export function encodeMetaAddress(meta: StealthMetaAddress): string {
+  const { scanPublicKey } = meta;
+  const flags =
+    Number(meta.spendingPublicKey.y % 2n) |
+    (Number(meta.viewingPublicKey.y % 2n) << 1) |
+    (scanPublicKey ? Number(scanPublicKey.y % 2n) << 2 : 0);
+  return (
+    "0x" +
+    flags.toString(16).padStart(2, "0") +
+    pad(meta.spendingPublicKey.x) +
+    pad(meta.viewingPublicKey.x) +
+    pad(meta.nullifierKeyCommitment) +
+    (scanPublicKey ? pad(scanPublicKey.x) : "")
+  );
+}
+
+/**
+ * Parse a meta-address: compressed (196 chars, or 260 with a scan key), uncompressed
+ * (0x + spendX + spendY + viewX + viewY + NK = 322 chars) or JSON.
+ */
+export function decodeMetaAddress(input: string): StealthMetaAddress {
+  const trimmed = input.trim();
+  if (trimmed.startsWith("0x") && (trimmed.length === 132 || trimmed.length === 258)) {
+    throw new Error("This address predates nullifying keys. Ask the recipient for their current address.");
+  }
+  if (trimmed.startsWith("0x") && (trimmed.length === 196 || trimmed.length === 260)) {
+    const flags = parseInt(trimmed.slice(2, 4), 16);
+    const hex = trimmed.slice(4);
+    return {
+      spendingPublicKey: decompressPoint(word(hex, 0), (flags & 1) === 1),
+      viewingPublicKey: decompressPoint(word(hex, 1), (flags & 2) === 2),
+      nullifierKeyCommitment: word(hex, 2),
+      ...(trimmed.length === 260 && { scanPublicKey: decompressPoint(word(hex, 3), (flags & 4) === 4) }),
+    };
+  }
+  if (trimmed.startsWith("0x") && trimmed.length === 322) {
+    const hex = trimmed.slice(2);
+    return {
+      spendingPublicKey: { x: word(hex, 0), y: word(hex, 1) },
+      viewingPublicKey: { x: word(hex, 2), y: word(hex, 3) },
+      nullifierKeyCommitment: word(hex, 4),
+    };
+  }
+  try {
+    const parsed = JSON.parse(trimmed);
+    return {
+      spendingPublicKey: { x: BigInt(parsed.spendingPublicKey.x), y: BigInt(parsed.spendingPublicKey.y) },
+      viewingPublicKey: { x: BigInt(parsed.viewingPublicKey.x), y: BigInt(parsed.viewingPublicKey.y) },
+      nullifierKeyCommitment: BigInt(parsed.nullifierKeyCommitment),
+    };
+  } catch {
+    throw new Error("Invalid address. Paste the 0x... stealth address from the recipient.");
+  }
+}
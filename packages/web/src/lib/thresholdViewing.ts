@@ -0,0 +1,163 @@
+/**
+ * Threshold viewing mode: partial ECDH values.
+ *
+ * No signer holds the viewing key, so a note is opened with partials
+ * [vsk_i]R from t signers (SDK threshold-viewing). The scan key finds the
+ * candidate notes; every signer computes its partials for them when it
+ * scans and files them here. They are kept in localStorage, so they survive
+ * across logins like pending payments, and with a coordination server they
+ * are synced to the other signers' devices (lib/coordination.ts).
+ *
+ * Each partial carries a DLEQ proof. A note is only opened from partials
+ * that verify against the signers' public viewing shares; a bad one is
+ * dropped and its signer named.
+ */
+
+import {
+  combinePartialSharedSecrets,
+  computePartialSharedSecret,
+  verifyPartialSharedSecret,
+  type PartialSharedSecret,
+} from "@blsgun/sdk/threshold-viewing";
+import type { GrumpkinPoint, ViewingKeyShare } from "@blsgun/sdk/types";
+import type { CurvePoint } from "../store/treasury";
+
+const STORAGE_KEY = "pavv:viewing-partials";
+
+/** Partials per coordination topic, to stay under the relay's envelope limit */
+const PARTIALS_PER_PAGE = 50;
+
+/** A partial [vsk_i]R and its DLEQ proof (hex) */
+export interface StoredPartial {
+  x: string;
+  y: string;
+  c: string;
+  z: string;
+}
+
+/** Some of one signer's partials, as synced through the coordination server */
+export interface ViewingPartialsPage {
+  publicShare: string; // x of the signer's [vsk_i]G, so a reshared key's partials never mix with the old ones
+  partials: Record<string, StoredPartial>; // By x of the note's ephemeral key
+}
+
+/** Public viewing share x -> ephemeral key x -> partial */
+export type ViewingPartials = Record<string, Record<string, StoredPartial>>;
+
+const keyOf = (x: bigint) => "0x" + x.toString(16);
+const HEX = /^0x[0-9a-f]{1,64}$/i;
+
+function isStoredPartial(value: unknown): value is StoredPartial {
+  const p = value as StoredPartial;
+  return !!p && [p.x, p.y, p.c, p.z].every((v) => typeof v === "string" && HEX.test(v));
+}
+
+export function loadViewingPartials(): ViewingPartials {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function saveViewingPartials(store: ViewingPartials): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Ignore storage errors (quota, private browsing, etc.)
+  }
+}
+
+/**
+ * File this signer's partials for the candidate notes that have none yet.
+ * Returns how many were added.
+ */
+export function contributeViewingPartials(share: ViewingKeyShare, candidates: GrumpkinPoint[]): number {
+  const store = loadViewingPartials();
+  const own = (store[keyOf(share.publicShare.x)] ??= {});
+  let added = 0;
+  for (const ephemeralPublicKey of candidates) {
+    const key = keyOf(ephemeralPublicKey.x);
+    if (own[key]) continue;
+    const { point, proof } = computePartialSharedSecret(share, ephemeralPublicKey);
+    own[key] = { x: keyOf(point.x), y: keyOf(point.y), c: keyOf(proof.c), z: keyOf(proof.z) };
+    added++;
+  }
+  if (added > 0) saveViewingPartials(store);
+  return added;
+}
+
+/**
+ * The ECDH secret S = [vsk]R of a candidate note, or null until partials
+ * from `threshold` signers verify.
+ *
+ * @param publicShares - [vsk_i]G by signer index - 1
+ */
+export function combineViewingPartials(
+  store: ViewingPartials,
+  ephemeralPublicKey: GrumpkinPoint,
+  publicShares: CurvePoint[],
+  threshold: number
+): GrumpkinPoint | null {
+  const shares = publicShares.map((p, i) => ({
+    index: BigInt(i + 1),
+    publicShare: { x: BigInt(p.x), y: BigInt(p.y) },
+  }));
+
+  const partials: PartialSharedSecret[] = [];
+  for (const { index, publicShare } of shares) {
+    const stored = store[keyOf(publicShare.x)]?.[keyOf(ephemeralPublicKey.x)];
+    if (!isStoredPartial(stored)) continue;
+    const partial = {
+      index,
+      point: { x: BigInt(stored.x), y: BigInt(stored.y) },
+      proof: { c: BigInt(stored.c), z: BigInt(stored.z) },
+    };
+    if (!verifyPartialSharedSecret(partial, publicShare, ephemeralPublicKey)) {
+      console.warn(`[thresholdViewing] dropped an invalid partial from signer ${index}`);
+      continue;
+    }
+    partials.push(partial);
+    if (partials.length === threshold) {
+      return combinePartialSharedSecrets(partials, ephemeralPublicKey, shares, threshold);
+    }
+  }
+  return null;
+}
+
+/** This signer's partials in pages for the coordination server */
+export function viewingPartialPages(publicShare: CurvePoint): ViewingPartialsPage[] {
+  const key = keyOf(BigInt(publicShare.x));
+  const entries = Object.entries(loadViewingPartials()[key] ?? {});
+  const pages: ViewingPartialsPage[] = [];
+  for (let i = 0; i < entries.length; i += PARTIALS_PER_PAGE) {
+    pages.push({ publicShare: key, partials: Object.fromEntries(entries.slice(i, i + PARTIALS_PER_PAGE)) });
+  }
+  return pages;
+}
+
+/**
+ * File another signer's page of partials. The latest copy of a partial
+ * wins, so a bad one is replaced when its signer republishes; malformed
+ * entries are skipped.
+ *
+ * @param ownPublicShare - This signer's [vsk_i]G: only it writes its own partials
+ */
+export function mergeViewingPartials(page: ViewingPartialsPage, ownPublicShare: CurvePoint | null): void {
+  if (typeof page?.publicShare !== "string" || !HEX.test(page.publicShare)) return;
+  if (!page.partials || typeof page.partials !== "object") return;
+  const slotKey = keyOf(BigInt(page.publicShare));
+  if (ownPublicShare && slotKey === keyOf(BigInt(ownPublicShare.x))) return;
+  const store = loadViewingPartials();
+  const slot = (store[slotKey] ??= {});
+  let changed = false;
+  for (const [key, partial] of Object.entries(page.partials)) {
+    if (!HEX.test(key) || !isStoredPartial(partial)) continue;
+    const { x, y, c, z } = partial;
+    slot[keyOf(BigInt(key))] = { x, y, c, z };
+    changed = true;
+  }
+  if (changed) saveViewingPartials(store);
+}
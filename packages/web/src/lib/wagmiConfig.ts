@@ -15,6 +15,14 @@ export const confluxESpaceTestnet = defineChain({
   blockExplorers: {
     default: { name: "ConfluxScan", url: "https://evmtestnet.confluxscan.org" },
   },
+  contracts: {
+    // Batches the scanner's nullifier checks; absent on a local node, where
+    // the scanner falls back to single reads
+    multicall3: {
+      address: "0xEFf0078910f638cd81996cc117bccD3eDf2B072F",
+      blockCreated: 117499050,
+    },
+  },
   testnet: true,
 });
 
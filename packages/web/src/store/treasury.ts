@@ -17,6 +17,9 @@ export interface GroupConfig {
   roles: string[];
   mode?: "TSS" | "HTSS";
   signerRanks?: number[];
+  publicShares?: CurvePoint[]; // PK_i by signer index - 1, to attribute bad partial signatures
+  identityKeys?: CurvePoint[]; // Identity public key by signer index - 1, to authenticate signer messages
+  viewingPublicShares?: CurvePoint[]; // Threshold viewing mode: [vsk_i]G by signer index - 1, to check partial ECDH values
 }
 
 export interface CurvePoint {
@@ -24,6 +27,13 @@ export interface CurvePoint {
   y: string;
 }
 
+/** A signer's identity signature (R, s) over a commitment or partial it published */
+export interface SignerAuth {
+  Rx: string;
+  Ry: string;
+  s: string;
+}
+
 export interface ShareData {
   index: number;
   role: SignerRole;
@@ -32,6 +42,17 @@ export interface ShareData {
   rank?: number;
 }
 
+/**
+ * A signer's keys in threshold viewing mode, where no one holds the viewing
+ * secret key: t signers' partials open a note (lib/thresholdViewing.ts).
+ */
+export interface ViewingShareData {
+  secretShare: string; // vsk_i at the signer's share index ("" for the dealer's session)
+  scanSecretKey: string; // Finds candidate notes by their scan tag, cannot open them
+  nullifyingKey: string; // nk, which cannot be derived from a share
+  viewingPublicKey: CurvePoint; // [vsk]G of the treasury's meta-address
+}
+
 export interface KeyCeremonyData {
   groupPublicKey: CurvePoint;
   viewingPublicKey: CurvePoint;
@@ -53,6 +74,7 @@ export interface Signer {
 }
 
 export interface SigningData {
+  asset?: string; // Note.asset of every note spent and created: "CFX" or token address (absent = CFX)
   // Input note (serialized as hex strings)
   inputCommitment: string;
   inputAmount: string;
@@ -62,22 +84,32 @@ export interface SigningData {
   inputStealthPubKeyX: string;
   inputStealthPubKeyY: string;
   inputSpendingKeyHash: string;
-  // Output (send only)
+  // Output note: recipient note (send) or change returned to the treasury (withdraw)
   outputCommitment?: string;
+  outputOwner?: string;
+  outputAmount?: string;
+  outputBlinding?: string;
   outputEphPubKeyX?: string;
   outputEphPubKeyY?: string;
   outputViewTag?: number;
   outputEncryptedAmount?: string;
+  outputEncryptedNote?: string; // Note opening + memo for the recipient (encryptNote)
+  outputRecipient?: string; // Encoded stealth meta-address the output is for
+  outputEphemeralSecret?: string; // Lets the prover re-derive the ciphertext in-circuit
   // Withdraw target
   withdrawRecipient?: string;
   withdrawAmountWei?: string;
+  // Signed transaction parameters (bound into the FROST message)
+  fee: string;
+  relayer?: string; // Address allowed to submit and collect the fee (absent = anyone)
+  deadline: string;
   // FROST session
   message: string;
   nullifier: string;
   // Nonce commitments per signer index (stringified bigints)
-  nonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string }>;
+  nonceCommitments: Record<string, { Dx: string; Dy: string; Ex: string; Ey: string; auth?: SignerAuth }>;
   // Partial signatures per signer index
-  partialSignatures: Record<string, { z_i: string; Rx: string; Ry: string }>;
+  partialSignatures: Record<string, { z_i: string; Rx: string; Ry: string; auth?: SignerAuth }>;
 }
 
 export type ProvingStep = "aggregating" | "proving" | "submitting" | "confirming";
@@ -93,6 +125,7 @@ export interface PendingPayment {
   id: string;
   recipient: string;
   amount: string;
+  symbol?: string; // Unit of amount (absent = CFX)
   memo: string;
   createdBy: SignerRole;
   createdAt: number;
@@ -102,6 +135,8 @@ export interface PendingPayment {
   provingStep?: ProvingStep;
   txType?: "send" | "withdraw";
   signingData?: SigningData;
+  excludedSigners?: number[]; // Signer indices whose partial signature failed verification
+  signingRound?: number; // Bumped whenever signatures are reset, so stale copies lose a merge
 }
 
 export interface TreasuryState {
@@ -155,10 +190,13 @@ export type TreasuryAction =
     }
   | { type: "LOGOUT" }
   | { type: "SET_SESSION_EXPIRY"; expiresAt: number }
-  | { type: "ADD_NONCE_COMMITMENT"; paymentId: string; signerIndex: string; Dx: string; Dy: string; Ex: string; Ey: string }
-  | { type: "ADD_PARTIAL_SIG"; paymentId: string; signerIndex: string; z_i: string; Rx: string; Ry: string }
+  | { type: "ADD_NONCE_COMMITMENT"; paymentId: string; signerIndex: string; Dx: string; Dy: string; Ex: string; Ey: string; auth?: SignerAuth }
+  | { type: "ADD_PARTIAL_SIG"; paymentId: string; signerIndex: string; z_i: string; Rx: string; Ry: string; auth?: SignerAuth }
   | { type: "RESTORE_PAYMENTS"; payments: PendingPayment[] }
-  | { type: "RESET_SIGNATURES"; paymentId: string };
+  | { type: "RESET_SIGNATURES"; paymentId: string }
+  | { type: "EXCLUDE_SIGNERS"; paymentId: string; signerIndices: number[] }
+  | { type: "MERGE_PAYMENT"; payment: PendingPayment }
+  | { type: "SET_IDENTITY_KEYS"; identityKeys: CurvePoint[] };
 
 export function treasuryReducer(
   state: TreasuryState,
@@ -261,6 +299,7 @@ export function treasuryReducer(
                   Dy: action.Dy,
                   Ex: action.Ex,
                   Ey: action.Ey,
+                  auth: action.auth,
                 },
               },
             },
@@ -283,6 +322,7 @@ export function treasuryReducer(
                   z_i: action.z_i,
                   Rx: action.Rx,
                   Ry: action.Ry,
+                  auth: action.auth,
                 },
               },
             },
@@ -334,6 +374,7 @@ export function treasuryReducer(
             status: "pending" as const,
             provingStep: undefined,
             signatures: [],
+            signingRound: (p.signingRound ?? 0) + 1,
             signingData: {
               ...p.signingData,
               nonceCommitments: {},
@@ -343,9 +384,58 @@ export function treasuryReducer(
         }),
       };
 
+    case "EXCLUDE_SIGNERS":
+      return {
+        ...state,
+        pendingPayments: state.pendingPayments.map((p) => {
+          if (p.id !== action.paymentId || !p.signingData) return p;
+          const excluded = [...new Set([...(p.excludedSigners ?? []), ...action.signerIndices])];
+          return {
+            ...p,
+            status: "pending" as const,
+            provingStep: undefined,
+            signatures: [],
+            excludedSigners: excluded,
+            signingRound: (p.signingRound ?? 0) + 1,
+            signingData: {
+              ...p.signingData,
+              nonceCommitments: {},
+              partialSignatures: {},
+            },
+          };
+        }),
+        recentActivity: [
+          {
+            id: crypto.randomUUID(),
+            type: "sign" as const,
+            description: `Signer ${action.signerIndices.join(", ")} excluded: invalid partial signature`,
+            timestamp: Date.now(),
+            status: "failed" as const,
+          },
+          ...state.recentActivity,
+        ],
+      };
+
+    case "MERGE_PAYMENT": {
+      const local = state.pendingPayments.find((p) => p.id === action.payment.id);
+      if (!local) {
+        return { ...state, pendingPayments: [action.payment, ...state.pendingPayments] };
+      }
+      const merged = mergePendingPayment(local, action.payment);
+      if (JSON.stringify(merged) === JSON.stringify(local)) return state;
+      return {
+        ...state,
+        pendingPayments: state.pendingPayments.map((p) => (p.id === merged.id ? merged : p)),
+      };
+    }
+
     case "RESTORE_PAYMENTS":
       return { ...state, pendingPayments: action.payments };
 
+    case "SET_IDENTITY_KEYS":
+      if (!state.groupConfig) return state;
+      return { ...state, groupConfig: { ...state.groupConfig, identityKeys: action.identityKeys } };
+
     case "LOGOUT":
       return {
         ...initialState,
@@ -362,6 +452,54 @@ export function treasuryReducer(
   }
 }
 
+// ─── Merging copies of a payment from other devices ─────────────────────────
+
+const STATUS_ORDER: PendingPayment["status"][] = ["pending", "signing", "proving", "submitted", "confirmed"];
+
+/**
+ * Combine two copies of a payment (this device's and one relayed by the
+ * coordination server). A copy from a later signing round replaces the
+ * other outright; within a round, nonce commitments, partial signatures
+ * and approvals are unioned and the further status wins. If signers
+ * committed concurrently and the union has more nonce commitments than the
+ * threshold, the lowest signer indices keep their slots, so every device
+ * settles on the same signing set.
+ */
+export function mergePendingPayment(local: PendingPayment, remote: PendingPayment): PendingPayment {
+  const localRound = local.signingRound ?? 0;
+  const remoteRound = remote.signingRound ?? 0;
+  if (remoteRound > localRound) return remote;
+  if (remoteRound < localRound) return local;
+
+  const further = STATUS_ORDER.indexOf(remote.status) > STATUS_ORDER.indexOf(local.status) ? remote : local;
+  const merged: PendingPayment = {
+    ...local,
+    status: further.status,
+    provingStep: further.provingStep,
+    signatures: [...new Set([...local.signatures, ...remote.signatures])],
+  };
+  const excluded = [...new Set([...(local.excludedSigners ?? []), ...(remote.excludedSigners ?? [])])];
+  if (excluded.length > 0) merged.excludedSigners = excluded;
+
+  if (local.signingData && remote.signingData) {
+    const nonceCommitments = { ...local.signingData.nonceCommitments, ...remote.signingData.nonceCommitments };
+    const partialSignatures = { ...local.signingData.partialSignatures, ...remote.signingData.partialSignatures };
+    const slots = Object.keys(nonceCommitments)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .slice(0, local.requiredSignatures)
+      .map(String);
+    for (const idx of Object.keys(nonceCommitments)) {
+      if (!slots.includes(idx)) {
+        delete nonceCommitments[idx];
+        delete partialSignatures[idx];
+      }
+    }
+    merged.signingData = { ...local.signingData, nonceCommitments, partialSignatures };
+  }
+  return merged;
+}
+
 // ─── localStorage persistence for pending payments ───────────────────────────
 
 const PAYMENTS_STORAGE_KEY = "blsgun_pending_payments";